@@ -0,0 +1,40 @@
+// Puts MediaPipe's face landmarker model in public/models so the virtual
+// try-on and PD tool load it from this site. The model is not in the npm
+// package; it is downloaded once from its pinned release and kept between
+// builds.
+//
+//   node scripts/fetch-face-model.mjs             fail when it can't be fetched (builds)
+//   node scripts/fetch-face-model.mjs --optional  warn instead (dev server)
+
+import { existsSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const MODEL_URL =
+  "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task";
+const MODEL_PATH = resolve(dirname(fileURLToPath(import.meta.url)), "../public/models/face_landmarker.task");
+
+const optional = process.argv.includes("--optional");
+
+if (existsSync(MODEL_PATH)) process.exit(0);
+
+try {
+  const response = await fetch(MODEL_URL);
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  const model = Buffer.from(await response.arrayBuffer());
+
+  // Write next to the target first so an interrupted download never looks complete
+  await mkdir(dirname(MODEL_PATH), { recursive: true });
+  await writeFile(`${MODEL_PATH}.download`, model);
+  await rename(`${MODEL_PATH}.download`, MODEL_PATH);
+  console.log(`Fetched the face landmarker model (${(model.length / 1024 / 1024).toFixed(1)} MB)`);
+} catch (error) {
+  const message = `Couldn't fetch the face landmarker model from ${MODEL_URL}: ${error.message}
+Download it to public/models/face_landmarker.task; virtual try-on and PD measuring need it.`;
+  if (!optional) {
+    console.error(message);
+    process.exit(1);
+  }
+  console.warn(message);
+}
@@ -0,0 +1,129 @@
+// One-off: move prescriptions uploaded before the private bucket existed.
+//
+// They sit in the public product-images bucket under prescriptions/ and cart
+// and order lines hold their full public URL. Each file is copied into the
+// private prescriptions bucket, under the customer's folder when a cart or
+// order line ties it to one and under legacy/ otherwise (staff can still see
+// those), the lines are rewritten to the new path, and the public copy is
+// deleted. Safe to run again: files already copied are reused.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... node scripts/move-legacy-prescriptions.mjs
+
+import { createClient } from "@supabase/supabase-js";
+
+const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = process.env;
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error("Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY");
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+const PUBLIC_BUCKET = "product-images";
+const PRIVATE_BUCKET = "prescriptions";
+const LEGACY_FOLDER = "prescriptions";
+const LEGACY_URL_PATTERN = `%/${PUBLIC_BUCKET}/${LEGACY_FOLDER}/%`;
+const PAGE_SIZE = 1000;
+
+// The file name from a stored public URL, whichever project it was made for
+const legacyFileName = (url) => decodeURIComponent(url.split(`/${PUBLIC_BUCKET}/${LEGACY_FOLDER}/`)[1] ?? "").split("?")[0];
+
+const check = ({ data, error }, action) => {
+  if (error) throw new Error(`${action}: ${error.message}`);
+  return data;
+};
+
+async function listLegacyFiles() {
+  const names = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = check(
+      await supabase.storage.from(PUBLIC_BUCKET).list(LEGACY_FOLDER, { limit: PAGE_SIZE, offset }),
+      "Listing legacy prescriptions"
+    );
+    names.push(...page.filter((file) => file.id).map((file) => file.name));
+    if (page.length < PAGE_SIZE) return names;
+  }
+}
+
+// Which customer each legacy file belongs to, from the lines that use it
+async function legacyOwners() {
+  const cartLines = check(
+    await supabase.from("cart_items").select("prescription_image_url, user_id").like("prescription_image_url", LEGACY_URL_PATTERN),
+    "Loading cart lines"
+  );
+  const orderLines = check(
+    await supabase
+      .from("order_items")
+      .select("prescription_image_url, orders(user_id)")
+      .like("prescription_image_url", LEGACY_URL_PATTERN),
+    "Loading order lines"
+  );
+
+  const owners = new Map();
+  [
+    ...cartLines.map((line) => [line.prescription_image_url, line.user_id]),
+    ...orderLines.map((line) => [line.prescription_image_url, line.orders?.user_id]),
+  ].forEach(([url, userId]) => {
+    const name = legacyFileName(url);
+    if (name && userId && !owners.has(name)) owners.set(name, userId);
+  });
+  return owners;
+}
+
+async function moveFile(name, folder) {
+  const oldPath = `${LEGACY_FOLDER}/${name}`;
+  const newPath = `${folder}/${name}`;
+
+  const file = check(await supabase.storage.from(PUBLIC_BUCKET).download(oldPath), `Downloading ${oldPath}`);
+  const { error: uploadError } = await supabase.storage
+    .from(PRIVATE_BUCKET)
+    .upload(newPath, file, { contentType: file.type || undefined });
+  if (uploadError && !/already exists/i.test(uploadError.message)) {
+    throw new Error(`Uploading ${newPath}: ${uploadError.message}`);
+  }
+
+  for (const table of ["cart_items", "order_items"]) {
+    check(
+      await supabase
+        .from(table)
+        .update({ prescription_image_url: newPath })
+        .like("prescription_image_url", `%/${PUBLIC_BUCKET}/${LEGACY_FOLDER}/${name}`),
+      `Updating ${table} for ${name}`
+    );
+  }
+
+  check(await supabase.storage.from(PUBLIC_BUCKET).remove([oldPath]), `Removing ${oldPath}`);
+  return newPath;
+}
+
+const names = await listLegacyFiles();
+const owners = await legacyOwners();
+console.log(`Moving ${names.length} legacy prescription file(s)`);
+
+let failed = 0;
+for (const name of names) {
+  try {
+    const newPath = await moveFile(name, owners.get(name) ?? "legacy");
+    console.log(`  ${LEGACY_FOLDER}/${name} -> ${PRIVATE_BUCKET}/${newPath}`);
+  } catch (error) {
+    failed++;
+    console.error(`  ${error.message}`);
+  }
+}
+
+// Lines whose file was already gone from the public bucket can't be moved
+const orphaned = [];
+for (const table of ["cart_items", "order_items"]) {
+  const lines = check(
+    await supabase.from(table).select("id").like("prescription_image_url", LEGACY_URL_PATTERN),
+    `Checking ${table}`
+  );
+  orphaned.push(...lines.map((line) => `${table} ${line.id}`));
+}
+if (orphaned.length) {
+  console.warn(`${orphaned.length} line(s) still point at a missing public file:\n  ${orphaned.join("\n  ")}`);
+}
+
+process.exit(failed ? 1 : 0);
@@ -3,6 +3,7 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import type { ReactNode } from "react";
 import { CartProvider } from "@/contexts/CartContext";
 import { WishlistProvider } from "@/contexts/WishlistContext";
 import Index from "./pages/Index";
@@ -13,7 +14,13 @@ import Cart from "./pages/Cart";
 import Wishlist from "./pages/Wishlist";
 import Checkout from "./pages/Checkout";
 import OrderConfirmation from "./pages/OrderConfirmation";
+import TrackOrder from "./pages/TrackOrder";
+import PaymentResult from "./pages/PaymentResult";
+import PaymentSandbox from "./pages/PaymentSandbox";
 import Account from "./pages/Account";
+import RequireRole from "@/components/RequireRole";
+import AdminLayout from "@/components/AdminLayout";
+import { STAFF_ROLES, type AppPermission } from "@/lib/roles";
 import Dashboard from "./pages/admin/Dashboard";
 import Products from "./pages/admin/Products";
 import ProductVariants from "./pages/admin/ProductVariants";
@@ -21,9 +28,13 @@ import Orders from "./pages/admin/Orders";
 import Customers from "./pages/admin/Customers";
 import Analytics from "./pages/admin/Analytics";
 import LensTypes from "./pages/admin/LensTypes";
+import LensOptions from "./pages/admin/LensOptions";
 import Categories from "./pages/admin/Categories";
 import Pages from "./pages/admin/Pages";
 import Settings from "./pages/admin/Settings";
+import Staff from "./pages/admin/Staff";
+import Audit from "./pages/admin/Audit";
+import Returns from "./pages/admin/Returns";
 import ContactUs from "./pages/ContactUs";
 import ShippingPolicy from "./pages/ShippingPolicy";
 import ReturnsExchanges from "./pages/ReturnsExchanges";
@@ -35,6 +46,13 @@ import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
+/** Admin screens are reachable only with the permission they need; others go back to the dashboard. */
+const staffOnly = (permission: AppPermission, screen: ReactNode) => (
+  <RequireRole permission={permission} redirectTo="/admin">
+    {screen}
+  </RequireRole>
+);
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <CartProvider>
@@ -47,12 +65,17 @@ const App = () => (
               <Route path="/" element={<Index />} />
               <Route path="/shop" element={<Shop />} />
               <Route path="/shop/:category" element={<Shop />} />
+              <Route path="/search" element={<Shop />} />
               <Route path="/product/:slug" element={<ProductDetail />} />
               <Route path="/auth" element={<Auth />} />
               <Route path="/cart" element={<Cart />} />
               <Route path="/wishlist" element={<Wishlist />} />
               <Route path="/checkout" element={<Checkout />} />
               <Route path="/order-confirmation/:orderId" element={<OrderConfirmation />} />
+              <Route path="/guest-order/:token" element={<OrderConfirmation />} />
+              <Route path="/track-order" element={<TrackOrder />} />
+              <Route path="/payment/result/:paymentId" element={<PaymentResult />} />
+              <Route path="/payment/sandbox" element={<PaymentSandbox />} />
               <Route path="/account" element={<Account />} />
               
               {/* Public Pages */}
@@ -65,16 +88,43 @@ const App = () => (
               <Route path="/about-us" element={<AboutUs />} />
               
               {/* Admin Routes */}
-              <Route path="/admin" element={<Dashboard />} />
-              <Route path="/admin/products" element={<Products />} />
-              <Route path="/admin/products/:productId/variants" element={<ProductVariants />} />
-              <Route path="/admin/categories" element={<Categories />} />
-              <Route path="/admin/orders" element={<Orders />} />
-              <Route path="/admin/customers" element={<Customers />} />
-              <Route path="/admin/analytics" element={<Analytics />} />
-              <Route path="/admin/lens-types" element={<LensTypes />} />
-              <Route path="/admin/pages" element={<Pages />} />
-              <Route path="/admin/settings" element={<Settings />} />
+              <Route
+                path="/admin"
+                element={
+                  <RequireRole role={STAFF_ROLES}>
+                    <AdminLayout />
+                  </RequireRole>
+                }
+              >
+                <Route index element={<Dashboard />} />
+                <Route path="products" element={staffOnly("manage_products", <Products />)} />
+                <Route path="products/:productId/variants" element={staffOnly("manage_products", <ProductVariants />)} />
+                <Route path="categories" element={staffOnly("manage_products", <Categories />)} />
+                <Route path="lens-types" element={staffOnly("manage_products", <LensTypes />)} />
+                <Route path="lens-options" element={staffOnly("manage_products", <LensOptions />)} />
+                <Route path="orders" element={staffOnly("manage_orders", <Orders />)} />
+                <Route path="returns" element={staffOnly("manage_orders", <Returns />)} />
+                <Route path="analytics" element={staffOnly("manage_orders", <Analytics />)} />
+                <Route path="customers" element={staffOnly("view_customers", <Customers />)} />
+                <Route path="pages" element={staffOnly("edit_pages", <Pages />)} />
+                <Route path="settings" element={staffOnly("change_settings", <Settings />)} />
+                <Route
+                  path="staff"
+                  element={
+                    <RequireRole role="admin" redirectTo="/admin">
+                      <Staff />
+                    </RequireRole>
+                  }
+                />
+                <Route
+                  path="audit"
+                  element={
+                    <RequireRole role="admin" redirectTo="/admin">
+                      <Audit />
+                    </RequireRole>
+                  }
+                />
+              </Route>
               
               <Route path="*" element={<NotFound />} />
             </Routes>
@@ -0,0 +1,163 @@
+import { Link, Outlet, useLocation } from "react-router-dom";
+import {
+  ArrowLeft,
+  BarChart3,
+  FileClock,
+  FileText,
+  FolderTree,
+  Glasses,
+  LayoutDashboard,
+  Layers,
+  Package,
+  Settings,
+  ShieldCheck,
+  ShoppingCart,
+  Undo2,
+  Users,
+  type LucideIcon,
+} from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInset,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { Separator } from "@/components/ui/separator";
+import { NavLink } from "@/components/NavLink";
+import { usePermissions } from "@/hooks/use-permissions";
+import type { AppPermission } from "@/lib/roles";
+
+interface AdminNavItem {
+  title: string;
+  to: string;
+  icon: LucideIcon;
+  /** Hidden unless the user holds this permission. */
+  permission?: AppPermission;
+  /** Hidden from everyone but admins. */
+  adminOnly?: boolean;
+  /** Only highlight on an exact match (the dashboard would otherwise match every admin route). */
+  end?: boolean;
+}
+
+const NAV_GROUPS: { label: string; items: AdminNavItem[] }[] = [
+  {
+    label: "Overview",
+    items: [
+      { title: "Dashboard", to: "/admin", icon: LayoutDashboard, end: true },
+      { title: "Analytics", to: "/admin/analytics", icon: BarChart3, permission: "manage_orders" },
+    ],
+  },
+  {
+    label: "Catalog",
+    items: [
+      { title: "Products", to: "/admin/products", icon: Package, permission: "manage_products" },
+      { title: "Categories", to: "/admin/categories", icon: FolderTree, permission: "manage_products" },
+      { title: "Lens Types", to: "/admin/lens-types", icon: Glasses, permission: "manage_products" },
+      { title: "Lens Options", to: "/admin/lens-options", icon: Layers, permission: "manage_products" },
+    ],
+  },
+  {
+    label: "Sales",
+    items: [
+      { title: "Orders", to: "/admin/orders", icon: ShoppingCart, permission: "manage_orders" },
+      { title: "Returns", to: "/admin/returns", icon: Undo2, permission: "manage_orders" },
+      { title: "Customers", to: "/admin/customers", icon: Users, permission: "view_customers" },
+    ],
+  },
+  {
+    label: "Store",
+    items: [
+      { title: "Pages", to: "/admin/pages", icon: FileText, permission: "edit_pages" },
+      { title: "Settings", to: "/admin/settings", icon: Settings, permission: "change_settings" },
+      { title: "Staff", to: "/admin/staff", icon: ShieldCheck, adminOnly: true },
+      { title: "Audit Log", to: "/admin/audit", icon: FileClock, adminOnly: true },
+    ],
+  },
+];
+
+/** Shell for every /admin route: sidebar navigation beside the routed page. */
+const AdminLayout = () => {
+  const { pathname } = useLocation();
+  const { can, isAdmin } = usePermissions();
+
+  const navGroups = NAV_GROUPS.map((group) => ({
+    ...group,
+    items: group.items.filter(
+      (item) => (!item.permission || can(item.permission)) && (!item.adminOnly || isAdmin)
+    ),
+  })).filter((group) => group.items.length > 0);
+
+  const isActive = ({ to, end }: AdminNavItem) =>
+    end ? pathname === to : pathname === to || pathname.startsWith(`${to}/`);
+
+  const current = navGroups.flatMap((group) => group.items).find(isActive);
+
+  return (
+    <SidebarProvider>
+      <Sidebar collapsible="icon">
+        <SidebarHeader>
+          <Link to="/admin" className="px-2 py-1 text-lg font-semibold tracking-tight truncate">
+            Admin
+          </Link>
+        </SidebarHeader>
+
+        <SidebarContent>
+          {navGroups.map((group) => (
+            <SidebarGroup key={group.label}>
+              <SidebarGroupLabel>{group.label}</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  {group.items.map((item) => (
+                    <SidebarMenuItem key={item.to}>
+                      <SidebarMenuButton asChild isActive={isActive(item)} tooltip={item.title}>
+                        <NavLink to={item.to} end={item.end}>
+                          <item.icon />
+                          <span>{item.title}</span>
+                        </NavLink>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  ))}
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          ))}
+        </SidebarContent>
+
+        <SidebarFooter>
+          <SidebarMenu>
+            <SidebarMenuItem>
+              <SidebarMenuButton asChild tooltip="Back to store">
+                <Link to="/">
+                  <ArrowLeft />
+                  <span>Back to store</span>
+                </Link>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          </SidebarMenu>
+        </SidebarFooter>
+      </Sidebar>
+
+      <SidebarInset>
+        <header className="flex h-14 items-center gap-2 border-b px-4">
+          <SidebarTrigger />
+          <Separator orientation="vertical" className="h-4" />
+          <span className="text-sm font-medium">{current?.title ?? "Admin"}</span>
+        </header>
+        <div className="flex-1 p-6">
+          <Outlet />
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
+
+export default AdminLayout;
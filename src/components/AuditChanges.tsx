@@ -0,0 +1,32 @@
+import { auditChanges, formatAuditValue, type AuditEntry } from "@/lib/audit";
+
+interface AuditChangesProps {
+  entry: Pick<AuditEntry, "action" | "old_data" | "new_data">;
+}
+
+/** Field-by-field before/after view of one audit entry. */
+const AuditChanges = ({ entry }: AuditChangesProps) => {
+  const changes = auditChanges(entry);
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No field changes recorded.</p>;
+  }
+
+  return (
+    <div className="rounded-md border divide-y text-sm">
+      {changes.map(({ field, before, after }) => (
+        <div key={field} className="grid grid-cols-[140px_1fr] gap-2 p-2">
+          <span className="font-medium text-muted-foreground break-all">{field}</span>
+          <div className="space-y-0.5 min-w-0">
+            {entry.action !== "insert" && (
+              <div className="text-destructive line-through break-all">{formatAuditValue(before)}</div>
+            )}
+            {entry.action !== "delete" && <div className="break-all">{formatAuditValue(after)}</div>}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AuditChanges;
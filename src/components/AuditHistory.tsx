@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { History, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import AuditChanges from "@/components/AuditChanges";
+import { usePermissions } from "@/hooks/use-permissions";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDITED_TABLES,
+  auditRecordLabel,
+  fetchRecordHistory,
+  type AuditEntry,
+  type RelatedAuditTable,
+} from "@/lib/audit";
+
+interface AuditHistoryProps {
+  tableName: string;
+  recordId: string;
+  title: string;
+  /** Also list changes to these child rows. */
+  related?: RelatedAuditTable;
+}
+
+/** "History" button opening a drawer with every audited change to one row. Only admins see it. */
+const AuditHistory = ({ tableName, recordId, title, related }: AuditHistoryProps) => {
+  const { isAdmin } = usePermissions();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadHistory = async (open: boolean) => {
+    if (!open) return;
+
+    setLoading(true);
+    try {
+      setEntries(await fetchRecordHistory(tableName, recordId, related));
+    } catch (error) {
+      console.error("Error fetching history:", error);
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isAdmin) return null;
+
+  return (
+    <Sheet onOpenChange={loadHistory}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" title="History">
+          <History className="h-4 w-4" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>{title}</SheetDescription>
+        </SheetHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6">No changes recorded yet.</p>
+        ) : (
+          <ol className="space-y-6 py-6">
+            {entries.map((entry) => (
+              <li key={entry.id} className="space-y-2">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={entry.action === "delete" ? "destructive" : "secondary"}>
+                      {AUDIT_ACTION_LABELS[entry.action]}
+                    </Badge>
+                    {entry.table_name !== tableName && (
+                      <span className="font-medium">
+                        {AUDITED_TABLES[entry.table_name]} {auditRecordLabel(entry)}
+                      </span>
+                    )}
+                    <span>{entry.actor_email || "System"}</span>
+                  </div>
+                  <span className="text-muted-foreground">{new Date(entry.created_at).toLocaleString()}</span>
+                </div>
+                <AuditChanges entry={entry} />
+              </li>
+            ))}
+          </ol>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default AuditHistory;
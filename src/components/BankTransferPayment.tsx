@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useState } from "react";
+import { Landmark, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  canSubmitPaymentProof,
+  fetchBankDetails,
+  PAYMENT_PROOF_STATUS_LABELS,
+  paymentReceiptFolder,
+  submitPaymentProof,
+  uploadPaymentReceipt,
+  type BankDetails,
+  type PaymentProof,
+} from "@/lib/bank-transfer";
+import { fetchGuestOrder } from "@/lib/guest-orders";
+
+interface BankTransferPaymentProps {
+  /** The customer's id; null for a guest order, which is reached through guestToken instead. */
+  userId: string | null;
+  guestToken?: string;
+  order: {
+    id: string;
+    order_number: string;
+    total: number;
+    status: string | null;
+    payment_method: string;
+    payment_status: string;
+  };
+  onSubmitted: () => void;
+}
+
+/** Store bank details, sent receipts and the receipt upload form for one bank transfer order. */
+const BankTransferPayment = ({ userId, guestToken, order, onSubmitted }: BankTransferPaymentProps) => {
+  const [bankDetails, setBankDetails] = useState<BankDetails | null>(null);
+  const [proofs, setProofs] = useState<PaymentProof[]>([]);
+  const [receipt, setReceipt] = useState<File | null>(null);
+  const [transactionId, setTransactionId] = useState("");
+  const [amount, setAmount] = useState(String(order.total));
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchProofs = useCallback(async () => {
+    if (guestToken) {
+      const guestOrder = await fetchGuestOrder(guestToken).catch((error) => {
+        console.error("Error fetching payment proofs:", error);
+        return null;
+      });
+      setProofs(guestOrder?.payment_proofs || []);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("payment_proofs")
+      .select("*")
+      .eq("order_id", order.id)
+      .order("created_at", { ascending: false });
+
+    if (error) console.error("Error fetching payment proofs:", error);
+    setProofs(data || []);
+  }, [order.id, guestToken]);
+
+  useEffect(() => {
+    fetchBankDetails().then(setBankDetails);
+    fetchProofs();
+  }, [fetchProofs]);
+
+  const submit = async () => {
+    if (!receipt) {
+      toast.error("Please attach your receipt");
+      return;
+    }
+    if (!transactionId.trim()) {
+      toast.error("Please enter the transaction ID from your receipt");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const receiptPath = await uploadPaymentReceipt(paymentReceiptFolder(userId, guestToken), receipt);
+      await submitPaymentProof(order.id, receiptPath, transactionId, amount ? Number(amount) : null, guestToken);
+      toast.success(
+        guestToken
+          ? "Receipt sent. Check back on this page to see when we confirm your payment."
+          : "Receipt sent. We'll confirm your payment shortly."
+      );
+      setReceipt(null);
+      setTransactionId("");
+      await fetchProofs();
+      onSubmitted();
+    } catch (error) {
+      console.error("Error submitting receipt:", error);
+      toast.error((error as Error).message || "Failed to send receipt");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const hasDetails = bankDetails && (bankDetails.account_number || bankDetails.iban);
+
+  return (
+    <div className="space-y-4">
+      {hasDetails && (
+        <div className="rounded-md border p-4 text-sm space-y-1">
+          <p className="font-semibold flex items-center gap-2">
+            <Landmark className="h-4 w-4" />
+            Transfer Rs. {order.total.toLocaleString()} to
+          </p>
+          {bankDetails.bank_name && <p>Bank: {bankDetails.bank_name}</p>}
+          {bankDetails.account_title && <p>Account title: {bankDetails.account_title}</p>}
+          {bankDetails.account_number && <p>Account number: {bankDetails.account_number}</p>}
+          {bankDetails.iban && <p>IBAN: {bankDetails.iban}</p>}
+          <p className="text-muted-foreground">
+            {bankDetails.instructions || `Please use ${order.order_number} as the payment reference.`}
+          </p>
+        </div>
+      )}
+
+      {proofs.length > 0 && (
+        <div className="space-y-2">
+          {proofs.map((proof) => (
+            <div key={proof.id} className="rounded-md border p-3 text-sm">
+              <div className="flex justify-between items-center gap-2">
+                <p className="font-medium">
+                  Receipt {proof.transaction_id} · {new Date(proof.created_at).toLocaleDateString()}
+                </p>
+                <Badge variant={proof.status === "rejected" ? "destructive" : "secondary"}>
+                  {PAYMENT_PROOF_STATUS_LABELS[proof.status]}
+                </Badge>
+              </div>
+              {proof.review_note && <p className="text-muted-foreground">{proof.review_note}</p>}
+            </div>
+          ))}
+          {/* Guests have no account to notify, so this page is the only place the review shows up */}
+          {guestToken && (
+            <p className="text-sm text-muted-foreground">
+              Guest orders don't get notifications. Bookmark this page and check back to see when your receipt
+              has been reviewed.
+            </p>
+          )}
+        </div>
+      )}
+
+      {canSubmitPaymentProof(order, proofs) && (
+        <div className="space-y-3">
+          <p className="text-sm font-medium">Already paid? Send us your receipt</p>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div>
+              <Label htmlFor={`receipt-${order.id}`}>Receipt</Label>
+              <Input
+                id={`receipt-${order.id}`}
+                type="file"
+                accept="image/jpeg,image/png,image/webp,image/heic,application/pdf"
+                onChange={(e) => setReceipt(e.target.files?.[0] || null)}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`transaction-${order.id}`}>Transaction ID</Label>
+              <Input
+                id={`transaction-${order.id}`}
+                value={transactionId}
+                onChange={(e) => setTransactionId(e.target.value)}
+                placeholder="e.g. FT2412345678"
+              />
+            </div>
+            <div>
+              <Label htmlFor={`amount-${order.id}`}>Amount sent (Rs.)</Label>
+              <Input
+                id={`amount-${order.id}`}
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button onClick={submit} disabled={submitting}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send Receipt
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BankTransferPayment;
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { Loader2, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { cancelOrder } from "@/lib/order-status";
+
+interface CancellableItem {
+  id: string;
+  quantity: number;
+  cancelled_quantity: number;
+  unit_price: number;
+  product: { title: string } | null;
+  variant: { color: string | null; size: string | null } | null;
+}
+
+interface CancelOrderDialogProps {
+  orderId: string;
+  orderNumber: string;
+  onCancelled: () => void;
+}
+
+type CancelScope = "order" | "items";
+
+/** "Cancel Order" button and dialog, shared by the customer's account and the admin order screen. */
+const CancelOrderDialog = ({ orderId, orderNumber, onCancelled }: CancelOrderDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [items, setItems] = useState<CancellableItem[]>([]);
+  const [loadingItems, setLoadingItems] = useState(false);
+  const [scope, setScope] = useState<CancelScope>("order");
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const openDialog = async (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) return;
+
+    setScope("order");
+    setQuantities({});
+    setReason("");
+    setLoadingItems(true);
+
+    const { data, error } = await supabase
+      .from("order_items")
+      .select("id, quantity, cancelled_quantity, unit_price, product:products(title), variant:product_variants(color, size)")
+      .eq("order_id", orderId)
+      .order("created_at");
+
+    if (error) console.error("Error fetching order items:", error);
+    setItems((data || []).filter((item) => item.cancelled_quantity < item.quantity));
+    setLoadingItems(false);
+  };
+
+  // Partial cancellation only makes sense when more than one unit is still open
+  const openUnits = items.reduce((sum, item) => sum + item.quantity - item.cancelled_quantity, 0);
+
+  const handleCancel = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const lines = Object.entries(quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+
+    if (scope === "items" && lines.length === 0) {
+      toast.error("Choose at least one item to cancel");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await cancelOrder(orderId, reason.trim(), scope === "items" ? lines : undefined);
+      toast.success(scope === "items" ? "Items cancelled" : `Order ${orderNumber} cancelled`);
+      setOpen(false);
+      onCancelled();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to cancel order");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openDialog}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" className="text-destructive hover:text-destructive">
+          <XCircle className="h-4 w-4 mr-2" />
+          Cancel Order
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Cancel Order {orderNumber}</DialogTitle>
+          <DialogDescription>Cancelled items are refunded from the order total and returned to stock.</DialogDescription>
+        </DialogHeader>
+
+        {loadingItems ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <form onSubmit={handleCancel} className="space-y-4">
+            <RadioGroup value={scope} onValueChange={(value) => setScope(value as CancelScope)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="order" id="cancel-order" />
+                <Label htmlFor="cancel-order">Cancel the whole order</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="items" id="cancel-items" disabled={openUnits < 2} />
+                <Label htmlFor="cancel-items">Cancel some items</Label>
+              </div>
+            </RadioGroup>
+
+            {scope === "items" && (
+              <div className="rounded-md border divide-y">
+                {items.map((item) => {
+                  const remaining = item.quantity - item.cancelled_quantity;
+                  const details = [item.variant?.color, item.variant?.size].filter(Boolean).join(" / ");
+                  return (
+                    <div key={item.id} className="flex items-center justify-between gap-4 p-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{item.product?.title || "Item"}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {details && `${details} · `}
+                          {remaining} × Rs. {Number(item.unit_price).toLocaleString()}
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={remaining}
+                        value={quantities[item.id] ?? 0}
+                        onChange={(e) =>
+                          setQuantities({
+                            ...quantities,
+                            [item.id]: Math.min(remaining, Math.max(0, Number(e.target.value) || 0)),
+                          })
+                        }
+                        className="w-20"
+                        aria-label={`Units of ${item.product?.title || "item"} to cancel`}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="cancel-reason">Reason</Label>
+              <Textarea
+                id="cancel-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                required
+                placeholder="Why is this order being cancelled?"
+              />
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Keep Order
+              </Button>
+              <Button type="submit" variant="destructive" disabled={submitting || !reason.trim()}>
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {scope === "items" ? "Cancel Selected Items" : "Cancel Order"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelOrderDialog;
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Loader2, PhoneCall } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { confirmCodOrder } from "@/lib/cod";
+
+interface ConfirmCodOrderDialogProps {
+  orderId: string;
+  orderNumber: string;
+  customerName: string;
+  phone: string;
+  total: number;
+  onConfirmed: () => void;
+}
+
+/** "Confirm by Phone" button and dialog for COD orders awaiting confirmation. */
+const ConfirmCodOrderDialog = ({ orderId, orderNumber, customerName, phone, total, onConfirmed }: ConfirmCodOrderDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) setNote("");
+  };
+
+  const confirm = async () => {
+    setSaving(true);
+    try {
+      await confirmCodOrder(orderId, note.trim());
+      toast.success(`Order ${orderNumber} confirmed`);
+      setOpen(false);
+      onConfirmed();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to confirm order");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button>
+          <PhoneCall className="h-4 w-4 mr-2" />
+          Confirm by Phone
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Confirm Order {orderNumber}</DialogTitle>
+          <DialogDescription>
+            Call the customer to check the order and delivery address. If they can't be reached or no longer want it,
+            cancel the order instead.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="text-sm space-y-1">
+            <p className="font-semibold">{customerName}</p>
+            <a href={`tel:${phone}`} className="text-primary underline">
+              {phone}
+            </a>
+            <p>Cash to collect: Rs. {total.toLocaleString()}</p>
+          </div>
+          <div>
+            <Label htmlFor={`cod-note-${orderId}`}>Note</Label>
+            <Textarea
+              id={`cod-note-${orderId}`}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              placeholder="Optional, e.g. deliver after 5pm"
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={confirm} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Customer Confirmed
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ConfirmCodOrderDialog;
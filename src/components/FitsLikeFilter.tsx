@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  EMPTY_MEASUREMENTS,
+  FIT_TOLERANCES,
+  formatFrameSize,
+  hasMeasurements,
+  parseFrameSize,
+  type FrameMeasurements,
+} from "@/lib/frame-specs";
+
+interface FitsLikeFilterProps {
+  value: FrameMeasurements;
+  onChange: (measurements: FrameMeasurements) => void;
+}
+
+/** "Find frames like my current pair": the customer types the numbers from their temple arm. */
+const FitsLikeFilter = ({ value, onChange }: FitsLikeFilterProps) => {
+  const [text, setText] = useState(formatFrameSize(value) ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const measurements = parseFrameSize(text);
+    if (!measurements) {
+      setError("Enter the three numbers from the arm, e.g. 52-18-140");
+      return;
+    }
+    setError(null);
+    onChange(measurements);
+  };
+
+  const handleClear = () => {
+    setText("");
+    setError(null);
+    onChange(EMPTY_MEASUREMENTS);
+  };
+
+  return (
+    <div>
+      <h3 className="font-semibold mb-1">Fits Like My Pair</h3>
+      <p className="text-xs text-muted-foreground mb-3">
+        The numbers printed inside the arm of your current glasses: lens width, bridge and temple length.
+      </p>
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="52□18-140"
+          aria-label="Frame size of your current pair"
+        />
+        <Button type="submit" variant="outline">Apply</Button>
+      </form>
+      {error && <p className="text-xs text-destructive mt-2">{error}</p>}
+      {hasMeasurements(value) && (
+        <div className="flex items-center justify-between mt-2 text-xs text-muted-foreground">
+          <span>
+            Within {FIT_TOLERANCES.lensWidth} mm lens and bridge, {FIT_TOLERANCES.templeLength} mm temple
+          </span>
+          <Button type="button" variant="ghost" size="sm" className="h-6 px-2" onClick={handleClear}>
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FitsLikeFilter;
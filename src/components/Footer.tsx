@@ -72,6 +72,11 @@ const Footer = () => {
                   Contact Us
                 </Link>
               </li>
+              <li>
+                <Link to="/track-order" className="text-muted-foreground hover:text-foreground">
+                  Track Your Order
+                </Link>
+              </li>
               <li>
                 <Link to="/shipping-policy" className="text-muted-foreground hover:text-foreground">
                   Shipping Policy
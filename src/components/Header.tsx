@@ -1,15 +1,16 @@
 import { Link, useLocation } from "react-router-dom";
-import { ShoppingCart, User, Search, Menu, Heart } from "lucide-react";
+import { ShoppingCart, User, Menu, Heart } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { usePermissions } from "@/hooks/use-permissions";
 import { useSiteSettings } from "@/hooks/use-site-settings";
 import { cn } from "@/lib/utils";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useCart } from "@/contexts/CartContext";
 import { useWishlist } from "@/contexts/WishlistContext";
 import { Badge } from "@/components/ui/badge";
+import ProductSearch from "@/components/ProductSearch";
 import type { User as SupabaseUser } from "@supabase/supabase-js";
 
 interface Category {
@@ -22,18 +23,16 @@ const Header = () => {
   const location = useLocation();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [user, setUser] = useState<SupabaseUser | null>(null);
-  const [isAdmin, setIsAdmin] = useState(false);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
   const { cartCount } = useCart();
   const { wishlistItems } = useWishlist();
   const { headerLogo } = useSiteSettings();
+  const { isStaff } = usePermissions();
 
   const checkUser = useCallback(async () => {
     const { data: { user } } = await supabase.auth.getUser();
     setUser(user);
-    if (user) {
-      checkAdminRole(user.id);
-    }
   }, []);
 
   useEffect(() => {
@@ -41,15 +40,23 @@ const Header = () => {
     fetchCategories();
     const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
       setUser(session?.user ?? null);
-      if (session?.user) {
-        checkAdminRole(session.user.id);
-      } else {
-        setIsAdmin(false);
-      }
     });
     return () => subscription.unsubscribe();
   }, [checkUser]);
 
+  useEffect(() => {
+    if (!user) {
+      setUnreadCount(0);
+      return;
+    }
+    supabase
+      .from("notifications")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id)
+      .is("read_at", null)
+      .then(({ count }) => setUnreadCount(count ?? 0));
+  }, [user]);
+
   const fetchCategories = async () => {
     const { data } = await supabase
       .from("categories")
@@ -58,19 +65,9 @@ const Header = () => {
     if (data) setCategories(data);
   };
 
-  const checkAdminRole = async (userId: string) => {
-    const { data } = await supabase
-      .from("profiles")
-      .select("role")
-      .eq("id", userId)
-      .maybeSingle();
-    setIsAdmin(data?.role === "admin");
-  };
-
   const handleSignOut = async () => {
     await supabase.auth.signOut();
     setUser(null);
-    setIsAdmin(false);
   };
 
   return (
@@ -99,13 +96,7 @@ const Header = () => {
 
           {/* Desktop Search */}
           <div className="hidden md:flex flex-1 max-w-md mx-8">
-            <div className="relative w-full">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search frames, sunglasses..."
-                className="pl-10"
-              />
-            </div>
+            <ProductSearch />
           </div>
 
           {/* Actions */}
@@ -124,15 +115,22 @@ const Header = () => {
               {user ? (
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
-                    <Button variant="ghost" size="icon">
+                    <Button variant="ghost" size="icon" className="relative">
                       <User className="h-5 w-5" />
+                      {unreadCount > 0 && (
+                        <Badge className="absolute -top-1 -right-1 h-5 w-5 flex items-center justify-center p-0 text-xs">
+                          {unreadCount}
+                        </Badge>
+                      )}
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end">
                     <DropdownMenuItem asChild>
-                      <Link to="/account">My Account</Link>
+                      <Link to="/account">
+                        My Account{unreadCount > 0 && ` (${unreadCount} new)`}
+                      </Link>
                     </DropdownMenuItem>
-                    {isAdmin && (
+                    {isStaff && (
                       <DropdownMenuItem asChild>
                         <Link to="/admin">Admin Dashboard</Link>
                       </DropdownMenuItem>
@@ -193,6 +191,7 @@ const Header = () => {
         {/* Mobile Menu */}
         {isMenuOpen && (
           <nav className="md:hidden py-4 border-t border-border space-y-2">
+            <ProductSearch className="mb-2" onNavigate={() => setIsMenuOpen(false)} />
             <Link
               to="/shop"
               className={cn(
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Trash2 } from "lucide-react";
+
+export interface LensCompatibilityRule {
+  id: string;
+  product_id: string | null;
+  category_id: string | null;
+  price_override: number | null;
+}
+
+interface LensCompatibilityManagerProps {
+  lensType: {
+    id: string;
+    name: string;
+    price_adjustment: number | null;
+    lens_compatibility: LensCompatibilityRule[];
+  } | null;
+  products: { id: string; title: string }[];
+  categories: { id: string; name: string }[];
+  onOpenChange: (open: boolean) => void;
+  onChange: () => void;
+}
+
+type TargetType = "product" | "category";
+
+// Which frames (directly or through their category) can take a catalogue lens
+const LensCompatibilityManager = ({ lensType, products, categories, onOpenChange, onChange }: LensCompatibilityManagerProps) => {
+  const { toast } = useToast();
+  const [targetType, setTargetType] = useState<TargetType>("product");
+  const [targetId, setTargetId] = useState("");
+  const [priceOverride, setPriceOverride] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const rules = lensType?.lens_compatibility || [];
+  const targets = targetType === "product"
+    ? products.map(p => ({ id: p.id, label: p.title }))
+    : categories.map(c => ({ id: c.id, label: c.name }));
+  const availableTargets = targets.filter(target =>
+    !rules.some(rule => (targetType === "product" ? rule.product_id : rule.category_id) === target.id)
+  );
+
+  const getRuleLabel = (rule: LensCompatibilityRule) => rule.product_id
+    ? products.find(p => p.id === rule.product_id)?.title || "Unknown Product"
+    : categories.find(c => c.id === rule.category_id)?.name || "Unknown Category";
+
+  const handleAdd = async () => {
+    if (!lensType || !targetId) return;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from("lens_compatibility")
+      .insert({
+        lens_type_id: lensType.id,
+        product_id: targetType === "product" ? targetId : null,
+        category_id: targetType === "category" ? targetId : null,
+        price_override: priceOverride === "" ? null : Number(priceOverride),
+      });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setTargetId("");
+    setPriceOverride("");
+    onChange();
+  };
+
+  const handleRemove = async (ruleId: string) => {
+    const { error } = await supabase
+      .from("lens_compatibility")
+      .delete()
+      .eq("id", ruleId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    onChange();
+  };
+
+  return (
+    <Dialog open={!!lensType} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Compatibility: {lensType?.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              This lens is not offered on any frame yet.
+            </p>
+          ) : (
+            <div className="divide-y rounded border">
+              {rules.map((rule) => (
+                <div key={rule.id} className="flex items-center justify-between p-3">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{rule.product_id ? "Product" : "Category"}</Badge>
+                    <span className="text-sm font-medium">{getRuleLabel(rule)}</span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm text-muted-foreground">
+                      Rs. {(rule.price_override ?? lensType?.price_adjustment ?? 0).toLocaleString()}
+                      {rule.price_override === null && " (default)"}
+                    </span>
+                    <Button variant="ghost" size="icon" onClick={() => handleRemove(rule.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="border-t pt-4 space-y-3">
+            <p className="text-sm font-medium">Add compatibility</p>
+            <div className="grid grid-cols-3 gap-3">
+              <Select
+                value={targetType}
+                onValueChange={(value) => {
+                  setTargetType(value as TargetType);
+                  setTargetId("");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="product">Product</SelectItem>
+                  <SelectItem value="category">Category</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={targetId} onValueChange={setTargetId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={targetType === "product" ? "Select product" : "Select category"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableTargets.map((target) => (
+                    <SelectItem key={target.id} value={target.id}>
+                      {target.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div>
+                <Label htmlFor="price_override" className="sr-only">Price override</Label>
+                <Input
+                  id="price_override"
+                  type="number"
+                  step="0.01"
+                  value={priceOverride}
+                  onChange={(e) => setPriceOverride(e.target.value)}
+                  placeholder="Price override (Rs.)"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              A product rule takes priority over its category's rule. Leave the price empty to use the lens's default price.
+            </p>
+            <Button onClick={handleAdd} disabled={!targetId || saving}>
+              Add
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LensCompatibilityManager;
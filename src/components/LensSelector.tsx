@@ -1,13 +1,34 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Card } from "@/components/ui/card";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Upload, X, FileImage } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload, X, FileImage, ChevronLeft, ChevronRight } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import PrescriptionForm from "@/components/PrescriptionForm";
+import {
+  createEmptyPrescription,
+  isPrescriptionExpired,
+  toStoredPrescription,
+  withPrescriptionDefaults,
+  type PrescriptionData,
+} from "@/lib/prescription";
+import { validatePrescription, type LensPrescriptionRange, type LensVisionType } from "@/lib/prescription-validation";
+import { maxMeridianPower } from "@/lib/prescription-math";
+import {
+  LENS_OPTION_KIND_LABELS,
+  LENS_USAGE_DESCRIPTIONS,
+  LENS_USAGE_LABELS,
+  isLensOptionAvailable,
+  supportsPower,
+  toSelectedLensOption,
+  type LensOptionRow,
+  type LensUsage,
+  type SelectedLensOption,
+} from "@/lib/lens-options";
 
 interface LensType {
   id: string;
@@ -15,171 +36,186 @@ interface LensType {
   description?: string;
   imageUrl?: string;
   priceAdjustment: number;
+  visionType?: LensVisionType;
+  lensIndex?: number;
+  coatings?: string[];
+  prescriptionRange?: LensPrescriptionRange;
 }
 
 interface LensSelectorProps {
   lensTypes: LensType[];
+  lensOptions: LensOptionRow[];
   onLensConfigChange: (config: LensConfiguration) => void;
 }
 
 export interface LensConfiguration {
+  usage?: LensUsage;
   hasEyesight: boolean;
   lensTypeId?: string;
   prescriptionType?: 'upload' | 'manual';
   prescriptionImage?: File;
-  prescriptionData?: {
-    rightEye: EyeData;
-    leftEye: EyeData;
-    rightPrism?: PrismData;
-    leftPrism?: PrismData;
-    twoPDNumbers?: boolean;
-    addPrism?: boolean;
-  };
+  prescriptionData?: PrescriptionData;
+  savedPrescriptionId?: string;
+  /** Thickness, coatings and tint, each with its own price */
+  options: SelectedLensOption[];
+  /** Every step has a valid choice */
+  isComplete: boolean;
 }
 
-interface EyeData {
-  sph: string;
-  cyl: string;
-  axis: string;
-  add: string;
-  pd: string;
+interface SavedPrescription {
+  id: string;
+  name: string;
+  expiry_date: string | null;
+  prescription_data: PrescriptionData;
 }
 
-interface PrismData {
-  verticalPrism: string;
-  verticalBase: string;
-  horizontalPrism: string;
-  horizontalBase: string;
-}
+const STEPS = [
+  { id: 'usage', label: 'Usage' },
+  { id: 'prescription', label: 'Prescription' },
+  { id: 'lens', label: 'Lens type' },
+  { id: 'thickness', label: 'Thickness' },
+  { id: 'coatings', label: 'Coatings' },
+  { id: 'review', label: 'Review' },
+] as const;
+
+type StepId = typeof STEPS[number]['id'];
+
+const formatPrice = (price: number) => (price > 0 ? `Rs ${price.toLocaleString()}` : 'Included');
 
-const LensSelector = ({ lensTypes, onLensConfigChange }: LensSelectorProps) => {
+const optionCardClass = (selected: boolean, disabled = false) => cn(
+  "flex items-center justify-between gap-3 p-4 border-2 rounded-lg transition-all",
+  disabled ? "opacity-50 cursor-not-allowed border-gray-200" : "cursor-pointer hover:border-gray-400",
+  selected ? "border-red-500 bg-red-50 ring-2 ring-red-200" : !disabled && "border-gray-300"
+);
+
+// Step-by-step lens configurator: usage → prescription → lens type → thickness → coatings → review
+const LensSelector = ({ lensTypes, lensOptions, onLensConfigChange }: LensSelectorProps) => {
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [usage, setUsage] = useState<LensUsage | "">("");
   const [hasEyesight, setHasEyesight] = useState<boolean>(false);
   const [selectedLensType, setSelectedLensType] = useState<string>("");
   const [prescriptionType, setPrescriptionType] = useState<'upload' | 'manual'>('upload');
   const [prescriptionFile, setPrescriptionFile] = useState<File | null>(null);
   const [prescriptionPreview, setPrescriptionPreview] = useState<string | null>(null);
-  const [rightEye, setRightEye] = useState<EyeData>({
-    sph: '0.00', cyl: '0.00', axis: '0', add: '0.00', pd: ''
-  });
-  const [leftEye, setLeftEye] = useState<EyeData>({
-    sph: '0.00', cyl: '0.00', axis: '0', add: '0.00', pd: ''
-  });
-  const [rightPrism, setRightPrism] = useState<PrismData>({
-    verticalPrism: '0.00', verticalBase: 'n/a', horizontalPrism: '0.00', horizontalBase: 'n/a'
-  });
-  const [leftPrism, setLeftPrism] = useState<PrismData>({
-    verticalPrism: '0.00', verticalBase: 'n/a', horizontalPrism: '0.00', horizontalBase: 'n/a'
-  });
-  const [twoPDNumbers, setTwoPDNumbers] = useState(false);
-  const [addPrism, setAddPrism] = useState(false);
-
-  // Generate number ranges
-  const generateSphCylRange = () => {
-    const values = [];
-    for (let i = -16; i <= 16; i += 0.25) {
-      const formatted = i > 0 ? `+${i.toFixed(2)}` : i.toFixed(2);
-      values.push(formatted);
-    }
-    return values;
-  };
-
-  const generateAddRange = () => {
-    const values = [];
-    for (let i = 0; i <= 6; i += 0.25) {
-      values.push(i === 0 ? i.toFixed(2) : `+${i.toFixed(2)}`);
-    }
-    return values;
-  };
+  const [prescription, setPrescription] = useState<PrescriptionData>(createEmptyPrescription);
+  const [savedPrescriptions, setSavedPrescriptions] = useState<SavedPrescription[]>([]);
+  const [savedPrescriptionId, setSavedPrescriptionId] = useState<string>("");
+  const [thicknessId, setThicknessId] = useState<string>("");
+  const [coatingIds, setCoatingIds] = useState<string[]>([]);
+  const [tintId, setTintId] = useState<string>("");
+
+  const isManual = hasEyesight && prescriptionType === 'manual';
+  const selectedLens = lensTypes.find((lens) => lens.id === selectedLensType);
+  const visionType = selectedLens?.visionType;
+  const validation = useMemo(
+    () => validatePrescription(prescription, {
+      visionType: selectedLens?.visionType,
+      lensRange: selectedLens?.prescriptionRange,
+    }),
+    [prescription, selectedLens]
+  );
 
-  const generatePrismRange = () => {
-    const values = [];
-    for (let i = 0; i <= 5; i += 0.5) {
-      values.push(i.toFixed(2));
-    }
-    return values;
-  };
+  // Uploaded prescriptions are read by staff, so only manual entries limit the thickness
+  const power = isManual ? maxMeridianPower(prescription) : 0;
 
-  const generateAxisRange = () => {
-    const values = [];
-    for (let i = 0; i <= 180; i++) {
-      values.push(i.toString());
-    }
-    return values;
-  };
-
-  const generateSinglePDRange = () => {
-    const values = [];
-    for (let i = 50; i <= 80; i++) {
-      values.push(i.toString());
+  const availableOptions = useMemo(
+    () => lensOptions.filter((option) => isLensOptionAvailable(option, { usage: usage || null, visionType })),
+    [lensOptions, usage, visionType]
+  );
+  const thicknessOptions = availableOptions.filter((option) => option.kind === 'thickness');
+  const coatingOptions = availableOptions.filter((option) => option.kind === 'coating');
+  const tintOptions = availableOptions.filter((option) => option.kind === 'tint');
+
+  // Choices that no longer apply (after changing usage, lens or prescription) drop out here
+  const selectedOptions = useMemo(() => {
+    const chosen = new Set([thicknessId, ...coatingIds, tintId]);
+    return availableOptions
+      .filter((option) => chosen.has(option.id) && (option.kind !== 'thickness' || supportsPower(option, power)))
+      .map(toSelectedLensOption);
+  }, [availableOptions, thicknessId, coatingIds, tintId, power]);
+
+  const lensFitsPrescription = (lens: LensType) =>
+    !isManual || validatePrescription(prescription, {
+      visionType: lens.visionType,
+      lensRange: lens.prescriptionRange,
+    }).isValid;
+
+  const isStepComplete = (step: StepId): boolean => {
+    switch (step) {
+      case 'usage':
+        return !!usage;
+      case 'prescription':
+        if (!hasEyesight) return true;
+        return prescriptionType === 'upload' ? !!prescriptionFile : validation.isValid;
+      case 'lens':
+        return !!selectedLens && lensFitsPrescription(selectedLens);
+      case 'thickness':
+        return thicknessOptions.length === 0 || selectedOptions.some((option) => option.kind === 'thickness');
+      case 'coatings':
+        return tintOptions.length === 0 || selectedOptions.some((option) => option.kind === 'tint');
+      case 'review':
+        return true;
     }
-    return values;
   };
 
-  const generateDoublePDRange = () => {
-    const values = [];
-    for (let i = 25; i <= 40; i++) {
-      values.push(i.toString());
-    }
-    return values;
+  const isComplete = STEPS.every((step) => isStepComplete(step.id));
+  const canOpenStep = (index: number) => STEPS.slice(0, index).every((step) => isStepComplete(step.id));
+  const currentStep = STEPS[stepIndex].id;
+
+  const config = useMemo<LensConfiguration>(() => ({
+    usage: usage || undefined,
+    hasEyesight,
+    lensTypeId: selectedLensType || undefined,
+    prescriptionType: hasEyesight ? prescriptionType : undefined,
+    prescriptionImage: hasEyesight && prescriptionType === 'upload' ? prescriptionFile || undefined : undefined,
+    prescriptionData: hasEyesight && prescriptionType === 'manual' ? toStoredPrescription(prescription) : undefined,
+    savedPrescriptionId: hasEyesight && prescriptionType === 'manual' ? savedPrescriptionId || undefined : undefined,
+    options: selectedOptions,
+    isComplete,
+  }), [usage, hasEyesight, selectedLensType, prescriptionType, prescriptionFile, prescription, savedPrescriptionId, selectedOptions, isComplete]);
+
+  // The parent usually passes an inline callback; keep the latest one without re-emitting on every render
+  const onLensConfigChangeRef = useRef(onLensConfigChange);
+  onLensConfigChangeRef.current = onLensConfigChange;
+
+  useEffect(() => {
+    onLensConfigChangeRef.current(config);
+  }, [config]);
+
+  useEffect(() => {
+    fetchSavedPrescriptions();
+  }, []);
+
+  const fetchSavedPrescriptions = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data } = await supabase
+      .from("prescriptions")
+      .select("id, name, expiry_date, prescription_data")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    setSavedPrescriptions((data || []).map((item) => ({
+      ...item,
+      prescription_data: withPrescriptionDefaults(item.prescription_data as unknown as Partial<PrescriptionData>),
+    })));
   };
 
-  const sphCylOptions = generateSphCylRange();
-  const addOptions = generateAddRange();
-  const prismOptions = generatePrismRange();
-  const axisOptions = generateAxisRange();
-  const singlePDOptions = generateSinglePDRange();
-  const doublePDOptions = generateDoublePDRange();
-
-  // Helper to get complete prescription data
-  const getCompletePrescriptionData = (
-    customRightEye?: EyeData, 
-    customLeftEye?: EyeData,
-    customRightPrism?: PrismData,
-    customLeftPrism?: PrismData
-  ) => ({
-    rightEye: customRightEye || rightEye,
-    leftEye: customLeftEye || leftEye,
-    rightPrism: addPrism ? (customRightPrism || rightPrism) : undefined,
-    leftPrism: addPrism ? (customLeftPrism || leftPrism) : undefined,
-    twoPDNumbers,
-    addPrism
-  });
-
-  const handleEyesightChange = (value: string) => {
-    const hasEye = value === "yes";
-    setHasEyesight(hasEye);
-    onLensConfigChange({
-      hasEyesight: hasEye,
-      lensTypeId: selectedLensType || undefined, // Include lens type if selected
-      prescriptionType: hasEye ? prescriptionType : undefined,
-      prescriptionImage: hasEye && prescriptionType === 'upload' ? prescriptionFile || undefined : undefined
-    });
+  const handlePrescriptionChange = (data: PrescriptionData) => {
+    // Any manual edit means the line no longer matches the saved prescription
+    setPrescription(data);
+    setSavedPrescriptionId("");
   };
 
-  const handleLensTypeChange = (lensTypeId: string) => {
-    setSelectedLensType(lensTypeId);
-    onLensConfigChange({
-      hasEyesight,
-      lensTypeId, // Always send lens type ID even when hasEyesight is false
-      prescriptionType: hasEyesight ? prescriptionType : undefined,
-      prescriptionImage: hasEyesight && prescriptionType === 'upload' ? prescriptionFile || undefined : undefined,
-      prescriptionData: hasEyesight && prescriptionType === 'manual' ? getCompletePrescriptionData() : undefined
-    });
-  };
+  const handleSavedPrescriptionChange = (id: string) => {
+    const saved = savedPrescriptions.find((item) => item.id === id);
+    if (!saved) return;
 
-  const handlePrescriptionTypeChange = (type: 'upload' | 'manual') => {
-    // Selecting a prescription input method implies eyesight lenses
-    setHasEyesight(true);
-    setPrescriptionType(type);
-    onLensConfigChange({
-      hasEyesight: true,
-      lensTypeId: selectedLensType,
-      prescriptionType: type,
-      prescriptionImage: type === 'upload' ? prescriptionFile || undefined : undefined,
-      prescriptionData: type === 'manual' ? getCompletePrescriptionData() : undefined
-    });
+    setSavedPrescriptionId(id);
+    setPrescription(saved.prescription_data);
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -220,14 +256,6 @@ const LensSelector = ({ lensTypes, onLensConfigChange }: LensSelectorProps) => {
       setPrescriptionPreview(null);
     }
 
-    setHasEyesight(true);
-    onLensConfigChange({
-      hasEyesight: true,
-      lensTypeId: selectedLensType,
-      prescriptionType: 'upload',
-      prescriptionImage: file
-    });
-
     toast({
       title: "Prescription uploaded",
       description: `${file.name} has been uploaded successfully`
@@ -240,26 +268,48 @@ const LensSelector = ({ lensTypes, onLensConfigChange }: LensSelectorProps) => {
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
-    onLensConfigChange({
-      hasEyesight,
-      lensTypeId: selectedLensType,
-      prescriptionType: 'upload',
-      prescriptionImage: undefined
-    });
   };
 
-  return (
-    <div className="space-y-8">
-      {/* Step 1: Select Lens Option */}
+  const toggleCoating = (id: string, checked: boolean) => {
+    setCoatingIds((current) => (checked ? [...current, id] : current.filter((coatingId) => coatingId !== id)));
+  };
+
+  const renderStepTitle = (title: string, required = true) => (
+    <h3 className="font-semibold text-lg mb-4 flex items-center">
+      {required && <span className="text-red-500 mr-2">*</span>}
+      {title}
+    </h3>
+  );
+
+  const renderUsageStep = () => (
+    <div>
+      {renderStepTitle('What are these lenses for?')}
+      <RadioGroup value={usage} onValueChange={(value) => setUsage(value as LensUsage)}>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {(Object.keys(LENS_USAGE_LABELS) as LensUsage[]).map((value) => (
+            <Label key={value} htmlFor={`usage-${value}`} className={optionCardClass(usage === value)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value={value} id={`usage-${value}`} />
+                <div>
+                  <p className="font-medium">{LENS_USAGE_LABELS[value]}</p>
+                  <p className="text-xs text-muted-foreground">{LENS_USAGE_DESCRIPTIONS[value]}</p>
+                </div>
+              </div>
+            </Label>
+          ))}
+        </div>
+      </RadioGroup>
+    </div>
+  );
+
+  const renderPrescriptionStep = () => (
+    <div className="space-y-6">
       <div>
-        <h3 className="font-semibold text-lg mb-4 flex items-center">
-          <span className="text-red-500 mr-2">*</span>
-          Select Lense
-        </h3>
-        <RadioGroup value={hasEyesight ? "yes" : "no"} onValueChange={handleEyesightChange}>
+        {renderStepTitle('Select Lense')}
+        <RadioGroup value={hasEyesight ? "yes" : "no"} onValueChange={(value) => setHasEyesight(value === "yes")}>
           <div className="grid grid-cols-2 gap-4">
-            <Label 
-              htmlFor="no-eyesight" 
+            <Label
+              htmlFor="no-eyesight"
               className={`flex items-center justify-center p-4 border-2 rounded-lg cursor-pointer transition-all hover:border-gray-400 ${
                 !hasEyesight ? 'border-red-500 bg-red-50 ring-2 ring-red-200' : 'border-gray-300'
               }`}
@@ -267,8 +317,8 @@ const LensSelector = ({ lensTypes, onLensConfigChange }: LensSelectorProps) => {
               <RadioGroupItem value="no" id="no-eyesight" className="mr-2" />
               <span className="font-medium">No Eyesight</span>
             </Label>
-            <Label 
-              htmlFor="yes-eyesight" 
+            <Label
+              htmlFor="yes-eyesight"
               className={`flex items-center justify-center p-4 border-2 rounded-lg cursor-pointer transition-all hover:border-gray-400 ${
                 hasEyesight ? 'border-red-500 bg-red-50 ring-2 ring-red-200' : 'border-gray-300'
               }`}
@@ -280,58 +330,14 @@ const LensSelector = ({ lensTypes, onLensConfigChange }: LensSelectorProps) => {
         </RadioGroup>
       </div>
 
-      {/* Step 2: Choose Lens Type */}
-      <div>
-        <h3 className="font-semibold text-lg mb-4 flex items-center">
-          <span className="text-red-500 mr-2">*</span>
-          Lenses options
-        </h3>
-        <RadioGroup value={selectedLensType} onValueChange={handleLensTypeChange}>
-          <div className="grid grid-cols-3 gap-2 sm:gap-4">
-            {lensTypes.map((lens) => (
-              <Label
-                key={lens.id}
-                htmlFor={lens.id}
-                className={`block border-2 rounded-lg overflow-hidden cursor-pointer transition-all hover:border-gray-400 ${
-                  selectedLensType === lens.id ? 'border-red-500 ring-2 ring-red-500' : 'border-gray-300'
-                }`}
-              >
-                <RadioGroupItem value={lens.id} id={lens.id} className="sr-only" />
-                  {lens.imageUrl && (
-                    <div className="aspect-square sm:aspect-[4/3] bg-gray-100 overflow-hidden">
-                      <img 
-                        src={lens.imageUrl} 
-                        alt={lens.name} 
-                        className="w-full h-full object-cover"
-                      />
-                    </div>
-                  )}
-                  <div className="p-2 sm:p-4 bg-white text-center">
-                    <p className="font-medium text-sm sm:text-base mb-1">{lens.name}</p>
-                    {lens.description && (
-                      <p className="text-xs text-muted-foreground mb-1 sm:mb-2 line-clamp-2">{lens.description}</p>
-                    )}
-                    {lens.priceAdjustment > 0 && (
-                      <p className="text-orange-600 font-bold text-sm sm:text-base">
-                        Rs {lens.priceAdjustment.toLocaleString()}
-                      </p>
-                    )}
-                  </div>
-              </Label>
-            ))}
-          </div>
-        </RadioGroup>
-      </div>
-
-      {/* Step 3: Enter Eyesight Numbers */}
-      {hasEyesight && selectedLensType && (
+      {hasEyesight && (
         <div>
           <h3 className="font-semibold text-lg mb-4">Enter Eyesight Number</h3>
-          
-          <RadioGroup value={prescriptionType} onValueChange={(v) => handlePrescriptionTypeChange(v as 'upload' | 'manual')}>
+
+          <RadioGroup value={prescriptionType} onValueChange={(v) => setPrescriptionType(v as 'upload' | 'manual')}>
             <div className="space-y-3 mb-6">
-              <Label 
-                htmlFor="upload" 
+              <Label
+                htmlFor="upload"
                 className={`flex items-center gap-3 p-4 border-2 rounded-lg cursor-pointer transition-all hover:border-gray-400 ${
                   prescriptionType === 'upload' ? 'border-gray-900 bg-gray-50' : 'border-gray-300'
                 }`}
@@ -339,8 +345,8 @@ const LensSelector = ({ lensTypes, onLensConfigChange }: LensSelectorProps) => {
                 <RadioGroupItem value="upload" id="upload" />
                 <span className="font-medium">Upload Prescription Image</span>
               </Label>
-              <Label 
-                htmlFor="manual" 
+              <Label
+                htmlFor="manual"
                 className={`flex items-center gap-3 p-4 border-2 rounded-lg cursor-pointer transition-all hover:border-gray-400 ${
                   prescriptionType === 'manual' ? 'border-gray-900 bg-gray-50' : 'border-gray-300'
                 }`}
@@ -355,7 +361,7 @@ const LensSelector = ({ lensTypes, onLensConfigChange }: LensSelectorProps) => {
             {/* Upload mode */}
             <div className={prescriptionType === 'upload' ? 'space-y-4' : 'hidden'}>
               {!prescriptionFile ? (
-                <div 
+                <div
                   className="border-2 border-dashed border-border rounded-lg p-8 text-center cursor-pointer hover:bg-secondary/50 transition-colors"
                   onClick={() => fileInputRef.current?.click()}
                 >
@@ -404,9 +410,9 @@ const LensSelector = ({ lensTypes, onLensConfigChange }: LensSelectorProps) => {
                     </Button>
                   </div>
                   {prescriptionPreview && (
-                    <img 
-                      src={prescriptionPreview} 
-                      alt="Prescription preview" 
+                    <img
+                      src={prescriptionPreview}
+                      alt="Prescription preview"
                       className="w-full rounded-md border"
                     />
                   )}
@@ -433,620 +439,305 @@ const LensSelector = ({ lensTypes, onLensConfigChange }: LensSelectorProps) => {
 
             {/* Manual mode */}
             <div className={prescriptionType === 'manual' ? 'space-y-6' : 'hidden'}>
-              {/* Header Row */}
-              <div className="bg-gray-800 text-white p-3 rounded-t-lg">
-                <div className="grid grid-cols-4 gap-3 text-center font-medium text-sm">
-                  <div>Sphere (SPH)</div>
-                  <div>Cylinder (CYL)</div>
-                  <div>Axis</div>
-                  <div>Addition (near) ADD</div>
-                </div>
-              </div>
-
-              {/* Right Eye */}
-              <div>
-                <h4 className="font-medium mb-3">Right Eye (OD)</h4>
-                <div className="grid grid-cols-4 gap-3">
-                  <div>
-                    <Select
-                      value={rightEye.sph}
-                      onValueChange={(value) => {
-                        const newRightEye = { ...rightEye, sph: value };
-                        setHasEyesight(true);
-                        setRightEye(newRightEye);
-                        onLensConfigChange({
-                          hasEyesight: true,
-                          lensTypeId: selectedLensType,
-                          prescriptionType: 'manual',
-                          prescriptionData: getCompletePrescriptionData()
-                        });
-                      }}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="0.00" />
-                      </SelectTrigger>
-                      <SelectContent className="max-h-60">
-                        {sphCylOptions.map((val) => (
-                          <SelectItem key={`right-sph-${val}`} value={val}>
-                            {val}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div>
-                    <Select
-                      value={rightEye.cyl}
-                      onValueChange={(value) => {
-                        const newRightEye = { ...rightEye, cyl: value };
-                        setHasEyesight(true);
-                        setRightEye(newRightEye);
-                        onLensConfigChange({
-                          hasEyesight: true,
-                          lensTypeId: selectedLensType,
-                          prescriptionType: 'manual',
-                          prescriptionData: getCompletePrescriptionData(newRightEye, leftEye)
-                        });
-                      }}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="0.00" />
-                      </SelectTrigger>
-                      <SelectContent className="max-h-60">
-                        {sphCylOptions.map((val) => (
-                          <SelectItem key={`right-cyl-${val}`} value={val}>
-                            {val}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div>
-                    <Select
-                      value={rightEye.axis}
-                      onValueChange={(value) => {
-                        const newRightEye = { ...rightEye, axis: value };
-                        setHasEyesight(true);
-                        setRightEye(newRightEye);
-                        onLensConfigChange({
-                          hasEyesight: true,
-                          lensTypeId: selectedLensType,
-                          prescriptionType: 'manual',
-                          prescriptionData: getCompletePrescriptionData(newRightEye, leftEye)
-                        });
-                      }}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="0" />
-                      </SelectTrigger>
-                      <SelectContent className="max-h-60">
-                        {axisOptions.map((val) => (
-                          <SelectItem key={`right-axis-${val}`} value={val}>
-                            {val}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div>
-                    <Select
-                      value={rightEye.add}
-                      onValueChange={(value) => {
-                        const newRightEye = { ...rightEye, add: value };
-                        setHasEyesight(true);
-                        setRightEye(newRightEye);
-                        onLensConfigChange({
-                          hasEyesight: true,
-                          lensTypeId: selectedLensType,
-                          prescriptionType: 'manual',
-                          prescriptionData: getCompletePrescriptionData(newRightEye, leftEye)
-                        });
-                      }}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="0.00" />
-                      </SelectTrigger>
-                      <SelectContent className="max-h-60">
-                        {addOptions.map((val) => (
-                          <SelectItem key={`right-add-${val}`} value={val}>
-                            {val}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
-              </div>
-
-              {/* Left Eye */}
-              <div>
-                <h4 className="font-medium mb-3">Left Eye (OS)</h4>
-                <div className="grid grid-cols-4 gap-3">
-                  <div>
-                    <Select
-                      value={leftEye.sph}
-                      onValueChange={(value) => {
-                        const newLeftEye = { ...leftEye, sph: value };
-                        setHasEyesight(true);
-                        setLeftEye(newLeftEye);
-                        onLensConfigChange({
-                          hasEyesight: true,
-                          lensTypeId: selectedLensType,
-                          prescriptionType: 'manual',
-                          prescriptionData: getCompletePrescriptionData(rightEye, newLeftEye)
-                        });
-                      }}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="0.00" />
-                      </SelectTrigger>
-                      <SelectContent className="max-h-60">
-                        {sphCylOptions.map((val) => (
-                          <SelectItem key={`left-sph-${val}`} value={val}>
-                            {val}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div>
-                    <Select
-                      value={leftEye.cyl}
-                      onValueChange={(value) => {
-                        const newLeftEye = { ...leftEye, cyl: value };
-                        setHasEyesight(true);
-                        setLeftEye(newLeftEye);
-                        onLensConfigChange({
-                          hasEyesight: true,
-                          lensTypeId: selectedLensType,
-                          prescriptionType: 'manual',
-                          prescriptionData: getCompletePrescriptionData(rightEye, newLeftEye)
-                        });
-                      }}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="0.00" />
-                      </SelectTrigger>
-                      <SelectContent className="max-h-60">
-                        {sphCylOptions.map((val) => (
-                          <SelectItem key={`left-cyl-${val}`} value={val}>
-                            {val}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div>
-                    <Select
-                      value={leftEye.axis}
-                      onValueChange={(value) => {
-                        const newLeftEye = { ...leftEye, axis: value };
-                        setHasEyesight(true);
-                        setLeftEye(newLeftEye);
-                        onLensConfigChange({
-                          hasEyesight: true,
-                          lensTypeId: selectedLensType,
-                          prescriptionType: 'manual',
-                          prescriptionData: getCompletePrescriptionData(rightEye, newLeftEye)
-                        });
-                      }}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="0" />
-                      </SelectTrigger>
-                      <SelectContent className="max-h-60">
-                        {axisOptions.map((val) => (
-                          <SelectItem key={`left-axis-${val}`} value={val}>
-                            {val}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div>
-                    <Select
-                      value={leftEye.add}
-                      onValueChange={(value) => {
-                        const newLeftEye = { ...leftEye, add: value };
-                        setHasEyesight(true);
-                        setLeftEye(newLeftEye);
-                        onLensConfigChange({
-                          hasEyesight: true,
-                          lensTypeId: selectedLensType,
-                          prescriptionType: 'manual',
-                          prescriptionData: getCompletePrescriptionData(rightEye, newLeftEye)
-                        });
-                      }}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="0.00" />
-                      </SelectTrigger>
-                      <SelectContent className="max-h-60">
-                        {addOptions.map((val) => (
-                          <SelectItem key={`left-add-${val}`} value={val}>
-                            {val}
+              {savedPrescriptions.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="saved-prescription">Use a saved prescription</Label>
+                  <Select value={savedPrescriptionId} onValueChange={handleSavedPrescriptionChange}>
+                    <SelectTrigger id="saved-prescription">
+                      <SelectValue placeholder="Choose a saved prescription" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {savedPrescriptions.map((saved) => {
+                        const expired = isPrescriptionExpired(saved.expiry_date);
+                        return (
+                          <SelectItem key={saved.id} value={saved.id} disabled={expired}>
+                            {saved.name}{expired ? " (expired)" : ""}
                           </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
+                        );
+                      })}
+                    </SelectContent>
+                  </Select>
                 </div>
-              </div>
+              )}
 
-              {/* Pupillary Distance (PD) Section */}
-              <div className="border-t pt-4">
-                <div className="flex items-center gap-4 mb-4">
-                  <h4 className="font-semibold">Pupillary Distance (PD):</h4>
-                  <div className="flex items-center space-x-2">
-                    <Checkbox
-                      id="twoPD"
-                      checked={twoPDNumbers}
-                      onCheckedChange={(checked) => {
-                        setTwoPDNumbers(checked as boolean);
-                        if (!checked) {
-                          const newRightEye = { ...rightEye, pd: '' };
-                          const newLeftEye = { ...leftEye, pd: '' };
-                          setRightEye(newRightEye);
-                          setLeftEye(newLeftEye);
-                          onLensConfigChange({
-                            hasEyesight: true,
-                            lensTypeId: selectedLensType,
-                            prescriptionType: 'manual',
-                            prescriptionData: getCompletePrescriptionData(newRightEye, newLeftEye)
-                          });
-                        }
-                      }}
-                    />
-                    <Label htmlFor="twoPD" className="cursor-pointer">
-                      Two PD numbers
-                    </Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Checkbox
-                      id="addPrism"
-                      checked={addPrism}
-                      onCheckedChange={(checked) => setAddPrism(checked as boolean)}
-                    />
-                    <Label htmlFor="addPrism" className="cursor-pointer">
-                      Add prism
-                    </Label>
-                  </div>
-                </div>
+              <PrescriptionForm value={prescription} onChange={handlePrescriptionChange} validation={validation} />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
 
-                {/* PD Input Fields */}
-                <div className={twoPDNumbers ? "grid grid-cols-2 gap-4 max-w-md" : "max-w-xs"}>
-                  {twoPDNumbers ? (
-                    <>
-                      <div>
-                        <Select
-                          value={rightEye.pd}
-                          onValueChange={(value) => {
-                            const newRightEye = { ...rightEye, pd: value };
-                            setHasEyesight(true);
-                            setRightEye(newRightEye);
-                            onLensConfigChange({
-                              hasEyesight: true,
-                              lensTypeId: selectedLensType,
-                              prescriptionType: 'manual',
-                              prescriptionData: getCompletePrescriptionData(newRightEye, leftEye)
-                            });
-                          }}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="Right PD" />
-                          </SelectTrigger>
-                          <SelectContent className="max-h-60">
-                            {doublePDOptions.map((val) => (
-                              <SelectItem key={`right-pd-two-${val}`} value={val}>
-                                {val}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div>
-                        <Select
-                          value={leftEye.pd}
-                          onValueChange={(value) => {
-                            const newLeftEye = { ...leftEye, pd: value };
-                            setHasEyesight(true);
-                            setLeftEye(newLeftEye);
-                            onLensConfigChange({
-                              hasEyesight: true,
-                              lensTypeId: selectedLensType,
-                              prescriptionType: 'manual',
-                              prescriptionData: getCompletePrescriptionData(rightEye, newLeftEye)
-                            });
-                          }}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="Left PD" />
-                          </SelectTrigger>
-                          <SelectContent className="max-h-60">
-                            {doublePDOptions.map((val) => (
-                              <SelectItem key={`left-pd-two-${val}`} value={val}>
-                                {val}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
-                    </>
-                  ) : (
-                    <div>
-                      <Select
-                        value={rightEye.pd}
-                        onValueChange={(value) => {
-                          const newRightEye = { ...rightEye, pd: value };
-                          const newLeftEye = { ...leftEye, pd: value };
-                          setHasEyesight(true);
-                          setRightEye(newRightEye);
-                          setLeftEye(newLeftEye);
-                          onLensConfigChange({
-                            hasEyesight: true,
-                            lensTypeId: selectedLensType,
-                            prescriptionType: 'manual',
-                            prescriptionData: getCompletePrescriptionData(newRightEye, newLeftEye)
-                          });
-                        }}
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="PD" />
-                        </SelectTrigger>
-                        <SelectContent className="max-h-60">
-                          {singlePDOptions.map((val) => (
-                            <SelectItem key={`single-pd-${val}`} value={val}>
-                              {val}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+  const renderLensStep = () => (
+    <div>
+      {renderStepTitle('Lenses options')}
+      <RadioGroup value={selectedLensType} onValueChange={setSelectedLensType}>
+        <div className="grid grid-cols-3 gap-2 sm:gap-4">
+          {lensTypes.map((lens) => {
+            const fits = lensFitsPrescription(lens);
+            return (
+              <Label
+                key={lens.id}
+                htmlFor={lens.id}
+                className={`block border-2 rounded-lg overflow-hidden transition-all ${
+                  fits ? 'cursor-pointer hover:border-gray-400' : 'cursor-not-allowed opacity-50'
+                } ${
+                  selectedLensType === lens.id ? 'border-red-500 ring-2 ring-red-500' : 'border-gray-300'
+                }`}
+              >
+                <RadioGroupItem value={lens.id} id={lens.id} className="sr-only" disabled={!fits} />
+                  {lens.imageUrl && (
+                    <div className="aspect-square sm:aspect-[4/3] bg-gray-100 overflow-hidden">
+                      <img
+                        src={lens.imageUrl}
+                        alt={lens.name}
+                        className="w-full h-full object-cover"
+                      />
                     </div>
                   )}
-                </div>
-              </div>
+                  <div className="p-2 sm:p-4 bg-white text-center">
+                    <p className="font-medium text-sm sm:text-base mb-1">{lens.name}</p>
+                    {lens.description && (
+                      <p className="text-xs text-muted-foreground mb-1 sm:mb-2 line-clamp-2">{lens.description}</p>
+                    )}
+                    {(lens.lensIndex || (lens.coatings && lens.coatings.length > 0)) && (
+                      <p className="text-xs text-muted-foreground mb-1 sm:mb-2 line-clamp-2">
+                        {[lens.lensIndex && `${lens.lensIndex.toFixed(2)} index`, ...(lens.coatings || [])]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </p>
+                    )}
+                    {!fits && (
+                      <p className="text-xs text-destructive mb-1">Not available for your prescription</p>
+                    )}
+                    {lens.priceAdjustment > 0 && (
+                      <p className="text-orange-600 font-bold text-sm sm:text-base">
+                        Rs {lens.priceAdjustment.toLocaleString()}
+                      </p>
+                    )}
+                  </div>
+              </Label>
+            );
+          })}
+        </div>
+      </RadioGroup>
+      {selectedLens && !lensFitsPrescription(selectedLens) && (
+        <p className="text-sm text-destructive mt-3">
+          {selectedLens.name} cannot be made for this prescription. Choose another lens or check your numbers.
+        </p>
+      )}
+    </div>
+  );
 
-              {/* Add Prism Section */}
-              {addPrism && (
-                <div className="border-t pt-4">
-                  {/* Prism Header Row */}
-                  <div className="bg-gray-800 text-white p-3 rounded-t-lg mb-4">
-                    <div className="grid grid-cols-5 gap-3 text-center font-medium text-sm">
-                      <div>Add Prism</div>
-                      <div>Vertical Prism</div>
-                      <div>Base Direction</div>
-                      <div>Horizontal Prism</div>
-                      <div>Base Direction</div>
+  const renderThicknessStep = () => (
+    <div>
+      {renderStepTitle('Lens thickness')}
+      {thicknessOptions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">This lens comes in a single thickness.</p>
+      ) : (
+        <RadioGroup value={thicknessId} onValueChange={setThicknessId}>
+          <div className="space-y-3">
+            {thicknessOptions.map((option) => {
+              const supported = supportsPower(option, power);
+              return (
+                <Label
+                  key={option.id}
+                  htmlFor={`option-${option.id}`}
+                  className={optionCardClass(thicknessId === option.id && supported, !supported)}
+                >
+                  <div className="flex items-center gap-3">
+                    <RadioGroupItem value={option.id} id={`option-${option.id}`} disabled={!supported} />
+                    <div>
+                      <p className="font-medium">{option.name}</p>
+                      {option.description && <p className="text-xs text-muted-foreground">{option.description}</p>}
+                      {!supported && option.max_power !== null && (
+                        <p className="text-xs text-destructive">
+                          Available up to ±{Number(option.max_power).toFixed(2)}
+                        </p>
+                      )}
                     </div>
                   </div>
+                  <span className="text-orange-600 font-bold text-sm">{formatPrice(Number(option.price_adjustment))}</span>
+                </Label>
+              );
+            })}
+          </div>
+        </RadioGroup>
+      )}
+    </div>
+  );
 
-                  {/* Right Eye Prism */}
+  const renderCoatingsStep = () => (
+    <div className="space-y-6">
+      <div>
+        {renderStepTitle('Coatings', false)}
+        {coatingOptions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No extra coatings are available for this lens.</p>
+        ) : (
+          <div className="space-y-3">
+            {coatingOptions.map((option) => (
+              <Label
+                key={option.id}
+                htmlFor={`option-${option.id}`}
+                className={optionCardClass(coatingIds.includes(option.id))}
+              >
+                <div className="flex items-center gap-3">
+                  <Checkbox
+                    id={`option-${option.id}`}
+                    checked={coatingIds.includes(option.id)}
+                    onCheckedChange={(checked) => toggleCoating(option.id, checked === true)}
+                  />
                   <div>
-                    <h4 className="font-medium mb-3">Right Eye (OD)</h4>
-                    <div className="grid grid-cols-5 gap-3">
-                      <div className="flex items-center justify-center">
-                        <span className="text-sm font-medium">Add Prism</span>
-                      </div>
-                      <div>
-                        <Select
-                          value={rightPrism.verticalPrism}
-                          onValueChange={(value) => {
-                            const newRightPrism = { ...rightPrism, verticalPrism: value };
-                            setRightPrism(newRightPrism);
-                            onLensConfigChange({
-                              hasEyesight: true,
-                              lensTypeId: selectedLensType,
-                              prescriptionType: 'manual',
-                              prescriptionData: getCompletePrescriptionData(undefined, undefined, newRightPrism, undefined)
-                            });
-                          }}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="0.00" />
-                          </SelectTrigger>
-                          <SelectContent className="max-h-60">
-                            {prismOptions.map((val) => (
-                              <SelectItem key={`right-v-prism-${val}`} value={val}>
-                                {val}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div>
-                        <Select
-                          value={rightPrism.verticalBase}
-                          onValueChange={(value) => {
-                            const newRightPrism = { ...rightPrism, verticalBase: value };
-                            setRightPrism(newRightPrism);
-                            onLensConfigChange({
-                              hasEyesight: true,
-                              lensTypeId: selectedLensType,
-                              prescriptionType: 'manual',
-                              prescriptionData: getCompletePrescriptionData(undefined, undefined, newRightPrism, undefined)
-                            });
-                          }}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="n/a" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="n/a">n/a</SelectItem>
-                            <SelectItem value="Up">Up</SelectItem>
-                            <SelectItem value="Down">Down</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div>
-                        <Select
-                          value={rightPrism.horizontalPrism}
-                          onValueChange={(value) => {
-                            const newRightPrism = { ...rightPrism, horizontalPrism: value };
-                            setRightPrism(newRightPrism);
-                            onLensConfigChange({
-                              hasEyesight: true,
-                              lensTypeId: selectedLensType,
-                              prescriptionType: 'manual',
-                              prescriptionData: getCompletePrescriptionData(undefined, undefined, newRightPrism, undefined)
-                            });
-                          }}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="0.00" />
-                          </SelectTrigger>
-                          <SelectContent className="max-h-60">
-                            {prismOptions.map((val) => (
-                              <SelectItem key={`right-h-prism-${val}`} value={val}>
-                                {val}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div>
-                        <Select
-                          value={rightPrism.horizontalBase}
-                          onValueChange={(value) => {
-                            const newRightPrism = { ...rightPrism, horizontalBase: value };
-                            setRightPrism(newRightPrism);
-                            onLensConfigChange({
-                              hasEyesight: true,
-                              lensTypeId: selectedLensType,
-                              prescriptionType: 'manual',
-                              prescriptionData: getCompletePrescriptionData(undefined, undefined, newRightPrism, undefined)
-                            });
-                          }}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="n/a" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="n/a">n/a</SelectItem>
-                            <SelectItem value="In">In</SelectItem>
-                            <SelectItem value="Out">Out</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-                    </div>
+                    <p className="font-medium">{option.name}</p>
+                    {option.description && <p className="text-xs text-muted-foreground">{option.description}</p>}
                   </div>
+                </div>
+                <span className="text-orange-600 font-bold text-sm">{formatPrice(Number(option.price_adjustment))}</span>
+              </Label>
+            ))}
+          </div>
+        )}
+      </div>
 
-                  {/* Left Eye Prism */}
-                  <div className="mt-6">
-                    <h4 className="font-medium mb-3">Left Eye (OS)</h4>
-                    <div className="grid grid-cols-5 gap-3">
-                      <div className="flex items-center justify-center">
-                        <span className="text-sm font-medium">Add Prism</span>
-                      </div>
-                      <div>
-                        <Select
-                          value={leftPrism.verticalPrism}
-                          onValueChange={(value) => {
-                            const newLeftPrism = { ...leftPrism, verticalPrism: value };
-                            setLeftPrism(newLeftPrism);
-                            onLensConfigChange({
-                              hasEyesight: true,
-                              lensTypeId: selectedLensType,
-                              prescriptionType: 'manual',
-                              prescriptionData: getCompletePrescriptionData(undefined, undefined, undefined, newLeftPrism)
-                            });
-                          }}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="0.00" />
-                          </SelectTrigger>
-                          <SelectContent className="max-h-60">
-                            {prismOptions.map((val) => (
-                              <SelectItem key={`left-v-prism-${val}`} value={val}>
-                                {val}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div>
-                        <Select
-                          value={leftPrism.verticalBase}
-                          onValueChange={(value) => {
-                            const newLeftPrism = { ...leftPrism, verticalBase: value };
-                            setLeftPrism(newLeftPrism);
-                            onLensConfigChange({
-                              hasEyesight: true,
-                              lensTypeId: selectedLensType,
-                              prescriptionType: 'manual',
-                              prescriptionData: getCompletePrescriptionData(undefined, undefined, undefined, newLeftPrism)
-                            });
-                          }}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="n/a" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="n/a">n/a</SelectItem>
-                            <SelectItem value="Up">Up</SelectItem>
-                            <SelectItem value="Down">Down</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div>
-                        <Select
-                          value={leftPrism.horizontalPrism}
-                          onValueChange={(value) => {
-                            const newLeftPrism = { ...leftPrism, horizontalPrism: value };
-                            setLeftPrism(newLeftPrism);
-                            onLensConfigChange({
-                              hasEyesight: true,
-                              lensTypeId: selectedLensType,
-                              prescriptionType: 'manual',
-                              prescriptionData: getCompletePrescriptionData(undefined, undefined, undefined, newLeftPrism)
-                            });
-                          }}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="0.00" />
-                          </SelectTrigger>
-                          <SelectContent className="max-h-60">
-                            {prismOptions.map((val) => (
-                              <SelectItem key={`left-h-prism-${val}`} value={val}>
-                                {val}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div>
-                        <Select
-                          value={leftPrism.horizontalBase}
-                          onValueChange={(value) => {
-                            const newLeftPrism = { ...leftPrism, horizontalBase: value };
-                            setLeftPrism(newLeftPrism);
-                            onLensConfigChange({
-                              hasEyesight: true,
-                              lensTypeId: selectedLensType,
-                              prescriptionType: 'manual',
-                              prescriptionData: getCompletePrescriptionData(undefined, undefined, undefined, newLeftPrism)
-                            });
-                          }}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="n/a" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="n/a">n/a</SelectItem>
-                            <SelectItem value="In">In</SelectItem>
-                            <SelectItem value="Out">Out</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
+      {tintOptions.length > 0 && (
+        <div>
+          {renderStepTitle('Tint')}
+          <RadioGroup value={tintId} onValueChange={setTintId}>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {tintOptions.map((option) => (
+                <Label
+                  key={option.id}
+                  htmlFor={`option-${option.id}`}
+                  className={optionCardClass(tintId === option.id)}
+                >
+                  <div className="flex items-center gap-3">
+                    <RadioGroupItem value={option.id} id={`option-${option.id}`} />
+                    <div>
+                      <p className="font-medium">{option.name}</p>
+                      {option.description && <p className="text-xs text-muted-foreground">{option.description}</p>}
                     </div>
                   </div>
-                </div>
-              )}
+                  <span className="text-orange-600 font-bold text-sm">{formatPrice(Number(option.price_adjustment))}</span>
+                </Label>
+              ))}
             </div>
-          </div>
+          </RadioGroup>
         </div>
       )}
     </div>
   );
+
+  const renderReviewStep = () => {
+    const savedName = savedPrescriptions.find((saved) => saved.id === savedPrescriptionId)?.name;
+    const prescriptionSummary = !hasEyesight
+      ? 'No prescription'
+      : prescriptionType === 'upload'
+        ? `Uploaded: ${prescriptionFile?.name}`
+        : savedName ? `Saved: ${savedName}` : 'Entered manually';
+    const lensPrice = selectedLens?.priceAdjustment || 0;
+    const total = lensPrice + selectedOptions.reduce((sum, option) => sum + option.price, 0);
+
+    return (
+      <div>
+        {renderStepTitle('Review your lenses', false)}
+        <div className="border rounded-lg divide-y text-sm">
+          <div className="flex justify-between p-3">
+            <span className="text-muted-foreground">Usage</span>
+            <span>{usage ? LENS_USAGE_LABELS[usage] : '-'}</span>
+          </div>
+          <div className="flex justify-between p-3">
+            <span className="text-muted-foreground">Prescription</span>
+            <span>{prescriptionSummary}</span>
+          </div>
+          <div className="flex justify-between p-3">
+            <span>
+              <span className="text-muted-foreground">Lens: </span>
+              {selectedLens?.name}
+            </span>
+            <span>{formatPrice(lensPrice)}</span>
+          </div>
+          {selectedOptions.map((option) => (
+            <div key={option.id} className="flex justify-between p-3">
+              <span>
+                <span className="text-muted-foreground">{LENS_OPTION_KIND_LABELS[option.kind]}: </span>
+                {option.name}
+              </span>
+              <span>{formatPrice(option.price)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between p-3 font-semibold">
+            <span>Lens total</span>
+            <span>Rs {total.toLocaleString()}</span>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderStep = () => {
+    switch (currentStep) {
+      case 'usage':
+        return renderUsageStep();
+      case 'prescription':
+        return renderPrescriptionStep();
+      case 'lens':
+        return renderLensStep();
+      case 'thickness':
+        return renderThicknessStep();
+      case 'coatings':
+        return renderCoatingsStep();
+      case 'review':
+        return renderReviewStep();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <ol className="flex flex-wrap gap-2">
+        {STEPS.map((step, index) => (
+          <li key={step.id}>
+            <button
+              type="button"
+              disabled={!canOpenStep(index)}
+              onClick={() => setStepIndex(index)}
+              className={cn(
+                "flex items-center gap-2 rounded-full border px-3 py-1 text-sm transition-colors",
+                index === stepIndex ? "border-red-500 bg-red-50 text-red-600" : "border-gray-300",
+                !canOpenStep(index) && "opacity-50 cursor-not-allowed"
+              )}
+            >
+              <span className="font-semibold">{index + 1}</span>
+              {step.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {renderStep()}
+
+      <div className="flex justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          disabled={stepIndex === 0}
+          onClick={() => setStepIndex(stepIndex - 1)}
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Back
+        </Button>
+        {currentStep !== 'review' && (
+          <Button
+            type="button"
+            disabled={!isStepComplete(currentStep)}
+            onClick={() => setStepIndex(stepIndex + 1)}
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
 };
 
 export default LensSelector;
@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { fetchOrderStatusHistory, ORDER_STATUS_LABELS, type OrderStatusChange } from "@/lib/order-status";
+
+interface OrderStatusTimelineProps {
+  orderId: string;
+  /** Show which account made each change; staff only, customers see the store's changes unattributed. */
+  showActor?: boolean;
+}
+
+const OrderStatusTimeline = ({ orderId, showActor = false }: OrderStatusTimelineProps) => {
+  const [history, setHistory] = useState<OrderStatusChange[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchOrderStatusHistory(orderId)
+      .then((changes) => {
+        if (!cancelled) setHistory(changes);
+      })
+      .catch((error) => console.error("Error fetching order history:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      {history.map((change, index) => {
+        const isLatest = index === history.length - 1;
+        return (
+          <li key={change.id} className="ml-4">
+            <span
+              className={cn(
+                "absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background",
+                change.to_status === "cancelled" ? "bg-destructive" : isLatest ? "bg-primary" : "bg-muted-foreground"
+              )}
+            />
+            <div className="flex flex-wrap items-baseline gap-x-2">
+              <p className={cn("text-sm", isLatest && "font-semibold")}>
+                {change.from_status === null && (change.to_status === "pending" || change.to_status === "awaiting_confirmation")
+                  ? "Order placed"
+                  : ORDER_STATUS_LABELS[change.to_status]}
+              </p>
+              <time className="text-xs text-muted-foreground">{new Date(change.created_at).toLocaleString()}</time>
+            </div>
+            {change.note && <p className="text-sm text-muted-foreground">{change.note}</p>}
+            {showActor && (
+              <p className="text-xs text-muted-foreground">
+                by {change.actor?.full_name || change.actor?.email || "System"}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default OrderStatusTimeline;
@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useState } from "react";
+import { Landmark, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getPaymentReceiptUrl, reviewPaymentProof, type PaymentProof } from "@/lib/bank-transfer";
+
+type QueuedProof = PaymentProof & {
+  order: { order_number: string; total: number; guest_email: string | null } | null;
+  customer: { full_name: string | null; email: string } | null;
+};
+
+interface PaymentProofQueueProps {
+  onReviewed: () => void;
+}
+
+const ReviewProofDialog = ({ proof, onReviewed }: { proof: QueuedProof; onReviewed: () => void }) => {
+  const [open, setOpen] = useState(false);
+  const [receiptUrl, setReceiptUrl] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setNote("");
+      setReceiptUrl(null);
+      getPaymentReceiptUrl(proof.receipt_path).then(setReceiptUrl);
+    }
+  };
+
+  const review = async (verified: boolean) => {
+    if (!verified && !note.trim()) {
+      toast.error("Tell the customer why the receipt was rejected");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await reviewPaymentProof(proof.id, verified, note);
+      toast.success(`Payment for order ${proof.order?.order_number} ${verified ? "verified" : "rejected"}`);
+      setOpen(false);
+      onReviewed();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to review receipt");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isPdf = proof.receipt_path.toLowerCase().endsWith(".pdf");
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">Review</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receipt for Order {proof.order?.order_number}</DialogTitle>
+          <DialogDescription>
+            Check the transfer has reached the store account before verifying. The customer is notified either way.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Transaction ID</p>
+              <p className="font-semibold">{proof.transaction_id}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Amount</p>
+              <p className="font-semibold">
+                {proof.amount !== null ? `Rs. ${proof.amount.toLocaleString()}` : "Not given"}
+                {proof.order && ` of Rs. ${proof.order.total.toLocaleString()}`}
+              </p>
+            </div>
+          </div>
+          {!receiptUrl ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : isPdf ? (
+            <a href={receiptUrl} target="_blank" rel="noopener noreferrer" className="text-sm text-primary underline">
+              Open receipt (PDF)
+            </a>
+          ) : (
+            <a href={receiptUrl} target="_blank" rel="noopener noreferrer">
+              <img src={receiptUrl} alt="Transfer receipt" className="max-h-96 mx-auto rounded border" />
+            </a>
+          )}
+          <div>
+            <Label htmlFor={`proof-note-${proof.id}`}>Note to customer</Label>
+            <Textarea
+              id={`proof-note-${proof.id}`}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Required when rejecting, e.g. the amount doesn't match the order total"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="destructive" onClick={() => review(false)} disabled={saving}>
+              Reject
+            </Button>
+            <Button onClick={() => review(true)} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Verify Payment
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/** Bank transfer receipts waiting for staff to verify or reject them. */
+const PaymentProofQueue = ({ onReviewed }: PaymentProofQueueProps) => {
+  const [proofs, setProofs] = useState<QueuedProof[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchProofs = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("payment_proofs")
+      .select(
+        "*, order:orders(order_number, total, guest_email), customer:profiles!payment_proofs_user_id_fkey(full_name, email)"
+      )
+      .eq("status", "submitted")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching payment proofs:", error);
+      toast.error("Failed to load bank transfer receipts");
+    }
+    setProofs(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchProofs();
+  }, [fetchProofs]);
+
+  if (loading || proofs.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Landmark className="h-5 w-5" />
+          Bank Transfer Receipts
+          <Badge variant="secondary">{proofs.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Order</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead>Transaction ID</TableHead>
+              <TableHead>Amount</TableHead>
+              <TableHead>Sent</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {proofs.map((proof) => (
+              <TableRow key={proof.id}>
+                <TableCell className="font-medium">{proof.order?.order_number}</TableCell>
+                <TableCell>{proof.customer?.full_name || proof.customer?.email || proof.order?.guest_email || "—"}</TableCell>
+                <TableCell>{proof.transaction_id}</TableCell>
+                <TableCell>
+                  {proof.amount !== null ? `Rs. ${proof.amount.toLocaleString()}` : "—"}
+                  {proof.amount !== null && proof.order && proof.amount !== proof.order.total && (
+                    <Badge variant="destructive" className="ml-2">
+                      Order Rs. {proof.order.total.toLocaleString()}
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell>{new Date(proof.created_at).toLocaleString()}</TableCell>
+                <TableCell className="text-right">
+                  <ReviewProofDialog
+                    proof={proof}
+                    onReviewed={() => {
+                      fetchProofs();
+                      onReviewed();
+                    }}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PaymentProofQueue;
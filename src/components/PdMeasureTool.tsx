@@ -0,0 +1,329 @@
+import { useEffect, useRef, useState } from "react";
+import { Camera, ImageUp, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { detectPdMarkers, measurePd, type PdMarkers, type PdMeasurement } from "@/lib/pd-measurement";
+
+interface PdMeasureToolProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMeasured: (measurement: PdMeasurement) => void;
+}
+
+type Source = "camera" | "photo";
+type Marker = "rightPupil" | "leftPupil" | "bridge" | "cardLeft" | "cardRight";
+
+const PUPIL_COLOR = "#22c55e";
+const BRIDGE_COLOR = "#3b82f6";
+const CARD_COLOR = "#f97316";
+// How close, in screen pixels, a press must be to pick up a marker
+const GRAB_DISTANCE = 24;
+
+/** Measure PD from a selfie with a bank card on the forehead, then let the customer fine-tune the markers. */
+const PdMeasureTool = ({ open, onOpenChange, onMeasured }: PdMeasureToolProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [source, setSource] = useState<Source>("camera");
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [photo, setPhoto] = useState<HTMLImageElement | null>(null);
+  const [markers, setMarkers] = useState<PdMarkers | null>(null);
+  const [faceFound, setFaceFound] = useState(true);
+  const [detecting, setDetecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dragging, setDragging] = useState<Marker | null>(null);
+
+  const measurement = markers ? measurePd(markers) : null;
+
+  // Live preview until a photo is taken
+  useEffect(() => {
+    if (!open || source !== "camera" || photoUrl) return;
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "user", width: { ideal: 1280 } }, audio: false })
+      .then((s) => {
+        stream = s;
+        if (cancelled || !videoRef.current) {
+          s.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        videoRef.current.srcObject = s;
+        return videoRef.current.play();
+      })
+      .catch(() => {
+        if (!cancelled) setError("Allow camera access to take a photo, or upload one instead.");
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+  }, [open, source, photoUrl]);
+
+  // Find the pupils and the card as soon as there is a photo
+  useEffect(() => {
+    if (!photoUrl) return;
+
+    let cancelled = false;
+    const image = new Image();
+    image.src = photoUrl;
+
+    setDetecting(true);
+    setError(null);
+    image
+      .decode()
+      .then(() => detectPdMarkers(image))
+      .then((detected) => {
+        if (cancelled) return;
+        setPhoto(image);
+        setMarkers(detected.markers);
+        setFaceFound(detected.found);
+      })
+      .catch(() => {
+        if (!cancelled) setError("This photo couldn't be measured. Try another one.");
+      })
+      .finally(() => {
+        if (!cancelled) setDetecting(false);
+      });
+
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(photoUrl);
+    };
+  }, [photoUrl]);
+
+  // Redraw the photo and markers whenever a marker moves
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !photo || !markers) return;
+
+    canvas.width = photo.naturalWidth;
+    canvas.height = photo.naturalHeight;
+    ctx.drawImage(photo, 0, 0);
+
+    const size = Math.max(3, canvas.width / 250);
+    ctx.lineWidth = size / 1.5;
+
+    ctx.strokeStyle = CARD_COLOR;
+    [markers.cardLeft, markers.cardRight].forEach((x) => {
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, canvas.height);
+      ctx.stroke();
+    });
+
+    ctx.strokeStyle = BRIDGE_COLOR;
+    ctx.setLineDash([size * 2, size * 2]);
+    ctx.beginPath();
+    ctx.moveTo(markers.bridge.x, markers.bridge.y - size * 12);
+    ctx.lineTo(markers.bridge.x, markers.bridge.y + size * 12);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.strokeStyle = PUPIL_COLOR;
+    [markers.rightPupil, markers.leftPupil].forEach(({ x, y }) => {
+      ctx.beginPath();
+      ctx.arc(x, y, size * 3, 0, Math.PI * 2);
+      ctx.moveTo(x - size * 5, y);
+      ctx.lineTo(x + size * 5, y);
+      ctx.moveTo(x, y - size * 5);
+      ctx.lineTo(x, y + size * 5);
+      ctx.stroke();
+    });
+  }, [photo, markers]);
+
+  const takePhoto = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    // Saved the way the camera sees the customer, not mirrored, so the left pupil is their right eye
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext("2d")?.drawImage(video, 0, 0);
+    canvas.toBlob((blob) => {
+      if (blob) setPhotoUrl(URL.createObjectURL(blob));
+    }, "image/jpeg", 0.92);
+  };
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setPhotoUrl(URL.createObjectURL(file));
+  };
+
+  const reset = () => {
+    setPhotoUrl(null);
+    setPhoto(null);
+    setMarkers(null);
+    setError(null);
+    setFaceFound(true);
+  };
+
+  const handleSourceChange = (value: string) => {
+    reset();
+    setSource(value as Source);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  // Pointer position in photo pixels, and the screen-to-photo scale
+  const toPhoto = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = e.currentTarget.width / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!markers) return;
+    const { x, y, scale } = toPhoto(e);
+    const reach = GRAB_DISTANCE * scale;
+
+    const distances: [Marker, number][] = [
+      ["rightPupil", Math.hypot(x - markers.rightPupil.x, y - markers.rightPupil.y)],
+      ["leftPupil", Math.hypot(x - markers.leftPupil.x, y - markers.leftPupil.y)],
+      ["bridge", Math.hypot(x - markers.bridge.x, y - markers.bridge.y)],
+      ["cardLeft", Math.abs(x - markers.cardLeft)],
+      ["cardRight", Math.abs(x - markers.cardRight)],
+    ];
+    const [nearest, distance] = distances.sort((a, b) => a[1] - b[1])[0];
+    if (distance > reach) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(nearest);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragging || !markers) return;
+    const { x, y } = toPhoto(e);
+    setMarkers(
+      dragging === "cardLeft" || dragging === "cardRight"
+        ? { ...markers, [dragging]: x }
+        : { ...markers, [dragging]: { x, y } }
+    );
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    setDragging(null);
+  };
+
+  const handleUse = () => {
+    if (!measurement) return;
+    onMeasured(measurement);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Measure Your PD</DialogTitle>
+          <DialogDescription>
+            Hold any bank or ID card flat against your forehead, long edge level, and look straight at the
+            camera from arm's length. Your photo stays on this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!photoUrl && (
+          <>
+            <Tabs value={source} onValueChange={handleSourceChange}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="camera">
+                  <Camera className="h-4 w-4 mr-2" />
+                  Camera
+                </TabsTrigger>
+                <TabsTrigger value="photo">
+                  <ImageUp className="h-4 w-4 mr-2" />
+                  Upload a Photo
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {source === "camera" ? (
+              <div className="space-y-3">
+                <div className="aspect-[4/3] w-full overflow-hidden rounded-lg bg-muted flex items-center justify-center">
+                  {error ? (
+                    <p className="text-sm text-muted-foreground text-center px-6">{error}</p>
+                  ) : (
+                    <video ref={videoRef} muted playsInline className="h-full w-full object-cover -scale-x-100" />
+                  )}
+                </div>
+                <Button className="w-full" onClick={takePhoto} disabled={!!error}>
+                  <Camera className="h-4 w-4 mr-2" />
+                  Take Photo
+                </Button>
+              </div>
+            ) : (
+              <Input type="file" accept="image/*" onChange={handlePhotoChange} className="cursor-pointer" />
+            )}
+          </>
+        )}
+
+        {photoUrl && (
+          <div className="space-y-3">
+            <div className="relative w-full overflow-hidden rounded-lg bg-muted flex items-center justify-center min-h-48">
+              {detecting && <Loader2 className="absolute h-8 w-8 animate-spin text-muted-foreground" />}
+              {error && <p className="text-sm text-muted-foreground text-center px-6 py-12">{error}</p>}
+              {markers && (
+                <canvas
+                  ref={canvasRef}
+                  className="w-full h-auto touch-none cursor-crosshair"
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                />
+              )}
+            </div>
+
+            {markers && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {faceFound
+                    ? "Check the markers and drag any that are off: "
+                    : "We couldn't find your eyes automatically. Drag the markers into place: "}
+                  <span style={{ color: PUPIL_COLOR }}>circles</span> on the centre of each pupil, the{" "}
+                  <span style={{ color: BRIDGE_COLOR }}>dashed line</span> on the middle of your nose, and the{" "}
+                  <span style={{ color: CARD_COLOR }}>lines</span> on the card's left and right edges.
+                </p>
+                <div className="rounded-lg border p-3 text-sm">
+                  {measurement ? (
+                    <div className="flex flex-wrap gap-x-6 gap-y-1">
+                      <span>PD: <strong>{measurement.single.toFixed(1)} mm</strong></span>
+                      <span>Right: {measurement.right.toFixed(1)} mm</span>
+                      <span>Left: {measurement.left.toFixed(1)} mm</span>
+                    </div>
+                  ) : (
+                    <span className="text-destructive">
+                      That doesn't look like a PD yet. Check the markers are on your pupils and the card's edges.
+                    </span>
+                  )}
+                </div>
+              </>
+            )}
+
+            <div className="flex gap-3">
+              <Button variant="outline" className="flex-1" onClick={reset}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Retake
+              </Button>
+              <Button className="flex-1" onClick={handleUse} disabled={!measurement}>
+                Use This PD
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PdMeasureTool;
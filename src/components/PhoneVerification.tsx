@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Loader2, ShieldCheck } from "lucide-react";
+import type { User } from "@supabase/supabase-js";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { OTP_LENGTH, sendPhoneCode, verifyPhoneCode } from "@/lib/cod";
+
+interface PhoneVerificationProps {
+  phone: string;
+  onVerified: (user: User | null) => void;
+}
+
+/** Sends a one-time code to the delivery phone number and checks it. */
+const PhoneVerification = ({ phone, onVerified }: PhoneVerificationProps) => {
+  const { toast } = useToast();
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState("");
+  const [sending, setSending] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+
+  const sendCode = async () => {
+    setSending(true);
+    try {
+      await sendPhoneCode(phone);
+      setCodeSent(true);
+      setCode("");
+      toast({
+        title: "Code sent",
+        description: `We've sent a ${OTP_LENGTH}-digit code to ${phone}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't send the code",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const verify = async () => {
+    setVerifying(true);
+    try {
+      const user = await verifyPhoneCode(phone, code);
+      toast({ title: "Phone number verified" });
+      onVerified(user);
+    } catch (error) {
+      toast({
+        title: "Verification failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-start gap-2">
+        <ShieldCheck className="h-5 w-5 mt-0.5 text-primary" />
+        <p className="text-sm">
+          To pay cash on delivery, please verify <span className="font-semibold">{phone}</span> with a one-time code.
+        </p>
+      </div>
+      {codeSent && (
+        <div className="flex flex-wrap items-center gap-3">
+          <InputOTP maxLength={OTP_LENGTH} value={code} onChange={setCode}>
+            <InputOTPGroup>
+              {Array.from({ length: OTP_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+          <Button onClick={verify} disabled={verifying || code.length < OTP_LENGTH}>
+            {verifying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Verify
+          </Button>
+        </div>
+      )}
+      <Button variant={codeSent ? "link" : "outline"} size="sm" className={codeSent ? "px-0" : ""} onClick={sendCode} disabled={sending}>
+        {sending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {codeSent ? "Send a new code" : "Send Code"}
+      </Button>
+    </div>
+  );
+};
+
+export default PhoneVerification;
@@ -0,0 +1,52 @@
+import { useState, useEffect } from "react";
+import { FileText, Loader2 } from "lucide-react";
+import { getPrescriptionFileUrl } from "@/lib/prescription-storage";
+
+interface PrescriptionFileProps {
+  path: string;
+  className?: string;
+}
+
+// Renders a stored prescription through a short-lived signed URL
+const PrescriptionFile = ({ path, className }: PrescriptionFileProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getPrescriptionFileUrl(path).then((signedUrl) => {
+      if (cancelled) return;
+      setUrl(signedUrl);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  if (loading) {
+    return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />;
+  }
+
+  if (!url) {
+    return <p className="text-sm text-muted-foreground italic">Prescription file is unavailable</p>;
+  }
+
+  if (/\.pdf($|\?)/i.test(path)) {
+    return (
+      <a href={url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-2 text-sm text-accent underline">
+        <FileText className="h-4 w-4" />
+        Open prescription PDF
+      </a>
+    );
+  }
+
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer">
+      <img src={url} alt="Prescription" className={className} />
+    </a>
+  );
+};
+
+export default PrescriptionFile;
@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { Ruler } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { cn } from "@/lib/utils";
+import PdMeasureTool from "@/components/PdMeasureTool";
+import type { PdMeasurement } from "@/lib/pd-measurement";
+import type { EyeData, PrismData, PrescriptionData } from "@/lib/prescription";
+import {
+  MONOCULAR_PD_RANGE,
+  SINGLE_PD_RANGE,
+  type PrescriptionField,
+  type PrescriptionValidation,
+} from "@/lib/prescription-validation";
+
+interface PrescriptionFormProps {
+  value: PrescriptionData;
+  onChange: (value: PrescriptionData) => void;
+  validation?: PrescriptionValidation;
+}
+
+interface FieldIssue {
+  error?: string;
+  warning?: string;
+}
+
+type Side = 'right' | 'left';
+
+// Generate number ranges
+const generateSphCylRange = () => {
+  const values = [];
+  for (let i = -16; i <= 16; i += 0.25) {
+    const formatted = i > 0 ? `+${i.toFixed(2)}` : i.toFixed(2);
+    values.push(formatted);
+  }
+  return values;
+};
+
+const generateAddRange = () => {
+  const values = [];
+  for (let i = 0; i <= 6; i += 0.25) {
+    values.push(i === 0 ? i.toFixed(2) : `+${i.toFixed(2)}`);
+  }
+  return values;
+};
+
+const generatePrismRange = () => {
+  const values = [];
+  for (let i = 0; i <= 5; i += 0.5) {
+    values.push(i.toFixed(2));
+  }
+  return values;
+};
+
+const generateAxisRange = () => {
+  const values = [];
+  for (let i = 0; i <= 180; i++) {
+    values.push(i.toString());
+  }
+  return values;
+};
+
+// Only offer PDs that validatePrescription (and prescription_errors) accept
+const generateSinglePDRange = () => {
+  const values = [];
+  for (let i = SINGLE_PD_RANGE.min; i <= SINGLE_PD_RANGE.max; i++) {
+    values.push(i.toString());
+  }
+  return values;
+};
+
+const generateDoublePDRange = () => {
+  const values = [];
+  for (let i = MONOCULAR_PD_RANGE.min; i <= MONOCULAR_PD_RANGE.max; i++) {
+    values.push(i.toString());
+  }
+  return values;
+};
+
+const sphCylOptions = generateSphCylRange();
+const addOptions = generateAddRange();
+const prismOptions = generatePrismRange();
+const axisOptions = generateAxisRange();
+const singlePDOptions = generateSinglePDRange();
+const doublePDOptions = generateDoublePDRange();
+const verticalBaseOptions = ['n/a', 'Up', 'Down'];
+const horizontalBaseOptions = ['n/a', 'In', 'Out'];
+
+const FieldMessage = ({ issue }: { issue?: FieldIssue }) => {
+  if (issue?.error) return <p className="text-xs text-destructive mt-1">{issue.error}</p>;
+  if (issue?.warning) return <p className="text-xs text-orange-600 mt-1">{issue.warning}</p>;
+  return null;
+};
+
+const triggerClass = (issue?: FieldIssue) =>
+  cn(issue?.error && "border-destructive", !issue?.error && issue?.warning && "border-orange-400");
+
+const ValueSelect = ({
+  id,
+  value,
+  options,
+  placeholder,
+  onValueChange,
+  issue,
+}: {
+  id: string;
+  value: string;
+  options: string[];
+  placeholder: string;
+  onValueChange: (value: string) => void;
+  issue?: FieldIssue;
+}) => (
+  <div>
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id} className={triggerClass(issue)}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent className="max-h-60">
+        {options.map((val) => (
+          <SelectItem key={`${id}-${val}`} value={val}>
+            {val}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <FieldMessage issue={issue} />
+  </div>
+);
+
+// Manual SPH/CYL/AXIS/ADD, PD and prism entry, shared by LensSelector and saved prescriptions
+const PrescriptionForm = ({ value, onChange, validation }: PrescriptionFormProps) => {
+  const [measuringPd, setMeasuringPd] = useState(false);
+
+  const issue = (field: PrescriptionField): FieldIssue => ({
+    error: validation?.errors[field],
+    warning: validation?.warnings[field],
+  });
+
+  const eyeKey = (side: Side) => (side === 'right' ? 'rightEye' : 'leftEye');
+  const prismKey = (side: Side) => (side === 'right' ? 'rightPrism' : 'leftPrism');
+
+  const updateEye = (side: Side, field: keyof EyeData, fieldValue: string) => {
+    onChange({ ...value, [eyeKey(side)]: { ...value[eyeKey(side)], [field]: fieldValue } });
+  };
+
+  const updatePrism = (side: Side, field: keyof PrismData, fieldValue: string) => {
+    onChange({ ...value, [prismKey(side)]: { ...value[prismKey(side)], [field]: fieldValue } });
+  };
+
+  // The PD options are whole millimetres, so the measurement is rounded to fit them
+  const applyMeasuredPd = ({ single, right, left }: PdMeasurement) => {
+    const rightPd = value.twoPDNumbers ? right : single;
+    const leftPd = value.twoPDNumbers ? left : single;
+    onChange({
+      ...value,
+      rightEye: { ...value.rightEye, pd: Math.round(rightPd).toString() },
+      leftEye: { ...value.leftEye, pd: Math.round(leftPd).toString() },
+    });
+  };
+
+  const renderEyeRow = (side: Side) => {
+    const eye = value[eyeKey(side)];
+    return (
+      <div>
+        <h4 className="font-medium mb-3">{side === 'right' ? 'Right Eye (OD)' : 'Left Eye (OS)'}</h4>
+        <div className="grid grid-cols-4 gap-3">
+          <ValueSelect id={`${side}-sph`} value={eye.sph} options={sphCylOptions} placeholder="0.00" onValueChange={(v) => updateEye(side, 'sph', v)} issue={issue(`${eyeKey(side)}.sph`)} />
+          <ValueSelect id={`${side}-cyl`} value={eye.cyl} options={sphCylOptions} placeholder="0.00" onValueChange={(v) => updateEye(side, 'cyl', v)} issue={issue(`${eyeKey(side)}.cyl`)} />
+          <ValueSelect id={`${side}-axis`} value={eye.axis} options={axisOptions} placeholder="0" onValueChange={(v) => updateEye(side, 'axis', v)} issue={issue(`${eyeKey(side)}.axis`)} />
+          <ValueSelect id={`${side}-add`} value={eye.add} options={addOptions} placeholder="0.00" onValueChange={(v) => updateEye(side, 'add', v)} issue={issue(`${eyeKey(side)}.add`)} />
+        </div>
+      </div>
+    );
+  };
+
+  const renderPrismRow = (side: Side) => {
+    const prism = value[prismKey(side)];
+    return (
+      <div className={side === 'left' ? 'mt-6' : undefined}>
+        <h4 className="font-medium mb-3">{side === 'right' ? 'Right Eye (OD)' : 'Left Eye (OS)'}</h4>
+        <div className="grid grid-cols-5 gap-3">
+          <div className="flex items-center justify-center">
+            <span className="text-sm font-medium">Add Prism</span>
+          </div>
+          <ValueSelect id={`${side}-v-prism`} value={prism?.verticalPrism} options={prismOptions} placeholder="0.00" onValueChange={(v) => updatePrism(side, 'verticalPrism', v)} issue={issue(`${prismKey(side)}.verticalPrism`)} />
+          <ValueSelect id={`${side}-v-base`} value={prism?.verticalBase} options={verticalBaseOptions} placeholder="n/a" onValueChange={(v) => updatePrism(side, 'verticalBase', v)} issue={issue(`${prismKey(side)}.verticalBase`)} />
+          <ValueSelect id={`${side}-h-prism`} value={prism?.horizontalPrism} options={prismOptions} placeholder="0.00" onValueChange={(v) => updatePrism(side, 'horizontalPrism', v)} issue={issue(`${prismKey(side)}.horizontalPrism`)} />
+          <ValueSelect id={`${side}-h-base`} value={prism?.horizontalBase} options={horizontalBaseOptions} placeholder="n/a" onValueChange={(v) => updatePrism(side, 'horizontalBase', v)} issue={issue(`${prismKey(side)}.horizontalBase`)} />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header Row */}
+      <div className="bg-gray-800 text-white p-3 rounded-t-lg">
+        <div className="grid grid-cols-4 gap-3 text-center font-medium text-sm">
+          <div>Sphere (SPH)</div>
+          <div>Cylinder (CYL)</div>
+          <div>Axis</div>
+          <div>Addition (near) ADD</div>
+        </div>
+      </div>
+
+      {renderEyeRow('right')}
+      {renderEyeRow('left')}
+
+      {/* Pupillary Distance (PD) Section */}
+      <div className="border-t pt-4">
+        <div className="flex items-center gap-4 mb-4">
+          <h4 className="font-semibold">Pupillary Distance (PD):</h4>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="twoPD"
+              checked={value.twoPDNumbers}
+              onCheckedChange={(checked) => {
+                if (checked) {
+                  onChange({ ...value, twoPDNumbers: true });
+                  return;
+                }
+                // Back to a single PD: the per-eye values no longer apply
+                onChange({
+                  ...value,
+                  twoPDNumbers: false,
+                  rightEye: { ...value.rightEye, pd: '' },
+                  leftEye: { ...value.leftEye, pd: '' },
+                });
+              }}
+            />
+            <Label htmlFor="twoPD" className="cursor-pointer">
+              Two PD numbers
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="addPrism"
+              checked={value.addPrism}
+              onCheckedChange={(checked) => onChange({ ...value, addPrism: checked as boolean })}
+            />
+            <Label htmlFor="addPrism" className="cursor-pointer">
+              Add prism
+            </Label>
+          </div>
+        </div>
+
+        {/* PD Input Fields */}
+        <div className={value.twoPDNumbers ? "grid grid-cols-2 gap-4 max-w-md" : "max-w-xs"}>
+          {value.twoPDNumbers ? (
+            <>
+              <ValueSelect id="right-pd-two" value={value.rightEye.pd} options={doublePDOptions} placeholder="Right PD" onValueChange={(v) => updateEye('right', 'pd', v)} issue={issue('rightEye.pd')} />
+              <ValueSelect id="left-pd-two" value={value.leftEye.pd} options={doublePDOptions} placeholder="Left PD" onValueChange={(v) => updateEye('left', 'pd', v)} issue={issue('leftEye.pd')} />
+            </>
+          ) : (
+            <ValueSelect
+              id="single-pd"
+              value={value.rightEye.pd}
+              options={singlePDOptions}
+              placeholder="PD"
+              issue={issue('rightEye.pd')}
+              onValueChange={(v) => onChange({
+                ...value,
+                rightEye: { ...value.rightEye, pd: v },
+                leftEye: { ...value.leftEye, pd: v },
+              })}
+            />
+          )}
+        </div>
+        <Button type="button" variant="link" className="px-0 h-auto mt-2" onClick={() => setMeasuringPd(true)}>
+          <Ruler className="h-4 w-4 mr-1" />
+          Don't know your PD? Measure it with a card
+        </Button>
+        <PdMeasureTool open={measuringPd} onOpenChange={setMeasuringPd} onMeasured={applyMeasuredPd} />
+      </div>
+
+      {/* Add Prism Section */}
+      {value.addPrism && (
+        <div className="border-t pt-4">
+          {/* Prism Header Row */}
+          <div className="bg-gray-800 text-white p-3 rounded-t-lg mb-4">
+            <div className="grid grid-cols-5 gap-3 text-center font-medium text-sm">
+              <div>Add Prism</div>
+              <div>Vertical Prism</div>
+              <div>Base Direction</div>
+              <div>Horizontal Prism</div>
+              <div>Base Direction</div>
+            </div>
+          </div>
+
+          {renderPrismRow('right')}
+          {renderPrismRow('left')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrescriptionForm;
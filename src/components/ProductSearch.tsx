@@ -0,0 +1,192 @@
+import { useState, useEffect, useRef } from "react";
+import { useNavigate, useLocation } from "react-router-dom";
+import { Search, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+
+interface Suggestion {
+  id: string;
+  title: string;
+  slug: string;
+  base_price: number;
+  images: string[] | null;
+}
+
+interface ProductSearchProps {
+  className?: string;
+  onNavigate?: () => void;
+}
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_SUGGESTIONS = 6;
+
+const ProductSearch = ({ className, onNavigate }: ProductSearchProps) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  // Keep the box in sync with the results page query
+  useEffect(() => {
+    if (location.pathname === "/search") {
+      setQuery(new URLSearchParams(location.search).get("q") || "");
+    }
+  }, [location.pathname, location.search]);
+
+  useEffect(() => {
+    const term = query.trim();
+    if (term.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      const { data, error } = await supabase
+        .rpc("search_products", { search_query: term })
+        .select("id, title, slug, base_price, images")
+        .limit(MAX_SUGGESTIONS);
+
+      if (cancelled) return;
+      if (error) {
+        console.error("Error searching products:", error);
+        setSuggestions([]);
+      } else {
+        setSuggestions(data || []);
+      }
+      setActiveIndex(-1);
+      setLoading(false);
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const goTo = (path: string) => {
+    setOpen(false);
+    onNavigate?.();
+    navigate(path);
+  };
+
+  const submitSearch = () => {
+    const term = query.trim();
+    if (!term) return;
+    goTo(`/search?q=${encodeURIComponent(term)}`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex((prev) => Math.min(prev + 1, suggestions.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((prev) => Math.max(prev - 1, -1));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (open && activeIndex >= 0 && suggestions[activeIndex]) {
+        goTo(`/product/${suggestions[activeIndex].slug}`);
+      } else {
+        submitSearch();
+      }
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  const showDropdown = open && query.trim().length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div ref={containerRef} className={cn("relative w-full", className)}>
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        type="search"
+        placeholder="Search frames, sunglasses..."
+        className="pl-10"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={handleKeyDown}
+        aria-label="Search products"
+        aria-expanded={showDropdown}
+        aria-autocomplete="list"
+      />
+
+      {showDropdown && (
+        <div className="absolute left-0 right-0 top-full mt-2 rounded-md border bg-popover text-popover-foreground shadow-lg z-50 overflow-hidden">
+          {loading ? (
+            <div className="flex items-center gap-2 px-4 py-3 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Searching...
+            </div>
+          ) : suggestions.length === 0 ? (
+            <div className="px-4 py-3 text-sm text-muted-foreground">
+              No products found for "{query.trim()}"
+            </div>
+          ) : (
+            <ul role="listbox">
+              {suggestions.map((item, index) => (
+                <li
+                  key={item.id}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  className={cn(
+                    "flex items-center gap-3 px-4 py-2 cursor-pointer hover:bg-accent/10",
+                    index === activeIndex && "bg-accent/10"
+                  )}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    goTo(`/product/${item.slug}`);
+                  }}
+                >
+                  <img
+                    src={item.images?.[0] || "/placeholder.svg"}
+                    alt={item.title}
+                    className="h-10 w-10 rounded object-cover bg-secondary"
+                  />
+                  <span className="flex-1 text-sm line-clamp-1">{item.title}</span>
+                  <span className="text-sm font-semibold">Rs. {item.base_price.toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <button
+            type="button"
+            className="w-full border-t px-4 py-2 text-left text-sm font-medium text-accent hover:bg-accent/10"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              submitSearch();
+            }}
+          >
+            See all results for "{query.trim()}"
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductSearch;
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { Loader2, PackageX } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { markDeliveryRefused } from "@/lib/cod";
+
+interface RefusedDeliveryDialogProps {
+  orderId: string;
+  orderNumber: string;
+  onRefused: () => void;
+}
+
+/** "Delivery Refused" button and dialog for shipped orders that came back. */
+const RefusedDeliveryDialog = ({ orderId, orderNumber, onRefused }: RefusedDeliveryDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) setNote("");
+  };
+
+  const markRefused = async () => {
+    setSaving(true);
+    try {
+      await markDeliveryRefused(orderId, note.trim());
+      toast.success(`Order ${orderNumber} marked as refused`);
+      setOpen(false);
+      onRefused();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update order");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline">
+          <PackageX className="h-4 w-4 mr-2" />
+          Delivery Refused
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delivery Refused for Order {orderNumber}</DialogTitle>
+          <DialogDescription>
+            The order is cancelled and its items go back into stock. Refused deliveries count against the customer's
+            cash on delivery limit.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor={`refused-note-${orderId}`}>Note</Label>
+            <Textarea
+              id={`refused-note-${orderId}`}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              placeholder="Optional, e.g. customer not home after three attempts"
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button variant="destructive" onClick={markRefused} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Mark as Refused
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefusedDeliveryDialog;
@@ -0,0 +1,43 @@
+import type { ReactNode } from "react";
+import { Navigate } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { usePermissions } from "@/hooks/use-permissions";
+import type { AppPermission, AppRole } from "@/lib/roles";
+
+interface RequireRoleProps {
+  /** Any one of these roles lets the user in. */
+  role?: AppRole | AppRole[];
+  /** The user must also hold this permission. */
+  permission?: AppPermission;
+  /** Where signed-in users without access are sent. */
+  redirectTo?: string;
+  children: ReactNode;
+}
+
+/** Renders its children only for signed-in users with the required role and permission; everyone else is redirected. */
+const RequireRole = ({ role, permission, redirectTo = "/", children }: RequireRoleProps) => {
+  const { loading, signedIn, roles, can } = usePermissions();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!signedIn) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const allowedRoles = role === undefined ? null : Array.isArray(role) ? role : [role];
+  const hasAllowedRole = !allowedRoles || roles.some((userRole) => allowedRoles.includes(userRole));
+
+  if (!hasAllowedRole || (permission && !can(permission))) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
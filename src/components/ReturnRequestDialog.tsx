@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { Loader2, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import {
+  MAX_RETURN_PHOTOS,
+  RETURN_REASONS,
+  RETURN_TYPE_LABELS,
+  requestReturn,
+  returnWindowEndsAt,
+  uploadReturnPhoto,
+  type ReturnType,
+} from "@/lib/returns";
+
+interface ReturnableItem {
+  id: string;
+  product_id: string | null;
+  variant_id: string | null;
+  title: string;
+  details: string;
+  returnable: number;
+}
+
+interface VariantOption {
+  id: string;
+  label: string;
+}
+
+interface ReturnRequestDialogProps {
+  userId: string;
+  orderId: string;
+  orderNumber: string;
+  deliveredAt: string;
+  onRequested: () => void;
+}
+
+const variantLabel = (variant: { color: string | null; size: string | null } | null) =>
+  [variant?.color, variant?.size].filter(Boolean).join(" / ");
+
+/** "Return or Exchange" button and form for one delivered order. */
+const ReturnRequestDialog = ({ userId, orderId, orderNumber, deliveredAt, onRequested }: ReturnRequestDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [items, setItems] = useState<ReturnableItem[]>([]);
+  const [variants, setVariants] = useState<VariantOption[]>([]);
+  const [loadingItems, setLoadingItems] = useState(false);
+  const [itemId, setItemId] = useState("");
+  const [type, setType] = useState<ReturnType>("refund");
+  const [quantity, setQuantity] = useState(1);
+  const [reason, setReason] = useState("");
+  const [details, setDetails] = useState("");
+  const [exchangeVariantId, setExchangeVariantId] = useState("same");
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const selectedItem = items.find((item) => item.id === itemId);
+
+  const openDialog = async (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) return;
+
+    setType("refund");
+    setQuantity(1);
+    setReason("");
+    setDetails("");
+    setExchangeVariantId("same");
+    setPhotos([]);
+    setLoadingItems(true);
+
+    const [{ data: orderItems, error }, { data: returns }] = await Promise.all([
+      supabase
+        .from("order_items")
+        .select("id, product_id, variant_id, quantity, cancelled_quantity, product:products(title), variant:product_variants(color, size)")
+        .eq("order_id", orderId)
+        .order("created_at"),
+      supabase.from("return_requests").select("order_item_id, quantity, status").eq("order_id", orderId),
+    ]);
+
+    if (error) console.error("Error fetching order items:", error);
+
+    // Units already covered by an open or completed return can't be returned again
+    const returnable = (orderItems || [])
+      .map((item) => ({
+        id: item.id,
+        product_id: item.product_id,
+        variant_id: item.variant_id,
+        title: item.product?.title || "Item",
+        details: variantLabel(item.variant),
+        returnable:
+          item.quantity -
+          item.cancelled_quantity -
+          (returns || [])
+            .filter((r) => r.order_item_id === item.id && r.status !== "rejected")
+            .reduce((sum, r) => sum + r.quantity, 0),
+      }))
+      .filter((item) => item.returnable > 0);
+
+    setItems(returnable);
+    selectItem(returnable[0]);
+    setLoadingItems(false);
+  };
+
+  const selectItem = async (item: ReturnableItem | undefined) => {
+    setItemId(item?.id || "");
+    setQuantity(1);
+    setExchangeVariantId("same");
+    setVariants([]);
+    if (!item?.product_id) return;
+
+    const { data } = await supabase
+      .from("product_variants")
+      .select("id, color, size")
+      .eq("product_id", item.product_id)
+      .neq("id", item.variant_id || "")
+      .order("created_at");
+    setVariants((data || []).map((variant) => ({ id: variant.id, label: variantLabel(variant) || "Default" })));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedItem) return;
+
+    if (!reason) {
+      toast.error("Please choose a reason");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const photoPaths = await Promise.all(photos.map((photo) => uploadReturnPhoto(userId, photo)));
+      await requestReturn({
+        orderItemId: selectedItem.id,
+        type,
+        quantity,
+        reason,
+        details,
+        photoPaths,
+        exchangeVariantId: type === "exchange" && exchangeVariantId !== "same" ? exchangeVariantId : null,
+      });
+      toast.success("Return requested. We'll review it shortly.");
+      setOpen(false);
+      onRequested();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to request return");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openDialog}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline">
+          <Undo2 className="h-4 w-4 mr-2" />
+          Return or Exchange
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Return Items from Order {orderNumber}</DialogTitle>
+          <DialogDescription>
+            Returns are accepted until {returnWindowEndsAt(deliveredAt).toLocaleDateString()}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadingItems ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">Every item in this order already has a return in progress.</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="return-item">Item</Label>
+              <Select value={itemId} onValueChange={(value) => selectItem(items.find((item) => item.id === value))}>
+                <SelectTrigger id="return-item">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {items.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.title}
+                      {item.details && ` (${item.details})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <RadioGroup value={type} onValueChange={(value) => setType(value as ReturnType)} className="flex gap-6">
+              {(Object.keys(RETURN_TYPE_LABELS) as ReturnType[]).map((option) => (
+                <div key={option} className="flex items-center gap-2">
+                  <RadioGroupItem value={option} id={`return-type-${option}`} />
+                  <Label htmlFor={`return-type-${option}`}>{RETURN_TYPE_LABELS[option]}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="return-quantity">Quantity</Label>
+                <Input
+                  id="return-quantity"
+                  type="number"
+                  min={1}
+                  max={selectedItem?.returnable || 1}
+                  value={quantity}
+                  onChange={(e) =>
+                    setQuantity(Math.min(selectedItem?.returnable || 1, Math.max(1, Number(e.target.value) || 1)))
+                  }
+                />
+              </div>
+              {type === "exchange" && (
+                <div>
+                  <Label htmlFor="exchange-variant">Exchange For</Label>
+                  <Select value={exchangeVariantId} onValueChange={setExchangeVariantId}>
+                    <SelectTrigger id="exchange-variant">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="same">The same frame</SelectItem>
+                      {variants.map((variant) => (
+                        <SelectItem key={variant.id} value={variant.id}>
+                          {variant.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="return-reason">Reason</Label>
+              <Select value={reason} onValueChange={setReason}>
+                <SelectTrigger id="return-reason">
+                  <SelectValue placeholder="Choose a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {RETURN_REASONS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="return-details">Details (optional)</Label>
+              <Textarea
+                id="return-details"
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                rows={3}
+                placeholder="Tell us what's wrong"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="return-photos">Photos (optional, up to {MAX_RETURN_PHOTOS})</Label>
+              <Input
+                id="return-photos"
+                type="file"
+                accept="image/jpeg,image/png,image/webp,image/heic"
+                multiple
+                onChange={(e) => {
+                  const files = Array.from(e.target.files || []);
+                  if (files.length > MAX_RETURN_PHOTOS) toast.error(`Only the first ${MAX_RETURN_PHOTOS} photos will be sent`);
+                  setPhotos(files.slice(0, MAX_RETURN_PHOTOS));
+                }}
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={submitting}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Request {RETURN_TYPE_LABELS[type]}
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReturnRequestDialog;
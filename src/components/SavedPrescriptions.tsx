@@ -0,0 +1,290 @@
+import { useState, useEffect, useMemo } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { FileText, Loader2, Plus, Trash2 } from "lucide-react";
+import PrescriptionForm from "@/components/PrescriptionForm";
+import PrescriptionFile from "@/components/PrescriptionFile";
+import { PRESCRIPTION_BUCKET, uploadPrescriptionFile } from "@/lib/prescription-storage";
+import {
+  createEmptyPrescription,
+  isPrescriptionExpired,
+  toStoredPrescription,
+  withPrescriptionDefaults,
+  type PrescriptionData,
+} from "@/lib/prescription";
+import { validatePrescription } from "@/lib/prescription-validation";
+
+interface SavedPrescription {
+  id: string;
+  name: string;
+  exam_date: string | null;
+  expiry_date: string | null;
+  prescription_data: PrescriptionData;
+  document_path: string | null;
+}
+
+interface SavedPrescriptionsProps {
+  userId: string;
+}
+
+const formatEye = (label: string, eye: PrescriptionData['rightEye']) =>
+  `${label}: SPH ${eye.sph} / CYL ${eye.cyl} / AXIS ${eye.axis} / ADD ${eye.add}`;
+
+// Account tab for managing the prescriptions offered in the lens selector
+const SavedPrescriptions = ({ userId }: SavedPrescriptionsProps) => {
+  const [prescriptions, setPrescriptions] = useState<SavedPrescription[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<SavedPrescription | null>(null);
+  const [formData, setFormData] = useState<PrescriptionData>(createEmptyPrescription);
+  const [documentFile, setDocumentFile] = useState<File | null>(null);
+
+  // No lens is chosen yet, so only the lens-independent rules apply here
+  const validation = useMemo(() => validatePrescription(formData), [formData]);
+
+  useEffect(() => {
+    fetchPrescriptions();
+  }, []);
+
+  const fetchPrescriptions = async () => {
+    const { data, error } = await supabase
+      .from("prescriptions")
+      .select("id, name, exam_date, expiry_date, prescription_data, document_path")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast.error("Failed to load prescriptions");
+    } else {
+      setPrescriptions((data || []).map((item) => ({
+        ...item,
+        prescription_data: withPrescriptionDefaults(item.prescription_data as unknown as Partial<PrescriptionData>),
+      })));
+    }
+    setLoading(false);
+  };
+
+  const openDialog = (prescription: SavedPrescription | null) => {
+    setEditing(prescription);
+    setFormData(prescription ? prescription.prescription_data : createEmptyPrescription());
+    setDocumentFile(null);
+    setIsDialogOpen(true);
+  };
+
+  const savePrescription = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = new FormData(e.currentTarget);
+
+    if (!validation.isValid) {
+      toast.error("Please fix the highlighted prescription values");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      let documentPath = editing?.document_path ?? null;
+      if (documentFile) {
+        documentPath = await uploadPrescriptionFile(documentFile);
+      }
+
+      const prescriptionData = {
+        user_id: userId,
+        name: form.get("name") as string,
+        exam_date: (form.get("exam_date") as string) || null,
+        expiry_date: (form.get("expiry_date") as string) || null,
+        prescription_data: JSON.parse(JSON.stringify(toStoredPrescription(formData))),
+        document_path: documentPath,
+      };
+
+      const { error } = editing
+        ? await supabase.from("prescriptions").update(prescriptionData).eq("id", editing.id)
+        : await supabase.from("prescriptions").insert(prescriptionData);
+
+      if (error) throw error;
+
+      toast.success(editing ? "Prescription updated" : "Prescription saved");
+      setIsDialogOpen(false);
+      setEditing(null);
+      fetchPrescriptions();
+    } catch (error) {
+      console.error("Error saving prescription:", error);
+      toast.error("Failed to save prescription");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deletePrescription = async (prescription: SavedPrescription) => {
+    const { error } = await supabase
+      .from("prescriptions")
+      .delete()
+      .eq("id", prescription.id);
+
+    if (error) {
+      toast.error("Failed to delete prescription");
+      return;
+    }
+
+    if (prescription.document_path) {
+      await supabase.storage.from(PRESCRIPTION_BUCKET).remove([prescription.document_path]);
+    }
+    toast.success("Prescription deleted");
+    fetchPrescriptions();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end mb-4">
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => openDialog(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Prescription
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editing ? "Edit Prescription" : "Add New Prescription"}
+              </DialogTitle>
+            </DialogHeader>
+            <form onSubmit={savePrescription} className="space-y-4">
+              <div>
+                <Label htmlFor="prescription_name">Name</Label>
+                <Input
+                  id="prescription_name"
+                  name="name"
+                  placeholder="e.g. Everyday glasses"
+                  defaultValue={editing?.name}
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="exam_date">Exam Date</Label>
+                  <Input
+                    id="exam_date"
+                    name="exam_date"
+                    type="date"
+                    defaultValue={editing?.exam_date || ""}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="expiry_date">Expiry Date</Label>
+                  <Input
+                    id="expiry_date"
+                    name="expiry_date"
+                    type="date"
+                    defaultValue={editing?.expiry_date || ""}
+                  />
+                </div>
+              </div>
+
+              <PrescriptionForm value={formData} onChange={setFormData} validation={validation} />
+
+              <div>
+                <Label htmlFor="prescription_document">Prescription Document (optional)</Label>
+                <Input
+                  id="prescription_document"
+                  type="file"
+                  accept="image/jpeg,image/jpg,image/png,application/pdf"
+                  onChange={(e) => setDocumentFile(e.target.files?.[0] || null)}
+                />
+                {editing?.document_path && !documentFile && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    A document is already attached. Choose a file to replace it.
+                  </p>
+                )}
+              </div>
+
+              <Button type="submit" className="w-full" disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editing ? "Update Prescription" : "Save Prescription"}
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {prescriptions.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <FileText className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-muted-foreground">No prescriptions saved</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {prescriptions.map((prescription) => (
+            <Card key={prescription.id}>
+              <CardContent className="pt-6">
+                <div className="flex justify-between items-start gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-semibold">{prescription.name}</p>
+                      {isPrescriptionExpired(prescription.expiry_date) && (
+                        <Badge variant="destructive">Expired</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {prescription.exam_date && `Exam: ${new Date(prescription.exam_date).toLocaleDateString()}`}
+                      {prescription.exam_date && prescription.expiry_date && " · "}
+                      {prescription.expiry_date && `Expires: ${new Date(prescription.expiry_date).toLocaleDateString()}`}
+                    </p>
+                    <p className="text-sm">{formatEye("OD", prescription.prescription_data.rightEye)}</p>
+                    <p className="text-sm">{formatEye("OS", prescription.prescription_data.leftEye)}</p>
+                    {prescription.prescription_data.rightEye.pd && (
+                      <p className="text-sm">
+                        PD: {prescription.prescription_data.twoPDNumbers
+                          ? `${prescription.prescription_data.rightEye.pd} / ${prescription.prescription_data.leftEye.pd}`
+                          : prescription.prescription_data.rightEye.pd}
+                      </p>
+                    )}
+                    {prescription.document_path && (
+                      <div className="pt-2">
+                        <PrescriptionFile path={prescription.document_path} className="w-32 rounded-md border" />
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openDialog(prescription)}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deletePrescription(prescription)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedPrescriptions;
@@ -0,0 +1,239 @@
+import { useEffect, useRef, useState } from "react";
+import { Camera, ImageUp, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { FrameMeasurements } from "@/lib/frame-specs";
+import {
+  detectEyes,
+  drawTryOn,
+  frameWidthMm,
+  loadFaceLandmarker,
+  placeFrame,
+  smoothPlacement,
+  type FramePlacement,
+} from "@/lib/try-on";
+
+interface VirtualTryOnProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  productTitle: string;
+  /** The variant's transparent, front-facing frame PNG. */
+  frameImage: string;
+  measurements: FrameMeasurements;
+}
+
+type Source = "camera" | "photo";
+type Status = "loading" | "tracking" | "no-face" | "error";
+
+const VirtualTryOn = ({ open, onOpenChange, productTitle, frameImage, measurements }: VirtualTryOnProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<HTMLImageElement | null>(null);
+  const [source, setSource] = useState<Source>("camera");
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [status, setStatus] = useState<Status>("loading");
+  const [error, setError] = useState<string | null>(null);
+  const widthMm = frameWidthMm(measurements);
+
+  const fail = (message: string) => {
+    setError(message);
+    setStatus("error");
+  };
+
+  // The frame asset, loaded once per variant
+  useEffect(() => {
+    const image = new Image();
+    image.onload = () => {
+      frameRef.current = image;
+    };
+    image.src = frameImage;
+    return () => {
+      frameRef.current = null;
+    };
+  }, [frameImage]);
+
+  // Live camera: detect, place and draw on every animation frame
+  useEffect(() => {
+    if (!open || source !== "camera") return;
+
+    let cancelled = false;
+    let animationFrame = 0;
+    let stream: MediaStream | null = null;
+    let placement: FramePlacement | null = null;
+    let faceFound: boolean | null = null;
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+
+    const track = async () => {
+      if (cancelled) return;
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext("2d");
+      const frame = frameRef.current;
+
+      if (canvas && ctx && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+        // Resizing clears the canvas, so only do it when the camera's resolution changes
+        if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+          canvas.width = video.videoWidth;
+          canvas.height = video.videoHeight;
+        }
+        const eyes = await detectEyes(video);
+        if (cancelled) return;
+        placement = eyes && frame ? smoothPlacement(placement, placeFrame(eyes, frame, widthMm)) : null;
+        drawTryOn(ctx, video, frame, placement, true);
+
+        // Only re-render when the face comes or goes
+        if (faceFound !== !!eyes) {
+          faceFound = !!eyes;
+          setStatus(eyes ? "tracking" : "no-face");
+        }
+      }
+      animationFrame = requestAnimationFrame(track);
+    };
+
+    const start = async () => {
+      setStatus("loading");
+      setError(null);
+      try {
+        await loadFaceLandmarker();
+      } catch {
+        fail("Try-on couldn't start in this browser.");
+        return;
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "user" }, audio: false });
+        if (cancelled) {
+          stream.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        video.srcObject = stream;
+        await video.play();
+      } catch {
+        if (!cancelled) fail("Allow camera access to try frames on, or upload a photo instead.");
+        return;
+      }
+      track();
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(animationFrame);
+      stream?.getTracks().forEach((t) => t.stop());
+      video.srcObject = null;
+    };
+  }, [open, source, widthMm]);
+
+  // Uploaded selfie: detect once and draw
+  useEffect(() => {
+    if (!open || source !== "photo" || !photoUrl) return;
+
+    let cancelled = false;
+    const photo = new Image();
+
+    const render = async () => {
+      setStatus("loading");
+      setError(null);
+      try {
+        await photo.decode();
+        const eyes = await detectEyes(photo);
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext("2d");
+        const frame = frameRef.current;
+        if (cancelled || !canvas || !ctx) return;
+
+        canvas.width = photo.naturalWidth;
+        canvas.height = photo.naturalHeight;
+        const placement = eyes && frame ? placeFrame(eyes, frame, widthMm) : null;
+        drawTryOn(ctx, photo, frame, placement, false);
+        setStatus(eyes ? "tracking" : "no-face");
+      } catch {
+        if (!cancelled) fail("Try-on couldn't read this photo.");
+      }
+    };
+
+    photo.src = photoUrl;
+    render();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, source, photoUrl, widthMm]);
+
+  // Let go of the selfie when it is replaced or the dialog closes
+  useEffect(() => {
+    return () => {
+      if (photoUrl) URL.revokeObjectURL(photoUrl);
+    };
+  }, [photoUrl]);
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setPhotoUrl(URL.createObjectURL(file));
+  };
+
+  const handleSourceChange = (value: string) => {
+    setSource(value as Source);
+    setStatus("loading");
+    setError(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setPhotoUrl(null);
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Try On {productTitle}</DialogTitle>
+          <DialogDescription>
+            Face the camera straight on. Your camera and photos stay on this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={source} onValueChange={handleSourceChange}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="camera">
+              <Camera className="h-4 w-4 mr-2" />
+              Camera
+            </TabsTrigger>
+            <TabsTrigger value="photo">
+              <ImageUp className="h-4 w-4 mr-2" />
+              Upload a Photo
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {source === "photo" && (
+          <Input type="file" accept="image/*" onChange={handlePhotoChange} className="cursor-pointer" />
+        )}
+
+        <div className="relative aspect-[4/3] w-full overflow-hidden rounded-lg bg-muted flex items-center justify-center">
+          {(source === "camera" || photoUrl) && status !== "error" && (
+            <canvas ref={canvasRef} className="max-h-full max-w-full object-contain" />
+          )}
+          {status === "loading" && (source === "camera" || photoUrl) && (
+            <Loader2 className="absolute h-8 w-8 animate-spin text-muted-foreground" />
+          )}
+          {status === "error" && <p className="text-sm text-muted-foreground text-center px-6">{error}</p>}
+          {source === "photo" && !photoUrl && status !== "error" && (
+            <p className="text-sm text-muted-foreground text-center px-6">
+              Choose a front-facing photo with your eyes clearly visible.
+            </p>
+          )}
+        </div>
+
+        {status === "no-face" && (
+          <p className="text-sm text-muted-foreground text-center">
+            We can't see a face. Look straight at the camera in good light.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VirtualTryOn;
@@ -1,6 +1,10 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { getCartSessionId } from "@/lib/cart-session";
+import { normalizePrescription } from "@/lib/prescription-math";
+import { withLensOptions, type LensUsage, type SelectedLensOption } from "@/lib/lens-options";
+import { fetchAvailableStock } from "@/lib/stock-reservations";
 
 interface CartItem {
   id: string;
@@ -10,6 +14,12 @@ interface CartItem {
   quantity: number;
   has_eyesight: boolean | null;
   prescription_data: any;
+  lens_usage: LensUsage | null;
+  lens_option_ids: string[];
+  /** Current price of each chosen add-on, in thickness / coating / tint order */
+  lens_options: SelectedLensOption[];
+  /** Units the customer can still buy (stock not held by others); null without a variant */
+  available_stock: number | null;
   product: {
     title: string;
     base_price: number;
@@ -38,7 +48,10 @@ interface CartContextType {
     quantity?: number,
     hasEyesight?: boolean,
     prescriptionData?: any,
-    prescriptionImageUrl?: string
+    prescriptionImageUrl?: string,
+    prescriptionId?: string,
+    lensUsage?: LensUsage,
+    lensOptionIds?: string[]
   ) => Promise<void>;
   updateQuantity: (cartItemId: string, quantity: number) => Promise<void>;
   removeFromCart: (cartItemId: string) => Promise<void>;
@@ -48,20 +61,45 @@ interface CartContextType {
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+// Stock held at checkout by other customers cannot be bought, so warn before checkout does
+const withAvailableStock = async <T extends { variant_id: string | null }>(items: T[]): Promise<(T & { available_stock: number | null })[]> => {
+  const variantIds = items.map(item => item.variant_id).filter((id): id is string => !!id);
+  let available: Record<string, number> = {};
+
+  try {
+    available = await fetchAvailableStock(variantIds);
+  } catch (error) {
+    console.error('Error fetching stock availability:', error);
+  }
+
+  return items.map(item => ({
+    ...item,
+    available_stock: item.variant_id ? available[item.variant_id] ?? null : null,
+  }));
+};
+
+// Lens prices can be overridden per product, so read them from the product's lens options
+const withProductLensPrices = async <T extends Omit<CartItem, 'lens_options' | 'available_stock'>>(items: T[]): Promise<T[]> => {
+  const productIds = [...new Set(items.filter(item => item.lens_type_id).map(item => item.product_id))];
+  if (productIds.length === 0) return items;
+
+  const { data: options } = await supabase
+    .from('product_lens_options')
+    .select('product_id, lens_type_id, price_adjustment')
+    .in('product_id', productIds);
+
+  return items.map(item => {
+    const option = options?.find(o => o.product_id === item.product_id && o.lens_type_id === item.lens_type_id);
+    if (!item.lens_type || !option) return item;
+    return { ...item, lens_type: { ...item.lens_type, price_adjustment: option.price_adjustment } };
+  });
+};
+
 export const CartProvider = ({ children }: { children: ReactNode }) => {
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
-  const getSessionId = () => {
-    let sessionId = localStorage.getItem('cart_session_id');
-    if (!sessionId) {
-      sessionId = crypto.randomUUID();
-      localStorage.setItem('cart_session_id', sessionId);
-    }
-    return sessionId;
-  };
-
   const fetchCart = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -78,13 +116,14 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
       if (user) {
         query = query.eq('user_id', user.id);
       } else {
-        query = query.eq('session_id', getSessionId());
+        query = query.eq('session_id', getCartSessionId());
       }
 
       const { data, error } = await query;
 
       if (error) throw error;
-      setCartItems(data || []);
+      const items = await withLensOptions(await withProductLensPrices(data || []));
+      setCartItems(await withAvailableStock(items));
     } catch (error) {
       console.error('Error fetching cart:', error);
     } finally {
@@ -92,6 +131,14 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Move anything added while signed out (and its prescription uploads) into the account
+  const claimGuestCart = async () => {
+    const { error } = await supabase.rpc('claim_guest_cart', {
+      _session_id: getCartSessionId(),
+    });
+    if (error) console.error('Error claiming guest cart:', error);
+  };
+
   const addToCart = async (
     productId: string,
     variantId?: string,
@@ -99,7 +146,10 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     quantity: number = 1,
     hasEyesight?: boolean,
     prescriptionData?: any,
-    prescriptionImageUrl?: string
+    prescriptionImageUrl?: string,
+    prescriptionId?: string,
+    lensUsage?: LensUsage,
+    lensOptionIds: string[] = []
   ) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -110,14 +160,17 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
         lens_type_id: lensTypeId || null,
         quantity,
         has_eyesight: hasEyesight || false,
-        prescription_data: prescriptionData || null,
+        prescription_data: prescriptionData ? normalizePrescription(prescriptionData) : null,
         prescription_image_url: prescriptionImageUrl || null,
+        prescription_id: prescriptionId || null,
+        lens_usage: lensUsage || null,
+        lens_option_ids: lensOptionIds,
       };
 
       if (user) {
         cartData.user_id = user.id;
       } else {
-        cartData.session_id = getSessionId();
+        cartData.session_id = getCartSessionId();
       }
 
       const { error } = await supabase
@@ -190,8 +243,13 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
   useEffect(() => {
     fetchCart();
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(() => {
-      fetchCart();
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN') {
+        // Defer so the RPC runs outside the auth callback
+        setTimeout(() => claimGuestCart().then(fetchCart), 0);
+      } else {
+        fetchCart();
+      }
     });
 
     return () => {
@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchUserAccess, STAFF_ROLES, type AppPermission, type AppRole } from "@/lib/roles";
+
+type AuthState = "loading" | "signed-out" | "signed-in";
+
+/** The signed-in user's staff roles and permissions, refreshed when they sign in or out. */
+export const usePermissions = () => {
+  const [authState, setAuthState] = useState<AuthState>("loading");
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [permissions, setPermissions] = useState<AppPermission[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadAccess = async (userId: string | undefined) => {
+      if (!userId) {
+        if (cancelled) return;
+        setRoles([]);
+        setPermissions([]);
+        setAuthState("signed-out");
+        return;
+      }
+
+      try {
+        const access = await fetchUserAccess(userId);
+        if (cancelled) return;
+        setRoles(access.roles);
+        setPermissions(access.permissions);
+      } catch (error) {
+        console.error("Error fetching permissions:", error);
+        if (cancelled) return;
+        setRoles([]);
+        setPermissions([]);
+      }
+      setAuthState("signed-in");
+    };
+
+    supabase.auth.getUser().then(({ data: { user } }) => loadAccess(user?.id));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === "SIGNED_IN" || event === "SIGNED_OUT") {
+        loadAccess(session?.user?.id);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const can = useCallback((permission: AppPermission) => permissions.includes(permission), [permissions]);
+  const hasRole = useCallback((role: AppRole) => roles.includes(role), [roles]);
+
+  return {
+    loading: authState === "loading",
+    signedIn: authState === "signed-in",
+    roles,
+    permissions,
+    can,
+    hasRole,
+    isAdmin: roles.includes("admin"),
+    isStaff: roles.some((role) => STAFF_ROLES.includes(role)),
+  };
+};
@@ -64,14 +64,53 @@ export type Database = {
           },
         ]
       }
+      audit_log: {
+        Row: {
+          action: Database["public"]["Enums"]["audit_action"]
+          actor_email: string | null
+          actor_id: string | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["audit_action"]
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["audit_action"]
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
       cart_items: {
         Row: {
           created_at: string | null
           has_eyesight: boolean | null
           id: string
+          lens_option_ids: string[]
           lens_type_id: string | null
+          lens_usage: Database["public"]["Enums"]["lens_usage"] | null
           prescription_data: Json | null
           prescription_image_url: string | null
+          prescription_id: string | null
           product_id: string
           quantity: number
           session_id: string | null
@@ -83,9 +122,12 @@ export type Database = {
           created_at?: string | null
           has_eyesight?: boolean | null
           id?: string
+          lens_option_ids?: string[]
           lens_type_id?: string | null
+          lens_usage?: Database["public"]["Enums"]["lens_usage"] | null
           prescription_data?: Json | null
           prescription_image_url?: string | null
+          prescription_id?: string | null
           product_id: string
           quantity?: number
           session_id?: string | null
@@ -97,9 +139,12 @@ export type Database = {
           created_at?: string | null
           has_eyesight?: boolean | null
           id?: string
+          lens_option_ids?: string[]
           lens_type_id?: string | null
+          lens_usage?: Database["public"]["Enums"]["lens_usage"] | null
           prescription_data?: Json | null
           prescription_image_url?: string | null
+          prescription_id?: string | null
           product_id?: string
           quantity?: number
           session_id?: string | null
@@ -108,6 +153,13 @@ export type Database = {
           variant_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "cart_items_prescription_id_fkey"
+            columns: ["prescription_id"]
+            isOneToOne: false
+            referencedRelation: "prescriptions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "cart_items_lens_type_id_fkey"
             columns: ["lens_type_id"]
@@ -168,59 +220,236 @@ export type Database = {
         }
         Relationships: []
       }
+      contact_submissions: {
+        Row: {
+          created_at: string | null
+          email: string
+          id: string
+          message: string
+          name: string
+          subject: string
+        }
+        Insert: {
+          created_at?: string | null
+          email: string
+          id?: string
+          message: string
+          name: string
+          subject: string
+        }
+        Update: {
+          created_at?: string | null
+          email?: string
+          id?: string
+          message?: string
+          name?: string
+          subject?: string
+        }
+        Relationships: []
+      }
+      lens_compatibility: {
+        Row: {
+          category_id: string | null
+          created_at: string | null
+          id: string
+          lens_type_id: string
+          price_override: number | null
+          product_id: string | null
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string | null
+          id?: string
+          lens_type_id: string
+          price_override?: number | null
+          product_id?: string | null
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string | null
+          id?: string
+          lens_type_id?: string
+          price_override?: number | null
+          product_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lens_compatibility_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lens_compatibility_lens_type_id_fkey"
+            columns: ["lens_type_id"]
+            isOneToOne: false
+            referencedRelation: "lens_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lens_compatibility_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lens_options: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          display_order: number | null
+          id: string
+          is_enabled: boolean | null
+          kind: Database["public"]["Enums"]["lens_option_kind"]
+          lens_index: number | null
+          max_power: number | null
+          name: string
+          price_adjustment: number
+          updated_at: string | null
+          usages: Database["public"]["Enums"]["lens_usage"][]
+          vision_types: Database["public"]["Enums"]["lens_vision_type"][]
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          display_order?: number | null
+          id?: string
+          is_enabled?: boolean | null
+          kind: Database["public"]["Enums"]["lens_option_kind"]
+          lens_index?: number | null
+          max_power?: number | null
+          name: string
+          price_adjustment?: number
+          updated_at?: string | null
+          usages?: Database["public"]["Enums"]["lens_usage"][]
+          vision_types?: Database["public"]["Enums"]["lens_vision_type"][]
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          display_order?: number | null
+          id?: string
+          is_enabled?: boolean | null
+          kind?: Database["public"]["Enums"]["lens_option_kind"]
+          lens_index?: number | null
+          max_power?: number | null
+          name?: string
+          price_adjustment?: number
+          updated_at?: string | null
+          usages?: Database["public"]["Enums"]["lens_usage"][]
+          vision_types?: Database["public"]["Enums"]["lens_vision_type"][]
+        }
+        Relationships: []
+      }
       lens_types: {
         Row: {
+          coatings: string[]
           created_at: string | null
           description: string | null
           display_order: number | null
           id: string
           image_url: string | null
           is_enabled: boolean | null
+          lens_index: number | null
+          max_cyl: number | null
+          max_sph: number | null
+          min_sph: number | null
           name: string
           price_adjustment: number | null
-          product_id: string
+          updated_at: string | null
+          vision_type: Database["public"]["Enums"]["lens_vision_type"]
         }
         Insert: {
+          coatings?: string[]
           created_at?: string | null
           description?: string | null
           display_order?: number | null
           id?: string
           image_url?: string | null
           is_enabled?: boolean | null
+          lens_index?: number | null
+          max_cyl?: number | null
+          max_sph?: number | null
+          min_sph?: number | null
           name: string
           price_adjustment?: number | null
-          product_id: string
+          updated_at?: string | null
+          vision_type?: Database["public"]["Enums"]["lens_vision_type"]
         }
         Update: {
+          coatings?: string[]
           created_at?: string | null
           description?: string | null
           display_order?: number | null
           id?: string
           image_url?: string | null
           is_enabled?: boolean | null
+          lens_index?: number | null
+          max_cyl?: number | null
+          max_sph?: number | null
+          min_sph?: number | null
           name?: string
           price_adjustment?: number | null
-          product_id?: string
+          updated_at?: string | null
+          vision_type?: Database["public"]["Enums"]["lens_vision_type"]
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "lens_types_product_id_fkey"
-            columns: ["product_id"]
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
-            referencedRelation: "products"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
       order_items: {
         Row: {
+          cancellation_reason: string | null
+          cancelled_quantity: number
           created_at: string | null
           has_eyesight: boolean | null
           id: string
+          lens_options: Json
           lens_type_id: string | null
+          lens_usage: Database["public"]["Enums"]["lens_usage"] | null
           order_id: string
           prescription_data: Json | null
           prescription_image_url: string | null
+          prescription_id: string | null
           product_id: string | null
           quantity: number
           total_price: number
@@ -228,13 +457,18 @@ export type Database = {
           variant_id: string | null
         }
         Insert: {
+          cancellation_reason?: string | null
+          cancelled_quantity?: number
           created_at?: string | null
           has_eyesight?: boolean | null
           id?: string
+          lens_options?: Json
           lens_type_id?: string | null
+          lens_usage?: Database["public"]["Enums"]["lens_usage"] | null
           order_id: string
           prescription_data?: Json | null
           prescription_image_url?: string | null
+          prescription_id?: string | null
           product_id?: string | null
           quantity?: number
           total_price: number
@@ -242,13 +476,18 @@ export type Database = {
           variant_id?: string | null
         }
         Update: {
+          cancellation_reason?: string | null
+          cancelled_quantity?: number
           created_at?: string | null
           has_eyesight?: boolean | null
           id?: string
+          lens_options?: Json
           lens_type_id?: string | null
+          lens_usage?: Database["public"]["Enums"]["lens_usage"] | null
           order_id?: string
           prescription_data?: Json | null
           prescription_image_url?: string | null
+          prescription_id?: string | null
           product_id?: string | null
           quantity?: number
           total_price?: number
@@ -256,6 +495,13 @@ export type Database = {
           variant_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "order_items_prescription_id_fkey"
+            columns: ["prescription_id"]
+            isOneToOne: false
+            referencedRelation: "prescriptions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "order_items_lens_type_id_fkey"
             columns: ["lens_type_id"]
@@ -286,13 +532,67 @@ export type Database = {
           },
         ]
       }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["order_status"] | null
+          id: string
+          note: string | null
+          order_id: string
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          note?: string | null
+          order_id: string
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          to_status?: Database["public"]["Enums"]["order_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       orders: {
         Row: {
+          cancellation_reason: string | null
+          cancelled_amount: number
+          cancelled_at: string | null
+          cancelled_by: string | null
           created_at: string | null
           customer_notes: string | null
+          delivered_at: string | null
+          delivery_refused_at: string | null
+          guest_email: string | null
+          guest_token: string | null
           id: string
           order_number: string
           payment_method: Database["public"]["Enums"]["payment_method"]
+          payment_status: Database["public"]["Enums"]["payment_status"]
           shipping_address: Json
           shipping_cost: number | null
           status: Database["public"]["Enums"]["order_status"] | null
@@ -303,11 +603,20 @@ export type Database = {
           user_id: string | null
         }
         Insert: {
+          cancellation_reason?: string | null
+          cancelled_amount?: number
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           created_at?: string | null
           customer_notes?: string | null
+          delivered_at?: string | null
+          delivery_refused_at?: string | null
+          guest_email?: string | null
+          guest_token?: string | null
           id?: string
           order_number: string
           payment_method: Database["public"]["Enums"]["payment_method"]
+          payment_status?: Database["public"]["Enums"]["payment_status"]
           shipping_address: Json
           shipping_cost?: number | null
           status?: Database["public"]["Enums"]["order_status"] | null
@@ -318,23 +627,220 @@ export type Database = {
           user_id?: string | null
         }
         Update: {
+          cancellation_reason?: string | null
+          cancelled_amount?: number
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           created_at?: string | null
           customer_notes?: string | null
+          delivered_at?: string | null
+          delivery_refused_at?: string | null
+          guest_email?: string | null
+          guest_token?: string | null
+          id?: string
+          order_number?: string
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          payment_status?: Database["public"]["Enums"]["payment_status"]
+          shipping_address?: Json
+          shipping_cost?: number | null
+          status?: Database["public"]["Enums"]["order_status"] | null
+          subtotal?: number
+          total?: number
+          tracking_number?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pages: {
+        Row: {
+          content: string | null
+          created_at: string | null
+          id: string
+          slug: string
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          content?: string | null
+          created_at?: string | null
+          id?: string
+          slug: string
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          content?: string | null
+          created_at?: string | null
+          id?: string
+          slug?: string
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      payment_proofs: {
+        Row: {
+          amount: number | null
+          created_at: string
+          id: string
+          order_id: string
+          receipt_path: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["payment_proof_status"]
+          transaction_id: string
+          user_id: string | null
+        }
+        Insert: {
+          amount?: number | null
+          created_at?: string
+          id?: string
+          order_id: string
+          receipt_path: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["payment_proof_status"]
+          transaction_id: string
+          user_id?: string | null
+        }
+        Update: {
+          amount?: number | null
+          created_at?: string
+          id?: string
+          order_id?: string
+          receipt_path?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["payment_proof_status"]
+          transaction_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_proofs_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_proofs_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_proofs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          callback_payload: Json | null
+          completed_at: string | null
+          created_at: string
+          currency: string
+          id: string
+          method: Database["public"]["Enums"]["payment_method"]
+          order_id: string
+          provider: string
+          provider_reference: string | null
+          status: Database["public"]["Enums"]["payment_attempt_status"]
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          callback_payload?: Json | null
+          completed_at?: string | null
+          created_at?: string
+          currency?: string
+          id?: string
+          method: Database["public"]["Enums"]["payment_method"]
+          order_id: string
+          provider: string
+          provider_reference?: string | null
+          status?: Database["public"]["Enums"]["payment_attempt_status"]
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          callback_payload?: Json | null
+          completed_at?: string | null
+          created_at?: string
+          currency?: string
+          id?: string
+          method?: Database["public"]["Enums"]["payment_method"]
+          order_id?: string
+          provider?: string
+          provider_reference?: string | null
+          status?: Database["public"]["Enums"]["payment_attempt_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prescriptions: {
+        Row: {
+          created_at: string | null
+          document_path: string | null
+          exam_date: string | null
+          expiry_date: string | null
+          id: string
+          name: string
+          prescription_data: Json
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          document_path?: string | null
+          exam_date?: string | null
+          expiry_date?: string | null
+          id?: string
+          name: string
+          prescription_data: Json
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          document_path?: string | null
+          exam_date?: string | null
+          expiry_date?: string | null
           id?: string
-          order_number?: string
-          payment_method?: Database["public"]["Enums"]["payment_method"]
-          shipping_address?: Json
-          shipping_cost?: number | null
-          status?: Database["public"]["Enums"]["order_status"] | null
-          subtotal?: number
-          total?: number
-          tracking_number?: string | null
+          name?: string
+          prescription_data?: Json
           updated_at?: string | null
-          user_id?: string | null
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "orders_user_id_fkey"
+            foreignKeyName: "prescriptions_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -344,40 +850,52 @@ export type Database = {
       }
       product_variants: {
         Row: {
+          bridge_width: number | null
           color: string | null
           created_at: string | null
           id: string
           images: string[] | null
+          lens_width: number | null
           material: string | null
           price_adjustment: number | null
           product_id: string
           size: string | null
           sku: string
           stock: number | null
+          temple_length: number | null
+          try_on_image: string | null
         }
         Insert: {
+          bridge_width?: number | null
           color?: string | null
           created_at?: string | null
           id?: string
           images?: string[] | null
+          lens_width?: number | null
           material?: string | null
           price_adjustment?: number | null
           product_id: string
           size?: string | null
           sku: string
           stock?: number | null
+          temple_length?: number | null
+          try_on_image?: string | null
         }
         Update: {
+          bridge_width?: number | null
           color?: string | null
           created_at?: string | null
           id?: string
           images?: string[] | null
+          lens_width?: number | null
           material?: string | null
           price_adjustment?: number | null
           product_id?: string
           size?: string | null
           sku?: string
           stock?: number | null
+          temple_length?: number | null
+          try_on_image?: string | null
         }
         Relationships: [
           {
@@ -395,11 +913,15 @@ export type Database = {
           category_id: string | null
           created_at: string | null
           description: string | null
+          face_fit: Database["public"]["Enums"]["face_fit"] | null
+          frame_shape: Database["public"]["Enums"]["frame_shape"] | null
           has_lens_options: boolean | null
           id: string
           images: string[] | null
           is_active: boolean | null
           is_featured: boolean | null
+          rim_type: Database["public"]["Enums"]["rim_type"] | null
+          search_vector: unknown | null
           slug: string
           title: string
           updated_at: string | null
@@ -409,11 +931,15 @@ export type Database = {
           category_id?: string | null
           created_at?: string | null
           description?: string | null
+          face_fit?: Database["public"]["Enums"]["face_fit"] | null
+          frame_shape?: Database["public"]["Enums"]["frame_shape"] | null
           has_lens_options?: boolean | null
           id?: string
           images?: string[] | null
           is_active?: boolean | null
           is_featured?: boolean | null
+          rim_type?: Database["public"]["Enums"]["rim_type"] | null
+          search_vector?: unknown | null
           slug: string
           title: string
           updated_at?: string | null
@@ -423,11 +949,15 @@ export type Database = {
           category_id?: string | null
           created_at?: string | null
           description?: string | null
+          face_fit?: Database["public"]["Enums"]["face_fit"] | null
+          frame_shape?: Database["public"]["Enums"]["frame_shape"] | null
           has_lens_options?: boolean | null
           id?: string
           images?: string[] | null
           is_active?: boolean | null
           is_featured?: boolean | null
+          rim_type?: Database["public"]["Enums"]["rim_type"] | null
+          search_vector?: unknown | null
           slug?: string
           title?: string
           updated_at?: string | null
@@ -472,6 +1002,124 @@ export type Database = {
         }
         Relationships: []
       }
+      return_requests: {
+        Row: {
+          approved_at: string | null
+          created_at: string
+          details: string | null
+          exchange_variant_id: string | null
+          handled_by: string | null
+          id: string
+          order_id: string
+          order_item_id: string
+          photo_paths: string[]
+          quantity: number
+          reason: string
+          received_at: string | null
+          refund_amount: number | null
+          refund_reference: string | null
+          replacement_order_id: string | null
+          resolved_at: string | null
+          return_number: string
+          staff_note: string | null
+          status: Database["public"]["Enums"]["return_status"]
+          type: Database["public"]["Enums"]["return_type"]
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          approved_at?: string | null
+          created_at?: string
+          details?: string | null
+          exchange_variant_id?: string | null
+          handled_by?: string | null
+          id?: string
+          order_id: string
+          order_item_id: string
+          photo_paths?: string[]
+          quantity: number
+          reason: string
+          received_at?: string | null
+          refund_amount?: number | null
+          refund_reference?: string | null
+          replacement_order_id?: string | null
+          resolved_at?: string | null
+          return_number: string
+          staff_note?: string | null
+          status?: Database["public"]["Enums"]["return_status"]
+          type: Database["public"]["Enums"]["return_type"]
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          approved_at?: string | null
+          created_at?: string
+          details?: string | null
+          exchange_variant_id?: string | null
+          handled_by?: string | null
+          id?: string
+          order_id?: string
+          order_item_id?: string
+          photo_paths?: string[]
+          quantity?: number
+          reason?: string
+          received_at?: string | null
+          refund_amount?: number | null
+          refund_reference?: string | null
+          replacement_order_id?: string | null
+          resolved_at?: string | null
+          return_number?: string
+          staff_note?: string | null
+          status?: Database["public"]["Enums"]["return_status"]
+          type?: Database["public"]["Enums"]["return_type"]
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "return_requests_exchange_variant_id_fkey"
+            columns: ["exchange_variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_requests_handled_by_fkey"
+            columns: ["handled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_requests_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_requests_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_requests_replacement_order_id_fkey"
+            columns: ["replacement_order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       reviews: {
         Row: {
           comment: string | null
@@ -517,6 +1165,100 @@ export type Database = {
           },
         ]
       }
+      role_permissions: {
+        Row: {
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          permission?: Database["public"]["Enums"]["app_permission"]
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
+      site_settings: {
+        Row: {
+          id: string
+          setting_key: string
+          setting_value: Json
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          id?: string
+          setting_key: string
+          setting_value: Json
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          id?: string
+          setting_key?: string
+          setting_value?: Json
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      stock_reservations: {
+        Row: {
+          cart_item_id: string
+          created_at: string | null
+          expires_at: string
+          id: string
+          quantity: number
+          session_id: string | null
+          user_id: string | null
+          variant_id: string
+        }
+        Insert: {
+          cart_item_id: string
+          created_at?: string | null
+          expires_at: string
+          id?: string
+          quantity: number
+          session_id?: string | null
+          user_id?: string | null
+          variant_id: string
+        }
+        Update: {
+          cart_item_id?: string
+          created_at?: string | null
+          expires_at?: string
+          id?: string
+          quantity?: number
+          session_id?: string | null
+          user_id?: string | null
+          variant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_reservations_cart_item_id_fkey"
+            columns: ["cart_item_id"]
+            isOneToOne: true
+            referencedRelation: "cart_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_reservations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_reservations_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -576,10 +1318,87 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      product_lens_options: {
+        Row: {
+          coatings: string[] | null
+          description: string | null
+          display_order: number | null
+          image_url: string | null
+          is_enabled: boolean | null
+          lens_index: number | null
+          lens_type_id: string | null
+          max_cyl: number | null
+          max_sph: number | null
+          min_sph: number | null
+          name: string | null
+          price_adjustment: number | null
+          product_id: string | null
+          vision_type: Database["public"]["Enums"]["lens_vision_type"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lens_compatibility_lens_type_id_fkey"
+            columns: ["lens_type_id"]
+            isOneToOne: false
+            referencedRelation: "lens_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      build_product_search_vector: {
+        Args: {
+          _category_id: string
+          _description: string
+          _product_id: string
+          _title: string
+        }
+        Returns: unknown
+      }
+      build_search_tsquery: { Args: { _query: string }; Returns: unknown }
+      cancel_order: {
+        Args: { _items?: Json; _order_id: string; _reason: string }
+        Returns: undefined
+      }
+      claim_guest_cart: { Args: { _session_id: string }; Returns: number }
+      claim_guest_orders: { Args: never; Returns: number }
+      claimable_guest_orders: { Args: never; Returns: number }
+      cod_rules: { Args: never; Returns: Json }
+      cod_unavailable_reason: {
+        Args: { _city: string; _phone: string; _total: number }
+        Returns: string
+      }
+      current_user_permissions: {
+        Args: never
+        Returns: Database["public"]["Enums"]["app_permission"][]
+      }
+      find_guest_order: {
+        Args: { _order_number: string; _phone: string }
+        Returns: string
+      }
+      frame_fits: {
+        Args: {
+          _bridge_width: number
+          _lens_width: number
+          _target_bridge_width: number
+          _target_lens_width: number
+          _target_temple_length: number
+          _temple_length: number
+        }
+        Returns: boolean
+      }
       generate_order_number: { Args: never; Returns: string }
+      generate_return_number: { Args: never; Returns: string }
+      guest_order: { Args: { _token: string }; Returns: Json }
+      guest_payment: { Args: { _payment_id: string }; Returns: Json }
+      has_permission: {
+        Args: {
+          _permission: Database["public"]["Enums"]["app_permission"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -587,21 +1406,321 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_online_payment_method: {
+        Args: { _method: Database["public"]["Enums"]["payment_method"] }
+        Returns: boolean
+      }
+      list_staff: {
+        Args: never
+        Returns: {
+          email: string
+          full_name: string
+          roles: Database["public"]["Enums"]["app_role"][]
+          user_id: string
+        }[]
+      }
+      mark_delivery_refused: {
+        Args: { _note?: string; _order_id: string }
+        Returns: undefined
+      }
+      normalize_phone: { Args: { _phone: string }; Returns: string }
+      order_status_transition_allowed: {
+        Args: {
+          _from: Database["public"]["Enums"]["order_status"]
+          _to: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: boolean
+      }
+      place_guest_order: {
+        Args: {
+          _customer_notes?: string
+          _email: string
+          _expected_total?: number
+          _payment_method: Database["public"]["Enums"]["payment_method"]
+          _session_id: string
+          _shipping_address: Json
+        }
+        Returns: Json
+      }
+      place_order: {
+        Args: {
+          _customer_notes?: string
+          _expected_total?: number
+          _payment_method: Database["public"]["Enums"]["payment_method"]
+          _shipping_address: Json
+        }
+        Returns: string
+      }
+      prescription_errors: {
+        Args: {
+          _data: Json
+          _max_cyl?: number
+          _max_sph?: number
+          _min_sph?: number
+          _vision_type: Database["public"]["Enums"]["lens_vision_type"]
+        }
+        Returns: string[]
+      }
+      prescription_value: {
+        Args: { _data: Json; _path: string[] }
+        Returns: number
+      }
+      prescription_max_power: { Args: { _data: Json }; Returns: number }
+      price_bucket: { Args: { _price: number }; Returns: string }
+      price_quote_line: {
+        Args: {
+          _lens_option_ids?: string[]
+          _lens_type_id: string
+          _lens_usage?: Database["public"]["Enums"]["lens_usage"]
+          _product_id: string
+          _quantity: number
+          _variant_id: string
+        }
+        Returns: Json
+      }
+      product_has_variant: {
+        Args: {
+          _bridge_width: number
+          _colors: string[]
+          _lens_width: number
+          _materials: string[]
+          _product_id: string
+          _sizes: string[]
+          _temple_length: number
+        }
+        Returns: boolean
+      }
+      quote_cart: { Args: { _session_id?: string }; Returns: Json }
+      record_payment_result: {
+        Args: {
+          _amount: number
+          _payload: Json
+          _payment_id: string
+          _provider: string
+          _provider_reference: string
+          _status: Database["public"]["Enums"]["payment_attempt_status"]
+        }
+        Returns: Database["public"]["Enums"]["payment_attempt_status"]
+      }
+      release_cart_stock: {
+        Args: { _session_id?: string }
+        Returns: undefined
+      }
+      request_return: {
+        Args: {
+          _details?: string
+          _exchange_variant_id?: string
+          _order_item_id: string
+          _photo_paths?: string[]
+          _quantity: number
+          _reason: string
+          _type: Database["public"]["Enums"]["return_type"]
+        }
+        Returns: string
+      }
+      reserve_cart_stock: { Args: { _session_id?: string }; Returns: Json }
+      reserved_stock: {
+        Args: {
+          _excluding_session?: string
+          _excluding_user?: string
+          _variant_id: string
+        }
+        Returns: number
+      }
+      return_status_transition_allowed: {
+        Args: {
+          _from: Database["public"]["Enums"]["return_status"]
+          _to: Database["public"]["Enums"]["return_status"]
+          _type: Database["public"]["Enums"]["return_type"]
+        }
+        Returns: boolean
+      }
+      returnable_quantity: { Args: { _order_item_id: string }; Returns: number }
+      review_payment_proof: {
+        Args: { _note?: string; _proof_id: string; _verified: boolean }
+        Returns: undefined
+      }
+      search_products: {
+        Args: { search_query: string }
+        Returns: {
+          base_price: number
+          category_id: string | null
+          created_at: string | null
+          description: string | null
+          face_fit: Database["public"]["Enums"]["face_fit"] | null
+          frame_shape: Database["public"]["Enums"]["frame_shape"] | null
+          has_lens_options: boolean | null
+          id: string
+          images: string[] | null
+          is_active: boolean | null
+          is_featured: boolean | null
+          rim_type: Database["public"]["Enums"]["rim_type"] | null
+          search_vector: unknown | null
+          slug: string
+          title: string
+          updated_at: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "products"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      set_order_payment_status: {
+        Args: {
+          _order_id: string
+          _status: Database["public"]["Enums"]["payment_status"]
+        }
+        Returns: undefined
+      }
+      shipping_for_subtotal: { Args: { _subtotal: number }; Returns: number }
+      shop_facets: {
+        Args: {
+          _bridge_width?: number
+          _category_ids?: string[]
+          _colors?: string[]
+          _face_fits?: Database["public"]["Enums"]["face_fit"][]
+          _frame_shapes?: Database["public"]["Enums"]["frame_shape"][]
+          _lens_width?: number
+          _materials?: string[]
+          _price_buckets?: string[]
+          _rim_types?: Database["public"]["Enums"]["rim_type"][]
+          _search?: string
+          _sizes?: string[]
+          _temple_length?: number
+        }
+        Returns: Json
+      }
+      shop_products: {
+        Args: {
+          _bridge_width?: number
+          _category_ids?: string[]
+          _colors?: string[]
+          _face_fits?: Database["public"]["Enums"]["face_fit"][]
+          _frame_shapes?: Database["public"]["Enums"]["frame_shape"][]
+          _lens_width?: number
+          _materials?: string[]
+          _price_buckets?: string[]
+          _rim_types?: Database["public"]["Enums"]["rim_type"][]
+          _search?: string
+          _sizes?: string[]
+          _temple_length?: number
+        }
+        Returns: {
+          base_price: number
+          category_id: string | null
+          created_at: string | null
+          description: string | null
+          face_fit: Database["public"]["Enums"]["face_fit"] | null
+          frame_shape: Database["public"]["Enums"]["frame_shape"] | null
+          has_lens_options: boolean | null
+          id: string
+          images: string[] | null
+          is_active: boolean | null
+          is_featured: boolean | null
+          rim_type: Database["public"]["Enums"]["rim_type"] | null
+          search_vector: unknown | null
+          slug: string
+          title: string
+          updated_at: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "products"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      start_payment: {
+        Args: { _guest_token?: string; _order_id: string; _provider: string }
+        Returns: Json
+      }
+      submit_payment_proof: {
+        Args: {
+          _amount?: number
+          _guest_token?: string
+          _order_id: string
+          _receipt_path: string
+          _transaction_id: string
+        }
+        Returns: string
+      }
+      update_order_status: {
+        Args: {
+          _clear_tracking?: boolean
+          _note?: string
+          _order_id: string
+          _status: Database["public"]["Enums"]["order_status"]
+          _tracking_number?: string
+        }
+        Returns: undefined
+      }
+      update_return_status: {
+        Args: {
+          _note?: string
+          _refund_amount?: number
+          _refund_reference?: string
+          _return_id: string
+          _status: Database["public"]["Enums"]["return_status"]
+        }
+        Returns: undefined
+      }
+      variant_availability: {
+        Args: { _session_id?: string; _variant_ids: string[] }
+        Returns: {
+          available: number
+          variant_id: string
+        }[]
+      }
     }
     Enums: {
-      app_role: "admin" | "moderator" | "user"
+      app_permission:
+        | "manage_products"
+        | "manage_orders"
+        | "view_customers"
+        | "edit_pages"
+        | "change_settings"
+      app_role: "admin" | "moderator" | "user" | "fulfilment" | "content_editor"
+      audit_action: "insert" | "update" | "delete"
+      face_fit: "narrow" | "medium" | "wide"
+      frame_shape:
+        | "round"
+        | "oval"
+        | "rectangle"
+        | "square"
+        | "cat_eye"
+        | "aviator"
+        | "browline"
+        | "geometric"
+      lens_option_kind: "thickness" | "coating" | "tint"
+      lens_usage: "everyday" | "computer" | "sunglasses"
+      lens_vision_type: "single_vision" | "bifocal" | "progressive"
       order_status:
         | "pending"
+        | "awaiting_confirmation"
         | "processing"
         | "shipped"
         | "delivered"
         | "cancelled"
+      payment_attempt_status: "pending" | "succeeded" | "failed" | "cancelled"
       payment_method:
         | "jazzcash"
         | "easypaisa"
         | "bank_transfer"
         | "card"
         | "cod"
+      payment_proof_status: "submitted" | "verified" | "rejected"
+      payment_status: "unpaid" | "pending" | "paid" | "failed" | "refunded"
+      return_status:
+        | "requested"
+        | "approved"
+        | "rejected"
+        | "received"
+        | "refunded"
+        | "exchanged"
+      return_type: "refund" | "exchange"
+      rim_type: "full_rim" | "half_rim" | "rimless"
       user_role: "user" | "admin"
     }
     CompositeTypes: {
@@ -730,15 +1849,51 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "moderator", "user"],
+      app_permission: [
+        "manage_products",
+        "manage_orders",
+        "view_customers",
+        "edit_pages",
+        "change_settings",
+      ],
+      app_role: ["admin", "moderator", "user", "fulfilment", "content_editor"],
+      audit_action: ["insert", "update", "delete"],
+      face_fit: ["narrow", "medium", "wide"],
+      frame_shape: [
+        "round",
+        "oval",
+        "rectangle",
+        "square",
+        "cat_eye",
+        "aviator",
+        "browline",
+        "geometric",
+      ],
+      lens_option_kind: ["thickness", "coating", "tint"],
+      lens_usage: ["everyday", "computer", "sunglasses"],
+      lens_vision_type: ["single_vision", "bifocal", "progressive"],
       order_status: [
         "pending",
+        "awaiting_confirmation",
         "processing",
         "shipped",
         "delivered",
         "cancelled",
       ],
+      payment_attempt_status: ["pending", "succeeded", "failed", "cancelled"],
       payment_method: ["jazzcash", "easypaisa", "bank_transfer", "card", "cod"],
+      payment_proof_status: ["submitted", "verified", "rejected"],
+      payment_status: ["unpaid", "pending", "paid", "failed", "refunded"],
+      return_status: [
+        "requested",
+        "approved",
+        "rejected",
+        "received",
+        "refunded",
+        "exchanged",
+      ],
+      return_type: ["refund", "exchange"],
+      rim_type: ["full_rim", "half_rim", "rimless"],
       user_role: ["user", "admin"],
     },
   },
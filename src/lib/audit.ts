@@ -0,0 +1,102 @@
+/**
+ * Reading the admin audit log.
+ *
+ * Entries are written by the `record_audit` trigger on every audited table;
+ * the client only ever reads them.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+
+export type AuditAction = Database["public"]["Enums"]["audit_action"];
+export type AuditEntry = Database["public"]["Tables"]["audit_log"]["Row"];
+
+/** Tables with an audit trigger, and what to call their rows. */
+export const AUDITED_TABLES: Record<string, string> = {
+  products: "Product",
+  product_variants: "Variant",
+  categories: "Category",
+  lens_types: "Lens type",
+  lens_options: "Lens option",
+  lens_compatibility: "Lens compatibility",
+  orders: "Order",
+  return_requests: "Return",
+  payments: "Payment",
+  payment_proofs: "Payment receipt",
+  pages: "Page",
+  site_settings: "Setting",
+  user_roles: "Staff role",
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  insert: "Created",
+  update: "Updated",
+  delete: "Deleted",
+};
+
+/** Columns that change on every write and say nothing about what was edited. */
+const IGNORED_FIELDS = new Set(["updated_at", "updated_by", "search_vector"]);
+
+export interface AuditFieldChange {
+  field: string;
+  before: Json | undefined;
+  after: Json | undefined;
+}
+
+const asRecord = (data: Json | null): Record<string, Json> =>
+  data && typeof data === "object" && !Array.isArray(data) ? (data as Record<string, Json>) : {};
+
+/** The fields an entry changed; creations and deletions list every field. */
+export function auditChanges(entry: Pick<AuditEntry, "old_data" | "new_data">): AuditFieldChange[] {
+  const before = asRecord(entry.old_data);
+  const after = asRecord(entry.new_data);
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  return fields
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }))
+    .sort((a, b) => a.field.localeCompare(b.field));
+}
+
+export const formatAuditValue = (value: Json | undefined): string => {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/** A short name for the row an entry is about, from whichever snapshot has one. */
+export function auditRecordLabel(entry: AuditEntry): string {
+  const data = { ...asRecord(entry.old_data), ...asRecord(entry.new_data) };
+  const label = data.title ?? data.name ?? data.order_number ?? data.return_number ?? data.setting_key ?? data.sku ?? data.role;
+  return label ? String(label) : entry.record_id.slice(0, 8);
+}
+
+/** Rows of another table that belong to the audited row, e.g. a product's variants. */
+export interface RelatedAuditTable {
+  tableName: string;
+  foreignKey: string;
+}
+
+/** Every entry for one row, and optionally for its child rows, newest first. */
+export async function fetchRecordHistory(
+  tableName: string,
+  recordId: string,
+  related?: RelatedAuditTable
+): Promise<AuditEntry[]> {
+  const filters = [`and(table_name.eq.${tableName},record_id.eq.${recordId})`];
+  if (related) {
+    filters.push(
+      `and(table_name.eq.${related.tableName},new_data->>${related.foreignKey}.eq.${recordId})`,
+      `and(table_name.eq.${related.tableName},old_data->>${related.foreignKey}.eq.${recordId})`
+    );
+  }
+
+  const { data, error } = await supabase
+    .from("audit_log")
+    .select("*")
+    .or(filters.join(","))
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
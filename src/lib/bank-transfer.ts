@@ -0,0 +1,121 @@
+/**
+ * Bank transfer payments.
+ *
+ * The store's account details are a site setting. Customers upload their
+ * transfer receipt to the private `payment-receipts` bucket under
+ * `<user id>/` (guests: `guest/<lookup token>/`) and submit it with the
+ * transaction ID; staff then verify or reject the proof, which marks the
+ * order paid or failed.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type PaymentProofStatus = Database["public"]["Enums"]["payment_proof_status"];
+export type PaymentProof = Database["public"]["Tables"]["payment_proofs"]["Row"];
+
+export const BANK_DETAILS_SETTING_KEY = "bank_details";
+
+export const PAYMENT_RECEIPT_BUCKET = "payment-receipts";
+
+const SIGNED_URL_TTL_SECONDS = 60 * 5;
+
+// A type rather than an interface so it can be written to site_settings as Json
+export type BankDetails = {
+  bank_name: string;
+  account_title: string;
+  account_number: string;
+  iban: string;
+  instructions: string;
+};
+
+export const EMPTY_BANK_DETAILS: BankDetails = {
+  bank_name: "",
+  account_title: "",
+  account_number: "",
+  iban: "",
+  instructions: "",
+};
+
+export const PAYMENT_PROOF_STATUS_LABELS: Record<PaymentProofStatus, string> = {
+  submitted: "Under Review",
+  verified: "Verified",
+  rejected: "Rejected",
+};
+
+export const fetchBankDetails = async (): Promise<BankDetails> => {
+  const { data, error } = await supabase
+    .from("site_settings")
+    .select("setting_value")
+    .eq("setting_key", BANK_DETAILS_SETTING_KEY)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching bank details:", error);
+    return EMPTY_BANK_DETAILS;
+  }
+  return { ...EMPTY_BANK_DETAILS, ...(data?.setting_value as Partial<BankDetails> | undefined) };
+};
+
+/** Whether a customer can send (another) receipt for the order. */
+export const canSubmitPaymentProof = (
+  order: { payment_method: string; payment_status: string; status: string | null },
+  proofs: Pick<PaymentProof, "status">[]
+) =>
+  order.payment_method === "bank_transfer" &&
+  order.status !== "cancelled" &&
+  (order.payment_status === "unpaid" || order.payment_status === "failed") &&
+  !proofs.some((proof) => proof.status === "submitted");
+
+/** The folder a receipt must be uploaded to: the customer's id, or the guest order's lookup token. */
+export const paymentReceiptFolder = (userId: string | null, guestToken?: string) =>
+  userId ?? `guest/${guestToken}`;
+
+export const uploadPaymentReceipt = async (folder: string, file: File): Promise<string> => {
+  const fileExt = file.name.split(".").pop();
+  const filePath = `${folder}/${Date.now()}-${crypto.randomUUID()}.${fileExt}`;
+
+  const { error } = await supabase.storage.from(PAYMENT_RECEIPT_BUCKET).upload(filePath, file);
+  if (error) throw error;
+  return filePath;
+};
+
+/** Short-lived link for viewing a stored receipt. */
+export const getPaymentReceiptUrl = async (path: string): Promise<string | null> => {
+  const { data, error } = await supabase.storage
+    .from(PAYMENT_RECEIPT_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error("Error creating receipt link:", error);
+    return null;
+  }
+  return data.signedUrl;
+};
+
+export async function submitPaymentProof(
+  orderId: string,
+  receiptPath: string,
+  transactionId: string,
+  amount: number | null,
+  guestToken?: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc("submit_payment_proof", {
+    _order_id: orderId,
+    _receipt_path: receiptPath,
+    _transaction_id: transactionId,
+    _amount: amount ?? undefined,
+    _guest_token: guestToken,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export async function reviewPaymentProof(proofId: string, verified: boolean, note?: string): Promise<void> {
+  const { error } = await supabase.rpc("review_payment_proof", {
+    _proof_id: proofId,
+    _verified: verified,
+    _note: note || undefined,
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,11 @@
+const CART_SESSION_KEY = 'cart_session_id';
+
+/** Random id identifying a guest's cart (and their guest uploads) in this browser. */
+export const getCartSessionId = () => {
+  let sessionId = localStorage.getItem(CART_SESSION_KEY);
+  if (!sessionId) {
+    sessionId = crypto.randomUUID();
+    localStorage.setItem(CART_SESSION_KEY, sessionId);
+  }
+  return sessionId;
+};
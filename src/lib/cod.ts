@@ -0,0 +1,90 @@
+/**
+ * Cash on delivery.
+ *
+ * The rules are a site setting and are enforced by `place_order`; checkout
+ * asks `cod_unavailable_reason` up front so it can explain why COD is
+ * unavailable. Phone numbers are verified with a Supabase Auth one-time code
+ * (phone change), which the database checks through `auth.users`. COD orders
+ * start as awaiting_confirmation until staff confirm them by phone.
+ */
+
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { updateOrderStatus } from "@/lib/order-status";
+
+export const COD_RULES_SETTING_KEY = "cod_rules";
+
+export type CodRules = {
+  /** Orders above this total (Rs.) can't be paid on delivery; null for no limit. */
+  max_order_value: number | null;
+  excluded_cities: string[];
+  /** Refused deliveries after which COD is withdrawn; null to never withdraw it. */
+  max_refused_deliveries: number | null;
+  require_otp: boolean;
+};
+
+export const DEFAULT_COD_RULES: CodRules = {
+  max_order_value: null,
+  excluded_cities: [],
+  max_refused_deliveries: 2,
+  require_otp: false,
+};
+
+export const OTP_LENGTH = 6;
+
+export const fetchCodRules = async (): Promise<CodRules> => {
+  const { data, error } = await supabase
+    .from("site_settings")
+    .select("setting_value")
+    .eq("setting_key", COD_RULES_SETTING_KEY)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching COD rules:", error);
+    return DEFAULT_COD_RULES;
+  }
+  return { ...DEFAULT_COD_RULES, ...(data?.setting_value as Partial<CodRules> | undefined) };
+};
+
+/** Keep in step with `normalize_phone`: 0300-1234567 and +92 300 1234567 both become 923001234567. */
+export const normalizePhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, "");
+  if (digits.startsWith("0092")) return digits.slice(2);
+  if (digits.startsWith("0")) return `92${digits.slice(1)}`;
+  if (digits.startsWith("3") && digits.length === 10) return `92${digits}`;
+  return digits;
+};
+
+export const isPhoneVerified = (user: User | null, phone: string) =>
+  !!user?.phone && !!user.phone_confirmed_at && normalizePhone(user.phone) === normalizePhone(phone);
+
+/** Why COD can't be used for this delivery, or null when it can. */
+export async function codUnavailableReason(city: string, phone: string, total: number): Promise<string | null> {
+  const { data, error } = await supabase.rpc("cod_unavailable_reason", { _city: city, _phone: phone, _total: total });
+  if (error) throw error;
+  return data;
+}
+
+export async function sendPhoneCode(phone: string): Promise<void> {
+  const { error } = await supabase.auth.updateUser({ phone: `+${normalizePhone(phone)}` });
+  if (error) throw error;
+}
+
+export async function verifyPhoneCode(phone: string, token: string): Promise<User | null> {
+  const { data, error } = await supabase.auth.verifyOtp({
+    phone: `+${normalizePhone(phone)}`,
+    token,
+    type: "phone_change",
+  });
+  if (error) throw error;
+  return data.user;
+}
+
+export async function confirmCodOrder(orderId: string, note: string): Promise<void> {
+  await updateOrderStatus(orderId, "processing", "", note || "Confirmed by phone");
+}
+
+export async function markDeliveryRefused(orderId: string, note: string): Promise<void> {
+  const { error } = await supabase.rpc("mark_delivery_refused", { _order_id: orderId, _note: note || undefined });
+  if (error) throw error;
+}
@@ -0,0 +1,86 @@
+/**
+ * Frame specifications.
+ *
+ * Shape, rim type and face-size fit describe the product; the three
+ * measurements printed inside a temple arm ("52□18-140": lens width, bridge
+ * width, temple length in millimetres) belong to the variant, since a
+ * frame's sizes differ in exactly those. `frame_fits` matches a customer's
+ * current pair against variants within FIT_TOLERANCES.
+ */
+
+import type { Database } from "@/integrations/supabase/types";
+
+export type FrameShape = Database["public"]["Enums"]["frame_shape"];
+export type RimType = Database["public"]["Enums"]["rim_type"];
+export type FaceFit = Database["public"]["Enums"]["face_fit"];
+
+export const FRAME_SHAPE_LABELS: Record<FrameShape, string> = {
+  round: "Round",
+  oval: "Oval",
+  rectangle: "Rectangle",
+  square: "Square",
+  cat_eye: "Cat-eye",
+  aviator: "Aviator",
+  browline: "Browline",
+  geometric: "Geometric",
+};
+
+export const RIM_TYPE_LABELS: Record<RimType, string> = {
+  full_rim: "Full rim",
+  half_rim: "Half rim",
+  rimless: "Rimless",
+};
+
+export const FACE_FIT_LABELS: Record<FaceFit, string> = {
+  narrow: "Narrow face",
+  medium: "Medium face",
+  wide: "Wide face",
+};
+
+export interface FrameMeasurements {
+  lensWidth: number | null;
+  bridgeWidth: number | null;
+  templeLength: number | null;
+}
+
+/** Millimetres either side of the customer's numbers; keep in step with `frame_fits`. */
+export const FIT_TOLERANCES = {
+  lensWidth: 2,
+  bridgeWidth: 2,
+  templeLength: 5,
+};
+
+/** Accepted ranges, matching the product_variants check constraints. */
+export const MEASUREMENT_RANGES = {
+  lensWidth: { min: 30, max: 80 },
+  bridgeWidth: { min: 10, max: 30 },
+  templeLength: { min: 100, max: 170 },
+};
+
+export const EMPTY_MEASUREMENTS: FrameMeasurements = { lensWidth: null, bridgeWidth: null, templeLength: null };
+
+export const hasMeasurements = (m: FrameMeasurements) =>
+  m.lensWidth !== null || m.bridgeWidth !== null || m.templeLength !== null;
+
+/**
+ * Read the numbers off a temple arm, e.g. "52□18-140", "52-18-140" or
+ * "52 18 140". Returns null unless all three are there and in range.
+ */
+export function parseFrameSize(text: string): FrameMeasurements | null {
+  const numbers = text.match(/\d+/g);
+  if (!numbers || numbers.length !== 3) return null;
+
+  const [lensWidth, bridgeWidth, templeLength] = numbers.map(Number);
+  const measurements = { lensWidth, bridgeWidth, templeLength };
+  const inRange = (Object.keys(MEASUREMENT_RANGES) as (keyof FrameMeasurements)[]).every((key) => {
+    const { min, max } = MEASUREMENT_RANGES[key];
+    return measurements[key] >= min && measurements[key] <= max;
+  });
+  return inRange ? measurements : null;
+}
+
+/** "52□18-140", the way frames are labelled; null when any number is missing. */
+export function formatFrameSize({ lensWidth, bridgeWidth, templeLength }: FrameMeasurements): string | null {
+  if (lensWidth === null || bridgeWidth === null || templeLength === null) return null;
+  return `${lensWidth}□${bridgeWidth}-${templeLength}`;
+}
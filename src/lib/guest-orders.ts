@@ -0,0 +1,79 @@
+/**
+ * Guest orders.
+ *
+ * Visitors can check out without an account: `place_guest_order` takes the
+ * browser's cart session id and an email, and returns the order's lookup
+ * token. The token opens the guest order page; a guest who lost the link can
+ * find it again with the order number and delivery phone. Once the guest
+ * signs up and confirms the same email, `claim_guest_orders` moves their
+ * orders into the account (and the lookup links stop working).
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { getCartSessionId } from "@/lib/cart-session";
+import type { PaymentProof } from "@/lib/bank-transfer";
+
+type OrderRow = Database["public"]["Tables"]["orders"]["Row"];
+
+/** A guest order as returned by `guest_order`, with its items and receipts. */
+export type GuestOrder = OrderRow & {
+  items: Json[];
+  payment_proofs: PaymentProof[];
+};
+
+export interface PlacedGuestOrder {
+  orderId: string;
+  token: string;
+}
+
+/** Keep in step with the email check in `place_cart_order`. */
+export const isValidEmail = (email: string) => /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email.trim());
+
+export const guestOrderPath = (token: string) => `/guest-order/${token}`;
+
+/** Reprice, reserve stock, write the order and clear this browser's guest cart in one transaction. */
+export async function placeGuestOrder(
+  email: string,
+  shippingAddress: Json,
+  paymentMethod: Database["public"]["Enums"]["payment_method"],
+  expectedTotal: number
+): Promise<PlacedGuestOrder> {
+  const { data, error } = await supabase.rpc("place_guest_order", {
+    _session_id: getCartSessionId(),
+    _email: email.trim(),
+    _shipping_address: shippingAddress,
+    _payment_method: paymentMethod,
+    _expected_total: expectedTotal,
+  });
+  if (error) throw error;
+
+  const placed = data as { order_id: string; token: string };
+  return { orderId: placed.order_id, token: placed.token };
+}
+
+export async function fetchGuestOrder(token: string): Promise<GuestOrder | null> {
+  const { data, error } = await supabase.rpc("guest_order", { _token: token });
+  if (error) throw error;
+  return data as unknown as GuestOrder | null;
+}
+
+/** The lookup token for a guest order, or null when the number and phone don't match one. */
+export async function findGuestOrder(orderNumber: string, phone: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc("find_guest_order", { _order_number: orderNumber, _phone: phone });
+  if (error) throw error;
+  return data;
+}
+
+/** Guest orders placed with the signed-in customer's confirmed email. */
+export async function countClaimableGuestOrders(): Promise<number> {
+  const { data, error } = await supabase.rpc("claimable_guest_orders");
+  if (error) throw error;
+  return data;
+}
+
+export async function claimGuestOrders(): Promise<number> {
+  const { data, error } = await supabase.rpc("claim_guest_orders");
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,105 @@
+/**
+ * Lens add-ons: thickness (material index), coatings and tints.
+ *
+ * Options live in the admin-managed `lens_options` table. The availability
+ * rules here mirror the checks `price_quote_line` and `place_order` run, so
+ * keep both sides in step.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import type { LensVisionType } from "@/lib/prescription-validation";
+
+export type LensUsage = Database["public"]["Enums"]["lens_usage"];
+export type LensOptionKind = Database["public"]["Enums"]["lens_option_kind"];
+export type LensOptionRow = Database["public"]["Tables"]["lens_options"]["Row"];
+
+/** A chosen option with the price it was quoted at; stored as order_items.lens_options. */
+export interface SelectedLensOption {
+  id: string;
+  kind: LensOptionKind;
+  name: string;
+  price: number;
+}
+
+export const LENS_USAGE_LABELS: Record<LensUsage, string> = {
+  everyday: "Everyday",
+  computer: "Computer & screens",
+  sunglasses: "Sunglasses",
+};
+
+export const LENS_USAGE_DESCRIPTIONS: Record<LensUsage, string> = {
+  everyday: "Clear lenses for all-day wear",
+  computer: "Clear lenses for long hours at a screen",
+  sunglasses: "Tinted lenses for outdoors",
+};
+
+export const LENS_VISION_TYPE_LABELS: Record<LensVisionType, string> = {
+  single_vision: "Single Vision",
+  bifocal: "Bifocal",
+  progressive: "Progressive",
+};
+
+export const LENS_OPTION_KIND_LABELS: Record<LensOptionKind, string> = {
+  thickness: "Thickness",
+  coating: "Coating",
+  tint: "Tint",
+};
+
+interface AvailabilityContext {
+  usage?: LensUsage | null;
+  visionType?: LensVisionType | null;
+}
+
+/** Whether an enabled option can be offered for the chosen usage and lens. */
+export function isLensOptionAvailable(option: LensOptionRow, { usage, visionType }: AvailabilityContext): boolean {
+  if (!option.is_enabled) return false;
+  if (option.usages.length > 0 && (!usage || !option.usages.includes(usage))) return false;
+  if (option.vision_types.length > 0 && (!visionType || !option.vision_types.includes(visionType))) return false;
+  return true;
+}
+
+/** A thickness option can only be made up to its max power; no limit means any prescription. */
+export const supportsPower = (option: LensOptionRow, power: number) =>
+  option.max_power === null || power <= option.max_power;
+
+export const toSelectedLensOption = (option: LensOptionRow): SelectedLensOption => ({
+  id: option.id,
+  kind: option.kind,
+  name: option.name,
+  price: Number(option.price_adjustment) || 0,
+});
+
+/** Read the option snapshot stored on an order item. */
+export function parseLensOptions(json: Json | null | undefined): SelectedLensOption[] {
+  if (!Array.isArray(json)) return [];
+
+  return (json as unknown as SelectedLensOption[]).map((option) => ({
+    id: option.id,
+    kind: option.kind,
+    name: option.name,
+    price: Number(option.price) || 0,
+  }));
+}
+
+/** Attach the chosen options of each cart line, at their current prices, in thickness / coating / tint order. */
+export async function withLensOptions<T extends { lens_option_ids: string[] }>(
+  items: T[]
+): Promise<(T & { lens_options: SelectedLensOption[] })[]> {
+  const optionIds = [...new Set(items.flatMap((item) => item.lens_option_ids))];
+  if (optionIds.length === 0) return items.map((item) => ({ ...item, lens_options: [] }));
+
+  const { data: options } = await supabase
+    .from("lens_options")
+    .select("*")
+    .in("id", optionIds)
+    .order("kind")
+    .order("display_order");
+
+  return items.map((item) => ({
+    ...item,
+    lens_options: (options || [])
+      .filter((option) => item.lens_option_ids.includes(option.id))
+      .map(toSelectedLensOption),
+  }));
+}
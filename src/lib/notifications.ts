@@ -0,0 +1,37 @@
+/**
+ * Customer notifications.
+ *
+ * Rows are created by database functions (for example when staff review a
+ * bank transfer receipt); customers can only read theirs and set `read_at`.
+ * Guest orders have no account, so they get none.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type Notification = Database["public"]["Tables"]["notifications"]["Row"];
+
+export async function fetchUnreadNotifications(userId: string): Promise<Notification[]> {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("*")
+    .eq("user_id", userId)
+    .is("read_at", null)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching notifications:", error);
+    return [];
+  }
+  return data;
+}
+
+export async function markNotificationsRead(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .in("id", ids);
+  if (error) throw error;
+}
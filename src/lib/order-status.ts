@@ -0,0 +1,104 @@
+/**
+ * Order status workflow.
+ *
+ * The allowed transitions mirror `order_status_transition_allowed` in the
+ * database, which rejects anything else; keep both sides in step.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type OrderStatus = Database["public"]["Enums"]["order_status"];
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  "pending",
+  "awaiting_confirmation",
+  "processing",
+  "shipped",
+  "delivered",
+  "cancelled",
+];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Pending",
+  awaiting_confirmation: "Awaiting Confirmation",
+  processing: "Processing",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+};
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["processing", "cancelled"],
+  awaiting_confirmation: ["processing", "cancelled"],
+  processing: ["shipped", "cancelled"],
+  // Shipped orders are only cancelled by markDeliveryRefused
+  shipped: ["delivered", "cancelled"],
+  delivered: [],
+  cancelled: [],
+};
+
+/** The current status followed by every status the order may move to. */
+export const selectableStatuses = (current: OrderStatus): OrderStatus[] => [
+  current,
+  ...ORDER_STATUS_TRANSITIONS[current],
+];
+
+export const requiresTrackingNumber = (status: OrderStatus) => status === "shipped";
+
+export interface OrderStatusChange {
+  id: string;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+  note: string | null;
+  created_at: string;
+  actor: { full_name: string | null; email: string } | null;
+}
+
+/** Status changes of one order, oldest first. */
+export async function fetchOrderStatusHistory(orderId: string): Promise<OrderStatusChange[]> {
+  const { data, error } = await supabase
+    .from("order_status_history")
+    .select("id, from_status, to_status, note, created_at, actor:profiles(full_name, email)")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+/** A blank tracking number keeps the stored one; pass `clearTracking` to remove it. */
+export async function updateOrderStatus(
+  orderId: string,
+  status: OrderStatus,
+  trackingNumber: string,
+  note: string,
+  clearTracking = false
+): Promise<void> {
+  const { error } = await supabase.rpc("update_order_status", {
+    _order_id: orderId,
+    _status: status,
+    _tracking_number: trackingNumber,
+    _note: note,
+    _clear_tracking: clearTracking,
+  });
+  if (error) throw error;
+}
+
+/** Customers and staff can cancel an order, fully or in part, until it ships. */
+export const isCancellable = (status: string | null) =>
+  status === "pending" || status === "awaiting_confirmation" || status === "processing";
+
+export interface CancelLine {
+  orderItemId: string;
+  quantity: number;
+}
+
+/** Cancel the whole order, or only the given units when `lines` is set. Stock is restored by the database. */
+export async function cancelOrder(orderId: string, reason: string, lines?: CancelLine[]): Promise<void> {
+  const { error } = await supabase.rpc("cancel_order", {
+    _order_id: orderId,
+    _reason: reason,
+    _items: lines?.map((line) => ({ order_item_id: line.orderItemId, quantity: line.quantity })),
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,112 @@
+/**
+ * Payments.
+ *
+ * Orders track whether they have been paid separately from fulfilment.
+ * Online methods are paid through the payment-start and payment-callback
+ * edge functions, which pick the provider (or the sandbox provider when
+ * PAYMENT_SANDBOX is set) and record each attempt in `payments`.
+ */
+
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type PaymentMethod = Database["public"]["Enums"]["payment_method"];
+export type PaymentStatus = Database["public"]["Enums"]["payment_status"];
+export type PaymentAttemptStatus = Database["public"]["Enums"]["payment_attempt_status"];
+export type Payment = Database["public"]["Tables"]["payments"]["Row"];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cod: "Cash on Delivery",
+  jazzcash: "JazzCash",
+  easypaisa: "EasyPaisa",
+  bank_transfer: "Bank Transfer",
+  card: "Credit/Debit Card",
+};
+
+export const PAYMENT_STATUSES: PaymentStatus[] = ["unpaid", "pending", "paid", "failed", "refunded"];
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: "Unpaid",
+  pending: "Awaiting Payment",
+  paid: "Paid",
+  failed: "Payment Failed",
+  refunded: "Refunded",
+};
+
+export const PAYMENT_ATTEMPT_STATUS_LABELS: Record<PaymentAttemptStatus, string> = {
+  pending: "Pending",
+  succeeded: "Succeeded",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+/** Keep in step with `is_online_payment_method`. */
+export const ONLINE_PAYMENT_METHODS: PaymentMethod[] = ["jazzcash", "easypaisa", "card"];
+
+export const isOnlinePayment = (method: string) => ONLINE_PAYMENT_METHODS.includes(method as PaymentMethod);
+
+/** Whether the customer can (still) pay an order online. */
+export const canPayOnline = (order: { payment_method: string; payment_status: string; status: string | null }) =>
+  isOnlinePayment(order.payment_method) &&
+  order.status !== "cancelled" &&
+  (order.payment_status === "unpaid" || order.payment_status === "pending" || order.payment_status === "failed");
+
+export interface PaymentRedirect {
+  url: string;
+  method: "GET" | "POST";
+  fields: Record<string, string>;
+}
+
+// Hosted payment pages are reached by a full page navigation, POSTing a form when the provider needs one
+export const followPaymentRedirect = (redirect: PaymentRedirect) => {
+  if (redirect.method === "GET") {
+    const url = new URL(redirect.url);
+    Object.entries(redirect.fields).forEach(([key, value]) => url.searchParams.set(key, value));
+    window.location.assign(url.toString());
+    return;
+  }
+
+  const form = document.createElement("form");
+  form.method = "POST";
+  form.action = redirect.url;
+  Object.entries(redirect.fields).forEach(([name, value]) => {
+    const input = document.createElement("input");
+    input.type = "hidden";
+    input.name = name;
+    input.value = value;
+    form.appendChild(input);
+  });
+  document.body.appendChild(form);
+  form.submit();
+};
+
+// The payment result page never gets a guest order's lookup token from the server
+const guestPaymentTokenKey = (orderId: string) => `guest_payment_token:${orderId}`;
+
+/** The lookup token this tab paid a guest order with, if any. */
+export const sessionGuestToken = (orderId: string) => sessionStorage.getItem(guestPaymentTokenKey(orderId));
+
+/**
+ * Open a payment attempt for the order and send the customer to the provider.
+ * Guests pass the order's lookup token, which this tab keeps for the way back.
+ */
+export async function startPayment(orderId: string, guestToken?: string | null): Promise<void> {
+  const { data, error } = await supabase.functions.invoke<{ payment_id: string; redirect: PaymentRedirect }>(
+    "payment-start",
+    { body: { order_id: orderId, guest_token: guestToken ?? undefined } }
+  );
+
+  if (error) {
+    const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+    throw new Error(body?.error || "Could not start the payment");
+  }
+
+  if (guestToken) sessionStorage.setItem(guestPaymentTokenKey(orderId), guestToken);
+  followPaymentRedirect(data.redirect);
+}
+
+export async function setOrderPaymentStatus(orderId: string, status: PaymentStatus): Promise<void> {
+  const { error } = await supabase.rpc("set_order_payment_status", { _order_id: orderId, _status: status });
+  if (error) throw error;
+}
@@ -0,0 +1,147 @@
+/**
+ * Pupillary distance from a selfie.
+ *
+ * The customer holds a standard bank/ID card (ISO/IEC 7810 ID-1, 85.60 mm
+ * wide) flat against their forehead, so the card and the eyes are about the
+ * same distance from the camera and the card's width gives millimetres per
+ * pixel. The face landmarker finds the pupils and the nose bridge; the card's
+ * left and right edges are found as the strongest pair of vertical edges
+ * across the forehead. Every marker can be dragged into place before the PD
+ * is used.
+ *
+ * Distances are measured horizontally, so a slight head tilt shrinks the card
+ * and the eyes alike and cancels out.
+ */
+
+import { MONOCULAR_PD_RANGE, SINGLE_PD_RANGE } from "@/lib/prescription-validation";
+import { detectEyes, type Point } from "@/lib/try-on";
+
+export const CARD_WIDTH_MM = 85.6;
+
+export interface PdMarkers {
+  /** The pupil on the left of the picture: the customer's right eye, as a camera sees them. */
+  rightPupil: Point;
+  leftPupil: Point;
+  bridge: Point;
+  /** x of the card's left and right edges. */
+  cardLeft: number;
+  cardRight: number;
+}
+
+export interface PdMeasurement {
+  single: number;
+  right: number;
+  left: number;
+}
+
+// A card is about 1.36 times an average PD wide; allow for children and wide-set eyes
+const CARD_TO_PD = CARD_WIDTH_MM / 63;
+const CARD_TO_PD_RANGE = { min: 1.1, max: 1.8 };
+// Analyse the photo at this width; plenty for finding edges
+const ANALYSIS_WIDTH = 640;
+
+/**
+ * Place every marker automatically. `found` is false when no face was
+ * detected, or the landmarker couldn't load in this browser, and the markers
+ * are a starting guess in the middle of the photo.
+ */
+export async function detectPdMarkers(image: HTMLImageElement): Promise<{ markers: PdMarkers; found: boolean }> {
+  const eyes = await detectEyes(image).catch(() => null);
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+
+  if (!eyes) {
+    const pupilGap = width * 0.15;
+    const center = { x: width / 2, y: height / 2 };
+    return {
+      found: false,
+      markers: {
+        rightPupil: { x: center.x - pupilGap / 2, y: center.y },
+        leftPupil: { x: center.x + pupilGap / 2, y: center.y },
+        bridge: center,
+        cardLeft: center.x - (pupilGap * CARD_TO_PD) / 2,
+        cardRight: center.x + (pupilGap * CARD_TO_PD) / 2,
+      },
+    };
+  }
+
+  const pupilGap = eyes.right.x - eyes.left.x;
+  const card = findCardEdges(image, eyes.left, eyes.right, eyes.bridge) ?? {
+    left: eyes.bridge.x - (pupilGap * CARD_TO_PD) / 2,
+    right: eyes.bridge.x + (pupilGap * CARD_TO_PD) / 2,
+  };
+
+  return {
+    found: true,
+    markers: {
+      rightPupil: eyes.left,
+      leftPupil: eyes.right,
+      bridge: eyes.bridge,
+      cardLeft: card.left,
+      cardRight: card.right,
+    },
+  };
+}
+
+/**
+ * The card's vertical edges on the forehead: for each column, how sharply
+ * brightness changes across it in a band above the eyes; then the strongest
+ * pair of columns that is card-sized and roughly centred on the nose.
+ */
+function findCardEdges(image: HTMLImageElement, leftEye: Point, rightEye: Point, bridge: Point) {
+  const scale = Math.min(1, ANALYSIS_WIDTH / image.naturalWidth);
+  const width = Math.round(image.naturalWidth * scale);
+  const height = Math.round(image.naturalHeight * scale);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(image, 0, 0, width, height);
+
+  const pupilGap = (rightEye.x - leftEye.x) * scale;
+  const eyeLine = ((leftEye.y + rightEye.y) / 2) * scale;
+  const top = Math.max(0, Math.round(eyeLine - pupilGap * 1.5));
+  const bottom = Math.max(top + 1, Math.round(eyeLine - pupilGap * 0.6));
+  const { data } = ctx.getImageData(0, top, width, bottom - top);
+
+  const gray = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+  const strength = new Float32Array(width);
+  for (let x = 1; x < width - 1; x++) {
+    for (let y = 0; y < bottom - top; y++) {
+      strength[x] += Math.abs(gray(x + 1, y) - gray(x - 1, y));
+    }
+  }
+
+  const center = bridge.x * scale;
+  let best: { left: number; right: number; score: number } | null = null;
+  for (let left = 1; left < center; left++) {
+    const minRight = Math.max(center, left + pupilGap * CARD_TO_PD_RANGE.min);
+    const maxRight = Math.min(width - 2, left + pupilGap * CARD_TO_PD_RANGE.max);
+    for (let right = Math.ceil(minRight); right <= maxRight; right++) {
+      if (Math.abs((left + right) / 2 - center) > pupilGap * 0.4) continue;
+      const score = strength[left] + strength[right];
+      if (!best || score > best.score) best = { left, right, score };
+    }
+  }
+
+  return best && { left: best.left / scale, right: best.right / scale };
+}
+
+/** PD in millimetres from the markers, or null when it is outside what a prescription accepts. */
+export function measurePd(markers: PdMarkers): PdMeasurement | null {
+  const cardPixels = markers.cardRight - markers.cardLeft;
+  if (cardPixels <= 0) return null;
+
+  const mmPerPixel = CARD_WIDTH_MM / cardPixels;
+  const single = (markers.leftPupil.x - markers.rightPupil.x) * mmPerPixel;
+  const right = (markers.bridge.x - markers.rightPupil.x) * mmPerPixel;
+  const left = (markers.leftPupil.x - markers.bridge.x) * mmPerPixel;
+
+  if (single < SINGLE_PD_RANGE.min || single > SINGLE_PD_RANGE.max) return null;
+  if ([right, left].some((pd) => pd < MONOCULAR_PD_RANGE.min || pd > MONOCULAR_PD_RANGE.max)) return null;
+  return { single, right, left };
+}
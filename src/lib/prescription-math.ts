@@ -0,0 +1,103 @@
+/**
+ * Prescription arithmetic.
+ *
+ * `EyeData` keeps the strings picked in the form; these helpers turn them into
+ * numbers, convert between plus- and minus-cylinder notation and produce the
+ * canonical minus-cyl form stored on cart and order lines.
+ */
+
+import type { EyeData, PrescriptionData } from "@/lib/prescription";
+
+export interface EyePower {
+  sph: number;
+  cyl: number;
+  axis: number;
+}
+
+const roundQuarter = (value: number) => Math.round(value * 4) / 4;
+
+/** Parse a dioptre string such as "+1.25", "-0.50" or "" (treated as 0). */
+export function parseDiopter(value: string | null | undefined): number {
+  const parsed = Number(value);
+  return value === null || value === undefined || value.trim() === '' || Number.isNaN(parsed) ? 0 : parsed;
+}
+
+export function parseAxis(value: string | null | undefined): number {
+  return Math.round(parseDiopter(value));
+}
+
+/** Format a dioptre the way the prescription form lists it: "+1.25", "-0.50", "0.00". */
+export function formatDiopter(value: number): string {
+  const rounded = roundQuarter(value);
+  if (rounded === 0) return '0.00';
+  return rounded > 0 ? `+${rounded.toFixed(2)}` : rounded.toFixed(2);
+}
+
+export function parseEye(eye: Pick<EyeData, 'sph' | 'cyl' | 'axis'>): EyePower {
+  return {
+    sph: parseDiopter(eye.sph),
+    cyl: parseDiopter(eye.cyl),
+    axis: parseAxis(eye.axis),
+  };
+}
+
+/** Rotate an axis by 90 degrees, keeping it in the 1-180 range. */
+const rotateAxis = (axis: number) => {
+  const rotated = (axis + 90) % 180;
+  return rotated === 0 ? 180 : rotated;
+};
+
+/** Switch between plus- and minus-cylinder notation. The lens power is unchanged. */
+export function transpose(power: EyePower): EyePower {
+  if (power.cyl === 0) return power;
+
+  return {
+    sph: roundQuarter(power.sph + power.cyl),
+    cyl: -power.cyl,
+    axis: rotateAxis(power.axis),
+  };
+}
+
+export function toMinusCyl(power: EyePower): EyePower {
+  return power.cyl > 0 ? transpose(power) : power;
+}
+
+export function toPlusCyl(power: EyePower): EyePower {
+  return power.cyl < 0 ? transpose(power) : power;
+}
+
+/** Sphere plus half the cylinder; the same in either notation. */
+export function sphericalEquivalent(power: EyePower): number {
+  return roundQuarter(power.sph + power.cyl / 2);
+}
+
+/** Canonical minus-cyl strings for one eye. Axis is cleared when there is no cylinder. */
+export function normalizeEye(eye: EyeData): EyeData {
+  const power = toMinusCyl(parseEye(eye));
+
+  return {
+    ...eye,
+    sph: formatDiopter(power.sph),
+    cyl: formatDiopter(power.cyl),
+    axis: power.cyl === 0 ? '0' : String(power.axis),
+  };
+}
+
+/** The form cart and order lines store, so every order reads the same way for the lab. */
+export function normalizePrescription(data: PrescriptionData): PrescriptionData {
+  return {
+    ...data,
+    rightEye: normalizeEye(data.rightEye),
+    leftEye: normalizeEye(data.leftEye),
+  };
+}
+
+/** Strongest meridian of either eye; thicker-index lenses are needed as this grows. */
+export function maxMeridianPower(data: PrescriptionData): number {
+  return Math.max(
+    ...[data.rightEye, data.leftEye].flatMap((eye) => {
+      const power = toMinusCyl(parseEye(eye));
+      return [Math.abs(power.sph), Math.abs(power.sph + power.cyl)];
+    })
+  );
+}
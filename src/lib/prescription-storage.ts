@@ -0,0 +1,50 @@
+import { supabase } from "@/integrations/supabase/client";
+import { getCartSessionId } from "@/lib/cart-session";
+
+/**
+ * Prescription documents live in the private `prescriptions` bucket.
+ *
+ * Signed-in customers upload under `<user id>/`, guests under
+ * `guest/<cart session id>/` until `claim_guest_cart` hands the files to
+ * their account. Rows store the object path, never a public URL.
+ */
+export const PRESCRIPTION_BUCKET = "prescriptions";
+
+const SIGNED_URL_TTL_SECONDS = 60 * 5;
+
+export const uploadPrescriptionFile = async (file: File): Promise<string> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  const folder = user ? user.id : `guest/${getCartSessionId()}`;
+  const fileExt = file.name.split('.').pop();
+  const filePath = `${folder}/${Date.now()}-${crypto.randomUUID()}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from(PRESCRIPTION_BUCKET)
+    .upload(filePath, file);
+
+  if (error) throw error;
+  return filePath;
+};
+
+/**
+ * Short-lived link for viewing a stored prescription. Lines from before the
+ * bucket move held a public product-images URL until
+ * scripts/move-legacy-prescriptions.mjs moved the file; any left over are
+ * never linked publicly.
+ */
+export const getPrescriptionFileUrl = async (path: string): Promise<string | null> => {
+  if (/^https?:\/\//.test(path)) {
+    console.error('Prescription file has not been moved to private storage:', path);
+    return null;
+  }
+
+  const { data, error } = await supabase.storage
+    .from(PRESCRIPTION_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error('Error creating prescription link:', error);
+    return null;
+  }
+  return data.signedUrl;
+};
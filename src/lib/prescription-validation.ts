@@ -0,0 +1,148 @@
+/**
+ * Clinical checks for manually entered prescriptions.
+ *
+ * Errors block the prescription; warnings are shown but the customer can
+ * still continue. The error rules are mirrored by the `prescription_errors`
+ * database function that `place_order` runs, so keep both sides in step.
+ */
+
+import type { Database } from "@/integrations/supabase/types";
+import type { EyeData, PrismData, PrescriptionData } from "@/lib/prescription";
+import { formatDiopter, parseDiopter, parseEye, toMinusCyl } from "@/lib/prescription-math";
+
+export type LensVisionType = Database["public"]["Enums"]["lens_vision_type"];
+
+export type PrescriptionField =
+  | `${'rightEye' | 'leftEye'}.${keyof EyeData}`
+  | `${'rightPrism' | 'leftPrism'}.${keyof PrismData}`;
+
+export type PrescriptionIssues = Partial<Record<PrescriptionField, string>>;
+
+export interface PrescriptionValidation {
+  errors: PrescriptionIssues;
+  warnings: PrescriptionIssues;
+  isValid: boolean;
+}
+
+/** Prescription limits of a lens; a missing bound means the lens has no limit there. */
+export interface LensPrescriptionRange {
+  minSph?: number | null;
+  maxSph?: number | null;
+  maxCyl?: number | null;
+}
+
+interface ValidationOptions {
+  /** Vision type of the chosen lens; ADD is only checked when it is known. */
+  visionType?: LensVisionType | null;
+  lensRange?: LensPrescriptionRange | null;
+}
+
+export const MAX_SPHERE_DIFFERENCE = 4;
+export const SINGLE_PD_RANGE = { min: 54, max: 74 };
+export const MONOCULAR_PD_RANGE = { min: 25, max: 40 };
+
+const EYES = [
+  { eye: 'rightEye', prism: 'rightPrism' },
+  { eye: 'leftEye', prism: 'leftPrism' },
+] as const;
+
+export const lensSupportsAdd = (visionType?: LensVisionType | null) =>
+  visionType === 'bifocal' || visionType === 'progressive';
+
+export function validatePrescription(
+  data: PrescriptionData,
+  { visionType, lensRange }: ValidationOptions = {}
+): PrescriptionValidation {
+  const errors: PrescriptionIssues = {};
+  const warnings: PrescriptionIssues = {};
+
+  for (const { eye, prism } of EYES) {
+    const values = data[eye];
+    const power = toMinusCyl(parseEye(values));
+    const cyl = parseDiopter(values.cyl);
+    const axis = parseDiopter(values.axis);
+    const add = parseDiopter(values.add);
+
+    if (lensRange?.minSph != null && power.sph < lensRange.minSph) {
+      errors[`${eye}.sph`] = `This lens is available down to ${formatDiopter(lensRange.minSph)} SPH`;
+    } else if (lensRange?.maxSph != null && power.sph > lensRange.maxSph) {
+      errors[`${eye}.sph`] = `This lens is available up to ${formatDiopter(lensRange.maxSph)} SPH`;
+    }
+
+    if (lensRange?.maxCyl != null && Math.abs(cyl) > lensRange.maxCyl) {
+      errors[`${eye}.cyl`] = `This lens is available up to ${lensRange.maxCyl.toFixed(2)} CYL`;
+    }
+
+    if (cyl !== 0 && (axis < 1 || axis > 180)) {
+      errors[`${eye}.axis`] = 'Axis must be between 1 and 180 when CYL is set';
+    } else if (cyl === 0 && axis !== 0) {
+      warnings[`${eye}.axis`] = 'Axis has no effect without CYL';
+    }
+
+    if (add !== 0 && visionType === 'single_vision') {
+      errors[`${eye}.add`] = 'ADD is only used with bifocal or progressive lenses';
+    } else if (add === 0 && lensSupportsAdd(visionType)) {
+      warnings[`${eye}.add`] = 'This lens usually needs an ADD value';
+    }
+
+    if (data.addPrism) {
+      const prismValues = data[prism];
+      const directions = [
+        { amount: 'verticalPrism', base: 'verticalBase' },
+        { amount: 'horizontalPrism', base: 'horizontalBase' },
+      ] as const;
+
+      for (const { amount, base } of directions) {
+        const prismAmount = parseDiopter(prismValues?.[amount]);
+        const baseDirection = prismValues?.[base] || 'n/a';
+
+        if (prismAmount > 0 && baseDirection === 'n/a') {
+          errors[`${prism}.${base}`] = 'Choose a base direction for this prism';
+        } else if (prismAmount === 0 && baseDirection !== 'n/a') {
+          warnings[`${prism}.${amount}`] = 'Base direction set without a prism amount';
+        }
+      }
+    }
+  }
+
+  // Compare in minus-cyl form, which is how the prescription is stored and re-checked by place_order
+  const sphereDifference = Math.abs(toMinusCyl(parseEye(data.rightEye)).sph - toMinusCyl(parseEye(data.leftEye)).sph);
+  if (sphereDifference > MAX_SPHERE_DIFFERENCE && !errors['leftEye.sph']) {
+    errors['leftEye.sph'] = `SPH differs from the right eye by more than ${MAX_SPHERE_DIFFERENCE.toFixed(2)}`;
+  }
+
+  const rightAdd = parseDiopter(data.rightEye.add);
+  const leftAdd = parseDiopter(data.leftEye.add);
+  if (!errors['leftEye.add'] && rightAdd !== leftAdd) {
+    warnings['leftEye.add'] = 'ADD is normally the same for both eyes';
+  }
+
+  if (data.twoPDNumbers) {
+    for (const { eye } of EYES) {
+      const pd = parseDiopter(data[eye].pd);
+      if (!data[eye].pd) {
+        errors[`${eye}.pd`] = 'Select a PD for this eye';
+      } else if (pd < MONOCULAR_PD_RANGE.min || pd > MONOCULAR_PD_RANGE.max) {
+        errors[`${eye}.pd`] = `PD must be between ${MONOCULAR_PD_RANGE.min} and ${MONOCULAR_PD_RANGE.max}`;
+      }
+    }
+
+    const total = parseDiopter(data.rightEye.pd) + parseDiopter(data.leftEye.pd);
+    if (!errors['rightEye.pd'] && !errors['leftEye.pd'] && (total < SINGLE_PD_RANGE.min || total > SINGLE_PD_RANGE.max)) {
+      warnings['leftEye.pd'] = `Combined PD of ${total} is outside the usual ${SINGLE_PD_RANGE.min}-${SINGLE_PD_RANGE.max} range`;
+    }
+  } else {
+    const pd = parseDiopter(data.rightEye.pd);
+    if (!data.rightEye.pd) {
+      errors['rightEye.pd'] = 'Select your PD';
+    } else if (pd < SINGLE_PD_RANGE.min || pd > SINGLE_PD_RANGE.max) {
+      errors['rightEye.pd'] = `PD must be between ${SINGLE_PD_RANGE.min} and ${SINGLE_PD_RANGE.max}`;
+    }
+  }
+
+  return {
+    errors,
+    warnings,
+    isValid: Object.keys(errors).length === 0,
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Shared prescription shapes.
+ *
+ * Values are kept as the strings picked in the form ("-1.25", "+0.50", "90").
+ * Cart and order lines store them in canonical minus-cyl form; see
+ * `normalizePrescription` in prescription-math.
+ */
+
+export interface EyeData {
+  sph: string;
+  cyl: string;
+  axis: string;
+  add: string;
+  pd: string;
+}
+
+export interface PrismData {
+  verticalPrism: string;
+  verticalBase: string;
+  horizontalPrism: string;
+  horizontalBase: string;
+}
+
+export interface PrescriptionData {
+  rightEye: EyeData;
+  leftEye: EyeData;
+  rightPrism?: PrismData;
+  leftPrism?: PrismData;
+  twoPDNumbers?: boolean;
+  addPrism?: boolean;
+}
+
+export const createEmptyEye = (): EyeData => ({
+  sph: '0.00', cyl: '0.00', axis: '0', add: '0.00', pd: ''
+});
+
+export const createEmptyPrism = (): PrismData => ({
+  verticalPrism: '0.00', verticalBase: 'n/a', horizontalPrism: '0.00', horizontalBase: 'n/a'
+});
+
+export const createEmptyPrescription = (): PrescriptionData => ({
+  rightEye: createEmptyEye(),
+  leftEye: createEmptyEye(),
+  rightPrism: createEmptyPrism(),
+  leftPrism: createEmptyPrism(),
+  twoPDNumbers: false,
+  addPrism: false,
+});
+
+/** Fill in anything missing from stored JSON so the form always has every field. */
+export const withPrescriptionDefaults = (data?: Partial<PrescriptionData> | null): PrescriptionData => {
+  const empty = createEmptyPrescription();
+  return {
+    rightEye: { ...empty.rightEye, ...data?.rightEye },
+    leftEye: { ...empty.leftEye, ...data?.leftEye },
+    rightPrism: { ...empty.rightPrism, ...data?.rightPrism },
+    leftPrism: { ...empty.leftPrism, ...data?.leftPrism },
+    twoPDNumbers: data?.twoPDNumbers ?? false,
+    addPrism: data?.addPrism ?? false,
+  };
+};
+
+/** The shape stored on cart and order lines: prism values only when prism was requested. */
+export const toStoredPrescription = (data: PrescriptionData): PrescriptionData => ({
+  rightEye: data.rightEye,
+  leftEye: data.leftEye,
+  rightPrism: data.addPrism ? data.rightPrism : undefined,
+  leftPrism: data.addPrism ? data.leftPrism : undefined,
+  twoPDNumbers: data.twoPDNumbers,
+  addPrism: data.addPrism,
+});
+
+export const isPrescriptionExpired = (expiryDate: string | null, today = new Date()) => {
+  if (!expiryDate) return false;
+  return new Date(`${expiryDate}T23:59:59`) < today;
+};
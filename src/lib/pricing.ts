@@ -0,0 +1,121 @@
+/**
+ * Pricing engine shared by ProductDetail, Cart and Checkout.
+ *
+ * Mirrors the `price_quote_line` / `shipping_for_subtotal` database functions
+ * used by `place_order`, so the amounts shown here are the amounts stored on
+ * `order_items`. Change both sides together.
+ */
+
+import type { Json } from "@/integrations/supabase/types";
+import { parseLensOptions, type SelectedLensOption } from "@/lib/lens-options";
+
+export const FREE_SHIPPING_THRESHOLD = 5000;
+export const STANDARD_SHIPPING_COST = 200;
+
+export interface PriceLineInput {
+  basePrice: number;
+  variantAdjustment?: number | null;
+  lensAdjustment?: number | null;
+  lensOptions?: SelectedLensOption[];
+  quantity: number;
+}
+
+export interface LineQuote {
+  cartItemId?: string;
+  base: number;
+  variant: number;
+  lens: number;
+  /** Thickness, coatings and tint, each priced on its own line */
+  options: SelectedLensOption[];
+  /** Per unit; always 0 until discounts exist, as in `price_quote_line` */
+  discount: number;
+  unitPrice: number;
+  quantity: number;
+  total: number;
+}
+
+export interface OrderQuote {
+  lines: LineQuote[];
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  total: number;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/** Itemised price for one cart line. */
+export function quoteLine({ basePrice, variantAdjustment, lensAdjustment, lensOptions = [], quantity }: PriceLineInput): LineQuote {
+  const base = Number(basePrice) || 0;
+  const variant = Number(variantAdjustment) || 0;
+  const lens = Number(lensAdjustment) || 0;
+  const optionsTotal = lensOptions.reduce((sum, option) => sum + (Number(option.price) || 0), 0);
+  const discount = 0;
+  const unitPrice = roundMoney(base + variant + lens + optionsTotal - discount);
+
+  return {
+    base,
+    variant,
+    lens,
+    options: lensOptions,
+    discount,
+    unitPrice,
+    quantity,
+    total: roundMoney(unitPrice * quantity),
+  };
+}
+
+export function calculateShipping(subtotal: number): number {
+  return subtotal > FREE_SHIPPING_THRESHOLD ? 0 : STANDARD_SHIPPING_COST;
+}
+
+/** Quote a whole cart: line totals, subtotal, shipping and grand total. */
+export function quoteOrder(lines: PriceLineInput[]): OrderQuote {
+  const quoted = lines.map(quoteLine);
+  const subtotal = roundMoney(quoted.reduce((sum, line) => sum + line.total, 0));
+  const discount = roundMoney(quoted.reduce((sum, line) => sum + line.discount * line.quantity, 0));
+  const shipping = calculateShipping(subtotal);
+
+  return {
+    lines: quoted,
+    subtotal,
+    discount,
+    shipping,
+    total: roundMoney(subtotal + shipping),
+  };
+}
+
+interface ServerLineQuote {
+  cart_item_id?: string;
+  base: number;
+  variant: number;
+  lens: number;
+  options?: Json;
+  discount: number;
+  unit_price: number;
+  quantity: number;
+  total: number;
+}
+
+/** Convert the JSON returned by the `quote_cart` RPC into an OrderQuote. */
+export function parseServerQuote(json: Json): OrderQuote {
+  const raw = json as unknown as Omit<OrderQuote, "lines"> & { lines: ServerLineQuote[] };
+
+  return {
+    lines: (raw.lines || []).map((line) => ({
+      cartItemId: line.cart_item_id,
+      base: Number(line.base),
+      variant: Number(line.variant),
+      lens: Number(line.lens),
+      options: parseLensOptions(line.options),
+      discount: Number(line.discount),
+      unitPrice: Number(line.unit_price),
+      quantity: Number(line.quantity),
+      total: Number(line.total),
+    })),
+    subtotal: Number(raw.subtotal),
+    discount: Number(raw.discount),
+    shipping: Number(raw.shipping),
+    total: Number(raw.total),
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Returns and exchanges (RMA).
+ *
+ * Requests are created by `request_return` and moved along by
+ * `update_return_status`; both enforce the rules below in the database.
+ * Photos live in the private `return-photos` bucket under `<user id>/`.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type ReturnStatus = Database["public"]["Enums"]["return_status"];
+export type ReturnType = Database["public"]["Enums"]["return_type"];
+export type ReturnRequest = Database["public"]["Tables"]["return_requests"]["Row"];
+
+/** Keep in step with the interval checked by `request_return`. */
+export const RETURN_WINDOW_DAYS = 30;
+
+export const MAX_RETURN_PHOTOS = 5;
+
+export const RETURN_PHOTO_BUCKET = "return-photos";
+
+const SIGNED_URL_TTL_SECONDS = 60 * 5;
+
+export const RETURN_TYPE_LABELS: Record<ReturnType, string> = {
+  refund: "Refund",
+  exchange: "Exchange",
+};
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: "Requested",
+  approved: "Approved",
+  rejected: "Rejected",
+  received: "Received",
+  refunded: "Refunded",
+  exchanged: "Exchanged",
+};
+
+export const RETURN_REASONS = [
+  "Doesn't fit",
+  "Prescription feels wrong",
+  "Damaged or defective",
+  "Not as described",
+  "Wrong item received",
+  "Changed my mind",
+];
+
+/** Mirrors `return_status_transition_allowed`; a received item ends refunded or exchanged depending on the request. */
+export const nextReturnStatuses = (request: Pick<ReturnRequest, "type" | "status">): ReturnStatus[] => {
+  switch (request.status) {
+    case "requested":
+      return ["approved", "rejected"];
+    case "approved":
+      return ["received", "rejected"];
+    case "received":
+      return [request.type === "refund" ? "refunded" : "exchanged"];
+    default:
+      return [];
+  }
+};
+
+export const returnWindowEndsAt = (deliveredAt: string) =>
+  new Date(new Date(deliveredAt).getTime() + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+export const isWithinReturnWindow = (deliveredAt: string | null) =>
+  deliveredAt !== null && returnWindowEndsAt(deliveredAt) >= new Date();
+
+export const uploadReturnPhoto = async (userId: string, file: File): Promise<string> => {
+  const fileExt = file.name.split(".").pop();
+  const filePath = `${userId}/${Date.now()}-${crypto.randomUUID()}.${fileExt}`;
+
+  const { error } = await supabase.storage.from(RETURN_PHOTO_BUCKET).upload(filePath, file);
+  if (error) throw error;
+  return filePath;
+};
+
+/** Short-lived links for a request's photos, in the same order as the paths. */
+export const getReturnPhotoUrls = async (paths: string[]): Promise<(string | null)[]> => {
+  if (paths.length === 0) return [];
+
+  const { data, error } = await supabase.storage
+    .from(RETURN_PHOTO_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error("Error creating return photo links:", error);
+    return paths.map(() => null);
+  }
+  return data.map((entry) => entry.signedUrl || null);
+};
+
+export interface NewReturnRequest {
+  orderItemId: string;
+  type: ReturnType;
+  quantity: number;
+  reason: string;
+  details: string;
+  photoPaths: string[];
+  exchangeVariantId: string | null;
+}
+
+export async function requestReturn(request: NewReturnRequest): Promise<string> {
+  const { data, error } = await supabase.rpc("request_return", {
+    _order_item_id: request.orderItemId,
+    _type: request.type,
+    _quantity: request.quantity,
+    _reason: request.reason,
+    _details: request.details,
+    _photo_paths: request.photoPaths,
+    _exchange_variant_id: request.exchangeVariantId ?? undefined,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export interface ReturnStatusUpdate {
+  note?: string;
+  refundAmount?: number;
+  refundReference?: string;
+}
+
+export async function updateReturnStatus(
+  returnId: string,
+  status: ReturnStatus,
+  update: ReturnStatusUpdate = {}
+): Promise<void> {
+  const { error } = await supabase.rpc("update_return_status", {
+    _return_id: returnId,
+    _status: status,
+    _note: update.note,
+    _refund_amount: update.refundAmount,
+    _refund_reference: update.refundReference,
+  });
+  if (error) throw error;
+}
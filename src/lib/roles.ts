@@ -0,0 +1,60 @@
+/**
+ * Staff roles and the permissions they grant.
+ *
+ * Roles live in `user_roles`; each role maps to permissions in
+ * `role_permissions`, which is what the RLS policies check through
+ * `has_permission`. The UI only hides what the database would refuse anyway.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+export type AppPermission = Database["public"]["Enums"]["app_permission"];
+
+/** Roles that give access to the admin area; `user` is a plain customer. */
+export const STAFF_ROLES: AppRole[] = ["admin", "moderator", "fulfilment", "content_editor"];
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  admin: "Admin",
+  moderator: "Moderator",
+  fulfilment: "Fulfilment",
+  content_editor: "Content editor",
+  user: "Customer",
+};
+
+export const ROLE_DESCRIPTIONS: Record<AppRole, string> = {
+  admin: "Everything, including staff and store settings",
+  moderator: "Catalogue, orders, customers and pages",
+  fulfilment: "Orders and the customers who placed them",
+  content_editor: "Storefront pages",
+  user: "No admin access",
+};
+
+export const PERMISSION_LABELS: Record<AppPermission, string> = {
+  manage_products: "Manage products",
+  manage_orders: "Manage orders",
+  view_customers: "View customers",
+  edit_pages: "Edit pages",
+  change_settings: "Change settings",
+};
+
+export interface UserAccess {
+  roles: AppRole[];
+  permissions: AppPermission[];
+}
+
+/** Roles and permissions of a signed-in user. */
+export async function fetchUserAccess(userId: string): Promise<UserAccess> {
+  const [rolesRes, permissionsRes] = await Promise.all([
+    supabase.from("user_roles").select("role").eq("user_id", userId),
+    supabase.rpc("current_user_permissions"),
+  ]);
+  if (rolesRes.error) throw rolesRes.error;
+  if (permissionsRes.error) throw permissionsRes.error;
+
+  return {
+    roles: (rolesRes.data || []).map((row) => row.role),
+    permissions: permissionsRes.data || [],
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * Shop listing filters and facets.
+ *
+ * `shop_products` filters the catalog in one server-side query, so the shop
+ * can paginate and count the filtered listing. `shop_facets` lists the
+ * color, size, material, price, category and frame spec values in the
+ * catalog with the number of products each would show. The "fits like my
+ * pair" measurements are a filter only; they have no facet.
+ *
+ * The listing state (filters, sort and page) lives in the query string, so a
+ * filtered listing can be bookmarked, shared, deep-linked from a campaign and
+ * restored by Back. `parseShopParams` reads it, ignoring anything it doesn't
+ * recognise; `shopParams` writes it in a fixed order with defaults left out,
+ * so one listing always has one URL.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { Constants } from "@/integrations/supabase/types";
+import {
+  EMPTY_MEASUREMENTS,
+  formatFrameSize,
+  parseFrameSize,
+  type FaceFit,
+  type FrameMeasurements,
+  type FrameShape,
+  type RimType,
+} from "@/lib/frame-specs";
+
+export interface ShopFilters {
+  /** Null outside the search page; an empty search matches nothing. */
+  search: string | null;
+  categoryIds: string[];
+  priceBuckets: string[];
+  colors: string[];
+  sizes: string[];
+  materials: string[];
+  frameShapes: FrameShape[];
+  rimTypes: RimType[];
+  faceFits: FaceFit[];
+  fitsLike: FrameMeasurements;
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export interface ShopFacets {
+  colors: FacetValue[];
+  sizes: FacetValue[];
+  materials: FacetValue[];
+  priceBuckets: FacetValue[];
+  categories: FacetValue[];
+  frameShapes: FacetValue[];
+  rimTypes: FacetValue[];
+  faceFits: FacetValue[];
+}
+
+export const EMPTY_FACETS: ShopFacets = {
+  colors: [],
+  sizes: [],
+  materials: [],
+  priceBuckets: [],
+  categories: [],
+  frameShapes: [],
+  rimTypes: [],
+  faceFits: [],
+};
+
+/** Keep in step with `price_bucket`. */
+export const PRICE_BUCKETS = [
+  { value: "0-2000", label: "Under Rs. 2,000" },
+  { value: "2000-5000", label: "Rs. 2,000 – 5,000" },
+  { value: "5000-10000", label: "Rs. 5,000 – 10,000" },
+  { value: "10000-20000", label: "Rs. 10,000 – 20,000" },
+  { value: "20000+", label: "Rs. 20,000 and above" },
+];
+
+// The functions treat NULL, not an empty array, as "no filter"
+const selection = <T extends string>(values: T[]) => (values.length > 0 ? values : undefined);
+
+/** Arguments for `shop_products` and `shop_facets`. */
+export const shopFilterArgs = (filters: ShopFilters) => ({
+  _search: filters.search ?? undefined,
+  _category_ids: selection(filters.categoryIds),
+  _price_buckets: selection(filters.priceBuckets),
+  _colors: selection(filters.colors),
+  _sizes: selection(filters.sizes),
+  _materials: selection(filters.materials),
+  _frame_shapes: selection(filters.frameShapes),
+  _rim_types: selection(filters.rimTypes),
+  _face_fits: selection(filters.faceFits),
+  _lens_width: filters.fitsLike.lensWidth ?? undefined,
+  _bridge_width: filters.fitsLike.bridgeWidth ?? undefined,
+  _temple_length: filters.fitsLike.templeLength ?? undefined,
+});
+
+/** Facet values plus any selected value the current results no longer contain, so it can be unticked. */
+export const withSelected = (values: FacetValue[], selected: string[]): FacetValue[] => [
+  ...values,
+  ...selected.filter((value) => !values.some((facet) => facet.value === value)).map((value) => ({ value, count: 0 })),
+];
+
+export async function fetchShopFacets(filters: ShopFilters): Promise<ShopFacets> {
+  const { data, error } = await supabase.rpc("shop_facets", shopFilterArgs(filters));
+  if (error) throw error;
+
+  const raw = data as unknown as Record<string, FacetValue[] | undefined>;
+  return {
+    colors: raw.colors ?? [],
+    sizes: raw.sizes ?? [],
+    materials: raw.materials ?? [],
+    priceBuckets: raw.price_buckets ?? [],
+    categories: raw.categories ?? [],
+    frameShapes: raw.frame_shapes ?? [],
+    rimTypes: raw.rim_types ?? [],
+    faceFits: raw.face_fits ?? [],
+  };
+}
+
+export const SHOP_SORTS = ["relevance", "newest", "price-asc", "price-desc", "name"] as const;
+export type ShopSort = (typeof SHOP_SORTS)[number];
+
+/** Everything about a shop listing that is kept in the query string. */
+export interface ShopListing {
+  /** Category slugs ticked in the filter panel; /shop/:category uses the path instead. */
+  categories: string[];
+  priceBuckets: string[];
+  colors: string[];
+  sizes: string[];
+  materials: string[];
+  frameShapes: FrameShape[];
+  rimTypes: RimType[];
+  faceFits: FaceFit[];
+  fitsLike: FrameMeasurements;
+  /** Null means the view's default: best match when searching, newest otherwise. */
+  sort: ShopSort | null;
+  page: number;
+}
+
+export const EMPTY_LISTING: ShopListing = {
+  categories: [],
+  priceBuckets: [],
+  colors: [],
+  sizes: [],
+  materials: [],
+  frameShapes: [],
+  rimTypes: [],
+  faceFits: [],
+  fitsLike: EMPTY_MEASUREMENTS,
+  sort: null,
+  page: 1,
+};
+
+// Query string keys, in the order shopParams writes them
+const LIST_PARAMS = {
+  categories: "category",
+  priceBuckets: "price",
+  colors: "color",
+  sizes: "size",
+  materials: "material",
+  frameShapes: "shape",
+  rimTypes: "rim",
+  faceFits: "face",
+} as const;
+const FRAME_SIZE_PARAM = "frame_size";
+const SORT_PARAM = "sort";
+const PAGE_PARAM = "page";
+const OWNED_PARAMS: string[] = [...Object.values(LIST_PARAMS), FRAME_SIZE_PARAM, SORT_PARAM, PAGE_PARAM];
+
+const oneOf = <T extends string>(allowed: readonly T[]) => (values: string[]) =>
+  values.filter((value): value is T => (allowed as readonly string[]).includes(value));
+
+const unique = (values: string[]) => [...new Set(values.map((value) => value.trim()).filter(Boolean))];
+
+export function parseShopParams(params: URLSearchParams): ShopListing {
+  const list = (key: keyof typeof LIST_PARAMS) => unique(params.getAll(LIST_PARAMS[key]));
+  const sort = params.get(SORT_PARAM);
+  const page = Number(params.get(PAGE_PARAM));
+
+  return {
+    categories: list("categories"),
+    priceBuckets: oneOf(PRICE_BUCKETS.map((bucket) => bucket.value))(list("priceBuckets")),
+    colors: list("colors"),
+    sizes: list("sizes"),
+    materials: list("materials"),
+    frameShapes: oneOf(Constants.public.Enums.frame_shape)(list("frameShapes")),
+    rimTypes: oneOf(Constants.public.Enums.rim_type)(list("rimTypes")),
+    faceFits: oneOf(Constants.public.Enums.face_fit)(list("faceFits")),
+    fitsLike: parseFrameSize(params.get(FRAME_SIZE_PARAM) ?? "") ?? EMPTY_MEASUREMENTS,
+    sort: oneOf(SHOP_SORTS)(sort ? [sort] : [])[0] ?? null,
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+}
+
+/**
+ * The query string for a listing. `keep` carries over parameters the shop
+ * doesn't own, such as the search query `q`.
+ */
+export function shopParams(listing: ShopListing, keep?: URLSearchParams): URLSearchParams {
+  const params = new URLSearchParams();
+  keep?.forEach((value, key) => {
+    if (!OWNED_PARAMS.includes(key)) params.append(key, value);
+  });
+
+  (Object.keys(LIST_PARAMS) as (keyof typeof LIST_PARAMS)[]).forEach((key) => {
+    [...listing[key]].sort().forEach((value) => params.append(LIST_PARAMS[key], value));
+  });
+  const frameSize = formatFrameSize(listing.fitsLike);
+  if (frameSize) params.set(FRAME_SIZE_PARAM, frameSize.replace("□", "-"));
+  if (listing.sort) params.set(SORT_PARAM, listing.sort);
+  if (listing.page > 1) params.set(PAGE_PARAM, String(listing.page));
+  return params;
+}
+
+/**
+ * The canonical URL of a listing page: the path, the search query and the
+ * page. Filtered and re-sorted variants of a listing point search engines
+ * at the unfiltered one.
+ */
+export function shopCanonical(pathname: string, search: string | null, page: number): string {
+  const params = new URLSearchParams();
+  if (search) params.set("q", search);
+  if (page > 1) params.set(PAGE_PARAM, String(page));
+  const query = params.toString();
+  return query ? `${pathname}?${query}` : pathname;
+}
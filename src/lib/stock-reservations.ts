@@ -0,0 +1,74 @@
+/**
+ * Stock availability and checkout holds.
+ *
+ * Checkout holds the cart's variant quantities for a short time through
+ * `reserve_cart_stock`; `place_order` then refuses stock held by anyone else.
+ * Availability shown in the shop is on-hand stock minus other customers' holds;
+ * a guest's own holds are recognised by this browser's cart session.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { getCartSessionId } from "@/lib/cart-session";
+
+export interface StockShortage {
+  cartItemId: string;
+  title: string;
+  requested: number;
+  available: number;
+}
+
+export interface StockReservation {
+  expiresAt: Date;
+  unavailable: StockShortage[];
+}
+
+interface ServerStockReservation {
+  expires_at: string;
+  unavailable: {
+    cart_item_id: string;
+    title: string;
+    requested: number;
+    available: number;
+  }[];
+}
+
+/** Units of each variant the current visitor can still buy, keyed by variant id. */
+export async function fetchAvailableStock(variantIds: string[]): Promise<Record<string, number>> {
+  if (variantIds.length === 0) return {};
+
+  const { data, error } = await supabase.rpc("variant_availability", {
+    _variant_ids: [...new Set(variantIds)],
+    _session_id: getCartSessionId(),
+  });
+  if (error) throw error;
+
+  return Object.fromEntries((data || []).map((row) => [row.variant_id, row.available]));
+}
+
+/**
+ * Hold the visitor's cart (the signed-in customer's, or the guest cart for this
+ * browser); lines that could not be held are returned as shortages.
+ */
+export async function reserveCartStock(): Promise<StockReservation> {
+  const { data, error } = await supabase.rpc("reserve_cart_stock", { _session_id: getCartSessionId() });
+  if (error) throw error;
+
+  const raw = data as unknown as ServerStockReservation;
+  return {
+    expiresAt: new Date(raw.expires_at),
+    unavailable: (raw.unavailable || []).map((line) => ({
+      cartItemId: line.cart_item_id,
+      title: line.title,
+      requested: Number(line.requested),
+      available: Number(line.available),
+    })),
+  };
+}
+
+export async function releaseCartStock(): Promise<void> {
+  const { error } = await supabase.rpc("release_cart_stock", { _session_id: getCartSessionId() });
+  if (error) throw error;
+}
+
+export const describeShortage = ({ title, available }: Pick<StockShortage, "title" | "available">) =>
+  available === 0 ? `${title} is no longer available` : `Only ${available} left of ${title}`;
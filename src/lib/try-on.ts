@@ -0,0 +1,179 @@
+/**
+ * Virtual try-on.
+ *
+ * MediaPipe's face landmarker runs in the browser (WebAssembly); the runtime
+ * and model are served from this site, so no frame of the customer's camera
+ * leaves their device. From the two iris centres we get the pupil distance in
+ * pixels, which sets the scale (an average adult PD is 63 mm), and the head
+ * roll. The variant's try-on PNG is cropped to the frame's outer edges, so
+ * its real width follows from the lens and bridge widths.
+ */
+
+import type { FaceLandmarker, NormalizedLandmark } from "@mediapipe/tasks-vision";
+import wasmLoaderPath from "@mediapipe/tasks-vision/vision_wasm_internal.js?url";
+import wasmBinaryPath from "@mediapipe/tasks-vision/vision_wasm_internal.wasm?url";
+import type { FrameMeasurements } from "@/lib/frame-specs";
+
+/** Google's face_landmarker.task (with iris landmarks), put in public/models by scripts/fetch-face-model.mjs. */
+const FACE_MODEL_PATH = "/models/face_landmarker.task";
+
+const AVERAGE_PD_MM = 63;
+// Rims and hinges add a few millimetres outside the two lenses
+const FRAME_EDGE_MM = 10;
+const DEFAULT_FRAME_WIDTH_MM = 135;
+
+// Iris centres in the 478-point face mesh, with the eye corners as a fallback
+const RIGHT_IRIS = 468;
+const LEFT_IRIS = 473;
+const RIGHT_EYE_CORNERS = [33, 133];
+const LEFT_EYE_CORNERS = [362, 263];
+const NOSE_BRIDGE = 168;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** The pupils, named as they appear in the picture, and the top of the nose between them. */
+export interface EyePositions {
+  left: Point;
+  right: Point;
+  bridge: Point;
+}
+
+/** Where to draw the frame, in source pixels; `angle` is the head roll in radians. */
+export interface FramePlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  angle: number;
+}
+
+type RunningMode = "IMAGE" | "VIDEO";
+
+let landmarker: Promise<FaceLandmarker> | null = null;
+let runningMode: RunningMode = "VIDEO";
+
+/**
+ * Load the landmarker once, on the GPU where WebGL allows and on the CPU
+ * otherwise; a failed load is retried on the next call.
+ */
+export function loadFaceLandmarker(): Promise<FaceLandmarker> {
+  if (!landmarker) {
+    landmarker = import("@mediapipe/tasks-vision")
+      .then(({ FaceLandmarker }) => {
+        const create = (delegate: "GPU" | "CPU") =>
+          FaceLandmarker.createFromOptions(
+            { wasmLoaderPath, wasmBinaryPath },
+            {
+              baseOptions: { modelAssetPath: FACE_MODEL_PATH, delegate },
+              runningMode,
+              numFaces: 1,
+            }
+          );
+        return create("GPU").catch(() => create("CPU"));
+      })
+      .catch((error) => {
+        landmarker = null;
+        throw error;
+      });
+  }
+  return landmarker;
+}
+
+/** The eyes in a video frame or photo, in source pixels, or null when no face is found. */
+export async function detectEyes(source: HTMLVideoElement | HTMLImageElement): Promise<EyePositions | null> {
+  const faceLandmarker = await loadFaceLandmarker();
+  const mode: RunningMode = source instanceof HTMLVideoElement ? "VIDEO" : "IMAGE";
+  if (mode !== runningMode) {
+    await faceLandmarker.setOptions({ runningMode: mode });
+    runningMode = mode;
+  }
+
+  const result = mode === "VIDEO"
+    ? faceLandmarker.detectForVideo(source, performance.now())
+    : faceLandmarker.detect(source);
+  const landmarks = result.faceLandmarks[0];
+  if (!landmarks) return null;
+
+  const width = source instanceof HTMLVideoElement ? source.videoWidth : source.naturalWidth;
+  const height = source instanceof HTMLVideoElement ? source.videoHeight : source.naturalHeight;
+  const toPixels = ({ x, y }: Point): Point => ({ x: x * width, y: y * height });
+
+  const hasIris = landmarks.length > LEFT_IRIS;
+  const right = hasIris ? landmarks[RIGHT_IRIS] : midpoint(RIGHT_EYE_CORNERS.map((i) => landmarks[i]));
+  const left = hasIris ? landmarks[LEFT_IRIS] : midpoint(LEFT_EYE_CORNERS.map((i) => landmarks[i]));
+
+  const [first, second] = [toPixels(right), toPixels(left)].sort((a, b) => a.x - b.x);
+  return { left: first, right: second, bridge: toPixels(landmarks[NOSE_BRIDGE]) };
+}
+
+const midpoint = (points: (NormalizedLandmark | Point)[]): Point => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+/** The frame's real width: two lenses, the bridge and the rims. */
+export function frameWidthMm({ lensWidth, bridgeWidth }: FrameMeasurements): number {
+  if (lensWidth === null || bridgeWidth === null) return DEFAULT_FRAME_WIDTH_MM;
+  return lensWidth * 2 + bridgeWidth + FRAME_EDGE_MM;
+}
+
+/** Centre the frame between the pupils, scaled from the pupil distance and turned with the head. */
+export function placeFrame(eyes: EyePositions, frame: HTMLImageElement, widthMm: number): FramePlacement {
+  const dx = eyes.right.x - eyes.left.x;
+  const dy = eyes.right.y - eyes.left.y;
+  const pixelsPerMm = Math.hypot(dx, dy) / AVERAGE_PD_MM;
+  const width = widthMm * pixelsPerMm;
+
+  return {
+    x: (eyes.left.x + eyes.right.x) / 2,
+    y: (eyes.left.y + eyes.right.y) / 2,
+    width,
+    height: width * (frame.naturalHeight / frame.naturalWidth),
+    angle: Math.atan2(dy, dx),
+  };
+}
+
+/** Ease towards the new placement so landmark jitter doesn't shake the frame. */
+export function smoothPlacement(previous: FramePlacement | null, next: FramePlacement, weight = 0.5): FramePlacement {
+  if (!previous) return next;
+  const ease = (a: number, b: number) => a + (b - a) * weight;
+  return {
+    x: ease(previous.x, next.x),
+    y: ease(previous.y, next.y),
+    width: ease(previous.width, next.width),
+    height: ease(previous.height, next.height),
+    angle: ease(previous.angle, next.angle),
+  };
+}
+
+/**
+ * Draw the picture and, when a face was found, the frame on it. The camera
+ * is mirrored so it behaves like a mirror; the frame is drawn in the same
+ * mirrored space so it stays on the eyes.
+ */
+export function drawTryOn(
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  frame: HTMLImageElement | null,
+  placement: FramePlacement | null,
+  mirrored: boolean
+) {
+  const { width, height } = ctx.canvas;
+  ctx.save();
+  ctx.clearRect(0, 0, width, height);
+  if (mirrored) {
+    ctx.translate(width, 0);
+    ctx.scale(-1, 1);
+  }
+  ctx.drawImage(source, 0, 0, width, height);
+
+  if (frame && placement) {
+    ctx.translate(placement.x, placement.y);
+    ctx.rotate(placement.angle);
+    ctx.drawImage(frame, -placement.width / 2, -placement.height / 2, placement.width, placement.height);
+  }
+  ctx.restore();
+}
@@ -12,8 +12,19 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Package, MapPin, User as UserIcon, Heart, Loader2, Plus, Trash2 } from "lucide-react";
+import { Package, MapPin, User as UserIcon, Heart, Loader2, Plus, Trash2, FileText, ChevronDown, Bell, PackagePlus } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import SavedPrescriptions from "@/components/SavedPrescriptions";
+import OrderStatusTimeline from "@/components/OrderStatusTimeline";
+import CancelOrderDialog from "@/components/CancelOrderDialog";
+import ReturnRequestDialog from "@/components/ReturnRequestDialog";
+import BankTransferPayment from "@/components/BankTransferPayment";
+import { isCancellable, ORDER_STATUS_LABELS, type OrderStatus } from "@/lib/order-status";
+import { canPayOnline, PAYMENT_STATUS_LABELS, startPayment, type PaymentStatus } from "@/lib/payments";
+import { fetchUnreadNotifications, markNotificationsRead, type Notification } from "@/lib/notifications";
+import { claimGuestOrders, countClaimableGuestOrders } from "@/lib/guest-orders";
+import { isWithinReturnWindow, RETURN_STATUS_LABELS, RETURN_TYPE_LABELS, type ReturnRequest } from "@/lib/returns";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 
 interface Profile {
   full_name: string | null;
@@ -25,11 +36,22 @@ interface Order {
   id: string;
   order_number: string;
   created_at: string;
-  status: string;
+  status: OrderStatus;
   total: number;
   tracking_number: string | null;
+  delivered_at: string | null;
+  payment_method: string;
+  payment_status: PaymentStatus;
 }
 
+type OrderReturn = Pick<
+  ReturnRequest,
+  "id" | "order_id" | "return_number" | "type" | "status" | "quantity" | "staff_note" | "refund_amount"
+> & {
+  order_item: { product: { title: string } | null } | null;
+  replacement_order: { order_number: string } | null;
+};
+
 interface Address {
   id: string;
   full_name: string;
@@ -59,6 +81,10 @@ const Account = () => {
   const [loading, setLoading] = useState(true);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [orders, setOrders] = useState<Order[]>([]);
+  const [returns, setReturns] = useState<OrderReturn[]>([]);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [claimableOrders, setClaimableOrders] = useState(0);
+  const [claiming, setClaiming] = useState(false);
   const [addresses, setAddresses] = useState<Address[]>([]);
   const [wishlist, setWishlist] = useState<WishlistItem[]>([]);
   const [isAddressDialogOpen, setIsAddressDialogOpen] = useState(false);
@@ -84,6 +110,9 @@ const Account = () => {
     await Promise.all([
       fetchProfile(user.id),
       fetchOrders(user.id),
+      fetchReturns(user.id),
+      fetchUnreadNotifications(user.id).then(setNotifications),
+      fetchClaimableOrders(),
       fetchAddresses(user.id),
       fetchWishlist(user.id)
     ]);
@@ -102,12 +131,58 @@ const Account = () => {
   const fetchOrders = async (userId: string) => {
     const { data } = await supabase
       .from("orders")
-      .select("id, order_number, created_at, status, total, tracking_number")
+      .select("id, order_number, created_at, status, total, tracking_number, delivered_at, payment_method, payment_status")
       .eq("user_id", userId)
       .order("created_at", { ascending: false });
     if (data) setOrders(data);
   };
 
+  const fetchReturns = async (userId: string) => {
+    const { data } = await supabase
+      .from("return_requests")
+      .select(
+        "id, order_id, return_number, type, status, quantity, staff_note, refund_amount, order_item:order_items(product:products(title)), replacement_order:orders!return_requests_replacement_order_id_fkey(order_number)"
+      )
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+    if (data) setReturns(data);
+  };
+
+  // Orders placed as a guest with this account's email, before signing up
+  const fetchClaimableOrders = async () => {
+    try {
+      setClaimableOrders(await countClaimableGuestOrders());
+    } catch (error) {
+      console.error("Error checking guest orders:", error);
+    }
+  };
+
+  const addGuestOrders = async () => {
+    if (!user) return;
+
+    setClaiming(true);
+    try {
+      const claimed = await claimGuestOrders();
+      toast.success(`${claimed} ${claimed === 1 ? "order" : "orders"} added to your account`);
+      setClaimableOrders(0);
+      await fetchOrders(user.id);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to add your orders");
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  const dismissNotifications = async () => {
+    try {
+      await markNotificationsRead(notifications.map((n) => n.id));
+      setNotifications([]);
+    } catch (error) {
+      console.error("Error updating notifications:", error);
+      toast.error("Failed to update notifications");
+    }
+  };
+
   const fetchAddresses = async (userId: string) => {
     const { data } = await supabase
       .from("addresses")
@@ -248,9 +323,55 @@ const Account = () => {
       <Header />
       <main className="flex-1 container py-8">
         <h1 className="text-3xl font-semibold mb-8">My Account</h1>
-        
+
+        {notifications.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Bell className="h-5 w-5" />
+                Updates
+              </CardTitle>
+              <Button variant="ghost" size="sm" onClick={dismissNotifications}>
+                Mark all as read
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {notifications.map((notification) => (
+                <div key={notification.id} className="text-sm">
+                  <p className="font-medium">{notification.title}</p>
+                  {notification.body && <p className="text-muted-foreground">{notification.body}</p>}
+                  {notification.link && (
+                    <Button variant="link" size="sm" className="px-0 h-auto" onClick={() => navigate(notification.link as string)}>
+                      View
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {claimableOrders > 0 && (
+          <Card className="mb-6">
+            <CardContent className="pt-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="flex items-start gap-2 text-sm">
+                <PackagePlus className="h-5 w-5 mt-0.5 text-primary" />
+                <p>
+                  We found {claimableOrders} {claimableOrders === 1 ? "order" : "orders"} you placed as a guest with{" "}
+                  {user?.email}. Add {claimableOrders === 1 ? "it" : "them"} to your account to track{" "}
+                  {claimableOrders === 1 ? "it" : "them"} here.
+                </p>
+              </div>
+              <Button onClick={addGuestOrders} disabled={claiming}>
+                {claiming && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Add to My Account
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         <Tabs defaultValue="orders" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4 lg:w-[500px]">
+          <TabsList className="grid w-full grid-cols-5 lg:w-[625px]">
             <TabsTrigger value="orders" className="gap-2">
               <Package className="h-4 w-4" />
               <span className="hidden sm:inline">Orders</span>
@@ -259,6 +380,10 @@ const Account = () => {
               <MapPin className="h-4 w-4" />
               <span className="hidden sm:inline">Addresses</span>
             </TabsTrigger>
+            <TabsTrigger value="prescriptions" className="gap-2">
+              <FileText className="h-4 w-4" />
+              <span className="hidden sm:inline">Prescriptions</span>
+            </TabsTrigger>
             <TabsTrigger value="profile" className="gap-2">
               <UserIcon className="h-4 w-4" />
               <span className="hidden sm:inline">Profile</span>
@@ -278,6 +403,7 @@ const Account = () => {
                 <SelectContent>
                   <SelectItem value="all">All Orders</SelectItem>
                   <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="awaiting_confirmation">Awaiting Confirmation</SelectItem>
                   <SelectItem value="processing">Processing</SelectItem>
                   <SelectItem value="shipped">Shipped</SelectItem>
                   <SelectItem value="delivered">Delivered</SelectItem>
@@ -290,7 +416,7 @@ const Account = () => {
                 <CardContent className="py-12 text-center">
                   <Package className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
                   <p className="text-muted-foreground">
-                    {statusFilter === "all" ? "No orders yet" : `No ${statusFilter} orders found`}
+                    {statusFilter === "all" ? "No orders yet" : `No ${ORDER_STATUS_LABELS[statusFilter as OrderStatus].toLowerCase()} orders found`}
                   </p>
                 </CardContent>
               </Card>
@@ -315,10 +441,11 @@ const Account = () => {
                         className={
                           order.status === "shipped" ? "bg-blue-500 hover:bg-blue-600" :
                           order.status === "processing" ? "bg-yellow-500 hover:bg-yellow-600" :
+                          order.status === "awaiting_confirmation" ? "bg-orange-500 hover:bg-orange-600" :
                           order.status === "pending" ? "bg-gray-500 hover:bg-gray-600" : ""
                         }
                       >
-                        {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                        {ORDER_STATUS_LABELS[order.status]}
                       </Badge>
                     </div>
                   </CardHeader>
@@ -326,19 +453,97 @@ const Account = () => {
                     <div className="flex justify-between items-center">
                       <div>
                         <p className="font-semibold">Rs. {order.total.toLocaleString()}</p>
+                        <p className="text-sm text-muted-foreground">{PAYMENT_STATUS_LABELS[order.payment_status]}</p>
                         {order.tracking_number && (
                           <p className="text-sm text-muted-foreground">
                             Tracking: {order.tracking_number}
                           </p>
                         )}
                       </div>
-                      <Button
-                        variant="outline"
-                        onClick={() => navigate(`/order-confirmation/${order.id}`)}
-                      >
-                        View Details
-                      </Button>
+                      <div className="flex gap-2">
+                        {canPayOnline(order) && (
+                          <Button
+                            onClick={() => startPayment(order.id).catch((error) => toast.error((error as Error).message))}
+                          >
+                            Pay Now
+                          </Button>
+                        )}
+                        {order.status === "delivered" && isWithinReturnWindow(order.delivered_at) && user && (
+                          <ReturnRequestDialog
+                            userId={user.id}
+                            orderId={order.id}
+                            orderNumber={order.order_number}
+                            deliveredAt={order.delivered_at as string}
+                            onRequested={() => fetchReturns(user.id)}
+                          />
+                        )}
+                        {isCancellable(order.status) && user && (
+                          <CancelOrderDialog
+                            orderId={order.id}
+                            orderNumber={order.order_number}
+                            onCancelled={() => fetchOrders(user.id)}
+                          />
+                        )}
+                        <Button
+                          variant="outline"
+                          onClick={() => navigate(`/order-confirmation/${order.id}`)}
+                        >
+                          View Details
+                        </Button>
+                      </div>
                     </div>
+                    {returns.some((r) => r.order_id === order.id) && (
+                      <div className="mt-4 space-y-2">
+                        {returns
+                          .filter((r) => r.order_id === order.id)
+                          .map((r) => (
+                            <div key={r.id} className="rounded-md border p-3 text-sm">
+                              <div className="flex justify-between items-center gap-2">
+                                <p className="font-medium">
+                                  {RETURN_TYPE_LABELS[r.type]} {r.return_number}: {r.quantity} × {r.order_item?.product?.title || "Item"}
+                                </p>
+                                <Badge variant={r.status === "rejected" ? "destructive" : "secondary"}>
+                                  {RETURN_STATUS_LABELS[r.status]}
+                                </Badge>
+                              </div>
+                              {r.status === "refunded" && r.refund_amount !== null && (
+                                <p className="text-muted-foreground">Refunded Rs. {r.refund_amount.toLocaleString()}</p>
+                              )}
+                              {r.replacement_order && (
+                                <p className="text-muted-foreground">Replacement order {r.replacement_order.order_number}</p>
+                              )}
+                              {r.staff_note && <p className="text-muted-foreground">{r.staff_note}</p>}
+                            </div>
+                          ))}
+                      </div>
+                    )}
+                    {order.payment_method === "bank_transfer" && order.total > 0 && user && (
+                      <Collapsible
+                        className="mt-4"
+                        defaultOpen={order.status !== "cancelled" && (order.payment_status === "unpaid" || order.payment_status === "failed")}
+                      >
+                        <CollapsibleTrigger asChild>
+                          <Button variant="ghost" size="sm" className="group px-0 text-muted-foreground">
+                            Bank transfer
+                            <ChevronDown className="h-4 w-4 ml-1 transition-transform group-data-[state=open]:rotate-180" />
+                          </Button>
+                        </CollapsibleTrigger>
+                        <CollapsibleContent className="pt-2">
+                          <BankTransferPayment userId={user.id} order={order} onSubmitted={() => fetchOrders(user.id)} />
+                        </CollapsibleContent>
+                      </Collapsible>
+                    )}
+                    <Collapsible className="mt-4">
+                      <CollapsibleTrigger asChild>
+                        <Button variant="ghost" size="sm" className="group px-0 text-muted-foreground">
+                          Order history
+                          <ChevronDown className="h-4 w-4 ml-1 transition-transform group-data-[state=open]:rotate-180" />
+                        </Button>
+                      </CollapsibleTrigger>
+                      <CollapsibleContent className="pt-2">
+                        <OrderStatusTimeline orderId={order.id} />
+                      </CollapsibleContent>
+                    </Collapsible>
                   </CardContent>
                 </Card>
               ))
@@ -496,6 +701,10 @@ const Account = () => {
             )}
           </TabsContent>
 
+          <TabsContent value="prescriptions">
+            {user && <SavedPrescriptions userId={user.id} />}
+          </TabsContent>
+
           <TabsContent value="profile">
             <Card>
               <CardHeader>
@@ -2,30 +2,30 @@ import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Trash2, Plus, Minus } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Trash2, Plus, Minus, AlertTriangle } from "lucide-react";
 import { Link } from "react-router-dom";
 import { useCart } from "@/contexts/CartContext";
+import { quoteLine, quoteOrder, FREE_SHIPPING_THRESHOLD } from "@/lib/pricing";
+import { LENS_OPTION_KIND_LABELS, LENS_USAGE_LABELS } from "@/lib/lens-options";
+import { describeShortage } from "@/lib/stock-reservations";
 
 const Cart = () => {
   const { cartItems, loading, updateQuantity, removeFromCart } = useCart();
 
-  const calculateItemPrice = (item: any) => {
-    let price = item.product.base_price;
-    if (item.variant?.price_adjustment) {
-      price += item.variant.price_adjustment;
-    }
-    if (item.lens_type?.price_adjustment) {
-      price += item.lens_type.price_adjustment;
-    }
-    return price;
-  };
+  const toPriceLine = (item: typeof cartItems[number]) => ({
+    basePrice: item.product.base_price,
+    variantAdjustment: item.variant?.price_adjustment,
+    lensAdjustment: item.lens_type?.price_adjustment,
+    lensOptions: item.lens_options,
+    quantity: item.quantity,
+  });
 
-  const subtotal = cartItems.reduce((sum, item) => {
-    return sum + (calculateItemPrice(item) * item.quantity);
-  }, 0);
-  
-  const shipping = subtotal > 5000 ? 0 : 200;
-  const total = subtotal + shipping;
+  const { subtotal, shipping, total } = quoteOrder(cartItems.map(toPriceLine));
+
+  const isShort = (item: typeof cartItems[number]) =>
+    item.available_stock !== null && item.available_stock < item.quantity;
+  const hasShortages = cartItems.some(isShort);
 
   if (loading) {
     return (
@@ -60,8 +60,16 @@ const Cart = () => {
             <div className="grid md:grid-cols-3 gap-8">
               {/* Cart Items */}
               <div className="md:col-span-2 space-y-4">
+                {hasShortages && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      Some items in your cart are no longer available in the quantity you chose. Update or remove them to check out.
+                    </AlertDescription>
+                  </Alert>
+                )}
                 {cartItems.map((item) => {
-                  const itemPrice = calculateItemPrice(item);
+                  const lineQuote = quoteLine(toPriceLine(item));
                   const itemImage = item.variant?.images?.[0] || item.product.images?.[0];
                   const variantInfo = [item.variant?.color, item.variant?.size]
                     .filter(Boolean)
@@ -81,16 +89,29 @@ const Cart = () => {
                             <p className="text-sm text-muted-foreground mb-1">{variantInfo}</p>
                           )}
                           {item.lens_type && (
-                            <p className="text-sm text-muted-foreground">{item.lens_type.name}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {item.lens_type.name}
+                              {item.lens_usage && ` · ${LENS_USAGE_LABELS[item.lens_usage]}`}
+                            </p>
                           )}
                           <div className="mt-2 space-y-1">
                             <p className="text-sm text-muted-foreground">
-                              Frame: Rs. {(item.product.base_price + (item.variant?.price_adjustment || 0)).toLocaleString()}
+                              Frame: Rs. {(lineQuote.base + lineQuote.variant).toLocaleString()}
                               {item.lens_type && (
-                                <span> + Lens: Rs. {item.lens_type.price_adjustment?.toLocaleString() || '0'}</span>
+                                <span> + Lens: Rs. {lineQuote.lens.toLocaleString()}</span>
                               )}
                             </p>
-                            <p className="font-bold">Rs. {itemPrice.toLocaleString()} × {item.quantity}</p>
+                            {lineQuote.options.map((option) => (
+                              <p key={option.id} className="text-sm text-muted-foreground">
+                                + {LENS_OPTION_KIND_LABELS[option.kind]}: {option.name} (Rs. {option.price.toLocaleString()})
+                              </p>
+                            ))}
+                            <p className="font-bold">Rs. {lineQuote.unitPrice.toLocaleString()} × {item.quantity}</p>
+                            {isShort(item) && (
+                              <p className="text-sm text-destructive">
+                                {describeShortage({ title: item.product.title, available: item.available_stock ?? 0 })}
+                              </p>
+                            )}
                           </div>
                         </div>
                         <div className="flex flex-col items-end justify-between">
@@ -113,6 +134,7 @@ const Cart = () => {
                             <button 
                               className="px-3 py-1 hover:bg-secondary"
                               onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                              disabled={item.available_stock !== null && item.quantity >= item.available_stock}
                             >
                               <Plus className="h-3 w-3" />
                             </button>
@@ -140,9 +162,9 @@ const Cart = () => {
                         {shipping === 0 ? "Free" : `Rs. ${shipping}`}
                       </span>
                     </div>
-                    {subtotal < 5000 && (
+                    {subtotal < FREE_SHIPPING_THRESHOLD && (
                       <p className="text-xs text-muted-foreground">
-                        Add Rs. {(5000 - subtotal).toLocaleString()} more for free shipping
+                        Add Rs. {(FREE_SHIPPING_THRESHOLD - subtotal).toLocaleString()} more for free shipping
                       </p>
                     )}
                   </div>
@@ -154,9 +176,15 @@ const Cart = () => {
                     </div>
                   </div>
 
-                  <Button className="w-full mb-3" size="lg" asChild>
-                    <Link to="/checkout">Proceed to Checkout</Link>
-                  </Button>
+                  {hasShortages ? (
+                    <Button className="w-full mb-3" size="lg" disabled>
+                      Proceed to Checkout
+                    </Button>
+                  ) : (
+                    <Button className="w-full mb-3" size="lg" asChild>
+                      <Link to="/checkout">Proceed to Checkout</Link>
+                    </Button>
+                  )}
                   
                   <Button variant="outline" className="w-full" asChild>
                     <Link to="/shop">Continue Shopping</Link>
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
-import { Check, ChevronLeft, Loader2 } from "lucide-react";
+import { Link, useNavigate } from "react-router-dom";
+import { AlertTriangle, Check, ChevronLeft, Clock, Loader2 } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -10,6 +11,15 @@ import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCart } from "@/contexts/CartContext";
+import { quoteLine, quoteOrder, parseServerQuote, FREE_SHIPPING_THRESHOLD, type OrderQuote } from "@/lib/pricing";
+import { LENS_OPTION_KIND_LABELS, withLensOptions, type SelectedLensOption } from "@/lib/lens-options";
+import { describeShortage, releaseCartStock, reserveCartStock, type StockReservation } from "@/lib/stock-reservations";
+import { isOnlinePayment, PAYMENT_METHOD_LABELS, startPayment } from "@/lib/payments";
+import { codUnavailableReason, DEFAULT_COD_RULES, fetchCodRules, isPhoneVerified, type CodRules } from "@/lib/cod";
+import { getCartSessionId } from "@/lib/cart-session";
+import { guestOrderPath, isValidEmail, placeGuestOrder } from "@/lib/guest-orders";
+import PhoneVerification from "@/components/PhoneVerification";
 
 interface CartItem {
   id: string;
@@ -20,6 +30,8 @@ interface CartItem {
   has_eyesight: boolean | null;
   prescription_data: any;
   prescription_image_url: string | null;
+  lens_option_ids: string[];
+  lens_options: SelectedLensOption[];
   products: {
     title: string;
     base_price: number;
@@ -51,17 +63,21 @@ interface SavedAddress {
 const Checkout = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { refreshCart } = useCart();
   const [step, setStep] = useState(1);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [user, setUser] = useState<any>(null);
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const [serverQuote, setServerQuote] = useState<OrderQuote | null>(null);
+  const [reservation, setReservation] = useState<StockReservation | null>(null);
   const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([]);
   const [useExistingAddress, setUseExistingAddress] = useState(false);
   const [selectedAddressId, setSelectedAddressId] = useState<string>("");
 
-  // Shipping form
+  // Shipping form (email is asked of guests only)
   const [shippingForm, setShippingForm] = useState({
+    email: "",
     fullName: "",
     phone: "",
     addressLine1: "",
@@ -73,41 +89,42 @@ const Checkout = () => {
   });
 
   const [paymentMethod, setPaymentMethod] = useState<"jazzcash" | "easypaisa" | "bank_transfer" | "card" | "cod">("cod");
+  const [codRules, setCodRules] = useState<CodRules>(DEFAULT_COD_RULES);
+  const [codUnavailable, setCodUnavailable] = useState<string | null>(null);
 
   useEffect(() => {
     checkAuth();
     fetchCartItems();
     fetchSavedAddresses();
+
+    // Leaving checkout gives the held stock back straight away instead of waiting for it to expire
+    return () => {
+      releaseCartStock().catch((error) => console.error("Error releasing stock:", error));
+    };
   }, []);
 
+  // Visitors who aren't signed in check out as guests
   const checkAuth = async () => {
     const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
-      navigate("/auth");
-      return;
-    }
     setUser(user);
   };
 
   const fetchCartItems = async () => {
     setLoading(true);
     const { data: { user } } = await supabase.auth.getUser();
-    
-    if (!user) {
-      setLoading(false);
-      return;
-    }
 
-    const { data, error } = await supabase
+    let query = supabase
       .from("cart_items")
       .select(`
         *,
         products (title, base_price, images),
         product_variants (color, size, price_adjustment),
         lens_types (name, price_adjustment)
-      `)
-      .eq("user_id", user.id)
-      .order("created_at", { ascending: false});
+      `);
+
+    query = user ? query.eq("user_id", user.id) : query.is("user_id", null).eq("session_id", getCartSessionId());
+
+    const { data, error } = await query.order("created_at", { ascending: false });
 
     if (error) {
       toast({
@@ -116,12 +133,49 @@ const Checkout = () => {
         variant: "destructive",
       });
     } else {
-      setCartItems(data || []);
+      setCartItems(await withLensOptions(data || []));
+      await Promise.all([fetchQuote(), fetchReservation()]);
     }
     setLoading(false);
   };
 
+  // The server quote is what place_order will charge, so it is what we display
+  const fetchQuote = async () => {
+    const { data, error } = await supabase.rpc("quote_cart", { _session_id: getCartSessionId() });
+
+    if (error) {
+      setServerQuote(null);
+      toast({
+        title: "Cart needs attention",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    setServerQuote(parseServerQuote(data));
+  };
+
+  // Hold the cart's stock while the customer checks out
+  const fetchReservation = async () => {
+    try {
+      const held = await reserveCartStock();
+      setReservation(held);
+      return held;
+    } catch (error) {
+      setReservation(null);
+      toast({
+        title: "Cart needs attention",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
   const fetchSavedAddresses = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
     const { data } = await supabase
       .from("addresses")
       .select("*")
@@ -137,24 +191,95 @@ const Checkout = () => {
     }
   };
 
-  const calculateItemPrice = (item: CartItem) => {
-    let price = item.products.base_price;
-    if (item.product_variants?.price_adjustment) {
-      price += item.product_variants.price_adjustment;
+  const toPriceLine = (item: CartItem) => ({
+    basePrice: item.products.base_price,
+    variantAdjustment: item.product_variants?.price_adjustment,
+    lensAdjustment: item.lens_types?.price_adjustment,
+    lensOptions: item.lens_options,
+    quantity: item.quantity,
+  });
+
+  const quote = serverQuote ?? quoteOrder(cartItems.map(toPriceLine));
+  const getLineQuote = (item: CartItem) =>
+    quote.lines.find(line => line.cartItemId === item.id) ?? quoteLine(toPriceLine(item));
+
+  const { subtotal, shipping: shippingCost, total } = quote;
+  const shortages = reservation?.unavailable ?? [];
+
+  const getShippingAddress = () => {
+    if (useExistingAddress && selectedAddressId) {
+      const address = savedAddresses.find(a => a.id === selectedAddressId);
+      return address
+        ? {
+            full_name: address.full_name,
+            phone: address.phone,
+            address_line1: address.address_line1,
+            address_line2: address.address_line2,
+            city: address.city,
+            state: address.state,
+            postal_code: address.postal_code,
+          }
+        : undefined;
     }
-    if (item.lens_types?.price_adjustment) {
-      price += item.lens_types.price_adjustment;
+
+    return {
+      full_name: shippingForm.fullName,
+      phone: shippingForm.phone,
+      address_line1: shippingForm.addressLine1,
+      address_line2: shippingForm.addressLine2,
+      city: shippingForm.city,
+      state: shippingForm.state,
+      postal_code: shippingForm.postalCode,
+    };
+  };
+
+  const deliveryPhone = step > 1 ? getShippingAddress()?.phone ?? "" : "";
+  const needsPhoneVerification =
+    paymentMethod === "cod" && codRules.require_otp && !isPhoneVerified(user, deliveryPhone);
+
+  // place_order enforces the same rules; asking first lets us explain before the customer reaches review
+  const checkCodAvailability = async () => {
+    const address = getShippingAddress();
+    if (!address) return;
+
+    try {
+      const [rules, reason] = await Promise.all([
+        fetchCodRules(),
+        codUnavailableReason(address.city, address.phone, total),
+      ]);
+      setCodRules(rules);
+      setCodUnavailable(reason);
+    } catch (error) {
+      console.error("Error checking cash on delivery:", error);
     }
-    return price;
   };
 
-  const subtotal = cartItems.reduce((sum, item) => sum + calculateItemPrice(item) * item.quantity, 0);
-  const shippingCost = subtotal > 5000 ? 0 : 200;
-  const total = subtotal + shippingCost;
+  const handlePaymentSubmit = () => {
+    if (paymentMethod === "cod" && (codUnavailable || needsPhoneVerification)) {
+      toast({
+        title: "Cash on delivery unavailable",
+        description: codUnavailable || "Please verify your phone number or choose another payment method",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setStep(3);
+  };
 
   const handleShippingSubmit = async () => {
+    if (!user && !isValidEmail(shippingForm.email)) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter a valid email address",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (useExistingAddress && selectedAddressId) {
       setStep(2);
+      checkCodAvailability();
       return;
     }
 
@@ -185,6 +310,7 @@ const Checkout = () => {
     }
 
     setStep(2);
+    checkCodAvailability();
   };
 
   const handlePlaceOrder = async () => {
@@ -200,106 +326,69 @@ const Checkout = () => {
     setSubmitting(true);
 
     try {
-      let shippingAddress;
-      
-      if (useExistingAddress && selectedAddressId) {
-        const address = savedAddresses.find(a => a.id === selectedAddressId);
-        if (address) {
-          shippingAddress = {
-            full_name: address.full_name,
-            phone: address.phone,
-            address_line1: address.address_line1,
-            address_line2: address.address_line2,
-            city: address.city,
-            state: address.state,
-            postal_code: address.postal_code,
-          };
-        }
-      } else {
-        shippingAddress = {
-          full_name: shippingForm.fullName,
-          phone: shippingForm.phone,
-          address_line1: shippingForm.addressLine1,
-          address_line2: shippingForm.addressLine2,
-          city: shippingForm.city,
-          state: shippingForm.state,
-          postal_code: shippingForm.postalCode,
-        };
+      // Renew the hold (it may have expired while the customer was on this page)
+      const held = await fetchReservation();
+      if (held && held.unavailable.length > 0) {
+        toast({
+          title: "Some items are no longer available",
+          description: held.unavailable.map(describeShortage).join(". "),
+          variant: "destructive",
+        });
+        return;
       }
 
-      // Generate order number
-      const { data: orderNumberData } = await supabase.rpc('generate_order_number');
-      
-      // Create order
-      const { data: order, error: orderError } = await supabase
-        .from("orders")
-        .insert({
-          user_id: user.id,
-          order_number: orderNumberData,
-          subtotal,
-          shipping_cost: shippingCost,
-          total,
-          payment_method: paymentMethod,
-          shipping_address: shippingAddress,
-          status: "pending",
-        })
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      // Create order items
-      const orderItems = cartItems.map(item => ({
-        order_id: order.id,
-        product_id: item.product_id,
-        variant_id: item.variant_id,
-        lens_type_id: item.lens_type_id,
-        quantity: item.quantity,
-        unit_price: calculateItemPrice(item),
-        total_price: calculateItemPrice(item) * item.quantity,
-        has_eyesight: item.has_eyesight,
-        prescription_data: item.prescription_data,
-        prescription_image_url: item.prescription_image_url,
-      }));
-
-      const { error: itemsError } = await supabase
-        .from("order_items")
-        .insert(orderItems);
-
-      if (itemsError) throw itemsError;
-
-      // Reduce stock for each item with variant
-      for (const item of cartItems) {
-        if (item.variant_id) {
-          const { data: variant } = await supabase
-            .from("product_variants")
-            .select("stock")
-            .eq("id", item.variant_id)
-            .single();
-
-          if (variant) {
-            await supabase
-              .from("product_variants")
-              .update({ stock: Math.max(0, variant.stock - item.quantity) })
-              .eq("id", item.variant_id);
-          }
+      const shippingAddress = getShippingAddress();
+
+      // Reprice, reserve stock, write the order and clear the cart in one transaction
+      let orderId: string;
+      let guestToken: string | undefined;
+      try {
+        if (user) {
+          const { data, error } = await supabase.rpc("place_order", {
+            _shipping_address: shippingAddress,
+            _payment_method: paymentMethod,
+            _expected_total: total,
+          });
+          if (error) throw error;
+          orderId = data;
+        } else {
+          const placed = await placeGuestOrder(shippingForm.email, shippingAddress, paymentMethod, total);
+          orderId = placed.orderId;
+          guestToken = placed.token;
         }
+      } catch (orderError) {
+        await Promise.all([fetchQuote(), fetchReservation()]);
+        throw orderError;
       }
 
-      // Clear cart
-      const { error: deleteError } = await supabase
-        .from("cart_items")
-        .delete()
-        .eq("user_id", user.id);
-
-      if (deleteError) throw deleteError;
+      await refreshCart();
+
+      const orderPath = guestToken ? guestOrderPath(guestToken) : `/order-confirmation/${orderId}`;
+
+      // Online methods go straight on to the provider; the order is already saved if the payment fails
+      if (isOnlinePayment(paymentMethod)) {
+        try {
+          await startPayment(orderId, guestToken);
+          return;
+        } catch (paymentError) {
+          toast({
+            title: "Order placed, payment not started",
+            description: `${(paymentError as Error).message}. You can pay from your order page.`,
+            variant: "destructive",
+          });
+          navigate(orderPath);
+          return;
+        }
+      }
 
       toast({
         title: "Order Placed Successfully!",
-        description: `Order ${order.order_number} has been confirmed`,
+        description: paymentMethod === "cod"
+          ? "We'll call you shortly to confirm your order"
+          : "Your order has been confirmed",
       });
 
-      navigate(`/order-confirmation/${order.id}`);
+      navigate(orderPath);
     } catch (error: any) {
       console.error("Error placing order:", error);
       toast({
@@ -360,6 +449,30 @@ const Checkout = () => {
           </div>
         </div>
 
+        {shortages.length > 0 ? (
+          <Alert variant="destructive" className="mb-8">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {shortages.map((shortage) => (
+                  <li key={shortage.cartItemId}>{describeShortage(shortage)}</li>
+                ))}
+              </ul>
+              <Button variant="link" className="h-auto p-0 mt-2" onClick={() => navigate("/cart")}>
+                Update your cart
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : reservation && (
+          <Alert className="mb-8">
+            <Clock className="h-4 w-4" />
+            <AlertDescription>
+              The items in your cart are reserved for you until{" "}
+              {reservation.expiresAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}.
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
@@ -370,6 +483,27 @@ const Checkout = () => {
                   <CardTitle>Shipping Address</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-6">
+                  {!user && (
+                    <div className="space-y-2">
+                      <p className="text-sm text-muted-foreground">
+                        Checking out as a guest. Have an account?{" "}
+                        <Link to="/auth" className="text-primary underline">
+                          Sign in
+                        </Link>
+                      </p>
+                      <div>
+                        <Label htmlFor="email">Email *</Label>
+                        <Input
+                          id="email"
+                          type="email"
+                          value={shippingForm.email}
+                          onChange={(e) => setShippingForm({ ...shippingForm, email: e.target.value })}
+                          placeholder="you@example.com"
+                        />
+                      </div>
+                    </div>
+                  )}
+
                   {savedAddresses.length > 0 && (
                     <div className="space-y-4">
                       <Label>
@@ -505,10 +639,11 @@ const Checkout = () => {
                 <CardContent className="space-y-6">
                   <RadioGroup value={paymentMethod} onValueChange={(value: any) => setPaymentMethod(value)}>
                     <div className="flex items-center space-x-3 border rounded-lg p-4 cursor-pointer hover:bg-accent">
-                      <RadioGroupItem value="cod" id="cod" />
+                      <RadioGroupItem value="cod" id="cod" disabled={!!codUnavailable} />
                       <Label htmlFor="cod" className="cursor-pointer flex-1">
                         <div className="font-semibold">Cash on Delivery (COD)</div>
                         <div className="text-sm text-muted-foreground">Pay when you receive your order</div>
+                        {codUnavailable && <div className="text-sm text-destructive">{codUnavailable}</div>}
                       </Label>
                     </div>
 
@@ -545,12 +680,16 @@ const Checkout = () => {
                     </div>
                   </RadioGroup>
 
+                  {paymentMethod === "cod" && !codUnavailable && needsPhoneVerification && (
+                    <PhoneVerification phone={deliveryPhone} onVerified={(verifiedUser) => verifiedUser && setUser(verifiedUser)} />
+                  )}
+
                   <div className="flex gap-4">
                     <Button variant="outline" onClick={() => setStep(1)} className="flex-1">
                       <ChevronLeft className="h-4 w-4 mr-2" />
                       Back
                     </Button>
-                    <Button onClick={() => setStep(3)} className="flex-1">
+                    <Button onClick={handlePaymentSubmit} className="flex-1">
                       Review Order
                     </Button>
                   </div>
@@ -565,6 +704,17 @@ const Checkout = () => {
                   <CardTitle>Review Your Order</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-6">
+                  {!user && (
+                    <>
+                      <div>
+                        <h3 className="font-semibold mb-2">Contact</h3>
+                        <p className="text-sm text-muted-foreground">{shippingForm.email}</p>
+                      </div>
+
+                      <Separator />
+                    </>
+                  )}
+
                   <div>
                     <h3 className="font-semibold mb-2">Shipping Address</h3>
                     {useExistingAddress && selectedAddressId ? (
@@ -595,9 +745,19 @@ const Checkout = () => {
 
                   <div>
                     <h3 className="font-semibold mb-2">Payment Method</h3>
-                    <p className="text-sm text-muted-foreground capitalize">
-                      {paymentMethod.replace("_", " ")}
+                    <p className="text-sm text-muted-foreground">
+                      {PAYMENT_METHOD_LABELS[paymentMethod]}
                     </p>
+                    {isOnlinePayment(paymentMethod) && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        You'll be taken to {PAYMENT_METHOD_LABELS[paymentMethod]} to pay once you place the order.
+                      </p>
+                    )}
+                    {paymentMethod === "cod" && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        We'll call {deliveryPhone} to confirm your order before we prepare it.
+                      </p>
+                    )}
                   </div>
 
                   <div className="flex gap-4">
@@ -607,7 +767,7 @@ const Checkout = () => {
                     </Button>
                     <Button
                       onClick={handlePlaceOrder}
-                      disabled={submitting}
+                      disabled={submitting || shortages.length > 0}
                       className="flex-1"
                     >
                       {submitting ? (
@@ -615,6 +775,8 @@ const Checkout = () => {
                           <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                           Placing Order...
                         </>
+                      ) : isOnlinePayment(paymentMethod) ? (
+                        "Place Order & Pay"
                       ) : (
                         "Place Order"
                       )}
@@ -633,7 +795,9 @@ const Checkout = () => {
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="space-y-3 max-h-64 overflow-y-auto">
-                  {cartItems.map((item) => (
+                  {cartItems.map((item) => {
+                    const lineQuote = getLineQuote(item);
+                    return (
                     <div key={item.id} className="flex gap-3">
                       <img
                         src={item.products.images?.[0] || "/placeholder.svg"}
@@ -651,17 +815,28 @@ const Checkout = () => {
                           <p className="text-xs text-muted-foreground">{item.lens_types.name}</p>
                         )}
                         <p className="text-xs text-muted-foreground">
-                          Frame: Rs. {(item.products.base_price + (item.product_variants?.price_adjustment || 0)).toLocaleString()}
+                          Frame: Rs. {(lineQuote.base + lineQuote.variant).toLocaleString()}
                           {item.lens_types && (
-                            <span> + Lens: Rs. {item.lens_types.price_adjustment?.toLocaleString() || '0'}</span>
+                            <span> + Lens: Rs. {lineQuote.lens.toLocaleString()}</span>
                           )}
                         </p>
+                        {lineQuote.options.map((option) => (
+                          <p key={option.id} className="text-xs text-muted-foreground">
+                            + {LENS_OPTION_KIND_LABELS[option.kind]}: {option.name} (Rs. {option.price.toLocaleString()})
+                          </p>
+                        ))}
+                        {lineQuote.discount > 0 && (
+                          <p className="text-xs text-green-600">
+                            Discount: -Rs. {lineQuote.discount.toLocaleString()}
+                          </p>
+                        )}
                         <p className="text-sm font-medium">
-                          Rs. {calculateItemPrice(item).toLocaleString()} × {item.quantity} = Rs. {(calculateItemPrice(item) * item.quantity).toLocaleString()}
+                          Rs. {lineQuote.unitPrice.toLocaleString()} × {item.quantity} = Rs. {lineQuote.total.toLocaleString()}
                         </p>
                       </div>
                     </div>
-                  ))}
+                    );
+                  })}
                 </div>
 
                 <Separator />
@@ -675,7 +850,13 @@ const Checkout = () => {
                     <span className="text-muted-foreground">Shipping</span>
                     <span>{shippingCost === 0 ? "FREE" : `Rs. ${shippingCost}`}</span>
                   </div>
-                  {subtotal < 5000 && (
+                  {quote.discount > 0 && (
+                    <div className="flex justify-between text-green-600">
+                      <span>Discounts</span>
+                      <span>-Rs. {quote.discount.toLocaleString()}</span>
+                    </div>
+                  )}
+                  {subtotal < FREE_SHIPPING_THRESHOLD && (
                     <p className="text-xs text-muted-foreground">
                       Free shipping on orders over Rs. 5,000
                     </p>
@@ -1,17 +1,27 @@
 import { useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { Check, Package, Loader2 } from "lucide-react";
+import { Check, Copy, Package, Loader2, UserPlus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { canPayOnline, PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS, startPayment, type PaymentMethod, type PaymentStatus } from "@/lib/payments";
+import BankTransferPayment from "@/components/BankTransferPayment";
+import { ORDER_STATUS_LABELS, type OrderStatus } from "@/lib/order-status";
+import { fetchGuestOrder, guestOrderPath } from "@/lib/guest-orders";
+import { LENS_OPTION_KIND_LABELS, LENS_USAGE_LABELS, parseLensOptions, type LensUsage } from "@/lib/lens-options";
 
 interface Order {
   id: string;
+  user_id: string | null;
+  guest_email: string | null;
   order_number: string;
   created_at: string;
-  status: string;
-  payment_method: string;
+  status: OrderStatus;
+  payment_method: PaymentMethod;
+  payment_status: PaymentStatus;
   subtotal: number;
   shipping_cost: number;
   total: number;
@@ -22,8 +32,11 @@ interface Order {
 interface OrderItem {
   id: string;
   quantity: number;
+  cancelled_quantity: number;
   unit_price: number;
   total_price: number;
+  lens_usage: LensUsage | null;
+  lens_options: Json;
   products: {
     title: string;
     images: string[];
@@ -37,16 +50,35 @@ interface OrderItem {
   } | null;
 }
 
+/** Order page for customers (by order id) and for guests (by the order's lookup token). */
 const OrderConfirmation = () => {
-  const { orderId } = useParams();
+  const { orderId, token } = useParams();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [order, setOrder] = useState<Order | null>(null);
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
+  const [paying, setPaying] = useState(false);
 
   useEffect(() => {
-    fetchOrderDetails();
-  }, [orderId]);
+    if (token) {
+      fetchGuestOrderDetails(token);
+    } else {
+      fetchOrderDetails();
+    }
+  }, [orderId, token]);
+
+  const fetchGuestOrderDetails = async (guestToken: string) => {
+    setLoading(true);
+    try {
+      const guestOrder = await fetchGuestOrder(guestToken);
+      setOrder(guestOrder as Order | null);
+      setOrderItems((guestOrder?.items || []) as unknown as OrderItem[]);
+    } catch (error) {
+      console.error("Error fetching order:", error);
+      setOrder(null);
+    }
+    setLoading(false);
+  };
 
   const fetchOrderDetails = async () => {
     if (!orderId) return;
@@ -88,6 +120,18 @@ const OrderConfirmation = () => {
     setLoading(false);
   };
 
+  const payNow = async () => {
+    if (!order) return;
+
+    setPaying(true);
+    try {
+      await startPayment(order.id, token);
+    } catch (error) {
+      toast.error((error as Error).message);
+      setPaying(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -101,12 +145,30 @@ const OrderConfirmation = () => {
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
           <h2 className="text-2xl font-bold mb-4">Order not found</h2>
-          <Button onClick={() => navigate("/")}>Return Home</Button>
+          {token && (
+            <p className="text-muted-foreground mb-4">
+              If you've since added this order to your account, you'll find it under My Account.
+            </p>
+          )}
+          <div className="flex gap-2 justify-center">
+            {token && (
+              <Button variant="outline" onClick={() => navigate("/track-order")}>
+                Find an Order
+              </Button>
+            )}
+            <Button onClick={() => navigate("/")}>Return Home</Button>
+          </div>
         </div>
       </div>
     );
   }
 
+  const copyOrderLink = async () => {
+    if (!token) return;
+    await navigator.clipboard.writeText(`${window.location.origin}${guestOrderPath(token)}`);
+    toast.success("Order link copied");
+  };
+
   return (
     <div className="min-h-screen bg-background py-12">
       <div className="container mx-auto px-4 max-w-3xl">
@@ -115,9 +177,13 @@ const OrderConfirmation = () => {
           <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-primary/10 mb-4">
             <Check className="h-8 w-8 text-primary" />
           </div>
-          <h1 className="text-3xl md:text-4xl font-bold mb-2">Order Confirmed!</h1>
+          <h1 className="text-3xl md:text-4xl font-bold mb-2">
+            {order.status === "awaiting_confirmation" ? "Order Received!" : "Order Confirmed!"}
+          </h1>
           <p className="text-muted-foreground">
-            Thank you for your order. We'll send you a confirmation email shortly.
+            {order.status === "awaiting_confirmation"
+              ? `Thank you for your order. We'll call ${order.shipping_address.phone} shortly to confirm it before we prepare it.`
+              : "Thank you for your order. We'll send you a confirmation email shortly."}
           </p>
         </div>
 
@@ -143,17 +209,32 @@ const OrderConfirmation = () => {
                   </p>
                 </div>
                 <div>
-                  <p className="text-muted-foreground mb-1">Payment Method</p>
-                  <p className="font-semibold capitalize">
-                    {order.payment_method.replace("_", " ")}
-                  </p>
+                  <p className="text-muted-foreground mb-1">Payment</p>
+                  <p className="font-semibold">{PAYMENT_METHOD_LABELS[order.payment_method]}</p>
+                  <p className="text-xs text-muted-foreground">{PAYMENT_STATUS_LABELS[order.payment_status]}</p>
                 </div>
                 <div>
                   <p className="text-muted-foreground mb-1">Status</p>
-                  <p className="font-semibold capitalize">{order.status}</p>
+                  <p className="font-semibold">{ORDER_STATUS_LABELS[order.status]}</p>
                 </div>
               </div>
 
+              {canPayOnline(order) && (
+                <Button onClick={payNow} disabled={paying} className="w-full">
+                  {paying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Pay Rs. {order.total.toLocaleString()} with {PAYMENT_METHOD_LABELS[order.payment_method]}
+                </Button>
+              )}
+
+              {order.payment_method === "bank_transfer" && order.total > 0 && (order.user_id || token) && (
+                <BankTransferPayment
+                  userId={order.user_id}
+                  guestToken={token}
+                  order={order}
+                  onSubmitted={() => setOrder({ ...order, payment_status: "pending" })}
+                />
+              )}
+
               {order.tracking_number && (
                 <div>
                   <p className="text-muted-foreground mb-1 text-sm">Tracking Number</p>
@@ -203,11 +284,22 @@ const OrderConfirmation = () => {
                         </p>
                       )}
                       {item.lens_types && (
-                        <p className="text-sm text-muted-foreground">{item.lens_types.name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {item.lens_types.name}
+                          {item.lens_usage && ` · ${LENS_USAGE_LABELS[item.lens_usage]}`}
+                        </p>
                       )}
+                      {parseLensOptions(item.lens_options).map((option) => (
+                        <p key={option.id} className="text-sm text-muted-foreground">
+                          + {LENS_OPTION_KIND_LABELS[option.kind]}: {option.name} (Rs. {option.price.toLocaleString()})
+                        </p>
+                      ))}
                       <p className="text-sm mt-1">
                         Quantity: {item.quantity} × Rs. {item.unit_price.toLocaleString()}
                       </p>
+                      {item.cancelled_quantity > 0 && (
+                        <p className="text-sm text-destructive">{item.cancelled_quantity} cancelled</p>
+                      )}
                     </div>
                     <div className="text-right">
                       <p className="font-semibold">Rs. {item.total_price.toLocaleString()}</p>
@@ -240,14 +332,48 @@ const OrderConfirmation = () => {
             </CardContent>
           </Card>
 
+          {/* Guests get back here through this page's link, or by order number and phone */}
+          {token && (
+            <Card>
+              <CardContent className="pt-6 space-y-4 text-sm">
+                <div className="space-y-2">
+                  <p>
+                    Keep this page's link to check on your order, or find it any time with order number{" "}
+                    <span className="font-semibold">{order.order_number}</span> and your phone number.
+                  </p>
+                  <Button variant="outline" size="sm" onClick={copyOrderLink}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    Copy Order Link
+                  </Button>
+                </div>
+                <Separator />
+                <div className="space-y-2">
+                  <p>
+                    Create an account with {order.guest_email} to see all your orders in one place. Once you've
+                    confirmed your email, you can add this order to it from My Account.
+                  </p>
+                  <Button
+                    size="sm"
+                    onClick={() => navigate(`/auth?tab=signup&email=${encodeURIComponent(order.guest_email ?? "")}`)}
+                  >
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    Create an Account
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-4">
-            <Button onClick={() => navigate("/")} variant="outline" className="flex-1">
+            <Button onClick={() => navigate("/")} variant={token ? "default" : "outline"} className="flex-1">
               Continue Shopping
             </Button>
-            <Button onClick={() => navigate("/account/orders")} className="flex-1">
-              View All Orders
-            </Button>
+            {!token && (
+              <Button onClick={() => navigate("/account/orders")} className="flex-1">
+                View All Orders
+              </Button>
+            )}
           </div>
         </div>
       </div>
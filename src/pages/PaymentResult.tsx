@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Check, Clock, Loader2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { PAYMENT_METHOD_LABELS, sessionGuestToken, startPayment, type Payment } from "@/lib/payments";
+import { guestOrderPath } from "@/lib/guest-orders";
+
+// Guests get this much back from guest_payment; customers read the whole row
+type PaymentWithOrder = Pick<Payment, "id" | "order_id" | "status" | "method" | "amount"> & {
+  provider_reference?: string | null;
+  order: { id: string; order_number: string } | null;
+};
+
+// Providers may report back a little after the customer returns; keep checking for a while
+const POLL_INTERVAL_MS = 3000;
+const MAX_POLLS = 10;
+
+const PaymentResult = () => {
+  const { paymentId } = useParams();
+  const navigate = useNavigate();
+  const [payment, setPayment] = useState<PaymentWithOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState(false);
+  const [guest, setGuest] = useState(false);
+  // A guest who paid in another tab has to find their order again with its number and phone
+  const guestToken = guest && payment ? sessionGuestToken(payment.order_id) : null;
+
+  useEffect(() => {
+    let cancelled = false;
+    let polls = 0;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const fetchPayment = async () => {
+      const own = await supabase
+        .from("payments")
+        .select("*, order:orders(id, order_number)")
+        .eq("id", paymentId)
+        .maybeSingle();
+      let data: PaymentWithOrder | null = own.data;
+      let error = own.error;
+
+      // Guests can't read payments directly
+      const isGuest = !data && !error && !!paymentId;
+      if (isGuest) {
+        const guestPayment = await supabase.rpc("guest_payment", { _payment_id: paymentId });
+        data = guestPayment.data as unknown as PaymentWithOrder | null;
+        error = guestPayment.error;
+      }
+
+      if (cancelled) return;
+      if (error) console.error("Error fetching payment:", error);
+
+      setGuest(isGuest);
+      setPayment(data);
+      setLoading(false);
+
+      polls += 1;
+      if (data?.status === "pending" && polls < MAX_POLLS) {
+        timer = setTimeout(fetchPayment, POLL_INTERVAL_MS);
+      }
+    };
+
+    fetchPayment();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [paymentId]);
+
+  const retry = async () => {
+    if (!payment) return;
+
+    setRetrying(true);
+    try {
+      await startPayment(payment.order_id, guestToken);
+    } catch (error) {
+      toast.error((error as Error).message);
+      setRetrying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!payment) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-4">Payment not found</h2>
+          <Button onClick={() => navigate("/account")}>Go to My Account</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const succeeded = payment.status === "succeeded";
+  const pending = payment.status === "pending";
+
+  return (
+    <div className="min-h-screen bg-background py-12">
+      <div className="container mx-auto px-4 max-w-lg">
+        <Card>
+          <CardContent className="pt-8 text-center space-y-4">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-primary/10">
+              {succeeded ? (
+                <Check className="h-8 w-8 text-primary" />
+              ) : pending ? (
+                <Clock className="h-8 w-8 text-primary" />
+              ) : (
+                <XCircle className="h-8 w-8 text-destructive" />
+              )}
+            </div>
+            <h1 className="text-2xl font-bold">
+              {succeeded ? "Payment Received" : pending ? "Confirming Your Payment" : "Payment Not Completed"}
+            </h1>
+            <p className="text-muted-foreground">
+              {succeeded
+                ? `Rs. ${payment.amount.toLocaleString()} was paid by ${PAYMENT_METHOD_LABELS[payment.method]} for order ${payment.order?.order_number}.`
+                : pending
+                  ? "We're waiting for the payment provider to confirm. This page updates automatically."
+                  : `Your payment for order ${payment.order?.order_number} didn't go through. Your order is saved, so you can try again.`}
+            </p>
+            {payment.provider_reference && (
+              <p className="text-sm text-muted-foreground">Reference: {payment.provider_reference}</p>
+            )}
+            <div className="flex gap-2 justify-center pt-2">
+              {!succeeded && !pending && (!guest || guestToken) && (
+                <Button onClick={retry} disabled={retrying}>
+                  {retrying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Try Again
+                </Button>
+              )}
+              <Button
+                variant={succeeded ? "default" : "outline"}
+                onClick={() =>
+                  navigate(
+                    guestToken
+                      ? guestOrderPath(guestToken)
+                      : guest
+                        ? "/track-order"
+                        : `/order-confirmation/${payment.order_id}`
+                  )
+                }
+              >
+                View Order
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentResult;
@@ -0,0 +1,70 @@
+import { useSearchParams } from "react-router-dom";
+import { FlaskConical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { followPaymentRedirect } from "@/lib/payments";
+
+type SandboxResult = "approve" | "decline" | "cancel";
+
+/**
+ * Stand-in for a provider's hosted payment page, used by the sandbox
+ * payment provider. Posts the chosen outcome to payment-callback the way a
+ * real provider would.
+ */
+const PaymentSandbox = () => {
+  const [searchParams] = useSearchParams();
+  const paymentId = searchParams.get("payment_id") || "";
+  const orderNumber = searchParams.get("order") || "";
+  const amount = searchParams.get("amount") || "0";
+  const callback = searchParams.get("callback") || "";
+
+  const respond = (result: SandboxResult) =>
+    followPaymentRedirect({
+      url: callback,
+      method: "POST",
+      fields: { payment_id: paymentId, result, amount, reference: `SANDBOX-${Date.now()}` },
+    });
+
+  if (!paymentId || !callback) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <h2 className="text-2xl font-bold">Invalid sandbox payment</h2>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background py-12">
+      <div className="container mx-auto px-4 max-w-md">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FlaskConical className="h-5 w-5" />
+              Sandbox Payment
+            </CardTitle>
+            <CardDescription>No money is taken. Choose how this payment should end.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="text-sm space-y-1">
+              <p>
+                Order <span className="font-semibold">{orderNumber}</span>
+              </p>
+              <p className="text-2xl font-bold">Rs. {Number(amount).toLocaleString()}</p>
+            </div>
+            <div className="flex flex-col gap-2">
+              <Button onClick={() => respond("approve")}>Approve Payment</Button>
+              <Button variant="outline" onClick={() => respond("decline")}>
+                Decline Payment
+              </Button>
+              <Button variant="ghost" onClick={() => respond("cancel")}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentSandbox;
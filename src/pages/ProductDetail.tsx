@@ -3,16 +3,33 @@ import { useParams, useNavigate } from "react-router-dom";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import LensSelector, { LensConfiguration } from "@/components/LensSelector";
+import VirtualTryOn from "@/components/VirtualTryOn";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { ShoppingCart, Heart, Truck, Shield, RotateCcw, Loader2 } from "lucide-react";
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
+import { ShoppingCart, Heart, Truck, Shield, RotateCcw, Loader2, ScanFace } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCart } from "@/contexts/CartContext";
 import { useWishlist } from "@/contexts/WishlistContext";
 import { SEO } from "@/components/SEO";
+import { quoteLine } from "@/lib/pricing";
+import { uploadPrescriptionFile } from "@/lib/prescription-storage";
+import { withPrescriptionDefaults } from "@/lib/prescription";
+import { validatePrescription, type LensVisionType } from "@/lib/prescription-validation";
+import type { LensOptionRow } from "@/lib/lens-options";
+import { fetchAvailableStock } from "@/lib/stock-reservations";
+import {
+  FACE_FIT_LABELS,
+  formatFrameSize,
+  FRAME_SHAPE_LABELS,
+  RIM_TYPE_LABELS,
+  type FaceFit,
+  type FrameShape,
+  type RimType,
+} from "@/lib/frame-specs";
 
 interface Product {
   id: string;
@@ -22,6 +39,9 @@ interface Product {
   images: string[] | null;
   has_lens_options: boolean;
   category_id: string | null;
+  frame_shape: FrameShape | null;
+  rim_type: RimType | null;
+  face_fit: FaceFit | null;
 }
 
 interface ProductVariant {
@@ -29,6 +49,10 @@ interface ProductVariant {
   color: string | null;
   size: string | null;
   material: string | null;
+  lens_width: number | null;
+  bridge_width: number | null;
+  temple_length: number | null;
+  try_on_image: string | null;
   price_adjustment: number | null;
   stock: number | null;
   sku: string;
@@ -41,6 +65,12 @@ interface LensType {
   description: string | null;
   price_adjustment: number | null;
   image_url: string | null;
+  vision_type: LensVisionType | null;
+  lens_index: number | null;
+  coatings: string[] | null;
+  min_sph: number | null;
+  max_sph: number | null;
+  max_cyl: number | null;
 }
 
 interface Category {
@@ -57,13 +87,17 @@ const ProductDetail = () => {
   const [selectedImage, setSelectedImage] = useState(0);
   const [selectedVariant, setSelectedVariant] = useState("");
   const [quantity, setQuantity] = useState(1);
+  const [tryOnOpen, setTryOnOpen] = useState(false);
   const [lensConfig, setLensConfig] = useState<LensConfiguration>({
-    hasEyesight: false
+    hasEyesight: false,
+    options: [],
+    isComplete: false
   });
 
   const [product, setProduct] = useState<Product | null>(null);
   const [variants, setVariants] = useState<ProductVariant[]>([]);
   const [lensTypes, setLensTypes] = useState<LensType[]>([]);
+  const [lensOptions, setLensOptions] = useState<LensOptionRow[]>([]);
   const [category, setCategory] = useState<Category | null>(null);
   const [loading, setLoading] = useState(true);
   const [isAddingToCart, setIsAddingToCart] = useState(false);
@@ -110,22 +144,40 @@ const ProductDetail = () => {
         .eq("product_id", productData.id);
       
       if (variantsData) {
-        setVariants(variantsData);
+        // Units held by other customers at checkout cannot be sold, so show what is left
+        const available = await fetchAvailableStock(variantsData.map(v => v.id)).catch(() => ({} as Record<string, number>));
+        setVariants(variantsData.map(v => ({ ...v, stock: available[v.id] ?? v.stock })));
         if (variantsData.length > 0) {
           setSelectedVariant(variantsData[0].id);
         }
       }
 
-      // Fetch lens types if product has lens options
+      // Fetch the catalogue lenses compatible with this frame
       if (productData.has_lens_options) {
         const { data: lensTypesData } = await supabase
-          .from("lens_types")
-          .select("id, name, description, price_adjustment, image_url")
+          .from("product_lens_options")
+          .select("lens_type_id, name, description, price_adjustment, image_url, vision_type, lens_index, coatings, min_sph, max_sph, max_cyl")
           .eq("product_id", productData.id)
           .eq("is_enabled", true)
           .order("display_order");
         
-        if (lensTypesData) setLensTypes(lensTypesData);
+        if (lensTypesData) {
+          setLensTypes(lensTypesData.map(({ lens_type_id, name, ...lens }) => ({
+            ...lens,
+            id: lens_type_id as string,
+            name: name as string,
+          })));
+        }
+
+        // Thickness, coating and tint add-ons are shared by every lens
+        const { data: lensOptionsData } = await supabase
+          .from("lens_options")
+          .select("*")
+          .eq("is_enabled", true)
+          .order("kind")
+          .order("display_order");
+
+        if (lensOptionsData) setLensOptions(lensOptionsData);
       }
     } catch (error) {
       console.error("Error fetching product:", error);
@@ -145,22 +197,15 @@ const ProductDetail = () => {
 
   const calculateTotalPrice = () => {
     if (!product) return 0;
-    
-    let total = product.base_price;
-    
-    // Add variant price adjustment
-    if (selectedVariant) {
-      const variant = variants.find(v => v.id === selectedVariant);
-      if (variant && variant.price_adjustment) total += variant.price_adjustment;
-    }
-    
-    // Add lens type price adjustment (whenever a lens type is selected)
-    if (lensConfig.lensTypeId) {
-      const lensType = lensTypes.find(l => l.id === lensConfig.lensTypeId);
-      if (lensType && lensType.price_adjustment) total += lensType.price_adjustment;
-    }
-    
-    return total * quantity;
+
+    return quoteLine({
+      basePrice: product.base_price,
+      variantAdjustment: variants.find(v => v.id === selectedVariant)?.price_adjustment,
+      // Lens price applies whenever a lens type is selected
+      lensAdjustment: lensTypes.find(l => l.id === lensConfig.lensTypeId)?.price_adjustment,
+      lensOptions: lensConfig.options,
+      quantity,
+    }).total;
   };
 
   const getProductImages = () => {
@@ -190,6 +235,27 @@ const ProductDetail = () => {
   const variantStock = selectedVariantData?.stock || 0;
   const inStock = totalStock > 0;
   const isOutOfStock = variantStock === 0;
+
+  // Shape, rim and fit come from the product; measurements from the selected variant
+  const millimetres = (value: number | null | undefined) => (value ? `${value} mm` : null);
+  const frameSpecs = [
+    { label: "Frame Shape", value: product?.frame_shape ? FRAME_SHAPE_LABELS[product.frame_shape] : null },
+    { label: "Rim", value: product?.rim_type ? RIM_TYPE_LABELS[product.rim_type] : null },
+    { label: "Fits", value: product?.face_fit ? FACE_FIT_LABELS[product.face_fit] : null },
+    { label: "Lens Width", value: millimetres(selectedVariantData?.lens_width) },
+    { label: "Bridge Width", value: millimetres(selectedVariantData?.bridge_width) },
+    { label: "Temple Length", value: millimetres(selectedVariantData?.temple_length) },
+    {
+      label: "Frame Size",
+      value: selectedVariantData
+        ? formatFrameSize({
+            lensWidth: selectedVariantData.lens_width,
+            bridgeWidth: selectedVariantData.bridge_width,
+            templeLength: selectedVariantData.temple_length,
+          })
+        : null,
+    },
+  ].filter((spec) => spec.value);
   const isLowStock = variantStock > 0 && variantStock <= 5;
   
   const getStockBadge = () => {
@@ -209,29 +275,17 @@ const ProductDetail = () => {
     try {
       let prescriptionImageUrl: string | undefined;
       
-      // Upload prescription image if exists
+      // Upload prescription to the private bucket; the cart keeps only its storage path
       if (lensConfig.prescriptionImage) {
-        const file = lensConfig.prescriptionImage;
-        const fileExt = file.name.split('.').pop();
-        const fileName = `${Date.now()}-${Math.random()}.${fileExt}`;
-        const filePath = `prescriptions/${fileName}`;
-
-        const { error: uploadError } = await supabase.storage
-          .from('product-images')
-          .upload(filePath, file);
-
-        if (uploadError) {
+        try {
+          prescriptionImageUrl = await uploadPrescriptionFile(lensConfig.prescriptionImage);
+        } catch (uploadError) {
           console.error('Error uploading prescription:', uploadError);
           toast({
             title: "Upload Error",
             description: "Failed to upload prescription image. Adding to cart without it.",
             variant: "destructive",
           });
-        } else {
-          const { data } = supabase.storage
-            .from('product-images')
-            .getPublicUrl(filePath);
-          prescriptionImageUrl = data.publicUrl;
         }
       }
 
@@ -242,7 +296,10 @@ const ProductDetail = () => {
         quantity,
         lensConfig.hasEyesight,
         lensConfig.prescriptionData,
-        prescriptionImageUrl
+        prescriptionImageUrl,
+        lensConfig.savedPrescriptionId,
+        lensConfig.usage,
+        lensConfig.options.map(option => option.id)
       );
     } finally {
       setIsAddingToCart(false);
@@ -254,8 +311,8 @@ const ProductDetail = () => {
     // If product doesn't have lens options, no validation needed
     if (!product?.has_lens_options) return true;
     
-    // Must select a lens type
-    if (!lensConfig.lensTypeId) return false;
+    // Every configurator step needs a choice, including a lens type
+    if (!lensConfig.isComplete || !lensConfig.lensTypeId) return false;
     
     // If eyesight lenses are selected, must choose upload or manual entry
     if (lensConfig.hasEyesight) {
@@ -267,13 +324,15 @@ const ProductDetail = () => {
         return false;
       }
       
-      // If manual is selected, check if at least some data is entered
-      if (lensConfig.prescriptionType === 'manual' && lensConfig.prescriptionData) {
-        const { rightEye, leftEye } = lensConfig.prescriptionData;
-        // At least one field should have data
-        const hasRightEyeData = rightEye.sph || rightEye.cyl || rightEye.axis || rightEye.add || rightEye.pd;
-        const hasLeftEyeData = leftEye.sph || leftEye.cyl || leftEye.axis || leftEye.add || leftEye.pd;
-        if (!hasRightEyeData && !hasLeftEyeData) return false;
+      // If manual is selected, the prescription must pass the clinical checks
+      if (lensConfig.prescriptionType === 'manual') {
+        if (!lensConfig.prescriptionData) return false;
+        const lens = lensTypes.find(l => l.id === lensConfig.lensTypeId);
+        const { isValid } = validatePrescription(withPrescriptionDefaults(lensConfig.prescriptionData), {
+          visionType: lens?.vision_type,
+          lensRange: lens && { minSph: lens.min_sph, maxSph: lens.max_sph, maxCyl: lens.max_cyl },
+        });
+        if (!isValid) return false;
       }
     }
     
@@ -428,8 +487,13 @@ const ProductDetail = () => {
                         name: l.name,
                         description: l.description || undefined,
                         imageUrl: l.image_url || undefined,
-                        priceAdjustment: l.price_adjustment || 0
+                        priceAdjustment: l.price_adjustment || 0,
+                        visionType: l.vision_type || undefined,
+                        lensIndex: l.lens_index || undefined,
+                        coatings: l.coatings || undefined,
+                        prescriptionRange: { minSph: l.min_sph, maxSph: l.max_sph, maxCyl: l.max_cyl }
                       }))}
+                      lensOptions={lensOptions}
                       onLensConfigChange={(config) => setLensConfig(config)}
                     />
                   </div>
@@ -482,6 +546,27 @@ const ProductDetail = () => {
                 </Button>
               </div>
 
+              {/* Virtual Try-On */}
+              {selectedVariantData?.try_on_image && (
+                <>
+                  <Button size="lg" variant="outline" className="w-full mb-6" onClick={() => setTryOnOpen(true)}>
+                    <ScanFace className="mr-2 h-5 w-5" />
+                    Try On
+                  </Button>
+                  <VirtualTryOn
+                    open={tryOnOpen}
+                    onOpenChange={setTryOnOpen}
+                    productTitle={product.title}
+                    frameImage={selectedVariantData.try_on_image}
+                    measurements={{
+                      lensWidth: selectedVariantData.lens_width,
+                      bridgeWidth: selectedVariantData.bridge_width,
+                      templeLength: selectedVariantData.temple_length,
+                    }}
+                  />
+                </>
+              )}
+
               {/* Features */}
               <div className="space-y-3 text-sm">
                 <div className="flex items-center gap-2">
@@ -497,6 +582,26 @@ const ProductDetail = () => {
                   <span>30-day return policy</span>
                 </div>
               </div>
+
+              {/* Frame Specifications */}
+              {frameSpecs.length > 0 && (
+                <>
+                  <Separator className="my-6" />
+                  <div>
+                    <h2 className="font-semibold mb-3">Frame Specifications</h2>
+                    <Table>
+                      <TableBody>
+                        {frameSpecs.map((spec) => (
+                          <TableRow key={spec.label}>
+                            <TableCell className="text-muted-foreground py-2">{spec.label}</TableCell>
+                            <TableCell className="py-2">{spec.value}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </>
+              )}
             </div>
           </div>
         </div>
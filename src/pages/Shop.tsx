@@ -1,8 +1,7 @@
-import { useState, useEffect, useCallback } from "react";
-import { useParams, useSearchParams, useNavigate, Link } from "react-router-dom";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useParams, useSearchParams, useNavigate, useLocation, Link } from "react-router-dom";
 import { Filter, X, ChevronDown } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Slider } from "@/components/ui/slider";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
@@ -28,6 +27,33 @@ import {
   PaginationPrevious,
 } from "@/components/ui/pagination";
 import { SEO } from "@/components/SEO";
+import FitsLikeFilter from "@/components/FitsLikeFilter";
+import {
+  FACE_FIT_LABELS,
+  FRAME_SHAPE_LABELS,
+  hasMeasurements,
+  RIM_TYPE_LABELS,
+  type FaceFit,
+  type FrameMeasurements,
+  type FrameShape,
+  type RimType,
+} from "@/lib/frame-specs";
+import {
+  EMPTY_FACETS,
+  EMPTY_LISTING,
+  fetchShopFacets,
+  parseShopParams,
+  PRICE_BUCKETS,
+  shopCanonical,
+  shopFilterArgs,
+  shopParams,
+  withSelected,
+  type FacetValue,
+  type ShopFacets,
+  type ShopFilters,
+  type ShopListing,
+  type ShopSort,
+} from "@/lib/shop-filters";
 
 interface Product {
   id: string;
@@ -54,25 +80,62 @@ const Shop = () => {
   const { category } = useParams();
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
+  const location = useLocation();
+  const isSearchView = location.pathname === "/search";
+  const searchQuery = isSearchView ? (searchParams.get("q") || "").trim() : "";
+  const defaultSort: ShopSort = searchQuery ? "relevance" : "newest";
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [mobileFiltersOpen, setMobileFiltersOpen] = useState(false);
   const [totalProducts, setTotalProducts] = useState(0);
 
-  // Pagination states
-  const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 12;
+  const [facets, setFacets] = useState<ShopFacets>(EMPTY_FACETS);
+
+  // Filters, sort and page live in the query string, so listings can be shared and Back restores them
+  const listing = useMemo(() => parseShopParams(searchParams), [searchParams]);
+  const {
+    categories: selectedCategories,
+    priceBuckets: selectedPriceBuckets,
+    colors: selectedColors,
+    sizes: selectedSizes,
+    materials: selectedMaterials,
+    frameShapes: selectedFrameShapes,
+    rimTypes: selectedRimTypes,
+    faceFits: selectedFaceFits,
+    fitsLike,
+    page: currentPage,
+  } = listing;
+  // Best match only means something when searching
+  const sortBy = listing.sort === "relevance" && !searchQuery ? defaultSort : listing.sort ?? defaultSort;
+
+  // Any change other than paging goes back to the first page
+  const updateListing = (changes: Partial<ShopListing>) => {
+    setSearchParams(shopParams({ ...listing, page: 1, ...changes }, searchParams));
+  };
 
-  // Filter states
-  const [priceRange, setPriceRange] = useState<number[]>([0, 50000]);
-  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
-  const [selectedColors, setSelectedColors] = useState<string[]>([]);
-  const [selectedSizes, setSelectedSizes] = useState<string[]>([]);
-  const [sortBy, setSortBy] = useState("newest");
-
-  const availableColors = ["Black", "Brown", "Gold", "Silver", "Tortoise", "Transparent", "Blue", "Green"];
-  const availableSizes = ["Small", "Medium", "Large", "Extra Large"];
+  // Categories are ticked by slug; wait for them to load before filtering by them
+  const categoriesReady = categories.length > 0 || (!category && selectedCategories.length === 0);
+
+  // A category in the URL path takes priority over the category checkboxes
+  const filters = useMemo<ShopFilters>(() => ({
+    search: isSearchView ? searchQuery : null,
+    categoryIds: categories
+      .filter(c => (category ? c.slug === category : selectedCategories.includes(c.slug)))
+      .map(c => c.id),
+    priceBuckets: selectedPriceBuckets,
+    colors: selectedColors,
+    sizes: selectedSizes,
+    materials: selectedMaterials,
+    frameShapes: selectedFrameShapes,
+    rimTypes: selectedRimTypes,
+    faceFits: selectedFaceFits,
+    fitsLike,
+  }), [
+    isSearchView, searchQuery, category, categories, selectedCategories, selectedPriceBuckets, selectedColors,
+    selectedSizes, selectedMaterials, selectedFrameShapes, selectedRimTypes, selectedFaceFits, fitsLike,
+  ]);
 
   const fetchCategories = async () => {
     const { data } = await supabase
@@ -85,25 +148,11 @@ const Shop = () => {
   const fetchProducts = useCallback(async () => {
     setLoading(true);
     
-    // Build base query for filtering
+    // Every filter runs in shop_products, so the page and the count cover the filtered listing;
+    // search results come ranked from the full-text index
     let baseQuery = supabase
-      .from("products")
-      .select("*, product_variants(id, stock)", { count: 'exact' })
-      .eq("is_active", true);
-
-    // Category filter from URL param takes priority
-    if (category) {
-      const categoryData = categories.find(c => c.slug === category);
-      if (categoryData) {
-        baseQuery = baseQuery.eq("category_id", categoryData.id);
-      }
-    } else if (selectedCategories.length > 0) {
-      // Category filter from checkboxes only if no URL category
-      baseQuery = baseQuery.in("category_id", selectedCategories);
-    }
-
-    // Price range filter
-    baseQuery = baseQuery.gte("base_price", priceRange[0]).lte("base_price", priceRange[1]);
+      .rpc("shop_products", shopFilterArgs(filters), { count: 'exact' })
+      .select("*, product_variants(id, stock)");
 
     // Sorting
     if (sortBy === "price-asc") {
@@ -112,6 +161,8 @@ const Shop = () => {
       baseQuery = baseQuery.order("base_price", { ascending: false });
     } else if (sortBy === "name") {
       baseQuery = baseQuery.order("title", { ascending: true });
+    } else if (sortBy === "relevance" && searchQuery) {
+      // Keep the rank order returned by shop_products
     } else {
       baseQuery = baseQuery.order("created_at", { ascending: false });
     }
@@ -121,90 +172,62 @@ const Shop = () => {
     const to = from + itemsPerPage - 1;
     baseQuery = baseQuery.range(from, to);
 
-    const { data, count } = await baseQuery;
-    
-    if (count !== null) {
-      setTotalProducts(count);
-    }
-    
-    let filteredProducts = data || [];
-
-    // Color/Size filtering (from variants)
-    if (selectedColors.length > 0 || selectedSizes.length > 0) {
-      const { data: variants } = await supabase
-        .from("product_variants")
-        .select("product_id, color, size");
-
-      if (variants) {
-        const productIds = new Set<string>();
-        variants.forEach(variant => {
-          const matchesColor = selectedColors.length === 0 || (variant.color && selectedColors.includes(variant.color));
-          const matchesSize = selectedSizes.length === 0 || (variant.size && selectedSizes.includes(variant.size));
-          
-          if (matchesColor && matchesSize) {
-            productIds.add(variant.product_id);
-          }
-        });
-
-        filteredProducts = filteredProducts.filter(p => productIds.has(p.id));
-      }
-    }
+    const { data, count, error } = await baseQuery;
 
-    setProducts(filteredProducts);
+    if (error) {
+      console.error("Error fetching products:", error);
+    }
+    setTotalProducts(count ?? 0);
+    setProducts(data || []);
     setLoading(false);
-  }, [category, categories, selectedCategories, priceRange, selectedColors, selectedSizes, sortBy, currentPage, itemsPerPage]);
+  }, [filters, searchQuery, sortBy, currentPage, itemsPerPage]);
+
+  const fetchFacets = useCallback(async () => {
+    try {
+      setFacets(await fetchShopFacets(filters));
+    } catch (error) {
+      console.error("Error fetching filters:", error);
+    }
+  }, [filters]);
 
   useEffect(() => {
     fetchCategories();
   }, []);
 
   useEffect(() => {
-    setCurrentPage(1); // Reset to first page when filters change
-  }, [category, selectedCategories, priceRange, selectedColors, selectedSizes, sortBy]);
-
-  useEffect(() => {
-    if (categories.length > 0 || !category) {
+    if (categoriesReady) {
       fetchProducts();
     }
-  }, [category, categories, selectedCategories, priceRange, selectedColors, selectedSizes, sortBy, currentPage, fetchProducts]);
+  }, [categoriesReady, fetchProducts]);
 
-  const handleCategoryToggle = (categoryId: string) => {
-    setSelectedCategories(prev =>
-      prev.includes(categoryId)
-        ? prev.filter(id => id !== categoryId)
-        : [...prev, categoryId]
-    );
-  };
-
-  const handleColorToggle = (color: string) => {
-    setSelectedColors(prev =>
-      prev.includes(color)
-        ? prev.filter(c => c !== color)
-        : [...prev, color]
-    );
-  };
-
-  const handleSizeToggle = (size: string) => {
-    setSelectedSizes(prev =>
-      prev.includes(size)
-        ? prev.filter(s => s !== size)
-        : [...prev, size]
-    );
-  };
+  useEffect(() => {
+    if (categoriesReady) {
+      fetchFacets();
+    }
+  }, [categoriesReady, fetchFacets]);
+
+  const toggle = <T extends string>(values: T[], value: T) =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  const handleCategoryToggle = (slug: string) => updateListing({ categories: toggle(selectedCategories, slug) });
+  const handlePriceBucketToggle = (bucket: string) => updateListing({ priceBuckets: toggle(selectedPriceBuckets, bucket) });
+  const handleColorToggle = (color: string) => updateListing({ colors: toggle(selectedColors, color) });
+  const handleSizeToggle = (size: string) => updateListing({ sizes: toggle(selectedSizes, size) });
+  const handleMaterialToggle = (material: string) => updateListing({ materials: toggle(selectedMaterials, material) });
+  const handleFrameShapeToggle = (shape: FrameShape) => updateListing({ frameShapes: toggle(selectedFrameShapes, shape) });
+  const handleRimTypeToggle = (rim: RimType) => updateListing({ rimTypes: toggle(selectedRimTypes, rim) });
+  const handleFaceFitToggle = (fit: FaceFit) => updateListing({ faceFits: toggle(selectedFaceFits, fit) });
+  const handleFitsLikeChange = (measurements: FrameMeasurements) => updateListing({ fitsLike: measurements });
+  const handleSortChange = (sort: ShopSort) => updateListing({ sort: sort === defaultSort ? null : sort });
 
   const clearFilters = () => {
-    setSelectedCategories([]);
-    setSelectedColors([]);
-    setSelectedSizes([]);
-    setPriceRange([0, 50000]);
-    setSortBy("newest");
-    setCurrentPage(1);
+    setSearchParams(shopParams(EMPTY_LISTING, searchParams));
   };
 
   const totalPages = Math.ceil(totalProducts / itemsPerPage);
 
   const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+    updateListing({ page });
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
@@ -282,7 +305,53 @@ const Shop = () => {
 
   const currentCategory = categories.find(c => c.slug === category);
   const isCategoryView = !!currentCategory;
-  const hasActiveFilters = selectedCategories.length > 0 || selectedColors.length > 0 || selectedSizes.length > 0 || priceRange[0] > 0 || priceRange[1] < 50000;
+  const hasActiveFilters =
+    selectedCategories.length > 0 ||
+    selectedPriceBuckets.length > 0 ||
+    selectedColors.length > 0 ||
+    selectedSizes.length > 0 ||
+    selectedMaterials.length > 0 ||
+    selectedFrameShapes.length > 0 ||
+    selectedRimTypes.length > 0 ||
+    selectedFaceFits.length > 0 ||
+    hasMeasurements(fitsLike);
+
+  const categoryCount = (categoryId: string) =>
+    facets.categories.find(facet => facet.value === categoryId)?.count ?? 0;
+
+  const priceBucketFacets = PRICE_BUCKETS.map(bucket => ({
+    ...bucket,
+    count: facets.priceBuckets.find(facet => facet.value === bucket.value)?.count ?? 0,
+  })).filter(bucket => bucket.count > 0 || selectedPriceBuckets.includes(bucket.value));
+
+  const renderFacet = <T extends string>(
+    title: string,
+    values: FacetValue[],
+    selected: T[],
+    onToggle: (value: T) => void,
+    labels?: Record<T, string>
+  ) => {
+    const options = withSelected(values, selected) as (FacetValue & { value: T })[];
+    if (options.length === 0) return null;
+
+    return (
+      <div>
+        <h3 className="font-semibold mb-3">{title}</h3>
+        <div className="space-y-2">
+          {options.map((option) => (
+            <label key={option.value} className="flex items-center space-x-2 cursor-pointer">
+              <Checkbox
+                checked={selected.includes(option.value)}
+                onCheckedChange={() => onToggle(option.value)}
+              />
+              <span className="text-sm flex-1">{labels?.[option.value] ?? option.value}</span>
+              <span className="text-xs text-muted-foreground">{option.count}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+    );
+  };
 
   const FilterPanel = () => (
     <div className="space-y-6">
@@ -306,67 +375,51 @@ const Shop = () => {
             {categories.map((cat) => (
               <label key={cat.id} className="flex items-center space-x-2 cursor-pointer">
                 <Checkbox
-                  checked={selectedCategories.includes(cat.id)}
-                  onCheckedChange={() => handleCategoryToggle(cat.id)}
+                  checked={selectedCategories.includes(cat.slug)}
+                  onCheckedChange={() => handleCategoryToggle(cat.slug)}
                 />
-                <span className="text-sm">{cat.name}</span>
+                <span className="text-sm flex-1">{cat.name}</span>
+                <span className="text-xs text-muted-foreground">{categoryCount(cat.id)}</span>
               </label>
             ))}
           </div>
         </div>
       )}
 
-      {/* Price Range */}
-      <div>
-        <h3 className="font-semibold mb-3">Price Range</h3>
-        <Slider
-          min={0}
-          max={50000}
-          step={500}
-          value={priceRange}
-          onValueChange={setPriceRange}
-          className="mb-2"
-        />
-        <div className="flex justify-between text-sm text-muted-foreground">
-          <span>Rs. {priceRange[0].toLocaleString()}</span>
-          <span>Rs. {priceRange[1].toLocaleString()}</span>
+      {/* Price */}
+      {priceBucketFacets.length > 0 && (
+        <div>
+          <h3 className="font-semibold mb-3">Price</h3>
+          <div className="space-y-2">
+            {priceBucketFacets.map((bucket) => (
+              <label key={bucket.value} className="flex items-center space-x-2 cursor-pointer">
+                <Checkbox
+                  checked={selectedPriceBuckets.includes(bucket.value)}
+                  onCheckedChange={() => handlePriceBucketToggle(bucket.value)}
+                />
+                <span className="text-sm flex-1">{bucket.label}</span>
+                <span className="text-xs text-muted-foreground">{bucket.count}</span>
+              </label>
+            ))}
+          </div>
         </div>
-      </div>
+      )}
 
-      {/* Colors */}
-      <div>
-        <h3 className="font-semibold mb-3">Color</h3>
-        <div className="space-y-2">
-          {availableColors.map((color) => (
-            <label key={color} className="flex items-center space-x-2 cursor-pointer">
-              <Checkbox
-                checked={selectedColors.includes(color)}
-                onCheckedChange={() => handleColorToggle(color)}
-              />
-              <span className="text-sm">{color}</span>
-            </label>
-          ))}
-        </div>
-      </div>
+      {/* Variant facets, built from the catalog's own variant data */}
+      {renderFacet("Color", facets.colors, selectedColors, handleColorToggle)}
+      {renderFacet("Size", facets.sizes, selectedSizes, handleSizeToggle)}
+      {renderFacet("Material", facets.materials, selectedMaterials, handleMaterialToggle)}
 
-      {/* Sizes */}
-      <div>
-        <h3 className="font-semibold mb-3">Size</h3>
-        <div className="space-y-2">
-          {availableSizes.map((size) => (
-            <label key={size} className="flex items-center space-x-2 cursor-pointer">
-              <Checkbox
-                checked={selectedSizes.includes(size)}
-                onCheckedChange={() => handleSizeToggle(size)}
-              />
-              <span className="text-sm">{size}</span>
-            </label>
-          ))}
-        </div>
-      </div>
+      {/* Frame specs */}
+      {renderFacet("Frame Shape", facets.frameShapes, selectedFrameShapes, handleFrameShapeToggle, FRAME_SHAPE_LABELS)}
+      {renderFacet("Rim", facets.rimTypes, selectedRimTypes, handleRimTypeToggle, RIM_TYPE_LABELS)}
+      {renderFacet("Face Size", facets.faceFits, selectedFaceFits, handleFaceFitToggle, FACE_FIT_LABELS)}
+      <FitsLikeFilter value={fitsLike} onChange={handleFitsLikeChange} />
     </div>
   );
 
+  const canonical = shopCanonical(location.pathname, searchQuery || null, currentPage);
+
   const breadcrumbSchema = {
     "@context": "https://schema.org",
     "@type": "BreadcrumbList",
@@ -385,12 +438,20 @@ const Shop = () => {
 
   return (
     <div className="min-h-screen bg-white">
-      <SEO 
-        title="Shop Eyewear - Tashna Eyewear"
-        description="Browse our complete collection of premium eyewear, sunglasses, and contact lenses."
-        canonical="/shop"
-        schema={breadcrumbSchema}
-      />
+      {isSearchView ? (
+        <SEO
+          title={searchQuery ? `Search results for "${searchQuery}" - Tashna Eyewear` : "Search - Tashna Eyewear"}
+          description="Search our collection of premium eyewear, sunglasses, and contact lenses."
+          canonical={canonical}
+        />
+      ) : (
+        <SEO 
+          title="Shop Eyewear - Tashna Eyewear"
+          description="Browse our complete collection of premium eyewear, sunglasses, and contact lenses."
+          canonical={canonical}
+          schema={breadcrumbSchema}
+        />
+      )}
       <Header />
       
       {/* Category Hero Banner (only when viewing a specific category) */}
@@ -485,22 +546,31 @@ const Shop = () => {
                   </BreadcrumbItem>
                   <BreadcrumbSeparator />
                   <BreadcrumbItem>
-                    <BreadcrumbPage>Shop</BreadcrumbPage>
+                    <BreadcrumbPage>{isSearchView ? "Search" : "Shop"}</BreadcrumbPage>
                   </BreadcrumbItem>
                 </BreadcrumbList>
               </Breadcrumb>
               <h1 className="text-4xl md:text-5xl font-bold mb-4 tracking-tight">
-                All Products
+                {isSearchView ? "Search Results" : "All Products"}
               </h1>
               <p className="max-w-2xl text-muted-foreground mb-4 text-sm md:text-base leading-relaxed">
-                Explore our complete collection of premium eyewear
+                {isSearchView
+                  ? searchQuery
+                    ? `Showing matches for "${searchQuery}"`
+                    : "Type in the search box to find frames, sunglasses and more"
+                  : "Explore our complete collection of premium eyewear"}
               </p>
               
               {/* Category Navigation */}
               <div className="flex flex-wrap gap-2 mb-4">
                 <Link
                   to="/shop"
-                  className="px-4 py-2 rounded-full text-sm font-medium transition-all bg-accent text-accent-foreground shadow-md"
+                  className={cn(
+                    "px-4 py-2 rounded-full text-sm font-medium transition-all",
+                    isSearchView
+                      ? "bg-background/60 hover:bg-background/80 border border-border"
+                      : "bg-accent text-accent-foreground shadow-md"
+                  )}
                 >
                   All Products
                 </Link>
@@ -553,11 +623,12 @@ const Shop = () => {
           </Sheet>
 
           {/* Sort */}
-          <Select value={sortBy} onValueChange={setSortBy}>
+          <Select value={sortBy} onValueChange={(value) => handleSortChange(value as ShopSort)}>
             <SelectTrigger className="w-[200px]">
               <SelectValue placeholder="Sort by" />
             </SelectTrigger>
             <SelectContent>
+              {searchQuery && <SelectItem value="relevance">Best Match</SelectItem>}
               <SelectItem value="newest">Newest First</SelectItem>
               <SelectItem value="price-asc">Price: Low to High</SelectItem>
               <SelectItem value="price-desc">Price: High to Low</SelectItem>
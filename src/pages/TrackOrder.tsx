@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Loader2, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { findGuestOrder, guestOrderPath } from "@/lib/guest-orders";
+
+/** Guests find an order they placed without an account by its number and delivery phone. */
+const TrackOrder = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [orderNumber, setOrderNumber] = useState("");
+  const [phone, setPhone] = useState("");
+  const [searching, setSearching] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!orderNumber.trim() || !phone.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter your order number and phone number",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSearching(true);
+    try {
+      const token = await findGuestOrder(orderNumber, phone);
+      if (!token) {
+        toast({
+          title: "Order not found",
+          description: "Check the order number and use the phone number you gave for delivery",
+          variant: "destructive",
+        });
+        return;
+      }
+      navigate(guestOrderPath(token));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background py-12">
+      <div className="container mx-auto px-4 max-w-md">
+        <Card>
+          <CardHeader>
+            <CardTitle>Track Your Order</CardTitle>
+            <CardDescription>
+              Ordered without an account? Enter your order number and the phone number you gave for delivery.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="orderNumber">Order Number</Label>
+                <Input
+                  id="orderNumber"
+                  value={orderNumber}
+                  onChange={(e) => setOrderNumber(e.target.value)}
+                  placeholder="TE20251212-0421"
+                />
+              </div>
+              <div>
+                <Label htmlFor="phone">Phone</Label>
+                <Input
+                  id="phone"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  placeholder="+92 300 1234567"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={searching}>
+                {searching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+                Find My Order
+              </Button>
+            </form>
+            <p className="text-sm text-muted-foreground mt-4 text-center">
+              Have an account?{" "}
+              <Link to="/account" className="text-primary underline">
+                See your orders in My Account
+              </Link>
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default TrackOrder;
@@ -32,7 +32,7 @@ const AnalyticsDashboard = () => {
 
     const { data: orders } = await supabase
       .from("orders")
-      .select("created_at, total")
+      .select("created_at, total, cancelled_amount")
       .gte("created_at", thirtyDaysAgo.toISOString());
 
     // Group by date
@@ -42,7 +42,7 @@ const AnalyticsDashboard = () => {
       if (!revenueByDate[date]) {
         revenueByDate[date] = { revenue: 0, orders: 0 };
       }
-      revenueByDate[date].revenue += Number(order.total);
+      revenueByDate[date].revenue += Number(order.total) - Number(order.cancelled_amount);
       revenueByDate[date].orders += 1;
     });
 
@@ -0,0 +1,227 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Eye, Loader2 } from "lucide-react";
+import AuditChanges from "@/components/AuditChanges";
+import { AUDIT_ACTION_LABELS, AUDITED_TABLES, auditRecordLabel, type AuditEntry } from "@/lib/audit";
+
+const PAGE_SIZE = 50;
+
+interface AuditFilters {
+  tableName: string;
+  actor: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { tableName: "all", actor: "", from: "", to: "" };
+
+const AuditLog = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [selectedEntry, setSelectedEntry] = useState<AuditEntry | null>(null);
+
+  useEffect(() => {
+    fetchEntries(EMPTY_FILTERS, 0);
+  }, []);
+
+  const fetchEntries = async (activeFilters: AuditFilters, offset: number) => {
+    let query = supabase
+      .from("audit_log")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (activeFilters.tableName !== "all") query = query.eq("table_name", activeFilters.tableName);
+    if (activeFilters.actor.trim()) query = query.ilike("actor_email", `%${activeFilters.actor.trim()}%`);
+    // Date inputs are local days; include the whole "to" day
+    if (activeFilters.from) query = query.gte("created_at", new Date(`${activeFilters.from}T00:00:00`).toISOString());
+    if (activeFilters.to) query = query.lte("created_at", new Date(`${activeFilters.to}T23:59:59.999`).toISOString());
+
+    const { data, error } = await query;
+
+    if (error) {
+      toast.error("Failed to load audit log");
+      console.error(error);
+    } else {
+      const page = data || [];
+      setEntries((current) => (offset === 0 ? page : [...current, ...page]));
+      setHasMore(page.length === PAGE_SIZE);
+    }
+    setLoading(false);
+    setLoadingMore(false);
+  };
+
+  const applyFilters = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setLoading(true);
+    fetchEntries(filters, 0);
+  };
+
+  const resetFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setLoading(true);
+    fetchEntries(EMPTY_FILTERS, 0);
+  };
+
+  const loadMore = () => {
+    setLoadingMore(true);
+    fetchEntries(filters, entries.length);
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-semibold">Audit Log</h2>
+
+      <Card>
+        <CardContent className="p-4">
+          <form onSubmit={applyFilters} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <Label htmlFor="entity">Entity</Label>
+              <Select value={filters.tableName} onValueChange={(value) => setFilters({ ...filters, tableName: value })}>
+                <SelectTrigger id="entity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All entities</SelectItem>
+                  {Object.entries(AUDITED_TABLES).map(([tableName, label]) => (
+                    <SelectItem key={tableName} value={tableName}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="actor">User</Label>
+              <Input
+                id="actor"
+                value={filters.actor}
+                onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+                placeholder="Email"
+              />
+            </div>
+            <div>
+              <Label htmlFor="from">From</Label>
+              <Input
+                id="from"
+                type="date"
+                value={filters.from}
+                onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="to">To</Label>
+              <Input
+                id="to"
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1">Filter</Button>
+              <Button type="button" variant="outline" onClick={resetFilters}>Reset</Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead className="w-[80px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-muted-foreground whitespace-nowrap">
+                      {new Date(entry.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>{entry.actor_email || "System"}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{auditRecordLabel(entry)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {AUDITED_TABLES[entry.table_name] || entry.table_name}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={entry.action === "delete" ? "destructive" : "secondary"}>
+                        {AUDIT_ACTION_LABELS[entry.action]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="outline" size="sm" onClick={() => setSelectedEntry(entry)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {entries.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                      No changes match these filters
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {hasMore && !loading && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Load more
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={selectedEntry !== null} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {selectedEntry && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {AUDIT_ACTION_LABELS[selectedEntry.action]} {AUDITED_TABLES[selectedEntry.table_name]?.toLowerCase()}{" "}
+                  {auditRecordLabel(selectedEntry)}
+                </DialogTitle>
+              </DialogHeader>
+              <p className="text-sm text-muted-foreground">
+                {selectedEntry.actor_email || "System"} · {new Date(selectedEntry.created_at).toLocaleString()}
+              </p>
+              <AuditChanges entry={selectedEntry} />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -34,11 +34,11 @@ const CustomersManagement = () => {
         profiles.map(async (profile) => {
           const { data: orders } = await supabase
             .from("orders")
-            .select("total")
+            .select("total, cancelled_amount")
             .eq("user_id", profile.id);
 
           const orderCount = orders?.length || 0;
-          const totalSpent = orders?.reduce((sum, order) => sum + Number(order.total), 0) || 0;
+          const totalSpent = orders?.reduce((sum, order) => sum + Number(order.total) - Number(order.cancelled_amount), 0) || 0;
 
           return {
             ...profile,
@@ -1,18 +1,8 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2, Package, ShoppingCart, Users, TrendingUp } from "lucide-react";
-import Header from "@/components/Header";
-import Footer from "@/components/Footer";
-import ProductsManagement from "./Products";
-import OrdersManagement from "./Orders";
-import CustomersManagement from "./Customers";
-import AnalyticsDashboard from "./Analytics";
-import LensTypesManagement from "./LensTypes";
-import CategoriesManagement from "./Categories";
-import SettingsManagement from "./Settings";
+import { usePermissions } from "@/hooks/use-permissions";
 
 interface Stats {
   totalOrders: number;
@@ -22,8 +12,8 @@ interface Stats {
 }
 
 const AdminDashboard = () => {
-  const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
+  const { can, loading: permissionsLoading } = usePermissions();
   const [stats, setStats] = useState<Stats>({
     totalOrders: 0,
     totalRevenue: 0,
@@ -32,39 +22,17 @@ const AdminDashboard = () => {
   });
 
   useEffect(() => {
-    checkAdmin();
+    fetchStats();
   }, []);
 
-  const checkAdmin = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
-      navigate("/auth");
-      return;
-    }
-
-    const { data: roleData } = await supabase
-      .from("profiles")
-      .select("role")
-      .eq("id", user.id)
-      .single();
-
-    if (roleData?.role !== "admin") {
-      navigate("/");
-      return;
-    }
-
-    await fetchStats();
-    setLoading(false);
-  };
-
   const fetchStats = async () => {
     const [ordersRes, productsRes, customersRes] = await Promise.all([
-      supabase.from("orders").select("total", { count: "exact" }),
+      supabase.from("orders").select("total, cancelled_amount", { count: "exact" }),
       supabase.from("products").select("id", { count: "exact" }),
       supabase.from("profiles").select("id", { count: "exact" })
     ]);
 
-    const totalRevenue = ordersRes.data?.reduce((sum, order) => sum + Number(order.total), 0) || 0;
+    const totalRevenue = ordersRes.data?.reduce((sum, order) => sum + Number(order.total) - Number(order.cancelled_amount), 0) || 0;
 
     setStats({
       totalOrders: ordersRes.count || 0,
@@ -72,108 +40,78 @@ const AdminDashboard = () => {
       totalProducts: productsRes.count || 0,
       totalCustomers: customersRes.count || 0
     });
+    setLoading(false);
   };
 
-  if (loading) {
+  const canSeeOrders = can("manage_orders");
+  const canSeeProducts = can("manage_products");
+  const canSeeCustomers = can("view_customers");
+
+  if (loading || permissionsLoading) {
     return (
-      <div className="min-h-screen flex items-center justify-center">
+      <div className="flex items-center justify-center py-12">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
       </div>
     );
   }
 
   return (
-    <div className="min-h-screen flex flex-col">
-      <Header />
-      <main className="flex-1 container py-8">
-        <h1 className="text-3xl font-semibold mb-8">Admin Dashboard</h1>
-
-        <Tabs defaultValue="overview" className="space-y-6">
-          <TabsList>
-            <TabsTrigger value="overview">Overview</TabsTrigger>
-            <TabsTrigger value="products">Products</TabsTrigger>
-            <TabsTrigger value="categories">Categories</TabsTrigger>
-            <TabsTrigger value="lens-types">Lens Types</TabsTrigger>
-            <TabsTrigger value="orders">Orders</TabsTrigger>
-            <TabsTrigger value="customers">Customers</TabsTrigger>
-            <TabsTrigger value="analytics">Analytics</TabsTrigger>
-            <TabsTrigger value="settings">Settings</TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="overview" className="space-y-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-              <Card>
-                <CardHeader className="flex flex-row items-center justify-between pb-2">
-                  <CardTitle className="text-sm font-medium">Total Orders</CardTitle>
-                  <ShoppingCart className="h-4 w-4 text-muted-foreground" />
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold">{stats.totalOrders}</div>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardHeader className="flex flex-row items-center justify-between pb-2">
-                  <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
-                  <TrendingUp className="h-4 w-4 text-muted-foreground" />
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold">Rs. {stats.totalRevenue.toLocaleString()}</div>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardHeader className="flex flex-row items-center justify-between pb-2">
-                  <CardTitle className="text-sm font-medium">Total Products</CardTitle>
-                  <Package className="h-4 w-4 text-muted-foreground" />
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold">{stats.totalProducts}</div>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardHeader className="flex flex-row items-center justify-between pb-2">
-                  <CardTitle className="text-sm font-medium">Total Customers</CardTitle>
-                  <Users className="h-4 w-4 text-muted-foreground" />
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold">{stats.totalCustomers}</div>
-                </CardContent>
-              </Card>
-            </div>
-          </TabsContent>
-
-          <TabsContent value="products">
-            <ProductsManagement />
-          </TabsContent>
-
-          <TabsContent value="categories">
-            <CategoriesManagement />
-          </TabsContent>
-
-          <TabsContent value="lens-types">
-            <LensTypesManagement />
-          </TabsContent>
-
-          <TabsContent value="orders">
-            <OrdersManagement />
-          </TabsContent>
-
-          <TabsContent value="customers">
-            <CustomersManagement />
-          </TabsContent>
-
-          <TabsContent value="analytics">
-            <AnalyticsDashboard />
-          </TabsContent>
-
-          <TabsContent value="settings">
-            <SettingsManagement />
-          </TabsContent>
-        </Tabs>
-      </main>
-      <Footer />
+    <div className="space-y-6">
+      <h1 className="text-3xl font-semibold">Admin Dashboard</h1>
+
+      {!canSeeOrders && !canSeeProducts && !canSeeCustomers && (
+        <p className="text-muted-foreground">Use the menu to open the sections you manage.</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {canSeeOrders && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium">Total Orders</CardTitle>
+              <ShoppingCart className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stats.totalOrders}</div>
+            </CardContent>
+          </Card>
+        )}
+
+        {canSeeOrders && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
+              <TrendingUp className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">Rs. {stats.totalRevenue.toLocaleString()}</div>
+            </CardContent>
+          </Card>
+        )}
+
+        {canSeeProducts && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium">Total Products</CardTitle>
+              <Package className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stats.totalProducts}</div>
+            </CardContent>
+          </Card>
+        )}
+
+        {canSeeCustomers && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium">Total Customers</CardTitle>
+              <Users className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stats.totalCustomers}</div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,434 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Pencil, Trash2 } from "lucide-react";
+import {
+  LENS_OPTION_KIND_LABELS,
+  LENS_USAGE_LABELS,
+  LENS_VISION_TYPE_LABELS,
+  type LensOptionKind,
+  type LensOptionRow,
+  type LensUsage,
+} from "@/lib/lens-options";
+import type { LensVisionType } from "@/lib/prescription-validation";
+
+const optionalNumber = (value: FormDataEntryValue | null) =>
+  value === null || value === "" ? null : Number(value);
+
+// Thickness, coating and tint add-ons offered in the lens configurator
+const LensOptionsManagement = () => {
+  const { toast } = useToast();
+  const [lensOptions, setLensOptions] = useState<LensOptionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingOption, setEditingOption] = useState<LensOptionRow | null>(null);
+  const [kind, setKind] = useState<LensOptionKind>("coating");
+  const [kindFilter, setKindFilter] = useState<string>("all");
+
+  useEffect(() => {
+    fetchLensOptions();
+  }, []);
+
+  const fetchLensOptions = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("lens_options")
+      .select("*")
+      .order("kind")
+      .order("display_order");
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch lens options",
+        variant: "destructive"
+      });
+    } else {
+      setLensOptions(data || []);
+    }
+    setLoading(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    const optionData = {
+      kind,
+      name: formData.get("name") as string,
+      description: formData.get("description") as string || null,
+      price_adjustment: Number(formData.get("price_adjustment")) || 0,
+      lens_index: kind === "thickness" ? optionalNumber(formData.get("lens_index")) : null,
+      max_power: kind === "thickness" ? optionalNumber(formData.get("max_power")) : null,
+      usages: formData.getAll("usages") as LensUsage[],
+      vision_types: formData.getAll("vision_types") as LensVisionType[],
+      display_order: Number(formData.get("display_order")) || 0,
+      is_enabled: formData.get("is_enabled") === "on",
+    };
+
+    let error;
+    if (editingOption) {
+      const { error: updateError } = await supabase
+        .from("lens_options")
+        .update(optionData)
+        .eq("id", editingOption.id);
+      error = updateError;
+    } else {
+      const { error: insertError } = await supabase
+        .from("lens_options")
+        .insert(optionData);
+      error = insertError;
+    }
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: `Lens option ${editingOption ? "updated" : "created"} successfully`
+    });
+
+    setDialogOpen(false);
+    setEditingOption(null);
+    fetchLensOptions();
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Are you sure you want to delete this lens option?")) return;
+
+    const { error } = await supabase
+      .from("lens_options")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: "Lens option deleted successfully"
+    });
+
+    fetchLensOptions();
+  };
+
+  const openEditDialog = (option: LensOptionRow) => {
+    setEditingOption(option);
+    setKind(option.kind);
+    setDialogOpen(true);
+  };
+
+  const openAddDialog = () => {
+    setEditingOption(null);
+    setKind("coating");
+    setDialogOpen(true);
+  };
+
+  const formatRestrictions = (option: LensOptionRow) => {
+    const labels = [
+      ...option.usages.map((usage) => LENS_USAGE_LABELS[usage]),
+      ...option.vision_types.map((visionType) => LENS_VISION_TYPE_LABELS[visionType]),
+    ];
+    return labels.length > 0 ? labels.join(", ") : "All lenses";
+  };
+
+  const filteredOptions = kindFilter === "all"
+    ? lensOptions
+    : lensOptions.filter((option) => option.kind === kindFilter);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-semibold">Lens Options Management</h2>
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={openAddDialog}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Lens Option
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editingOption ? "Edit Lens Option" : "Add New Lens Option"}
+              </DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="kind">Option Type *</Label>
+                <Select value={kind} onValueChange={(value) => setKind(value as LensOptionKind)}>
+                  <SelectTrigger id="kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(LENS_OPTION_KIND_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Customers pick one thickness, any number of coatings and, for sunglasses, one tint
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="name">Name *</Label>
+                <Input
+                  id="name"
+                  name="name"
+                  defaultValue={editingOption?.name}
+                  required
+                  placeholder="e.g., Anti-reflective"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="description">Description</Label>
+                <Textarea
+                  id="description"
+                  name="description"
+                  defaultValue={editingOption?.description || ""}
+                  placeholder="Short description shown in the configurator"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="price_adjustment">Price (Rs.) *</Label>
+                <Input
+                  id="price_adjustment"
+                  name="price_adjustment"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  defaultValue={editingOption?.price_adjustment ?? 0}
+                  required
+                />
+              </div>
+
+              {kind === "thickness" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="lens_index">Lens Index *</Label>
+                    <Input
+                      id="lens_index"
+                      name="lens_index"
+                      type="number"
+                      step="0.01"
+                      defaultValue={editingOption?.lens_index ?? ""}
+                      required
+                      placeholder="e.g., 1.61"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="max_power">Max Power (±)</Label>
+                    <Input
+                      id="max_power"
+                      name="max_power"
+                      type="number"
+                      step="0.25"
+                      min="0.25"
+                      defaultValue={editingOption?.max_power ?? ""}
+                      placeholder="No limit"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <Label>Usages</Label>
+                <div className="flex flex-wrap gap-4 mt-2">
+                  {(Object.keys(LENS_USAGE_LABELS) as LensUsage[]).map((usage) => (
+                    <div key={usage} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`usage-${usage}`}
+                        name="usages"
+                        value={usage}
+                        defaultChecked={editingOption?.usages.includes(usage)}
+                      />
+                      <Label htmlFor={`usage-${usage}`}>{LENS_USAGE_LABELS[usage]}</Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">Leave all unchecked to offer it for every usage</p>
+              </div>
+
+              <div>
+                <Label>Vision Types</Label>
+                <div className="flex flex-wrap gap-4 mt-2">
+                  {(Object.keys(LENS_VISION_TYPE_LABELS) as LensVisionType[]).map((visionType) => (
+                    <div key={visionType} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`vision-${visionType}`}
+                        name="vision_types"
+                        value={visionType}
+                        defaultChecked={editingOption?.vision_types.includes(visionType)}
+                      />
+                      <Label htmlFor={`vision-${visionType}`}>{LENS_VISION_TYPE_LABELS[visionType]}</Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">Leave all unchecked to offer it with every lens</p>
+              </div>
+
+              <div>
+                <Label htmlFor="display_order">Display Order</Label>
+                <Input
+                  id="display_order"
+                  name="display_order"
+                  type="number"
+                  defaultValue={editingOption?.display_order || 0}
+                />
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="is_enabled"
+                  name="is_enabled"
+                  defaultChecked={editingOption?.is_enabled ?? true}
+                />
+                <Label htmlFor="is_enabled">Enabled</Label>
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <Button type="submit" className="flex-1">
+                  {editingOption ? "Update" : "Create"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setDialogOpen(false);
+                    setEditingOption(null);
+                  }}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Thickness, Coatings & Tints</CardTitle>
+            <Select value={kindFilter} onValueChange={setKindFilter}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Filter by type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Types</SelectItem>
+                {Object.entries(LENS_OPTION_KIND_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Index / Max Power</TableHead>
+                <TableHead>Offered For</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Display Order</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : filteredOptions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    No lens options found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredOptions.map((option) => (
+                  <TableRow key={option.id}>
+                    <TableCell className="font-medium">{option.name}</TableCell>
+                    <TableCell>{LENS_OPTION_KIND_LABELS[option.kind]}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {option.kind === "thickness"
+                        ? `${option.lens_index?.toFixed(2)} · ${option.max_power !== null ? `±${option.max_power.toFixed(2)}` : "Any"}`
+                        : "-"}
+                    </TableCell>
+                    <TableCell className="max-w-xs">{formatRestrictions(option)}</TableCell>
+                    <TableCell>Rs. {option.price_adjustment.toLocaleString()}</TableCell>
+                    <TableCell>{option.display_order}</TableCell>
+                    <TableCell>
+                      {option.is_enabled ? (
+                        <Badge variant="outline" className="text-green-600 border-green-600">
+                          Enabled
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-red-600 border-red-600">
+                          Disabled
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEditDialog(option)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(option.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LensOptionsManagement;
@@ -11,34 +11,54 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Pencil, Trash2, X } from "lucide-react";
+import { Plus, Pencil, Trash2, X, Link2 } from "lucide-react";
+import LensCompatibilityManager, { type LensCompatibilityRule } from "@/components/LensCompatibilityManager";
+import type { LensVisionType } from "@/lib/prescription-validation";
+import { LENS_VISION_TYPE_LABELS } from "@/lib/lens-options";
 
 interface LensType {
   id: string;
   name: string;
   description: string | null;
   price_adjustment: number | null;
-  product_id: string;
   display_order: number | null;
   is_enabled: boolean | null;
   image_url: string | null;
+  vision_type: LensVisionType;
+  lens_index: number | null;
+  coatings: string[];
+  min_sph: number | null;
+  max_sph: number | null;
+  max_cyl: number | null;
+  lens_compatibility: LensCompatibilityRule[];
 }
 
 interface Product {
   id: string;
   title: string;
+  category_id: string | null;
 }
 
+interface Category {
+  id: string;
+  name: string;
+}
+
+const optionalNumber = (value: FormDataEntryValue | null) =>
+  value === null || value === "" ? null : Number(value);
+
 const LensTypesManagement = () => {
   const { toast } = useToast();
   const [lensTypes, setLensTypes] = useState<LensType[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingLensType, setEditingLensType] = useState<LensType | null>(null);
   const [selectedProductFilter, setSelectedProductFilter] = useState<string>("all");
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
   const [uploading, setUploading] = useState(false);
+  const [compatibilityLensTypeId, setCompatibilityLensTypeId] = useState<string | null>(null);
 
   useEffect(() => {
     fetchData();
@@ -46,14 +66,14 @@ const LensTypesManagement = () => {
 
   const fetchData = async () => {
     setLoading(true);
-    await Promise.all([fetchLensTypes(), fetchProducts()]);
+    await Promise.all([fetchLensTypes(), fetchProducts(), fetchCategories()]);
     setLoading(false);
   };
 
   const fetchLensTypes = async () => {
     const { data, error } = await supabase
       .from("lens_types")
-      .select("*, products(title)")
+      .select("*, lens_compatibility(id, product_id, category_id, price_override)")
       .order("display_order");
 
     if (error) {
@@ -71,7 +91,7 @@ const LensTypesManagement = () => {
   const fetchProducts = async () => {
     const { data, error } = await supabase
       .from("products")
-      .select("id, title")
+      .select("id, title, category_id")
       .eq("has_lens_options", true)
       .order("title");
 
@@ -87,6 +107,24 @@ const LensTypesManagement = () => {
     setProducts(data || []);
   };
 
+  const fetchCategories = async () => {
+    const { data, error } = await supabase
+      .from("categories")
+      .select("id, name")
+      .order("name");
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch categories",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setCategories(data || []);
+  };
+
   const uploadImage = async (file: File) => {
     const fileExt = file.name.split(".").pop();
     const fileName = `${Math.random()}.${fileExt}`;
@@ -138,7 +176,15 @@ const LensTypesManagement = () => {
       name: formData.get("name") as string,
       description: formData.get("description") as string || null,
       price_adjustment: Number(formData.get("price_adjustment")),
-      product_id: formData.get("product_id") as string,
+      vision_type: (formData.get("vision_type") as LensVisionType) || "single_vision",
+      lens_index: optionalNumber(formData.get("lens_index")),
+      coatings: ((formData.get("coatings") as string) || "")
+        .split(",")
+        .map((coating) => coating.trim())
+        .filter(Boolean),
+      min_sph: optionalNumber(formData.get("min_sph")),
+      max_sph: optionalNumber(formData.get("max_sph")),
+      max_cyl: optionalNumber(formData.get("max_cyl")),
       display_order: Number(formData.get("display_order")) || 0,
       is_enabled: formData.get("is_enabled") === "on",
       image_url: uploadedImage || editingLensType?.image_url || null,
@@ -215,14 +261,35 @@ const LensTypesManagement = () => {
     setDialogOpen(true);
   };
 
-  const filteredLensTypes = selectedProductFilter === "all"
-    ? lensTypes
-    : lensTypes.filter(lt => lt.product_id === selectedProductFilter);
+  // A lens fits a product through a rule for the product itself or for its category
+  const isCompatibleWith = (lensType: LensType, product: Product) =>
+    lensType.lens_compatibility.some(rule =>
+      rule.product_id === product.id || (!!rule.category_id && rule.category_id === product.category_id)
+    );
+
+  const filteredProduct = products.find(p => p.id === selectedProductFilter);
+  const filteredLensTypes = filteredProduct
+    ? lensTypes.filter(lt => isCompatibleWith(lt, filteredProduct))
+    : lensTypes;
+
+  const getRuleLabel = (rule: LensCompatibilityRule) => {
+    if (rule.product_id) {
+      return products.find(p => p.id === rule.product_id)?.title || "Unknown Product";
+    }
+    return `${categories.find(c => c.id === rule.category_id)?.name || "Unknown Category"} (category)`;
+  };
 
-  const getProductTitle = (productId: string) => {
-    return products.find(p => p.id === productId)?.title || "Unknown Product";
+  const formatRange = (lensType: LensType) => {
+    const parts = [];
+    if (lensType.min_sph !== null || lensType.max_sph !== null) {
+      parts.push(`SPH ${lensType.min_sph ?? "…"} to ${lensType.max_sph ?? "…"}`);
+    }
+    if (lensType.max_cyl !== null) parts.push(`CYL ±${lensType.max_cyl}`);
+    return parts.length > 0 ? parts.join(", ") : "Any";
   };
 
+  const compatibilityLensType = lensTypes.find(lt => lt.id === compatibilityLensTypeId) || null;
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -242,30 +309,89 @@ const LensTypesManagement = () => {
             </DialogHeader>
             <form onSubmit={handleSubmit} className="space-y-4">
               <div>
-                <Label htmlFor="product_id">Product *</Label>
-                <Select name="product_id" defaultValue={editingLensType?.product_id}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select product" />
+                <Label htmlFor="name">Lens Type Name *</Label>
+                <Input
+                  id="name"
+                  name="name"
+                  defaultValue={editingLensType?.name}
+                  required
+                  placeholder="e.g., Progressive Lenses"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="vision_type">Vision Type *</Label>
+                <Select name="vision_type" defaultValue={editingLensType?.vision_type || "single_vision"}>
+                  <SelectTrigger id="vision_type">
+                    <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {products.map((product) => (
-                      <SelectItem key={product.id} value={product.id}>
-                        {product.title}
+                    {Object.entries(LENS_VISION_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Only bifocal and progressive lenses accept an ADD value
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="lens_index">Lens Index</Label>
+                  <Input
+                    id="lens_index"
+                    name="lens_index"
+                    type="number"
+                    step="0.01"
+                    min="1"
+                    max="2"
+                    defaultValue={editingLensType?.lens_index ?? ""}
+                    placeholder="e.g., 1.56"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="coatings">Coatings</Label>
+                  <Input
+                    id="coatings"
+                    name="coatings"
+                    defaultValue={editingLensType?.coatings.join(", ") || ""}
+                    placeholder="e.g., Anti-glare, Blue-cut"
+                  />
+                </div>
               </div>
 
               <div>
-                <Label htmlFor="name">Lens Type Name *</Label>
-                <Input
-                  id="name"
-                  name="name"
-                  defaultValue={editingLensType?.name}
-                  required
-                  placeholder="e.g., Progressive Lenses"
-                />
+                <Label>Supported Prescription Range</Label>
+                <div className="grid grid-cols-3 gap-4">
+                  <Input
+                    name="min_sph"
+                    type="number"
+                    step="0.25"
+                    defaultValue={editingLensType?.min_sph ?? ""}
+                    placeholder="Min SPH"
+                  />
+                  <Input
+                    name="max_sph"
+                    type="number"
+                    step="0.25"
+                    defaultValue={editingLensType?.max_sph ?? ""}
+                    placeholder="Max SPH"
+                  />
+                  <Input
+                    name="max_cyl"
+                    type="number"
+                    step="0.25"
+                    min="0"
+                    defaultValue={editingLensType?.max_cyl ?? ""}
+                    placeholder="Max CYL"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Leave blank for no limit. SPH is checked in minus-cylinder form.
+                </p>
               </div>
 
               <div>
@@ -280,7 +406,7 @@ const LensTypesManagement = () => {
               </div>
 
               <div>
-                <Label htmlFor="price_adjustment">Price Adjustment (Rs.) *</Label>
+                <Label htmlFor="price_adjustment">Default Price Adjustment (Rs.) *</Label>
                 <Input
                   id="price_adjustment"
                   name="price_adjustment"
@@ -370,10 +496,10 @@ const LensTypesManagement = () => {
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
-            <CardTitle>All Lens Types</CardTitle>
+            <CardTitle>Lens Catalogue</CardTitle>
             <Select value={selectedProductFilter} onValueChange={setSelectedProductFilter}>
               <SelectTrigger className="w-[250px]">
-                <SelectValue placeholder="Filter by product" />
+                <SelectValue placeholder="Filter by compatible product" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Products</SelectItem>
@@ -390,9 +516,11 @@ const LensTypesManagement = () => {
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Product</TableHead>
                 <TableHead>Name</TableHead>
-                <TableHead>Description</TableHead>
+                <TableHead>Vision Type</TableHead>
+                <TableHead>Index / Coatings</TableHead>
+                <TableHead>Rx Range</TableHead>
+                <TableHead>Compatible With</TableHead>
                 <TableHead>Price Adjustment</TableHead>
                 <TableHead>Display Order</TableHead>
                 <TableHead>Status</TableHead>
@@ -402,25 +530,38 @@ const LensTypesManagement = () => {
             <TableBody>
               {loading ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center">
+                  <TableCell colSpan={9} className="text-center">
                     Loading...
                   </TableCell>
                 </TableRow>
               ) : filteredLensTypes.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  <TableCell colSpan={9} className="text-center text-muted-foreground">
                     No lens types found
                   </TableCell>
                 </TableRow>
               ) : (
                 filteredLensTypes.map((lensType) => (
                   <TableRow key={lensType.id}>
-                    <TableCell className="font-medium">
-                      {getProductTitle(lensType.product_id)}
+                    <TableCell className="font-medium">{lensType.name}</TableCell>
+                    <TableCell>{LENS_VISION_TYPE_LABELS[lensType.vision_type]}</TableCell>
+                    <TableCell className="max-w-xs">
+                      {[lensType.lens_index?.toFixed(2), ...lensType.coatings].filter(Boolean).join(", ") || "-"}
                     </TableCell>
-                    <TableCell>{lensType.name}</TableCell>
-                    <TableCell className="max-w-xs truncate">
-                      {lensType.description || "-"}
+                    <TableCell className="whitespace-nowrap">{formatRange(lensType)}</TableCell>
+                    <TableCell className="max-w-xs">
+                      {lensType.lens_compatibility.length === 0 ? (
+                        <span className="text-muted-foreground">Not offered yet</span>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {lensType.lens_compatibility.map((rule) => (
+                            <Badge key={rule.id} variant="secondary">
+                              {getRuleLabel(rule)}
+                              {rule.price_override !== null && ` · Rs. ${rule.price_override.toLocaleString()}`}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell>Rs. {lensType.price_adjustment?.toLocaleString()}</TableCell>
                     <TableCell>{lensType.display_order}</TableCell>
@@ -436,6 +577,14 @@ const LensTypesManagement = () => {
                       )}
                     </TableCell>
                     <TableCell className="text-right space-x-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Manage compatibility"
+                        onClick={() => setCompatibilityLensTypeId(lensType.id)}
+                      >
+                        <Link2 className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -458,6 +607,14 @@ const LensTypesManagement = () => {
           </Table>
         </CardContent>
       </Card>
+
+      <LensCompatibilityManager
+        lensType={compatibilityLensType}
+        products={products}
+        categories={categories}
+        onOpenChange={(open) => !open && setCompatibilityLensTypeId(null)}
+        onChange={fetchLensTypes}
+      />
     </div>
   );
 };
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
@@ -11,6 +12,35 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Separator } from "@/components/ui/separator";
 import { toast } from "sonner";
 import { Eye, Loader2, Printer, Download } from "lucide-react";
+import AuditHistory from "@/components/AuditHistory";
+import OrderStatusTimeline from "@/components/OrderStatusTimeline";
+import CancelOrderDialog from "@/components/CancelOrderDialog";
+import PaymentProofQueue from "@/components/PaymentProofQueue";
+import ConfirmCodOrderDialog from "@/components/ConfirmCodOrderDialog";
+import RefusedDeliveryDialog from "@/components/RefusedDeliveryDialog";
+import {
+  PAYMENT_ATTEMPT_STATUS_LABELS,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_STATUS_LABELS,
+  PAYMENT_STATUSES,
+  setOrderPaymentStatus,
+  type Payment,
+  type PaymentMethod,
+  type PaymentStatus,
+} from "@/lib/payments";
+import {
+  isCancellable,
+  ORDER_STATUS_LABELS,
+  requiresTrackingNumber,
+  selectableStatuses,
+  updateOrderStatus,
+  type OrderStatus,
+} from "@/lib/order-status";
+import PrescriptionFile from "@/components/PrescriptionFile";
+import { createEmptyEye } from "@/lib/prescription";
+import { formatDiopter, normalizeEye, parseEye, sphericalEquivalent } from "@/lib/prescription-math";
+import { LENS_OPTION_KIND_LABELS, LENS_USAGE_LABELS, parseLensOptions, type LensUsage } from "@/lib/lens-options";
+import type { Json } from "@/integrations/supabase/types";
 
 interface PrescriptionData {
   rightEye?: {
@@ -46,6 +76,8 @@ interface PrescriptionData {
 interface OrderItem {
   id: string;
   quantity: number;
+  cancelled_quantity: number;
+  cancellation_reason: string | null;
   unit_price: number;
   total_price: number;
   has_eyesight: boolean;
@@ -68,8 +100,17 @@ interface OrderItem {
     name: string;
     price_adjustment: number;
   } | null;
+  lens_usage?: LensUsage | null;
+  lens_options?: Json;
   prescription_data?: PrescriptionData | null;
   prescription_image_url?: string | null;
+  saved_prescription?: {
+    id: string;
+    name: string;
+    exam_date: string | null;
+    expiry_date: string | null;
+    document_path: string | null;
+  } | null;
 }
 
 interface Address {
@@ -86,10 +127,17 @@ interface Order {
   id: string;
   order_number: string;
   created_at: string;
-  status: string;
+  status: OrderStatus;
   total?: number | null;
+  cancelled_amount?: number;
   tracking_number?: string | null;
+  cancellation_reason?: string | null;
+  delivery_refused_at?: string | null;
+  payment_method: PaymentMethod;
+  payment_status: PaymentStatus;
+  payments?: Payment[];
   user_id?: string | null;
+  guest_email?: string | null;
   shipping_address?: Address | null;
   profile?: { 
     full_name?: string | null; 
@@ -99,6 +147,12 @@ interface Order {
   order_items?: OrderItem[] | null;
 }
 
+// Orders placed before normalisation may hold plus-cyl values; show everything in minus-cyl form
+const toLabEye = (eye: NonNullable<PrescriptionData['rightEye']>) => {
+  const normalized = normalizeEye({ ...createEmptyEye(), ...eye });
+  return { ...normalized, se: formatDiopter(sphericalEquivalent(parseEye(normalized))) };
+};
+
 const OrdersManagement = () => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
@@ -151,6 +205,13 @@ const OrdersManagement = () => {
                 enrichedOrder.shipping_address = order.shipping_address as Address;
               }
               
+              const { data: payments } = await supabase
+                .from("payments")
+                .select("*")
+                .eq("order_id", order.id)
+                .order("created_at", { ascending: false });
+              enrichedOrder.payments = payments || [];
+
               // Fetch order items
               const { data: items } = await supabase
                 .from("order_items")
@@ -193,6 +254,16 @@ const OrdersManagement = () => {
                         .single();
                       enrichedItem.lens_type = lensType;
                     }
+
+                    // Fetch the saved prescription the line was filled from
+                    if (item.prescription_id) {
+                      const { data: savedPrescription } = await supabase
+                        .from("prescriptions")
+                        .select("id, name, exam_date, expiry_date, document_path")
+                        .eq("id", item.prescription_id)
+                        .maybeSingle();
+                      enrichedItem.saved_prescription = savedPrescription;
+                    }
                     
                     return enrichedItem;
                   })
@@ -230,21 +301,33 @@ const OrdersManagement = () => {
     if (!selectedOrder) return;
 
     const formData = new FormData(e.currentTarget);
-    
-    const { error } = await supabase
-      .from("orders")
-      .update({
-        status: formData.get("status") as "pending" | "processing" | "shipped" | "delivered" | "cancelled",
-        tracking_number: formData.get("tracking_number") as string
-      })
-      .eq("id", selectedOrder.id);
-
-    if (error) {
-      toast.error("Failed to update order");
-    } else {
+    const status = formData.get("status") as OrderStatus;
+    const trackingNumber = String(formData.get("tracking_number") || "").trim();
+
+    if (requiresTrackingNumber(status) && !trackingNumber) {
+      toast.error("Add a tracking number before marking the order as shipped");
+      return;
+    }
+
+    try {
+      // Emptying the pre-filled field is the only way to remove a tracking number
+      const clearTracking = !trackingNumber && !!selectedOrder.tracking_number;
+      await updateOrderStatus(selectedOrder.id, status, trackingNumber, String(formData.get("note") || ""), clearTracking);
       toast.success("Order updated successfully");
       setIsDialogOpen(false);
       fetchOrders();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update order");
+    }
+  };
+
+  const changePaymentStatus = async (order: Order, status: PaymentStatus) => {
+    try {
+      await setOrderPaymentStatus(order.id, status);
+      toast.success(`Order ${order.order_number} marked ${PAYMENT_STATUS_LABELS[status].toLowerCase()}`);
+      fetchOrders();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update payment status");
     }
   };
 
@@ -340,7 +423,7 @@ const OrdersManagement = () => {
             <div class="info-text">
               <strong>Name:</strong> ${order.profile?.full_name || 'N/A'}<br>
               <strong>Phone:</strong> ${order.profile?.phone || order.shipping_address?.phone || 'N/A'}<br>
-              <strong>Email:</strong> ${order.profile?.email || 'N/A'}
+              <strong>Email:</strong> ${order.profile?.email || order.guest_email || 'N/A'}
             </div>
           </div>
 
@@ -374,6 +457,14 @@ const OrdersManagement = () => {
                     <td style="text-align: right">Rs. ${item.unit_price?.toLocaleString() || '0'}</td>
                     <td style="text-align: right">Rs. ${item.total_price?.toLocaleString() || '0'}</td>
                   </tr>
+                  ${parseLensOptions(item.lens_options).map(option => `
+                    <tr>
+                      <td style="padding-left: 20px; color: #666">+ ${LENS_OPTION_KIND_LABELS[option.kind]}: ${option.name}</td>
+                      <td></td>
+                      <td style="text-align: right; color: #666">Rs. ${option.price.toLocaleString()}</td>
+                      <td></td>
+                    </tr>
+                  `).join('')}
                 `).join('') || '<tr><td colspan="4">No items</td></tr>'}
                 <tr class="total-row">
                   <td colspan="3" style="text-align: right">Grand Total:</td>
@@ -420,6 +511,7 @@ const OrdersManagement = () => {
           <SelectContent>
             <SelectItem value="all">All Orders</SelectItem>
             <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="awaiting_confirmation">Awaiting Confirmation</SelectItem>
             <SelectItem value="processing">Processing</SelectItem>
             <SelectItem value="shipped">Shipped</SelectItem>
             <SelectItem value="delivered">Delivered</SelectItem>
@@ -428,11 +520,13 @@ const OrdersManagement = () => {
         </Select>
       </div>
 
+      <PaymentProofQueue onReviewed={fetchOrders} />
+
       {filteredOrders.length === 0 ? (
         <Card>
           <CardContent className="py-12 text-center">
             <p className="text-muted-foreground">
-              {statusFilter === "all" ? "No orders found" : `No ${statusFilter} orders found`}
+              {statusFilter === "all" ? "No orders found" : `No ${ORDER_STATUS_LABELS[statusFilter as OrderStatus].toLowerCase()} orders found`}
             </p>
             <p className="text-sm text-muted-foreground mt-2">
               {statusFilter === "all" 
@@ -451,7 +545,7 @@ const OrdersManagement = () => {
                   <CardTitle>Order {order.order_number}</CardTitle>
                   <p className="text-sm text-muted-foreground">
                     {new Date(order.created_at).toLocaleDateString()} • 
-                    {order.profile?.full_name || order.profile?.email || "Guest"}
+                    {order.profile?.full_name || order.profile?.email || (order.guest_email ? `Guest (${order.guest_email})` : "Guest")}
                   </p>
                 </div>
                 <Badge
@@ -464,10 +558,11 @@ const OrdersManagement = () => {
                   className={
                     order.status === "shipped" ? "bg-blue-500 hover:bg-blue-600" :
                     order.status === "processing" ? "bg-yellow-500 hover:bg-yellow-600" :
+                    order.status === "awaiting_confirmation" ? "bg-orange-500 hover:bg-orange-600" :
                     order.status === "pending" ? "bg-gray-500 hover:bg-gray-600" : ""
                   }
                 >
-                  {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                  {ORDER_STATUS_LABELS[order.status]}
                 </Badge>
               </div>
             </CardHeader>
@@ -475,326 +570,484 @@ const OrdersManagement = () => {
               <div className="flex justify-between items-center">
                 <div>
                   <p className="font-semibold">Rs. {order.total?.toLocaleString() || '0'}</p>
+                  {!!order.cancelled_amount && (
+                    <p className="text-sm text-destructive">
+                      Cancelled: Rs. {order.cancelled_amount.toLocaleString()}
+                    </p>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    {PAYMENT_METHOD_LABELS[order.payment_method]} • {PAYMENT_STATUS_LABELS[order.payment_status]}
+                  </p>
                   {order.tracking_number && (
                     <p className="text-sm text-muted-foreground">
                       Tracking: {order.tracking_number}
                     </p>
                   )}
                 </div>
-                <Dialog open={isDialogOpen && selectedOrder?.id === order.id} onOpenChange={setIsDialogOpen}>
-                  <DialogTrigger asChild>
-                    <Button
-                      variant="outline"
-                      onClick={() => setSelectedOrder(order)}
-                    >
-                      <Eye className="h-4 w-4 mr-2" />
-                      View Details
-                    </Button>
-                  </DialogTrigger>
-                  <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
-                    <DialogHeader>
-                      <DialogTitle>Order Details - {order.order_number}</DialogTitle>
-                    </DialogHeader>
-                    
-                    <div className="space-y-6">
-                      {/* Customer Information */}
-                      <div>
-                        <h3 className="font-semibold mb-2">Customer Information</h3>
-                        <Card>
-                          <CardContent className="pt-4">
-                            <div className="grid grid-cols-2 gap-4">
-                              <div>
-                                <p className="text-sm text-muted-foreground">Name</p>
-                                <p className="font-medium">{order.profile?.full_name || 'N/A'}</p>
-                              </div>
-                              <div>
-                                <p className="text-sm text-muted-foreground">Email</p>
-                                <p className="font-medium">{order.profile?.email || 'N/A'}</p>
-                              </div>
-                              <div>
-                                <p className="text-sm text-muted-foreground">Phone</p>
-                                <p className="font-medium">{order.profile?.phone || order.shipping_address?.phone || 'N/A'}</p>
-                              </div>
-                              <div>
-                                <p className="text-sm text-muted-foreground">Order Date</p>
-                                <p className="font-medium">{new Date(order.created_at).toLocaleDateString()}</p>
-                              </div>
-                            </div>
-                          </CardContent>
-                        </Card>
-                      </div>
-
-                      {/* Shipping Address */}
-                      {order.shipping_address && (
+                <div className="flex gap-2">
+                  {order.status === "awaiting_confirmation" && (
+                    <ConfirmCodOrderDialog
+                      orderId={order.id}
+                      orderNumber={order.order_number}
+                      customerName={order.shipping_address?.full_name || order.profile?.full_name || "Customer"}
+                      phone={order.shipping_address?.phone || order.profile?.phone || ""}
+                      total={order.total || 0}
+                      onConfirmed={fetchOrders}
+                    />
+                  )}
+                  <AuditHistory tableName="orders" recordId={order.id} title={`Order ${order.order_number}`} />
+                  <Dialog open={isDialogOpen && selectedOrder?.id === order.id} onOpenChange={setIsDialogOpen}>
+                    <DialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        onClick={() => setSelectedOrder(order)}
+                      >
+                        <Eye className="h-4 w-4 mr-2" />
+                        View Details
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                      <DialogHeader>
+                        <DialogTitle>Order Details - {order.order_number}</DialogTitle>
+                      </DialogHeader>
+                      
+                      <div className="space-y-6">
+                        {/* Customer Information */}
                         <div>
-                          <h3 className="font-semibold mb-2">Shipping Address</h3>
+                          <h3 className="font-semibold mb-2">Customer Information</h3>
                           <Card>
                             <CardContent className="pt-4">
-                              <p>{order.shipping_address.full_name}</p>
-                              <p>{order.shipping_address.address_line1}</p>
-                              {order.shipping_address.address_line2 && <p>{order.shipping_address.address_line2}</p>}
-                              <p>{order.shipping_address.city}, {order.shipping_address.state} {order.shipping_address.postal_code}</p>
-                              <p>Phone: {order.shipping_address.phone}</p>
+                              <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                  <p className="text-sm text-muted-foreground">Name</p>
+                                  <p className="font-medium">{order.profile?.full_name || 'N/A'}</p>
+                                </div>
+                                <div>
+                                  <p className="text-sm text-muted-foreground">Email</p>
+                                  <p className="font-medium">{order.profile?.email || order.guest_email || 'N/A'}</p>
+                                </div>
+                                <div>
+                                  <p className="text-sm text-muted-foreground">Phone</p>
+                                  <p className="font-medium">{order.profile?.phone || order.shipping_address?.phone || 'N/A'}</p>
+                                </div>
+                                <div>
+                                  <p className="text-sm text-muted-foreground">Order Date</p>
+                                  <p className="font-medium">{new Date(order.created_at).toLocaleDateString()}</p>
+                                </div>
+                              </div>
                             </CardContent>
                           </Card>
                         </div>
-                      )}
 
-                      {/* Order Items */}
-                      <div>
-                        <h3 className="font-semibold mb-2">Order Items</h3>
-                        <div className="space-y-3">
-                          {order.order_items?.map((item, index) => (
-                            <Card key={item.id}>
+                        {/* Shipping Address */}
+                        {order.shipping_address && (
+                          <div>
+                            <h3 className="font-semibold mb-2">Shipping Address</h3>
+                            <Card>
                               <CardContent className="pt-4">
-                                <div className="flex gap-4 mb-3">
-                                  <img 
-                                    src={item.product_variant?.images?.[0] || item.product?.images?.[0] || '/placeholder.svg'} 
-                                    alt={item.product?.title}
-                                    className="w-20 h-20 object-cover rounded"
-                                  />
-                                  <div className="flex-1">
-                                    <h4 className="font-medium text-base">{item.product?.title}</h4>
-                                    <p className="text-xs text-muted-foreground">Product ID: {item.product?.id}</p>
-                                    {item.product_variant && (
-                                      <p className="text-xs text-muted-foreground mt-1">
-                                        Variant: {item.product_variant.color} {item.product_variant.size} {item.product_variant.material}
-                                      </p>
-                                    )}
-                                    <div className="text-sm mt-2 space-y-1">
-                                      <p className="text-muted-foreground">
-                                        Frame: Rs. {((item.product?.base_price || 0) + (item.product_variant?.price_adjustment || 0))?.toLocaleString()}
-                                        {item.lens_type && (
-                                          <span> + Lens: Rs. {item.lens_type.price_adjustment?.toLocaleString() || '0'}</span>
+                                <p>{order.shipping_address.full_name}</p>
+                                <p>{order.shipping_address.address_line1}</p>
+                                {order.shipping_address.address_line2 && <p>{order.shipping_address.address_line2}</p>}
+                                <p>{order.shipping_address.city}, {order.shipping_address.state} {order.shipping_address.postal_code}</p>
+                                <p>Phone: {order.shipping_address.phone}</p>
+                              </CardContent>
+                            </Card>
+                          </div>
+                        )}
+
+                        {/* Order Items */}
+                        <div>
+                          <h3 className="font-semibold mb-2">Order Items</h3>
+                          <div className="space-y-3">
+                            {order.order_items?.map((item, index) => (
+                              <Card key={item.id}>
+                                <CardContent className="pt-4">
+                                  <div className="flex gap-4 mb-3">
+                                    <img 
+                                      src={item.product_variant?.images?.[0] || item.product?.images?.[0] || '/placeholder.svg'} 
+                                      alt={item.product?.title}
+                                      className="w-20 h-20 object-cover rounded"
+                                    />
+                                    <div className="flex-1">
+                                      <h4 className="font-medium text-base">{item.product?.title}</h4>
+                                      <p className="text-xs text-muted-foreground">Product ID: {item.product?.id}</p>
+                                      {item.product_variant && (
+                                        <p className="text-xs text-muted-foreground mt-1">
+                                          Variant: {item.product_variant.color} {item.product_variant.size} {item.product_variant.material}
+                                        </p>
+                                      )}
+                                      <div className="text-sm mt-2 space-y-1">
+                                        <p className="text-muted-foreground">
+                                          Frame: Rs. {((item.product?.base_price || 0) + (item.product_variant?.price_adjustment || 0))?.toLocaleString()}
+                                          {item.lens_type && (
+                                            <span> + Lens: Rs. {item.lens_type.price_adjustment?.toLocaleString() || '0'}</span>
+                                          )}
+                                        </p>
+                                        {parseLensOptions(item.lens_options).map((option) => (
+                                          <p key={option.id} className="text-muted-foreground">
+                                            + {LENS_OPTION_KIND_LABELS[option.kind]}: {option.name} (Rs. {option.price.toLocaleString()})
+                                          </p>
+                                        ))}
+                                        <p className="font-semibold">
+                                          Qty: {item.quantity} × Rs. {item.unit_price?.toLocaleString() || '0'} = Rs. {item.total_price?.toLocaleString() || '0'}
+                                        </p>
+                                        {item.cancelled_quantity > 0 && (
+                                          <p className="text-destructive">
+                                            {item.cancelled_quantity} of {item.quantity} cancelled
+                                            {item.cancellation_reason && `: ${item.cancellation_reason}`}
+                                          </p>
                                         )}
-                                      </p>
-                                      <p className="font-semibold">
-                                        Qty: {item.quantity} × Rs. {item.unit_price?.toLocaleString() || '0'} = Rs. {item.total_price?.toLocaleString() || '0'}
-                                      </p>
+                                      </div>
                                     </div>
                                   </div>
-                                </div>
 
-                                {/* Selected Lens Details */}
-                                <Separator className="my-3" />
-                                <details className="group">
-                                  <summary className="cursor-pointer list-none flex items-center justify-between p-2 hover:bg-muted rounded">
-                                    <span className="font-medium text-sm">Selected Lens Details</span>
-                                    <span className="transition group-open:rotate-180">▼</span>
-                                  </summary>
-                                  <div className="mt-3 space-y-3 p-3 bg-muted/50 rounded">
-                                    {/* Eyesight Status */}
-                                    <div>
-                                      <p className="text-sm font-medium">Eyesight Option:</p>
-                                      <p className="text-sm text-muted-foreground">
-                                        {item.has_eyesight ? '✓ With Eyesight Correction' : '✗ No Eyesight Correction'}
-                                      </p>
-                                    </div>
-
-                                    {/* Lens Type - Always show if exists */}
-                                    {item.lens_type && (
+                                  {/* Selected Lens Details */}
+                                  <Separator className="my-3" />
+                                  <details className="group">
+                                    <summary className="cursor-pointer list-none flex items-center justify-between p-2 hover:bg-muted rounded">
+                                      <span className="font-medium text-sm">Selected Lens Details</span>
+                                      <span className="transition group-open:rotate-180">▼</span>
+                                    </summary>
+                                    <div className="mt-3 space-y-3 p-3 bg-muted/50 rounded">
+                                      {/* Eyesight Status */}
                                       <div>
-                                        <p className="text-sm font-medium">Lens Type Selected:</p>
+                                        <p className="text-sm font-medium">Eyesight Option:</p>
                                         <p className="text-sm text-muted-foreground">
-                                          {item.lens_type.name} (+Rs. {item.lens_type.price_adjustment?.toLocaleString() || '0'})
+                                          {item.has_eyesight ? '✓ With Eyesight Correction' : '✗ No Eyesight Correction'}
                                         </p>
                                       </div>
-                                    )}
-                                    
-                                    {!item.lens_type && (
-                                      <div>
-                                        <p className="text-sm font-medium">Lens Type:</p>
-                                        <p className="text-sm text-muted-foreground italic">No lens type selected</p>
-                                      </div>
-                                    )}
-
-                                    {/* Prescription Data */}
-                                    {item.has_eyesight && item.prescription_data && (
-                                      <div className="space-y-4">
-                                        <p className="text-sm font-medium">Prescription Details:</p>
-                                        
-                                        {/* Main Prescription Table */}
-                                        <div className="space-y-2">
-                                          {/* Header Row */}
-                                          <div className="bg-gray-800 text-white p-2 rounded">
-                                            <div className="grid grid-cols-5 gap-2 text-xs font-semibold text-center">
-                                              <div>Eye</div>
-                                              <div>SPH</div>
-                                              <div>CYL</div>
-                                              <div>AXIS</div>
-                                              <div>ADD</div>
-                                            </div>
-                                          </div>
-                                          
-                                          {/* Right Eye */}
-                                          {item.prescription_data.rightEye && (
-                                            <div className="bg-gray-50 p-2 rounded border">
-                                              <div className="grid grid-cols-5 gap-2 text-xs text-center items-center">
-                                                <div className="font-medium">Right</div>
-                                                <div>{item.prescription_data.rightEye.sph || '-'}</div>
-                                                <div>{item.prescription_data.rightEye.cyl || '-'}</div>
-                                                <div>{item.prescription_data.rightEye.axis || '-'}</div>
-                                                <div>{item.prescription_data.rightEye.add || '-'}</div>
-                                              </div>
+
+                                      {/* Lens Type - Always show if exists */}
+                                      {item.lens_type && (
+                                        <div>
+                                          <p className="text-sm font-medium">Lens Type Selected:</p>
+                                          <p className="text-sm text-muted-foreground">
+                                            {item.lens_type.name} (+Rs. {item.lens_type.price_adjustment?.toLocaleString() || '0'})
+                                          </p>
+                                        </div>
+                                      )}
+                                      
+                                      {item.lens_usage && (
+                                        <div>
+                                          <p className="text-sm font-medium">Usage:</p>
+                                          <p className="text-sm text-muted-foreground">{LENS_USAGE_LABELS[item.lens_usage]}</p>
+                                        </div>
+                                      )}
+
+                                      {!item.lens_type && (
+                                        <div>
+                                          <p className="text-sm font-medium">Lens Type:</p>
+                                          <p className="text-sm text-muted-foreground italic">No lens type selected</p>
+                                        </div>
+                                      )}
+
+                                      {/* Prescription Data */}
+                                      {item.has_eyesight && item.prescription_data && (
+                                        <div className="space-y-4">
+                                          <p className="text-sm font-medium">Prescription Details:</p>
+                                          {item.saved_prescription && (
+                                            <div className="text-sm text-muted-foreground">
+                                              <p>
+                                                Saved prescription: <span className="font-medium text-foreground">{item.saved_prescription.name}</span>
+                                                {item.saved_prescription.exam_date && ` · Exam ${new Date(item.saved_prescription.exam_date).toLocaleDateString()}`}
+                                                {item.saved_prescription.expiry_date && ` · Expires ${new Date(item.saved_prescription.expiry_date).toLocaleDateString()}`}
+                                              </p>
+                                              {item.saved_prescription.document_path && (
+                                                <PrescriptionFile
+                                                  path={item.saved_prescription.document_path}
+                                                  className="mt-2 w-40 rounded-md border"
+                                                />
+                                              )}
                                             </div>
                                           )}
                                           
-                                          {/* Left Eye */}
-                                          {item.prescription_data.leftEye && (
-                                            <div className="bg-gray-50 p-2 rounded border">
-                                              <div className="grid grid-cols-5 gap-2 text-xs text-center items-center">
-                                                <div className="font-medium">Left</div>
-                                                <div>{item.prescription_data.leftEye.sph || '-'}</div>
-                                                <div>{item.prescription_data.leftEye.cyl || '-'}</div>
-                                                <div>{item.prescription_data.leftEye.axis || '-'}</div>
-                                                <div>{item.prescription_data.leftEye.add || '-'}</div>
-                                              </div>
-                                            </div>
-                                          )}
-                                        </div>
-
-                                        {/* Pupillary Distance (PD) */}
-                                        <div className="border-t pt-3">
-                                          <p className="text-xs font-semibold mb-2">Pupillary Distance (PD):</p>
-                                          {item.prescription_data.twoPDNumbers ? (
-                                            <div className="grid grid-cols-2 gap-3 max-w-sm">
-                                              <div className="bg-gray-50 p-2 rounded border text-center">
-                                                <p className="text-xs text-muted-foreground mb-1">Right PD</p>
-                                                <p className="text-sm font-medium">{item.prescription_data.rightEye?.pd || '-'}</p>
-                                              </div>
-                                              <div className="bg-gray-50 p-2 rounded border text-center">
-                                                <p className="text-xs text-muted-foreground mb-1">Left PD</p>
-                                                <p className="text-sm font-medium">{item.prescription_data.leftEye?.pd || '-'}</p>
+                                          {/* Main Prescription Table */}
+                                          <div className="space-y-2">
+                                            {/* Header Row */}
+                                            <div className="bg-gray-800 text-white p-2 rounded">
+                                              <div className="grid grid-cols-6 gap-2 text-xs font-semibold text-center">
+                                                <div>Eye</div>
+                                                <div>SPH</div>
+                                                <div>CYL (-)</div>
+                                                <div>AXIS</div>
+                                                <div>ADD</div>
+                                                <div>SE</div>
                                               </div>
                                             </div>
-                                          ) : (
-                                            <div className="bg-gray-50 p-2 rounded border text-center max-w-xs">
-                                              <p className="text-xs text-muted-foreground mb-1">PD</p>
-                                              <p className="text-sm font-medium">{item.prescription_data.rightEye?.pd || '-'}</p>
-                                            </div>
-                                          )}
-                                        </div>
+                                            
+                                            {/* Right Eye */}
+                                            {item.prescription_data.rightEye && (() => {
+                                              const eye = toLabEye(item.prescription_data.rightEye);
+                                              return (
+                                                <div className="bg-gray-50 p-2 rounded border">
+                                                  <div className="grid grid-cols-6 gap-2 text-xs text-center items-center">
+                                                    <div className="font-medium">Right</div>
+                                                    <div>{eye.sph}</div>
+                                                    <div>{eye.cyl}</div>
+                                                    <div>{eye.axis}</div>
+                                                    <div>{eye.add || '-'}</div>
+                                                    <div>{eye.se}</div>
+                                                  </div>
+                                                </div>
+                                              );
+                                            })()}
+                                            
+                                            {/* Left Eye */}
+                                            {item.prescription_data.leftEye && (() => {
+                                              const eye = toLabEye(item.prescription_data.leftEye);
+                                              return (
+                                                <div className="bg-gray-50 p-2 rounded border">
+                                                  <div className="grid grid-cols-6 gap-2 text-xs text-center items-center">
+                                                    <div className="font-medium">Left</div>
+                                                    <div>{eye.sph}</div>
+                                                    <div>{eye.cyl}</div>
+                                                    <div>{eye.axis}</div>
+                                                    <div>{eye.add || '-'}</div>
+                                                    <div>{eye.se}</div>
+                                                  </div>
+                                                </div>
+                                              );
+                                            })()}
+                                          </div>
 
-                                        {/* Prism Section */}
-                                        {item.prescription_data.addPrism && (
+                                          {/* Pupillary Distance (PD) */}
                                           <div className="border-t pt-3">
-                                            <p className="text-xs font-semibold mb-2">Prism Details:</p>
-                                            
-                                            <div className="space-y-2">
-                                              {/* Prism Header */}
-                                              <div className="bg-gray-800 text-white p-2 rounded">
-                                                <div className="grid grid-cols-5 gap-2 text-xs font-semibold text-center">
-                                                  <div>Eye</div>
-                                                  <div>Vertical Prism</div>
-                                                  <div>Base Direction</div>
-                                                  <div>Horizontal Prism</div>
-                                                  <div>Base Direction</div>
+                                            <p className="text-xs font-semibold mb-2">Pupillary Distance (PD):</p>
+                                            {item.prescription_data.twoPDNumbers ? (
+                                              <div className="grid grid-cols-2 gap-3 max-w-sm">
+                                                <div className="bg-gray-50 p-2 rounded border text-center">
+                                                  <p className="text-xs text-muted-foreground mb-1">Right PD</p>
+                                                  <p className="text-sm font-medium">{item.prescription_data.rightEye?.pd || '-'}</p>
                                                 </div>
-                                              </div>
-                                              
-                                              {/* Right Eye Prism */}
-                                              <div className="bg-gray-50 p-2 rounded border">
-                                                <div className="grid grid-cols-5 gap-2 text-xs text-center items-center">
-                                                  <div className="font-medium">Right</div>
-                                                  <div>{item.prescription_data.rightPrism?.verticalPrism || '-'}</div>
-                                                  <div>{item.prescription_data.rightPrism?.verticalBase || '-'}</div>
-                                                  <div>{item.prescription_data.rightPrism?.horizontalPrism || '-'}</div>
-                                                  <div>{item.prescription_data.rightPrism?.horizontalBase || '-'}</div>
+                                                <div className="bg-gray-50 p-2 rounded border text-center">
+                                                  <p className="text-xs text-muted-foreground mb-1">Left PD</p>
+                                                  <p className="text-sm font-medium">{item.prescription_data.leftEye?.pd || '-'}</p>
                                                 </div>
                                               </div>
+                                            ) : (
+                                              <div className="bg-gray-50 p-2 rounded border text-center max-w-xs">
+                                                <p className="text-xs text-muted-foreground mb-1">PD</p>
+                                                <p className="text-sm font-medium">{item.prescription_data.rightEye?.pd || '-'}</p>
+                                              </div>
+                                            )}
+                                          </div>
+
+                                          {/* Prism Section */}
+                                          {item.prescription_data.addPrism && (
+                                            <div className="border-t pt-3">
+                                              <p className="text-xs font-semibold mb-2">Prism Details:</p>
                                               
-                                              {/* Left Eye Prism */}
-                                              <div className="bg-gray-50 p-2 rounded border">
-                                                <div className="grid grid-cols-5 gap-2 text-xs text-center items-center">
-                                                  <div className="font-medium">Left</div>
-                                                  <div>{item.prescription_data.leftPrism?.verticalPrism || '-'}</div>
-                                                  <div>{item.prescription_data.leftPrism?.verticalBase || '-'}</div>
-                                                  <div>{item.prescription_data.leftPrism?.horizontalPrism || '-'}</div>
-                                                  <div>{item.prescription_data.leftPrism?.horizontalBase || '-'}</div>
+                                              <div className="space-y-2">
+                                                {/* Prism Header */}
+                                                <div className="bg-gray-800 text-white p-2 rounded">
+                                                  <div className="grid grid-cols-5 gap-2 text-xs font-semibold text-center">
+                                                    <div>Eye</div>
+                                                    <div>Vertical Prism</div>
+                                                    <div>Base Direction</div>
+                                                    <div>Horizontal Prism</div>
+                                                    <div>Base Direction</div>
+                                                  </div>
+                                                </div>
+                                                
+                                                {/* Right Eye Prism */}
+                                                <div className="bg-gray-50 p-2 rounded border">
+                                                  <div className="grid grid-cols-5 gap-2 text-xs text-center items-center">
+                                                    <div className="font-medium">Right</div>
+                                                    <div>{item.prescription_data.rightPrism?.verticalPrism || '-'}</div>
+                                                    <div>{item.prescription_data.rightPrism?.verticalBase || '-'}</div>
+                                                    <div>{item.prescription_data.rightPrism?.horizontalPrism || '-'}</div>
+                                                    <div>{item.prescription_data.rightPrism?.horizontalBase || '-'}</div>
+                                                  </div>
+                                                </div>
+                                                
+                                                {/* Left Eye Prism */}
+                                                <div className="bg-gray-50 p-2 rounded border">
+                                                  <div className="grid grid-cols-5 gap-2 text-xs text-center items-center">
+                                                    <div className="font-medium">Left</div>
+                                                    <div>{item.prescription_data.leftPrism?.verticalPrism || '-'}</div>
+                                                    <div>{item.prescription_data.leftPrism?.verticalBase || '-'}</div>
+                                                    <div>{item.prescription_data.leftPrism?.horizontalPrism || '-'}</div>
+                                                    <div>{item.prescription_data.leftPrism?.horizontalBase || '-'}</div>
+                                                  </div>
                                                 </div>
                                               </div>
                                             </div>
-                                          </div>
-                                        )}
-                                      </div>
-                                    )}
+                                          )}
+                                        </div>
+                                      )}
 
-                                    {/* Uploaded Prescription */}
-                                    {item.prescription_image_url && (
-                                      <div>
-                                        <p className="text-sm font-medium mb-2">Uploaded Prescription:</p>
-                                        <img 
-                                          src={item.prescription_image_url} 
-                                          alt="Prescription"
-                                          className="max-w-sm border rounded"
-                                        />
-                                      </div>
-                                    )}
+                                      {/* Uploaded Prescription */}
+                                      {item.prescription_image_url && (
+                                        <div>
+                                          <p className="text-sm font-medium mb-2">Uploaded Prescription:</p>
+                                          <PrescriptionFile
+                                            path={item.prescription_image_url}
+                                            className="max-w-sm border rounded"
+                                          />
+                                        </div>
+                                      )}
+
+                                      {!item.has_eyesight && !item.lens_type && (
+                                        <p className="text-sm text-muted-foreground italic">No lens configuration for this item</p>
+                                      )}
+                                    </div>
+                                  </details>
+                                </CardContent>
+                              </Card>
+                            ))}
+                          </div>
+                        </div>
 
-                                    {!item.has_eyesight && !item.lens_type && (
-                                      <p className="text-sm text-muted-foreground italic">No lens configuration for this item</p>
-                                    )}
+                        <Separator />
+
+                        {/* Payment */}
+                        <div className="space-y-3">
+                          <div className="flex items-center justify-between gap-4">
+                            <h3 className="font-semibold">Payment</h3>
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm text-muted-foreground">{PAYMENT_METHOD_LABELS[order.payment_method]}</span>
+                              <Select
+                                value={order.payment_status}
+                                onValueChange={(value) => changePaymentStatus(order, value as PaymentStatus)}
+                              >
+                                <SelectTrigger className="w-[180px]">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {PAYMENT_STATUSES.map((status) => (
+                                    <SelectItem key={status} value={status}>
+                                      {PAYMENT_STATUS_LABELS[status]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          </div>
+                          {order.payments && order.payments.length > 0 ? (
+                            <div className="rounded-md border divide-y text-sm">
+                              {order.payments.map((payment) => (
+                                <div key={payment.id} className="flex items-center justify-between gap-4 p-3">
+                                  <div>
+                                    <p className="font-medium">
+                                      Rs. {payment.amount.toLocaleString()} via {payment.provider}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                      {new Date(payment.created_at).toLocaleString()}
+                                      {payment.provider_reference && ` • Ref: ${payment.provider_reference}`}
+                                    </p>
                                   </div>
-                                </details>
-                              </CardContent>
-                            </Card>
-                          ))}
+                                  <Badge variant={payment.status === "succeeded" ? "default" : payment.status === "failed" ? "destructive" : "secondary"}>
+                                    {PAYMENT_ATTEMPT_STATUS_LABELS[payment.status]}
+                                  </Badge>
+                                </div>
+                              ))}
+                            </div>
+                          ) : (
+                            <p className="text-sm text-muted-foreground">No online payment attempts</p>
+                          )}
                         </div>
-                      </div>
 
-                      <Separator />
+                        <Separator />
 
-                      {/* Update Order Form */}
-                      <form onSubmit={updateOrder} className="space-y-4">
-                        <div className="grid grid-cols-2 gap-4">
-                          <div>
-                            <Label htmlFor="status">Order Status</Label>
-                            <Select name="status" defaultValue={order.status}>
-                              <SelectTrigger>
-                                <SelectValue />
-                              </SelectTrigger>
-                              <SelectContent>
-                                <SelectItem value="pending">Pending</SelectItem>
-                                <SelectItem value="processing">Processing</SelectItem>
-                                <SelectItem value="shipped">Shipped</SelectItem>
-                                <SelectItem value="delivered">Delivered</SelectItem>
-                                <SelectItem value="cancelled">Cancelled</SelectItem>
-                              </SelectContent>
-                            </Select>
+                        {/* Status History */}
+                        <div>
+                          <h3 className="font-semibold mb-3">Status History</h3>
+                          <OrderStatusTimeline orderId={order.id} showActor />
+                          {order.status === "cancelled" && order.cancellation_reason && (
+                            <p className="text-sm text-muted-foreground mt-3">
+                              {order.delivery_refused_at ? "Delivery refused" : "Cancellation reason"}: {order.cancellation_reason}
+                            </p>
+                          )}
+                        </div>
+
+                        <Separator />
+
+                        {/* Update Order Form */}
+                        <form onSubmit={updateOrder} className="space-y-4">
+                          <div className="grid grid-cols-2 gap-4">
+                            <div>
+                              <Label htmlFor="status">Order Status</Label>
+                              <Select name="status" defaultValue={order.status}>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {/* Cancelling goes through the dialog below so a reason is captured */}
+                                  {selectableStatuses(order.status)
+                                    .filter((status) => status !== "cancelled" || order.status === "cancelled")
+                                    .map((status) => (
+                                      <SelectItem key={status} value={status}>
+                                        {ORDER_STATUS_LABELS[status]}
+                                      </SelectItem>
+                                    ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <div>
+                              <Label htmlFor="tracking_number">Tracking Number</Label>
+                              <Input
+                                id="tracking_number"
+                                name="tracking_number"
+                                defaultValue={order.tracking_number || ""}
+                                placeholder="Enter tracking number"
+                              />
+                              <p className="text-xs text-muted-foreground mt-1">Required to mark the order as shipped</p>
+                            </div>
                           </div>
+
                           <div>
-                            <Label htmlFor="tracking_number">Tracking Number</Label>
-                            <Input
-                              id="tracking_number"
-                              name="tracking_number"
-                              defaultValue={order.tracking_number || ""}
-                              placeholder="Enter tracking number"
+                            <Label htmlFor="note">Note</Label>
+                            <Textarea
+                              id="note"
+                              name="note"
+                              rows={2}
+                              placeholder="Optional, shown to the customer with the status change"
                             />
                           </div>
-                        </div>
-                        
-                        <div className="flex gap-2">
-                          <Button type="submit" className="flex-1">
-                            Update Order
-                          </Button>
-                          <Button 
-                            type="button" 
-                            variant="outline" 
-                            onClick={() => printInvoice(order)}
-                            className="flex-1"
-                          >
-                            <Printer className="h-4 w-4 mr-2" />
-                            Print Invoice
-                          </Button>
-                        </div>
-                      </form>
+                          
+                          <div className="flex gap-2">
+                            <Button type="submit" className="flex-1">
+                              Update Order
+                            </Button>
+                            <Button 
+                              type="button" 
+                              variant="outline" 
+                              onClick={() => printInvoice(order)}
+                              className="flex-1"
+                            >
+                              <Printer className="h-4 w-4 mr-2" />
+                              Print Invoice
+                            </Button>
+                            {isCancellable(order.status) && (
+                              <CancelOrderDialog
+                                orderId={order.id}
+                                orderNumber={order.order_number}
+                                onCancelled={() => {
+                                  setIsDialogOpen(false);
+                                  fetchOrders();
+                                }}
+                              />
+                            )}
+                            {order.status === "shipped" && (
+                              <RefusedDeliveryDialog
+                                orderId={order.id}
+                                orderNumber={order.order_number}
+                                onRefused={() => {
+                                  setIsDialogOpen(false);
+                                  fetchOrders();
+                                }}
+                              />
+                            )}
+                          </div>
+                        </form>
 
-                      <div className="text-right">
-                        <p className="text-lg font-bold">Total: Rs. {order.total?.toLocaleString() || '0'}</p>
+                        <div className="text-right">
+                          <p className="text-lg font-bold">Total: Rs. {order.total?.toLocaleString() || '0'}</p>
+                        </div>
                       </div>
-                    </div>
-                  </DialogContent>
-                </Dialog>
+                    </DialogContent>
+                  </Dialog>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { toast } from "sonner";
 import { Plus, Edit, Trash2, ArrowLeft, Upload, X } from "lucide-react";
+import { formatFrameSize, MEASUREMENT_RANGES } from "@/lib/frame-specs";
 
 interface Variant {
   id: string;
@@ -15,6 +16,10 @@ interface Variant {
   color: string | null;
   size: string | null;
   material: string | null;
+  lens_width: number | null;
+  bridge_width: number | null;
+  temple_length: number | null;
+  try_on_image: string | null;
   stock: number;
   price_adjustment: number;
   images: string[];
@@ -28,6 +33,7 @@ const ProductVariants = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingVariant, setEditingVariant] = useState<Variant | null>(null);
   const [uploadedImages, setUploadedImages] = useState<string[]>([]);
+  const [tryOnImage, setTryOnImage] = useState<string | null>(null);
   const [uploading, setUploading] = useState(false);
 
   useEffect(() => {
@@ -85,6 +91,26 @@ const ProductVariants = () => {
     }
   };
 
+  // The try-on overlay needs a transparent background, so only PNGs are accepted
+  const handleTryOnUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (file.type !== "image/png") {
+      toast.error("Try-on images must be transparent PNGs");
+      return;
+    }
+
+    setUploading(true);
+    try {
+      setTryOnImage(await uploadImage(file));
+      toast.success("Try-on image uploaded");
+    } catch (error) {
+      toast.error("Failed to upload try-on image");
+    } finally {
+      setUploading(false);
+    }
+  };
+
   const removeImage = (index: number) => {
     setUploadedImages(uploadedImages.filter((_, i) => i !== index));
   };
@@ -92,6 +118,10 @@ const ProductVariants = () => {
   const saveVariant = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
+    const millimetres = (name: string) => {
+      const value = formData.get(name) as string;
+      return value ? Number(value) : null;
+    };
 
     const variantData = {
       product_id: productId!,
@@ -99,9 +129,13 @@ const ProductVariants = () => {
       color: formData.get("color") as string || null,
       size: formData.get("size") as string || null,
       material: formData.get("material") as string || null,
+      lens_width: millimetres("lens_width"),
+      bridge_width: millimetres("bridge_width"),
+      temple_length: millimetres("temple_length"),
       stock: Number(formData.get("stock")),
       price_adjustment: Number(formData.get("price_adjustment")),
-      images: uploadedImages
+      images: uploadedImages,
+      try_on_image: tryOnImage
     };
 
     if (editingVariant) {
@@ -117,6 +151,7 @@ const ProductVariants = () => {
         setIsDialogOpen(false);
         setEditingVariant(null);
         setUploadedImages([]);
+        setTryOnImage(null);
         fetchVariants();
       }
     } else {
@@ -130,6 +165,7 @@ const ProductVariants = () => {
         toast.success("Variant created");
         setIsDialogOpen(false);
         setUploadedImages([]);
+        setTryOnImage(null);
         fetchVariants();
       }
     }
@@ -151,11 +187,18 @@ const ProductVariants = () => {
     }
   };
 
+  const frameSize = (variant: Variant) =>
+    formatFrameSize({
+      lensWidth: variant.lens_width,
+      bridgeWidth: variant.bridge_width,
+      templeLength: variant.temple_length,
+    });
+
   if (loading) return <div className="p-8">Loading...</div>;
 
   return (
-    <div className="container mx-auto p-6">
-      <div className="flex items-center justify-between mb-6">
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
           <Button variant="outline" onClick={() => navigate("/admin/products")}>
             <ArrowLeft className="h-4 w-4 mr-2" />
@@ -168,12 +211,14 @@ const ProductVariants = () => {
           if (!open) {
             setEditingVariant(null);
             setUploadedImages([]);
+            setTryOnImage(null);
           }
         }}>
           <DialogTrigger asChild>
             <Button onClick={() => {
               setEditingVariant(null);
               setUploadedImages([]);
+              setTryOnImage(null);
             }}>
               <Plus className="h-4 w-4 mr-2" />
               Add Variant
@@ -208,6 +253,41 @@ const ProductVariants = () => {
                   <Input id="material" name="material" defaultValue={editingVariant?.material || ""} />
                 </div>
               </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="lens_width">Lens Width (mm)</Label>
+                  <Input
+                    id="lens_width"
+                    name="lens_width"
+                    type="number"
+                    min={MEASUREMENT_RANGES.lensWidth.min}
+                    max={MEASUREMENT_RANGES.lensWidth.max}
+                    defaultValue={editingVariant?.lens_width ?? ""}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="bridge_width">Bridge Width (mm)</Label>
+                  <Input
+                    id="bridge_width"
+                    name="bridge_width"
+                    type="number"
+                    min={MEASUREMENT_RANGES.bridgeWidth.min}
+                    max={MEASUREMENT_RANGES.bridgeWidth.max}
+                    defaultValue={editingVariant?.bridge_width ?? ""}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="temple_length">Temple Length (mm)</Label>
+                  <Input
+                    id="temple_length"
+                    name="temple_length"
+                    type="number"
+                    min={MEASUREMENT_RANGES.templeLength.min}
+                    max={MEASUREMENT_RANGES.templeLength.max}
+                    defaultValue={editingVariant?.temple_length ?? ""}
+                  />
+                </div>
+              </div>
               <div>
                 <Label htmlFor="price_adjustment">Price Adjustment (Rs.)</Label>
                 <Input
@@ -257,6 +337,40 @@ const ProductVariants = () => {
                   )}
                 </div>
               </div>
+              <div>
+                <Label htmlFor="try_on_image">Try-On Image</Label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Front view of the frame as a transparent PNG, cropped to the frame's outer edges.
+                </p>
+                <div className="space-y-3">
+                  <Input
+                    id="try_on_image"
+                    type="file"
+                    accept="image/png"
+                    onChange={handleTryOnUpload}
+                    disabled={uploading}
+                    className="cursor-pointer"
+                  />
+                  {tryOnImage && (
+                    <div className="relative group w-fit">
+                      <img
+                        src={tryOnImage}
+                        alt="Try-on frame"
+                        className="h-24 object-contain rounded border bg-muted p-2"
+                      />
+                      <Button
+                        type="button"
+                        variant="destructive"
+                        size="icon"
+                        className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                        onClick={() => setTryOnImage(null)}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
               <Button type="submit" className="w-full">
                 {editingVariant ? "Update Variant" : "Create Variant"}
               </Button>
@@ -278,6 +392,8 @@ const ProductVariants = () => {
                 {variant.color && <p className="text-sm">Color: {variant.color}</p>}
                 {variant.size && <p className="text-sm">Size: {variant.size}</p>}
                 {variant.material && <p className="text-sm">Material: {variant.material}</p>}
+                {frameSize(variant) && <p className="text-sm">Frame Size: {frameSize(variant)}</p>}
+                {variant.try_on_image && <p className="text-sm text-muted-foreground">Virtual try-on ready</p>}
                 {variant.price_adjustment !== 0 && (
                   <p className="text-sm">Price Adj: Rs. {variant.price_adjustment}</p>
                 )}
@@ -289,6 +405,7 @@ const ProductVariants = () => {
                     onClick={() => {
                       setEditingVariant(variant);
                       setUploadedImages(variant.images || []);
+                      setTryOnImage(variant.try_on_image);
                       setIsDialogOpen(true);
                     }}
                   >
@@ -12,6 +12,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { toast } from "sonner";
 import { Plus, Edit, Trash2, Loader2, Package, Upload, X, Image as ImageIcon } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import AuditHistory from "@/components/AuditHistory";
+import {
+  FACE_FIT_LABELS,
+  FRAME_SHAPE_LABELS,
+  RIM_TYPE_LABELS,
+  type FaceFit,
+  type FrameShape,
+  type RimType,
+} from "@/lib/frame-specs";
 
 interface Product {
   id: string;
@@ -24,6 +33,9 @@ interface Product {
   is_featured: boolean;
   has_lens_options: boolean;
   category_id: string | null;
+  frame_shape: FrameShape | null;
+  rim_type: RimType | null;
+  face_fit: FaceFit | null;
   category?: { name: string };
 }
 
@@ -136,12 +148,20 @@ const ProductsManagement = () => {
     const formData = new FormData(e.currentTarget);
 
     const categoryId = formData.get("category_id") as string;
+    // Spec selects post "none" when left unset
+    const spec = <T extends string>(name: string) => {
+      const value = formData.get(name) as string | null;
+      return !value || value === "none" ? null : (value as T);
+    };
     const productData = {
       title: formData.get("title") as string,
       slug: (formData.get("title") as string).toLowerCase().replace(/\s+/g, "-"),
       description: formData.get("description") as string,
       base_price: Number(formData.get("base_price")),
       category_id: categoryId === "none" ? null : categoryId,
+      frame_shape: spec<FrameShape>("frame_shape"),
+      rim_type: spec<RimType>("rim_type"),
+      face_fit: spec<FaceFit>("face_fit"),
       is_active: formData.get("is_active") === "on",
       is_featured: formData.get("is_featured") === "on",
       has_lens_options: formData.get("has_lens_options") === "on",
@@ -255,6 +275,59 @@ const ProductsManagement = () => {
                   </SelectContent>
                 </Select>
               </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="frame_shape">Frame Shape</Label>
+                  <Select name="frame_shape" defaultValue={editingProduct?.frame_shape || "none"}>
+                    <SelectTrigger id="frame_shape">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not set</SelectItem>
+                      {(Object.keys(FRAME_SHAPE_LABELS) as FrameShape[]).map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {FRAME_SHAPE_LABELS[value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="rim_type">Rim Type</Label>
+                  <Select name="rim_type" defaultValue={editingProduct?.rim_type || "none"}>
+                    <SelectTrigger id="rim_type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not set</SelectItem>
+                      {(Object.keys(RIM_TYPE_LABELS) as RimType[]).map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {RIM_TYPE_LABELS[value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="face_fit">Face Size</Label>
+                  <Select name="face_fit" defaultValue={editingProduct?.face_fit || "none"}>
+                    <SelectTrigger id="face_fit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not set</SelectItem>
+                      {(Object.keys(FACE_FIT_LABELS) as FaceFit[]).map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {FACE_FIT_LABELS[value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground -mt-2">
+                Lens width, bridge and temple length are set per variant.
+              </p>
               <div>
                 <Label>Product Images</Label>
                 <div className="space-y-3 mt-2">
@@ -392,6 +465,12 @@ const ProductsManagement = () => {
                     >
                       <Trash2 className="h-4 w-4" />
                     </Button>
+                    <AuditHistory
+                      tableName="products"
+                      recordId={product.id}
+                      title={product.title}
+                      related={{ tableName: "product_variants", foreignKey: "product_id" }}
+                    />
                   </div>
                   <Button
                     variant="secondary"
@@ -0,0 +1,395 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Eye, Loader2 } from "lucide-react";
+import AuditHistory from "@/components/AuditHistory";
+import {
+  getReturnPhotoUrls,
+  nextReturnStatuses,
+  RETURN_STATUS_LABELS,
+  RETURN_TYPE_LABELS,
+  updateReturnStatus,
+  type ReturnRequest,
+  type ReturnStatus,
+} from "@/lib/returns";
+
+type ReturnRow = ReturnRequest & {
+  order: { order_number: string; delivered_at: string | null } | null;
+  customer: { full_name: string | null; email: string } | null;
+  order_item: {
+    unit_price: number;
+    product: { title: string } | null;
+    variant: { color: string | null; size: string | null; sku: string } | null;
+  } | null;
+  exchange_variant: { color: string | null; size: string | null; sku: string } | null;
+  replacement_order: { order_number: string } | null;
+};
+
+const ACTION_LABELS: Partial<Record<ReturnStatus, string>> = {
+  approved: "Approve",
+  rejected: "Reject",
+  received: "Mark Received",
+  refunded: "Mark Refunded",
+  exchanged: "Send Replacement",
+};
+
+const statusBadgeVariant = (status: ReturnStatus) =>
+  status === "rejected" ? "destructive" : status === "refunded" || status === "exchanged" ? "default" : "secondary";
+
+const variantLabel = (variant: { color: string | null; size: string | null; sku: string } | null) =>
+  variant ? [variant.color, variant.size].filter(Boolean).join(" / ") || variant.sku : "";
+
+const ReturnPhotos = ({ paths }: { paths: string[] }) => {
+  const [urls, setUrls] = useState<(string | null)[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getReturnPhotoUrls(paths).then((signed) => {
+      if (!cancelled) setUrls(signed);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [paths]);
+
+  if (paths.length === 0) {
+    return <p className="text-sm text-muted-foreground">No photos attached</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {urls.map((url, index) =>
+        url ? (
+          <a key={paths[index]} href={url} target="_blank" rel="noopener noreferrer">
+            <img src={url} alt={`Return photo ${index + 1}`} className="h-24 w-24 object-cover rounded border" />
+          </a>
+        ) : (
+          <div key={paths[index]} className="h-24 w-24 rounded border bg-muted" />
+        )
+      )}
+    </div>
+  );
+};
+
+const Returns = () => {
+  const [returns, setReturns] = useState<ReturnRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<string>("open");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReference, setRefundReference] = useState("");
+  const [updating, setUpdating] = useState<ReturnStatus | null>(null);
+
+  const selectedReturn = returns.find((r) => r.id === selectedId) || null;
+
+  useEffect(() => {
+    fetchReturns();
+  }, []);
+
+  const fetchReturns = async () => {
+    const { data, error } = await supabase
+      .from("return_requests")
+      .select(
+        `*,
+        order:orders!return_requests_order_id_fkey(order_number, delivered_at),
+        customer:profiles!return_requests_user_id_fkey(full_name, email),
+        order_item:order_items(unit_price, product:products(title), variant:product_variants(color, size, sku)),
+        exchange_variant:product_variants(color, size, sku),
+        replacement_order:orders!return_requests_replacement_order_id_fkey(order_number)`
+      )
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast.error("Failed to load returns");
+      console.error(error);
+    } else {
+      setReturns(data || []);
+    }
+    setLoading(false);
+  };
+
+  const filteredReturns = returns.filter((r) => {
+    if (statusFilter === "all") return true;
+    if (statusFilter === "open") return r.status === "requested" || r.status === "approved" || r.status === "received";
+    return r.status === statusFilter;
+  });
+
+  const openReturn = (r: ReturnRow) => {
+    setSelectedId(r.id);
+    setNote("");
+    setRefundAmount(String((r.order_item?.unit_price || 0) * r.quantity));
+    setRefundReference("");
+  };
+
+  const moveTo = async (status: ReturnStatus) => {
+    if (!selectedReturn) return;
+
+    setUpdating(status);
+    try {
+      await updateReturnStatus(selectedReturn.id, status, {
+        note,
+        refundAmount: status === "refunded" ? Number(refundAmount) : undefined,
+        refundReference: status === "refunded" ? refundReference : undefined,
+      });
+      toast.success(`Return ${selectedReturn.return_number} ${RETURN_STATUS_LABELS[status].toLowerCase()}`);
+      setNote("");
+      await fetchReturns();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update return");
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-semibold">Returns</h2>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="all">All Returns</SelectItem>
+            {(Object.keys(RETURN_STATUS_LABELS) as ReturnStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>
+                {RETURN_STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Return</TableHead>
+                <TableHead>Order</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-[80px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredReturns.map((r) => (
+                <TableRow key={r.id}>
+                  <TableCell>
+                    <div className="font-medium">{r.return_number}</div>
+                    <div className="text-xs text-muted-foreground">{new Date(r.created_at).toLocaleDateString()}</div>
+                  </TableCell>
+                  <TableCell>{r.order?.order_number}</TableCell>
+                  <TableCell>{r.customer?.full_name || r.customer?.email || "Unknown"}</TableCell>
+                  <TableCell>
+                    {r.quantity} × {r.order_item?.product?.title || "Item"}
+                  </TableCell>
+                  <TableCell>{RETURN_TYPE_LABELS[r.type]}</TableCell>
+                  <TableCell>
+                    <Badge variant={statusBadgeVariant(r.status)}>{RETURN_STATUS_LABELS[r.status]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="outline" size="sm" onClick={() => openReturn(r)}>
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {filteredReturns.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                    No returns found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={selectedReturn !== null} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {selectedReturn && (
+            <>
+              <DialogHeader>
+                <div className="flex items-center justify-between gap-2 pr-6">
+                  <DialogTitle>
+                    {RETURN_TYPE_LABELS[selectedReturn.type]} {selectedReturn.return_number}
+                  </DialogTitle>
+                  <AuditHistory
+                    tableName="return_requests"
+                    recordId={selectedReturn.id}
+                    title={`Return ${selectedReturn.return_number}`}
+                  />
+                </div>
+              </DialogHeader>
+
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Order</p>
+                    <p className="font-medium">{selectedReturn.order?.order_number}</p>
+                    {selectedReturn.order?.delivered_at && (
+                      <p className="text-xs text-muted-foreground">
+                        Delivered {new Date(selectedReturn.order.delivered_at).toLocaleDateString()}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Customer</p>
+                    <p className="font-medium">{selectedReturn.customer?.full_name || "Unknown"}</p>
+                    <p className="text-xs text-muted-foreground">{selectedReturn.customer?.email}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Item</p>
+                    <p className="font-medium">
+                      {selectedReturn.quantity} × {selectedReturn.order_item?.product?.title || "Item"}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {variantLabel(selectedReturn.order_item?.variant || null)} · Rs.{" "}
+                      {selectedReturn.order_item?.unit_price.toLocaleString()} each
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Status</p>
+                    <Badge variant={statusBadgeVariant(selectedReturn.status)}>
+                      {RETURN_STATUS_LABELS[selectedReturn.status]}
+                    </Badge>
+                  </div>
+                  {selectedReturn.type === "exchange" && (
+                    <div>
+                      <p className="text-muted-foreground">Exchange For</p>
+                      <p className="font-medium">
+                        {selectedReturn.exchange_variant ? variantLabel(selectedReturn.exchange_variant) : "The same frame"}
+                      </p>
+                    </div>
+                  )}
+                  {selectedReturn.replacement_order && (
+                    <div>
+                      <p className="text-muted-foreground">Replacement Order</p>
+                      <p className="font-medium">{selectedReturn.replacement_order.order_number}</p>
+                    </div>
+                  )}
+                  {selectedReturn.refund_amount !== null && (
+                    <div>
+                      <p className="text-muted-foreground">Refunded</p>
+                      <p className="font-medium">Rs. {selectedReturn.refund_amount.toLocaleString()}</p>
+                      {selectedReturn.refund_reference && (
+                        <p className="text-xs text-muted-foreground">Ref: {selectedReturn.refund_reference}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <div className="text-sm">
+                  <p className="text-muted-foreground">Reason</p>
+                  <p className="font-medium">{selectedReturn.reason}</p>
+                  {selectedReturn.details && <p className="mt-1 whitespace-pre-wrap">{selectedReturn.details}</p>}
+                </div>
+
+                <div>
+                  <p className="text-sm text-muted-foreground mb-2">Photos</p>
+                  <ReturnPhotos paths={selectedReturn.photo_paths} />
+                </div>
+
+                <div className="text-xs text-muted-foreground space-y-1">
+                  <p>Requested {new Date(selectedReturn.created_at).toLocaleString()}</p>
+                  {selectedReturn.approved_at && <p>Approved {new Date(selectedReturn.approved_at).toLocaleString()}</p>}
+                  {selectedReturn.received_at && <p>Received {new Date(selectedReturn.received_at).toLocaleString()}</p>}
+                  {selectedReturn.resolved_at && <p>Closed {new Date(selectedReturn.resolved_at).toLocaleString()}</p>}
+                  {selectedReturn.staff_note && <p>Note: {selectedReturn.staff_note}</p>}
+                </div>
+
+                {nextReturnStatuses(selectedReturn).length > 0 && (
+                  <>
+                    <Separator />
+                    <div className="space-y-4">
+                      {nextReturnStatuses(selectedReturn).includes("refunded") && (
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <Label htmlFor="refund_amount">Refund Amount (Rs.)</Label>
+                            <Input
+                              id="refund_amount"
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              value={refundAmount}
+                              onChange={(e) => setRefundAmount(e.target.value)}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="refund_reference">Refund Reference</Label>
+                            <Input
+                              id="refund_reference"
+                              value={refundReference}
+                              onChange={(e) => setRefundReference(e.target.value)}
+                              placeholder="Transaction ID"
+                            />
+                          </div>
+                        </div>
+                      )}
+
+                      <div>
+                        <Label htmlFor="return_note">Note</Label>
+                        <Textarea
+                          id="return_note"
+                          value={note}
+                          onChange={(e) => setNote(e.target.value)}
+                          rows={2}
+                          placeholder="Optional, shown to the customer"
+                        />
+                      </div>
+
+                      {selectedReturn.status === "approved" && (
+                        <p className="text-xs text-muted-foreground">Marking the item received puts it back into stock.</p>
+                      )}
+
+                      <div className="flex gap-2">
+                        {nextReturnStatuses(selectedReturn).map((status) => (
+                          <Button
+                            key={status}
+                            className="flex-1"
+                            variant={status === "rejected" ? "destructive" : "default"}
+                            disabled={updating !== null}
+                            onClick={() => moveTo(status)}
+                          >
+                            {updating === status && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            {ACTION_LABELS[status]}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Returns;
@@ -3,18 +3,22 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
 import PagesManagement from "./Pages";
+import { BANK_DETAILS_SETTING_KEY, EMPTY_BANK_DETAILS, type BankDetails } from "@/lib/bank-transfer";
+import { COD_RULES_SETTING_KEY, DEFAULT_COD_RULES, type CodRules } from "@/lib/cod";
 
-interface LogoSetting {
+type LogoSetting = {
   type: 'text' | 'image';
   text?: string;
   url?: string;
-}
+};
 
 const Settings = () => {
   const { toast } = useToast();
@@ -25,6 +29,11 @@ const Settings = () => {
   const [headerLogo, setHeaderLogo] = useState<LogoSetting>({ type: 'text', text: 'Tashna Eyewear' });
   const [footerLogo, setFooterLogo] = useState<LogoSetting>({ type: 'text', text: 'Tashna Eyewear' });
   const [seoLogo, setSeoLogo] = useState<string>('/tashna-logo.png');
+  const [bankDetails, setBankDetails] = useState<BankDetails>(EMPTY_BANK_DETAILS);
+  const [savingBank, setSavingBank] = useState(false);
+  const [codRules, setCodRules] = useState<CodRules>(DEFAULT_COD_RULES);
+  const [excludedCities, setExcludedCities] = useState('');
+  const [savingCod, setSavingCod] = useState(false);
 
   useEffect(() => {
     fetchSettings();
@@ -32,11 +41,10 @@ const Settings = () => {
 
   const fetchSettings = async () => {
     try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { data, error } = await (supabase as any)
+      const { data, error } = await supabase
         .from('site_settings')
         .select('*')
-        .in('setting_key', ['header_logo', 'footer_logo', 'seo_logo']);
+        .in('setting_key', ['header_logo', 'footer_logo', 'seo_logo', BANK_DETAILS_SETTING_KEY, COD_RULES_SETTING_KEY]);
 
       if (error) {
         console.error('Error fetching settings:', error);
@@ -46,13 +54,19 @@ const Settings = () => {
       }
 
       if (data && data.length > 0) {
-        data.forEach((setting: { setting_key: string; setting_value: LogoSetting | { url: string } }) => {
+        data.forEach((setting) => {
           if (setting.setting_key === 'header_logo') {
             setHeaderLogo(setting.setting_value as LogoSetting);
           } else if (setting.setting_key === 'footer_logo') {
             setFooterLogo(setting.setting_value as LogoSetting);
           } else if (setting.setting_key === 'seo_logo') {
             setSeoLogo((setting.setting_value as { url: string }).url);
+          } else if (setting.setting_key === BANK_DETAILS_SETTING_KEY) {
+            setBankDetails({ ...EMPTY_BANK_DETAILS, ...(setting.setting_value as BankDetails) });
+          } else if (setting.setting_key === COD_RULES_SETTING_KEY) {
+            const rules = { ...DEFAULT_COD_RULES, ...(setting.setting_value as CodRules) };
+            setCodRules(rules);
+            setExcludedCities(rules.excluded_cities.join(', '));
           }
         });
       }
@@ -140,8 +154,7 @@ const Settings = () => {
         { setting_key: 'seo_logo', setting_value: { url: seoLogo } }
       ];
 
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { error } = await (supabase as any)
+      const { error } = await supabase
         .from('site_settings')
         .upsert(updates, { onConflict: 'setting_key' });
 
@@ -163,6 +176,62 @@ const Settings = () => {
     }
   };
 
+  const saveBankDetails = async () => {
+    setSavingBank(true);
+    try {
+      const { error } = await supabase
+        .from('site_settings')
+        .upsert({ setting_key: BANK_DETAILS_SETTING_KEY, setting_value: bankDetails }, { onConflict: 'setting_key' });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Bank details saved successfully"
+      });
+    } catch (error) {
+      console.error('Error saving bank details:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save bank details",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingBank(false);
+    }
+  };
+
+  const saveCodRules = async () => {
+    setSavingCod(true);
+    try {
+      const rules: CodRules = {
+        ...codRules,
+        excluded_cities: excludedCities.split(/[,\n]/).map((city) => city.trim()).filter(Boolean),
+      };
+
+      const { error } = await supabase
+        .from('site_settings')
+        .upsert({ setting_key: COD_RULES_SETTING_KEY, setting_value: rules }, { onConflict: 'setting_key' });
+
+      if (error) throw error;
+
+      setCodRules(rules);
+      toast({
+        title: "Success",
+        description: "Cash on delivery rules saved successfully"
+      });
+    } catch (error) {
+      console.error('Error saving COD rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save cash on delivery rules",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingCod(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -178,6 +247,8 @@ const Settings = () => {
       <Tabs defaultValue="logos" className="space-y-6">
         <TabsList>
           <TabsTrigger value="logos">Logo Settings</TabsTrigger>
+          <TabsTrigger value="bank">Bank Details</TabsTrigger>
+          <TabsTrigger value="cod">Cash on Delivery</TabsTrigger>
           <TabsTrigger value="pages">Pages Management</TabsTrigger>
         </TabsList>
 
@@ -314,6 +385,130 @@ const Settings = () => {
           </Button>
         </TabsContent>
 
+        <TabsContent value="bank" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Bank Transfer Details</CardTitle>
+              <CardDescription>Shown to customers who pay by bank transfer, alongside the receipt upload form</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <Label htmlFor="bank-name">Bank Name</Label>
+                  <Input
+                    id="bank-name"
+                    value={bankDetails.bank_name}
+                    onChange={(e) => setBankDetails({ ...bankDetails, bank_name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="bank-account-title">Account Title</Label>
+                  <Input
+                    id="bank-account-title"
+                    value={bankDetails.account_title}
+                    onChange={(e) => setBankDetails({ ...bankDetails, account_title: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="bank-account-number">Account Number</Label>
+                  <Input
+                    id="bank-account-number"
+                    value={bankDetails.account_number}
+                    onChange={(e) => setBankDetails({ ...bankDetails, account_number: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="bank-iban">IBAN</Label>
+                  <Input
+                    id="bank-iban"
+                    value={bankDetails.iban}
+                    onChange={(e) => setBankDetails({ ...bankDetails, iban: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="bank-instructions">Instructions</Label>
+                <Textarea
+                  id="bank-instructions"
+                  value={bankDetails.instructions}
+                  onChange={(e) => setBankDetails({ ...bankDetails, instructions: e.target.value })}
+                  placeholder="Please use your order number as the payment reference."
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Button onClick={saveBankDetails} disabled={savingBank} size="lg" className="w-full">
+            {savingBank && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Bank Details
+          </Button>
+        </TabsContent>
+
+        <TabsContent value="cod" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Cash on Delivery Rules</CardTitle>
+              <CardDescription>Checked at checkout; customers who don't meet them must pay another way</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <Label htmlFor="cod-max-value">Maximum Order Value (Rs.)</Label>
+                  <Input
+                    id="cod-max-value"
+                    type="number"
+                    min="0"
+                    value={codRules.max_order_value ?? ''}
+                    onChange={(e) => setCodRules({ ...codRules, max_order_value: e.target.value === '' ? null : Number(e.target.value) })}
+                    placeholder="No limit"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="cod-max-refused">Refused Deliveries Allowed</Label>
+                  <Input
+                    id="cod-max-refused"
+                    type="number"
+                    min="1"
+                    value={codRules.max_refused_deliveries ?? ''}
+                    onChange={(e) => setCodRules({ ...codRules, max_refused_deliveries: e.target.value === '' ? null : Number(e.target.value) })}
+                    placeholder="Never block"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Customers with this many refused deliveries (by account or phone number) can no longer pay on delivery
+                  </p>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="cod-excluded-cities">Excluded Cities</Label>
+                <Textarea
+                  id="cod-excluded-cities"
+                  value={excludedCities}
+                  onChange={(e) => setExcludedCities(e.target.value)}
+                  placeholder="Separate cities with commas"
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="cod-require-otp">Require Phone Verification</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Customers confirm their delivery number with a one-time SMS code. Needs an SMS provider in Supabase Auth.
+                  </p>
+                </div>
+                <Switch
+                  id="cod-require-otp"
+                  checked={codRules.require_otp}
+                  onCheckedChange={(checked) => setCodRules({ ...codRules, require_otp: checked })}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Button onClick={saveCodRules} disabled={savingCod} size="lg" className="w-full">
+            {savingCod && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Cash on Delivery Rules
+          </Button>
+        </TabsContent>
+
         <TabsContent value="pages">
           <PagesManagement />
         </TabsContent>
@@ -0,0 +1,287 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Check, Loader2, Plus, X } from "lucide-react";
+import {
+  PERMISSION_LABELS,
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  STAFF_ROLES,
+  type AppPermission,
+  type AppRole,
+} from "@/lib/roles";
+
+interface StaffMember {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  roles: AppRole[];
+}
+
+const PERMISSIONS = Object.keys(PERMISSION_LABELS) as AppPermission[];
+
+const StaffManagement = () => {
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [rolePermissions, setRolePermissions] = useState<Record<string, AppPermission[]>>({});
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [newRole, setNewRole] = useState<AppRole>("fulfilment");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchStaff();
+  }, []);
+
+  const fetchStaff = async () => {
+    const [staffRes, permissionsRes, userRes] = await Promise.all([
+      supabase.rpc("list_staff"),
+      supabase.from("role_permissions").select("*"),
+      supabase.auth.getUser(),
+    ]);
+
+    if (staffRes.error) {
+      toast.error("Failed to load staff");
+      console.error(staffRes.error);
+    } else {
+      setStaff(staffRes.data || []);
+    }
+
+    const byRole: Record<string, AppPermission[]> = {};
+    (permissionsRes.data || []).forEach(({ role, permission }) => {
+      byRole[role] = [...(byRole[role] || []), permission];
+    });
+    setRolePermissions(byRole);
+    setCurrentUserId(userRes.data.user?.id ?? null);
+    setLoading(false);
+  };
+
+  const addStaffMember = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const email = String(formData.get("email") || "").trim();
+
+    setSaving(true);
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("id")
+      .ilike("email", email)
+      .maybeSingle();
+
+    if (!profile) {
+      toast.error("No account uses that email. Ask them to sign up first.");
+      setSaving(false);
+      return;
+    }
+
+    await grantRole(profile.id, newRole);
+    setSaving(false);
+    setIsDialogOpen(false);
+  };
+
+  const grantRole = async (userId: string, role: AppRole) => {
+    const { error } = await supabase.from("user_roles").insert({ user_id: userId, role });
+
+    if (error?.code === "23505") {
+      toast.error(`They are already ${ROLE_LABELS[role].toLowerCase()}`);
+    } else if (error) {
+      toast.error("Failed to assign role");
+      console.error(error);
+    } else {
+      toast.success(`${ROLE_LABELS[role]} role assigned`);
+      fetchStaff();
+    }
+  };
+
+  const revokeRole = async (member: StaffMember, role: AppRole) => {
+    if (!confirm(`Remove the ${ROLE_LABELS[role]} role from ${member.email}?`)) return;
+
+    const { error } = await supabase
+      .from("user_roles")
+      .delete()
+      .eq("user_id", member.user_id)
+      .eq("role", role);
+
+    if (error) {
+      toast.error(error.message || "Failed to remove role");
+      console.error(error);
+    } else {
+      toast.success(`${ROLE_LABELS[role]} role removed`);
+      fetchStaff();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-semibold">Staff</h2>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Staff Member
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add Staff Member</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={addStaffMember} className="space-y-4">
+              <div>
+                <Label htmlFor="email">Account Email</Label>
+                <Input id="email" name="email" type="email" required placeholder="name@example.com" />
+                <p className="text-xs text-muted-foreground mt-1">They need to have signed up already</p>
+              </div>
+              <div>
+                <Label htmlFor="role">Role</Label>
+                <Select value={newRole} onValueChange={(value) => setNewRole(value as AppRole)}>
+                  <SelectTrigger id="role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STAFF_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {ROLE_LABELS[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">{ROLE_DESCRIPTIONS[newRole]}</p>
+              </div>
+              <Button type="submit" className="w-full" disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Assign Role
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Roles</TableHead>
+                <TableHead className="w-[200px]">Add Role</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {staff.map((member) => {
+                const missingRoles = STAFF_ROLES.filter((role) => !member.roles.includes(role));
+                return (
+                  <TableRow key={member.user_id}>
+                    <TableCell className="font-medium">{member.full_name || "N/A"}</TableCell>
+                    <TableCell>{member.email}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {member.roles.filter((role) => STAFF_ROLES.includes(role)).map((role) => {
+                          // Admins cannot take away their own admin access
+                          const locked = role === "admin" && member.user_id === currentUserId;
+                          return (
+                            <Badge key={role} variant={role === "admin" ? "default" : "secondary"} className="gap-1">
+                              {ROLE_LABELS[role]}
+                              {!locked && (
+                                <button
+                                  type="button"
+                                  onClick={() => revokeRole(member, role)}
+                                  aria-label={`Remove ${ROLE_LABELS[role]} role`}
+                                >
+                                  <X className="h-3 w-3" />
+                                </button>
+                              )}
+                            </Badge>
+                          );
+                        })}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {missingRoles.length > 0 && (
+                        <Select value="" onValueChange={(value) => grantRole(member.user_id, value as AppRole)}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Add role" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {missingRoles.map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {ROLE_LABELS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {staff.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                    No staff members yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>What each role can do</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Role</TableHead>
+                {PERMISSIONS.map((permission) => (
+                  <TableHead key={permission} className="text-center">
+                    {PERMISSION_LABELS[permission]}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {STAFF_ROLES.map((role) => (
+                <TableRow key={role}>
+                  <TableCell>
+                    <div className="font-medium">{ROLE_LABELS[role]}</div>
+                    <div className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</div>
+                  </TableCell>
+                  {PERMISSIONS.map((permission) => (
+                    <TableCell key={permission} className="text-center">
+                      {rolePermissions[role]?.includes(permission) && (
+                        <Check className="h-4 w-4 mx-auto text-primary" />
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StaffManagement;
@@ -0,0 +1,53 @@
+import type { PaymentProvider } from "./types.ts";
+import { requireEnv } from "./types.ts";
+import { hmacSha256Hex, safeEqual } from "./crypto.ts";
+
+/**
+ * Card payments through the acquiring bank's hosted payment page. Both
+ * directions carry `signature`, an HMAC-SHA256 (hex, keyed by CARD_SECRET)
+ * over the other fields as sorted key=value pairs joined with "&".
+ */
+
+const sign = (fields: Record<string, string>) =>
+  hmacSha256Hex(
+    requireEnv("CARD_SECRET"),
+    Object.keys(fields)
+      .filter((key) => key !== "signature")
+      .sort()
+      .map((key) => `${key}=${fields[key]}`)
+      .join("&")
+  );
+
+export const cardProvider: PaymentProvider = {
+  id: "card",
+
+  async createRedirect(request) {
+    const fields: Record<string, string> = {
+      merchant_id: requireEnv("CARD_MERCHANT_ID"),
+      order_id: request.paymentId,
+      amount: request.amount.toFixed(2),
+      currency: request.currency,
+      description: `Order ${request.orderNumber}`,
+      customer_email: request.email || "",
+      return_url: request.callbackUrl,
+    };
+    fields.signature = await sign(fields);
+
+    return { url: requireEnv("CARD_CHECKOUT_URL"), method: "POST", fields };
+  },
+
+  async verifyCallback(params) {
+    // The callback URL's own query parameters are not part of the signed payload
+    const { provider: _provider, payment_id: _paymentId, ...signed } = params;
+    if (!params.signature || !safeEqual(await sign(signed), params.signature.toLowerCase())) {
+      throw new Error("Card callback signature mismatch");
+    }
+
+    return {
+      paymentId: params.order_id,
+      status: params.status === "approved" ? "succeeded" : params.status === "cancelled" ? "cancelled" : "failed",
+      amount: params.amount ? Number(params.amount) : null,
+      reference: params.transaction_id || null,
+    };
+  },
+};
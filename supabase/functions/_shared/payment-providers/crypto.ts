@@ -0,0 +1,52 @@
+const encoder = new TextEncoder();
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+export async function hmacSha256Hex(key: string, message: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(key),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toHex(await crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(message)));
+}
+
+/** Compare two signatures without leaking where they differ. */
+export function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+/**
+ * AES-128-ECB with PKCS#7 padding, base64 encoded. WebCrypto has no ECB
+ * mode, but ECB of one block equals CBC of that block with a zero IV.
+ */
+export async function aesEcbBase64(key: string, message: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey("raw", encoder.encode(key), { name: "AES-CBC" }, false, [
+    "encrypt",
+  ]);
+
+  const data = encoder.encode(message);
+  const padding = 16 - (data.length % 16);
+  const padded = new Uint8Array(data.length + padding);
+  padded.set(data);
+  padded.fill(padding, data.length);
+
+  const output = new Uint8Array(padded.length);
+  const zeroIv = new Uint8Array(16);
+  for (let offset = 0; offset < padded.length; offset += 16) {
+    const block = await crypto.subtle.encrypt(
+      { name: "AES-CBC", iv: zeroIv },
+      cryptoKey,
+      padded.slice(offset, offset + 16)
+    );
+    output.set(new Uint8Array(block).slice(0, 16), offset);
+  }
+
+  return btoa(String.fromCharCode(...output));
+}
@@ -0,0 +1,96 @@
+import type { PaymentProvider } from "./types.ts";
+import { requireEnv } from "./types.ts";
+import { aesEcbBase64 } from "./crypto.ts";
+
+/**
+ * Easypaisa hosted checkout. The request is signed with merchantHashedReq,
+ * the AES-ECB encryption of its sorted key=value pairs under the store's
+ * hash key. The customer comes back twice: first with an auth_token that
+ * must be posted to the confirm page, then with the outcome. The outcome is
+ * unsigned, so it is confirmed with the transaction inquiry API.
+ */
+
+const SANDBOX_ENDPOINT = "https://easypaystg.easypaisa.com.pk/easypay/Index.jsf";
+const SANDBOX_CONFIRM_ENDPOINT = "https://easypaystg.easypaisa.com.pk/easypay/Confirm.jsf";
+const SANDBOX_INQUIRY_ENDPOINT = "https://easypaystg.easypaisa.com.pk/easypay-service/rest/v4/inquire-transaction";
+
+// Easypaisa expects Pakistan time as yyyyMMdd HHmmss
+const pktExpiry = (date: Date) => {
+  const stamp = new Date(date.getTime() + 5 * 60 * 60 * 1000).toISOString().replace(/[-:T]/g, "");
+  return `${stamp.slice(0, 8)} ${stamp.slice(8, 14)}`;
+};
+
+interface InquiryResponse {
+  responseCode: string;
+  transactionStatus?: string;
+  transactionAmount?: string;
+  transactionId?: string;
+}
+
+async function inquire(paymentId: string): Promise<InquiryResponse> {
+  const credentials = btoa(`${requireEnv("EASYPAISA_USERNAME")}:${requireEnv("EASYPAISA_PASSWORD")}`);
+  const response = await fetch(Deno.env.get("EASYPAISA_INQUIRY_ENDPOINT") || SANDBOX_INQUIRY_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Credentials: credentials },
+    body: JSON.stringify({
+      orderId: paymentId,
+      storeId: requireEnv("EASYPAISA_STORE_ID"),
+      accountNum: requireEnv("EASYPAISA_ACCOUNT_NUMBER"),
+    }),
+  });
+  if (!response.ok) throw new Error(`Easypaisa inquiry failed with ${response.status}`);
+  return response.json();
+}
+
+export const easypaisaProvider: PaymentProvider = {
+  id: "easypaisa",
+
+  async createRedirect(request) {
+    const fields: Record<string, string> = {
+      amount: request.amount.toFixed(1),
+      autoRedirect: "1",
+      emailAddr: request.email || "",
+      expiryDate: pktExpiry(new Date(Date.now() + 24 * 60 * 60 * 1000)),
+      mobileNum: request.phone || "",
+      orderRefNum: request.paymentId,
+      paymentMethod: "MA_PAYMENT_METHOD",
+      postBackURL: request.callbackUrl,
+      storeId: requireEnv("EASYPAISA_STORE_ID"),
+    };
+
+    const signed = Object.keys(fields)
+      .sort()
+      .map((key) => `${key}=${fields[key]}`)
+      .join("&");
+    fields.merchantHashedReq = await aesEcbBase64(requireEnv("EASYPAISA_HASH_KEY"), signed);
+
+    return { url: Deno.env.get("EASYPAISA_ENDPOINT") || SANDBOX_ENDPOINT, method: "POST", fields };
+  },
+
+  async verifyCallback(params, callbackUrl) {
+    const paymentId = params.orderRefNumber || params.payment_id;
+
+    if (params.auth_token) {
+      return {
+        paymentId,
+        status: "pending",
+        amount: null,
+        reference: null,
+        next: {
+          url: Deno.env.get("EASYPAISA_CONFIRM_ENDPOINT") || SANDBOX_CONFIRM_ENDPOINT,
+          method: "POST",
+          fields: { auth_token: params.auth_token, postBackURL: callbackUrl },
+        },
+      };
+    }
+
+    const inquiry = await inquire(paymentId);
+    const paid = inquiry.responseCode === "0000" && inquiry.transactionStatus === "PAID";
+    return {
+      paymentId,
+      status: paid ? "succeeded" : params.status === "0000" ? "pending" : "failed",
+      amount: inquiry.transactionAmount ? Number(inquiry.transactionAmount) : null,
+      reference: inquiry.transactionId || null,
+    };
+  },
+};
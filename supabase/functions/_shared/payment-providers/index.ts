@@ -0,0 +1,31 @@
+import type { PaymentProvider } from "./types.ts";
+import { mockProvider } from "./mock.ts";
+import { jazzcashProvider } from "./jazzcash.ts";
+import { easypaisaProvider } from "./easypaisa.ts";
+import { cardProvider } from "./card.ts";
+
+export type { PaymentProvider, PaymentRedirect, PaymentRequest, PaymentResult } from "./types.ts";
+
+const PROVIDERS: Record<string, PaymentProvider> = {
+  jazzcash: jazzcashProvider,
+  easypaisa: easypaisaProvider,
+  card: cardProvider,
+};
+
+const isSandbox = () => Deno.env.get("PAYMENT_SANDBOX") === "true";
+
+/** Provider that takes payments for an order's payment method; every method goes to the mock in sandbox mode. */
+export function providerForMethod(method: string): PaymentProvider | null {
+  if (isSandbox()) return mockProvider;
+  return PROVIDERS[method] ?? null;
+}
+
+/** Provider named in a callback URL. The mock is only reachable in sandbox mode. */
+export function providerById(id: string): PaymentProvider | null {
+  if (id === mockProvider.id) return isSandbox() ? mockProvider : null;
+  return PROVIDERS[id] ?? null;
+}
+
+/** Where a provider reports back for one payment. The query string only routes the callback; providers trust their signed fields. */
+export const paymentCallbackUrl = (providerId: string, paymentId: string) =>
+  `${Deno.env.get("SUPABASE_URL")}/functions/v1/payment-callback?provider=${providerId}&payment_id=${paymentId}`;
@@ -0,0 +1,69 @@
+import type { PaymentProvider } from "./types.ts";
+import { requireEnv } from "./types.ts";
+import { hmacSha256Hex, safeEqual } from "./crypto.ts";
+
+/**
+ * JazzCash hosted checkout (mobile wallet). Requests and callbacks are
+ * signed with pp_SecureHash: HMAC-SHA256, keyed by the integrity salt, over
+ * the salt followed by every non-empty pp_/ppmpf_ value in key order.
+ */
+
+const SANDBOX_ENDPOINT = "https://sandbox.jazzcash.com.pk/CustomerPortal/transactionmanagement/merchantform/";
+
+const SUCCESS = "000";
+const AWAITING_CUSTOMER = "124";
+
+// JazzCash expects Pakistan time as yyyyMMddHHmmss
+const pktTimestamp = (date: Date) =>
+  new Date(date.getTime() + 5 * 60 * 60 * 1000).toISOString().replace(/[-:T]/g, "").slice(0, 14);
+
+async function secureHash(fields: Record<string, string>): Promise<string> {
+  const salt = requireEnv("JAZZCASH_INTEGRITY_SALT");
+  const values = Object.keys(fields)
+    .filter((key) => /^(pp|ppmpf)_/.test(key) && key !== "pp_SecureHash" && fields[key] !== "")
+    .sort()
+    .map((key) => fields[key]);
+  return (await hmacSha256Hex(salt, [salt, ...values].join("&"))).toUpperCase();
+}
+
+export const jazzcashProvider: PaymentProvider = {
+  id: "jazzcash",
+
+  async createRedirect(request) {
+    const now = new Date();
+    const fields: Record<string, string> = {
+      pp_Version: "1.1",
+      pp_TxnType: "MWALLET",
+      pp_Language: "EN",
+      pp_MerchantID: requireEnv("JAZZCASH_MERCHANT_ID"),
+      pp_Password: requireEnv("JAZZCASH_PASSWORD"),
+      pp_TxnRefNo: `T${pktTimestamp(now)}${Math.floor(Math.random() * 1000).toString().padStart(3, "0")}`,
+      pp_Amount: String(Math.round(request.amount * 100)),
+      pp_TxnCurrency: request.currency,
+      pp_TxnDateTime: pktTimestamp(now),
+      pp_TxnExpiryDateTime: pktTimestamp(new Date(now.getTime() + 24 * 60 * 60 * 1000)),
+      pp_BillReference: request.orderNumber,
+      pp_Description: `Order ${request.orderNumber}`,
+      pp_ReturnURL: request.callbackUrl,
+      ppmpf_1: request.paymentId,
+    };
+    fields.pp_SecureHash = await secureHash(fields);
+
+    return { url: Deno.env.get("JAZZCASH_ENDPOINT") || SANDBOX_ENDPOINT, method: "POST", fields };
+  },
+
+  async verifyCallback(params) {
+    const expected = await secureHash(params);
+    if (!params.pp_SecureHash || !safeEqual(expected, params.pp_SecureHash.toUpperCase())) {
+      throw new Error("JazzCash callback signature mismatch");
+    }
+
+    const code = params.pp_ResponseCode;
+    return {
+      paymentId: params.ppmpf_1,
+      status: code === SUCCESS ? "succeeded" : code === AWAITING_CUSTOMER ? "pending" : "failed",
+      amount: params.pp_Amount ? Number(params.pp_Amount) / 100 : null,
+      reference: params.pp_RetreivalReferenceNo || params.pp_TxnRefNo || null,
+    };
+  },
+};
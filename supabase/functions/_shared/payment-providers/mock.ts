@@ -0,0 +1,35 @@
+import type { PaymentProvider } from "./types.ts";
+import { requireEnv } from "./types.ts";
+
+/**
+ * Sandbox provider for development and tests. Sends the customer to the
+ * store's own /payment/sandbox page, where they approve or decline, and
+ * trusts whatever comes back. Only registered when PAYMENT_SANDBOX=true.
+ */
+export const mockProvider: PaymentProvider = {
+  id: "mock",
+
+  async createRedirect(request) {
+    return {
+      url: `${requireEnv("SITE_URL")}/payment/sandbox`,
+      method: "GET",
+      fields: {
+        payment_id: request.paymentId,
+        order: request.orderNumber,
+        amount: String(request.amount),
+        callback: request.callbackUrl,
+      },
+    };
+  },
+
+  async verifyCallback(params) {
+    const status =
+      params.result === "approve" ? "succeeded" : params.result === "decline" ? "failed" : "cancelled";
+    return {
+      paymentId: params.payment_id,
+      status,
+      amount: status === "succeeded" ? Number(params.amount) : null,
+      reference: params.reference || null,
+    };
+  },
+};
@@ -0,0 +1,52 @@
+/**
+ * Contract every payment provider implements.
+ *
+ * `createRedirect` turns a freshly started payment into the request the
+ * customer's browser must make to reach the provider's hosted page.
+ * `verifyCallback` checks what the provider sends back to payment-callback
+ * and reports the outcome; it throws when the callback cannot be trusted.
+ * Providers that need another round trip before the outcome is known say
+ * where to send the customer next.
+ */
+
+export type PaymentProviderId = "mock" | "jazzcash" | "easypaisa" | "card";
+
+export interface PaymentRequest {
+  paymentId: string;
+  orderNumber: string;
+  /** Rupees, as stored on the order. */
+  amount: number;
+  currency: string;
+  email: string | null;
+  phone: string | null;
+  /** Where the provider must send the customer (and its result) back to. */
+  callbackUrl: string;
+}
+
+export interface PaymentRedirect {
+  url: string;
+  method: "GET" | "POST";
+  fields: Record<string, string>;
+}
+
+export interface PaymentResult {
+  paymentId: string;
+  status: "pending" | "succeeded" | "failed" | "cancelled";
+  /** Rupees the provider says were taken. */
+  amount: number | null;
+  reference: string | null;
+  next?: PaymentRedirect;
+}
+
+export interface PaymentProvider {
+  id: PaymentProviderId;
+  createRedirect(request: PaymentRequest): Promise<PaymentRedirect>;
+  /** `params` merges the callback URL's query string with any posted form fields. */
+  verifyCallback(params: Record<string, string>, callbackUrl: string): Promise<PaymentResult>;
+}
+
+export const requireEnv = (name: string): string => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not configured`);
+  return value;
+};
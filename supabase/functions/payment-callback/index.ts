@@ -0,0 +1,77 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireEnv } from "../_shared/payment-providers/types.ts";
+import {
+  paymentCallbackUrl,
+  providerById,
+  type PaymentRedirect,
+} from "../_shared/payment-providers/index.ts";
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// Send the browser on to a provider page that must be reached by form post
+const redirectResponse = (redirect: PaymentRedirect) => {
+  if (redirect.method === "GET") {
+    const url = new URL(redirect.url);
+    Object.entries(redirect.fields).forEach(([key, value]) => url.searchParams.set(key, value));
+    return Response.redirect(url.toString(), 303);
+  }
+
+  const inputs = Object.entries(redirect.fields)
+    .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`)
+    .join("");
+  return new Response(
+    `<!doctype html><html><body onload="document.forms[0].submit()"><form method="post" action="${escapeHtml(redirect.url)}">${inputs}<noscript><button type="submit">Continue</button></noscript></form></body></html>`,
+    { headers: { "Content-Type": "text/html; charset=utf-8" } }
+  );
+};
+
+/**
+ * Providers send the customer (and the payment outcome) back here. The
+ * outcome is verified by the provider, recorded with the service role, and
+ * the customer is sent on to the store's payment result page.
+ */
+Deno.serve(async (req) => {
+  const url = new URL(req.url);
+  const params: Record<string, string> = Object.fromEntries(url.searchParams);
+
+  if (req.method === "POST") {
+    const form = await req.formData();
+    form.forEach((value, key) => {
+      if (typeof value === "string") params[key] = value;
+    });
+  }
+
+  const provider = providerById(params.provider ?? "");
+  if (!provider || !params.payment_id) {
+    return new Response("Unknown payment", { status: 404 });
+  }
+
+  const resultPage = (paymentId: string) =>
+    Response.redirect(`${requireEnv("SITE_URL")}/payment/result/${paymentId}`, 303);
+
+  try {
+    const result = await provider.verifyCallback(params, paymentCallbackUrl(provider.id, params.payment_id));
+
+    if (result.next) {
+      return redirectResponse(result.next);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const { error } = await supabase.rpc("record_payment_result", {
+      _payment_id: result.paymentId,
+      _provider: provider.id,
+      _status: result.status,
+      _amount: result.amount,
+      _provider_reference: result.reference,
+      _payload: params,
+    });
+    if (error) console.error("Error recording payment result:", error);
+
+    return resultPage(result.paymentId);
+  } catch (error) {
+    // An unverifiable callback settles nothing; the payment stays pending
+    console.error("Rejected payment callback:", error);
+    return resultPage(params.payment_id);
+  }
+});
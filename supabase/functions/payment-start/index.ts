@@ -0,0 +1,70 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { paymentCallbackUrl, providerForMethod } from "../_shared/payment-providers/index.ts";
+
+interface StartedPayment {
+  payment_id: string;
+  order_number: string;
+  amount: number;
+  currency: string;
+  phone: string | null;
+  email: string | null;
+}
+
+/**
+ * Starts an online payment for one of the caller's orders (or a guest order,
+ * given its lookup token) and returns the request their browser must make to
+ * reach the provider.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { order_id: orderId, guest_token: guestToken } = await req.json();
+
+    // Act as the customer so start_payment checks they own the order
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+
+    // Guests can't read orders directly; their token opens the guest order instead
+    const { data: order } = guestToken
+      ? await supabase.rpc("guest_order", { _token: guestToken })
+      : await supabase.from("orders").select("payment_method").eq("id", orderId).maybeSingle();
+    if (!order) {
+      return jsonResponse({ error: "Order not found" }, 404);
+    }
+
+    const provider = providerForMethod(order.payment_method);
+    if (!provider) {
+      return jsonResponse({ error: "This payment method can't be paid online" }, 400);
+    }
+
+    const { data, error } = await supabase.rpc("start_payment", {
+      _order_id: orderId,
+      _provider: provider.id,
+      _guest_token: guestToken ?? null,
+    });
+    if (error) {
+      return jsonResponse({ error: error.message }, 400);
+    }
+
+    const started = data as StartedPayment;
+    const redirect = await provider.createRedirect({
+      paymentId: started.payment_id,
+      orderNumber: started.order_number,
+      amount: Number(started.amount),
+      currency: started.currency,
+      email: started.email,
+      phone: started.phone,
+      callbackUrl: paymentCallbackUrl(provider.id, started.payment_id),
+    });
+
+    return jsonResponse({ payment_id: started.payment_id, redirect });
+  } catch (error) {
+    console.error("Error starting payment:", error);
+    return jsonResponse({ error: "Could not start the payment" }, 500);
+  }
+});
@@ -0,0 +1,128 @@
+-- Full-text product search
+-- Indexes product titles, category names, variant colors/materials and
+-- descriptions into a single weighted tsvector kept in sync by triggers.
+
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector
+  ON public.products USING GIN (search_vector);
+
+-- Build the search document for one product
+CREATE OR REPLACE FUNCTION public.build_product_search_vector(
+  _title TEXT,
+  _description TEXT,
+  _category_id UUID,
+  _product_id UUID
+)
+RETURNS tsvector
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    setweight(to_tsvector('simple', coalesce(_title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(
+      (SELECT name FROM public.categories WHERE id = _category_id), ''
+    )), 'B') ||
+    setweight(to_tsvector('simple', coalesce(
+      (SELECT string_agg(concat_ws(' ', color, material), ' ')
+       FROM public.product_variants
+       WHERE product_id = _product_id), ''
+    )), 'C') ||
+    setweight(to_tsvector('simple', coalesce(_description, '')), 'D')
+$$;
+
+-- Keep products.search_vector current when the product itself changes
+CREATE OR REPLACE FUNCTION public.update_product_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector := build_product_search_vector(NEW.title, NEW.description, NEW.category_id, NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_products_search_vector
+  BEFORE INSERT OR UPDATE OF title, description, category_id ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.update_product_search_vector();
+
+-- Refresh the parent product when a variant's color or material changes
+CREATE OR REPLACE FUNCTION public.refresh_product_search_from_variant()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    UPDATE products
+    SET search_vector = build_product_search_vector(title, description, category_id, id)
+    WHERE id = OLD.product_id;
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.product_id IS DISTINCT FROM OLD.product_id) THEN
+    UPDATE products
+    SET search_vector = build_product_search_vector(title, description, category_id, id)
+    WHERE id = NEW.product_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_search_on_variant_change
+  AFTER INSERT OR UPDATE OF color, material, product_id OR DELETE ON public.product_variants
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_product_search_from_variant();
+
+-- Refresh every product in a category when the category is renamed
+CREATE OR REPLACE FUNCTION public.refresh_product_search_from_category()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE products
+  SET search_vector = build_product_search_vector(title, description, category_id, id)
+  WHERE category_id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_search_on_category_rename
+  AFTER UPDATE OF name ON public.categories
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_product_search_from_category();
+
+-- Backfill existing products
+UPDATE public.products
+SET search_vector = public.build_product_search_vector(title, description, category_id, id);
+
+-- Turn free text into a prefix-matching tsquery, e.g. "gold avi" -> 'gold':* & 'avi':*
+CREATE OR REPLACE FUNCTION public.build_search_tsquery(_query TEXT)
+RETURNS tsquery
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT to_tsquery('simple', string_agg(quote_literal(term) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(trim(coalesce(_query, ''))), '[^[:alnum:]]+') AS term
+  WHERE term <> ''
+$$;
+
+-- Active products matching the query, best match first.
+-- Returns SETOF products so callers can keep filtering, embedding and paginating.
+CREATE OR REPLACE FUNCTION public.search_products(search_query TEXT)
+RETURNS SETOF public.products
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.*
+  FROM products p, build_search_tsquery(search_query) AS q
+  WHERE q IS NOT NULL
+    AND p.is_active = true
+    AND p.search_vector @@ q
+  ORDER BY ts_rank_cd(p.search_vector, q) DESC, p.created_at DESC
+$$;
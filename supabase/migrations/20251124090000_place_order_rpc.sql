@@ -0,0 +1,133 @@
+-- Atomic server-side order placement
+-- Replaces the browser-driven sequence (order number -> order -> items -> stock -> cart)
+-- with a single transaction that reprices every line from the catalogue.
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _shipping_address JSONB,
+  _payment_method payment_method,
+  _customer_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order_id UUID;
+  _subtotal DECIMAL(10,2) := 0;
+  _shipping_cost DECIMAL(10,2);
+  _line RECORD;
+  _line_count INTEGER := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _shipping_address IS NULL
+     OR coalesce(_shipping_address->>'full_name', '') = ''
+     OR coalesce(_shipping_address->>'phone', '') = ''
+     OR coalesce(_shipping_address->>'address_line1', '') = ''
+     OR coalesce(_shipping_address->>'city', '') = '' THEN
+    RAISE EXCEPTION 'Shipping address is incomplete';
+  END IF;
+
+  -- Lock the cart so a concurrent checkout from another tab cannot reuse it
+  PERFORM 1 FROM cart_items WHERE user_id = _user_id FOR UPDATE;
+
+  INSERT INTO orders (user_id, order_number, subtotal, shipping_cost, total, payment_method, shipping_address, customer_notes, status)
+  VALUES (_user_id, generate_order_number(), 0, 0, 0, _payment_method, _shipping_address, _customer_notes, 'pending')
+  RETURNING id INTO _order_id;
+
+  FOR _line IN
+    SELECT
+      c.product_id,
+      c.variant_id,
+      c.lens_type_id,
+      c.quantity,
+      c.has_eyesight,
+      c.prescription_data,
+      c.prescription_image_url,
+      p.title,
+      p.is_active,
+      p.base_price,
+      v.product_id AS variant_product_id,
+      coalesce(v.price_adjustment, 0) AS variant_adjustment,
+      l.product_id AS lens_product_id,
+      l.is_enabled AS lens_enabled,
+      coalesce(l.price_adjustment, 0) AS lens_adjustment
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    LEFT JOIN product_variants v ON v.id = c.variant_id
+    LEFT JOIN lens_types l ON l.id = c.lens_type_id
+    WHERE c.user_id = _user_id
+    ORDER BY c.created_at
+  LOOP
+    IF NOT coalesce(_line.is_active, false) THEN
+      RAISE EXCEPTION '% is no longer available', _line.title;
+    END IF;
+
+    IF _line.quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', _line.title;
+    END IF;
+
+    IF _line.variant_id IS NOT NULL AND _line.variant_product_id IS DISTINCT FROM _line.product_id THEN
+      RAISE EXCEPTION 'Selected option for % is no longer available', _line.title;
+    END IF;
+
+    IF _line.lens_type_id IS NOT NULL
+       AND (_line.lens_product_id IS DISTINCT FROM _line.product_id OR NOT coalesce(_line.lens_enabled, false)) THEN
+      RAISE EXCEPTION 'Selected lens for % is no longer available', _line.title;
+    END IF;
+
+    -- Reserve stock; the conditional update fails instead of going negative
+    IF _line.variant_id IS NOT NULL THEN
+      UPDATE product_variants
+      SET stock = stock - _line.quantity
+      WHERE id = _line.variant_id
+        AND coalesce(stock, 0) >= _line.quantity;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not enough stock for %', _line.title;
+      END IF;
+    END IF;
+
+    INSERT INTO order_items (
+      order_id, product_id, variant_id, lens_type_id, quantity,
+      unit_price, total_price, has_eyesight, prescription_data, prescription_image_url
+    )
+    VALUES (
+      _order_id, _line.product_id, _line.variant_id, _line.lens_type_id, _line.quantity,
+      _line.base_price + _line.variant_adjustment + _line.lens_adjustment,
+      (_line.base_price + _line.variant_adjustment + _line.lens_adjustment) * _line.quantity,
+      _line.has_eyesight, _line.prescription_data, _line.prescription_image_url
+    );
+
+    _subtotal := _subtotal + (_line.base_price + _line.variant_adjustment + _line.lens_adjustment) * _line.quantity;
+    _line_count := _line_count + 1;
+  END LOOP;
+
+  IF _line_count = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  _shipping_cost := CASE WHEN _subtotal > 5000 THEN 0 ELSE 200 END;
+
+  UPDATE orders
+  SET subtotal = _subtotal,
+      shipping_cost = _shipping_cost,
+      total = _subtotal + _shipping_cost
+  WHERE id = _order_id;
+
+  DELETE FROM cart_items WHERE user_id = _user_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_order(JSONB, payment_method, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(JSONB, payment_method, TEXT) TO authenticated;
+
+-- Orders and their items are now only written through place_order
+DROP POLICY IF EXISTS "Users can create own orders" ON public.orders;
+DROP POLICY IF EXISTS "Users can create order items for own orders" ON public.order_items;
@@ -0,0 +1,229 @@
+-- Server-authoritative pricing
+-- Database twin of src/lib/pricing.ts. place_order prices every line through
+-- price_quote_line so order_items can never disagree with the quote the
+-- customer was shown (quote_cart).
+
+CREATE OR REPLACE FUNCTION public.shipping_for_subtotal(_subtotal DECIMAL)
+RETURNS DECIMAL
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN _subtotal > 5000 THEN 0 ELSE 200 END::DECIMAL(10,2)
+$$;
+
+-- Itemised price for a single line: base, variant, lens, discount, unit_price, quantity, total
+CREATE OR REPLACE FUNCTION public.price_quote_line(
+  _product_id UUID,
+  _variant_id UUID,
+  _lens_type_id UUID,
+  _quantity INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product RECORD;
+  _variant_adjustment DECIMAL(10,2) := 0;
+  _lens_adjustment DECIMAL(10,2) := 0;
+  _discount DECIMAL(10,2) := 0;
+  _unit_price DECIMAL(10,2);
+BEGIN
+  SELECT title, base_price, is_active INTO _product FROM products WHERE id = _product_id;
+
+  IF NOT FOUND OR NOT coalesce(_product.is_active, false) THEN
+    RAISE EXCEPTION '% is no longer available', coalesce(_product.title, 'A product in your cart');
+  END IF;
+
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RAISE EXCEPTION 'Invalid quantity for %', _product.title;
+  END IF;
+
+  IF _variant_id IS NOT NULL THEN
+    SELECT coalesce(price_adjustment, 0) INTO _variant_adjustment
+    FROM product_variants
+    WHERE id = _variant_id AND product_id = _product_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Selected option for % is no longer available', _product.title;
+    END IF;
+  END IF;
+
+  IF _lens_type_id IS NOT NULL THEN
+    SELECT coalesce(price_adjustment, 0) INTO _lens_adjustment
+    FROM lens_types
+    WHERE id = _lens_type_id AND product_id = _product_id AND is_enabled = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Selected lens for % is no longer available', _product.title;
+    END IF;
+  END IF;
+
+  _unit_price := _product.base_price + _variant_adjustment + _lens_adjustment - _discount;
+
+  RETURN jsonb_build_object(
+    'base', _product.base_price,
+    'variant', _variant_adjustment,
+    'lens', _lens_adjustment,
+    'discount', _discount,
+    'unit_price', _unit_price,
+    'quantity', _quantity,
+    'total', _unit_price * _quantity
+  );
+END;
+$$;
+
+-- Quote the signed-in customer's cart exactly as place_order will charge it
+CREATE OR REPLACE FUNCTION public.quote_cart()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _lines JSONB := '[]'::JSONB;
+  _line JSONB;
+  _item RECORD;
+  _subtotal DECIMAL(10,2) := 0;
+  _discount DECIMAL(10,2) := 0;
+  _shipping DECIMAL(10,2);
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to view your cart total';
+  END IF;
+
+  FOR _item IN
+    SELECT id, product_id, variant_id, lens_type_id, quantity
+    FROM cart_items
+    WHERE user_id = _user_id
+    ORDER BY created_at
+  LOOP
+    _line := price_quote_line(_item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity)
+      || jsonb_build_object('cart_item_id', _item.id);
+    _lines := _lines || jsonb_build_array(_line);
+    _subtotal := _subtotal + (_line->>'total')::DECIMAL;
+    _discount := _discount + (_line->>'discount')::DECIMAL * _item.quantity;
+  END LOOP;
+
+  _shipping := shipping_for_subtotal(_subtotal);
+
+  RETURN jsonb_build_object(
+    'lines', _lines,
+    'subtotal', _subtotal,
+    'discount', _discount,
+    'shipping', _shipping,
+    'total', _subtotal + _shipping
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.quote_cart() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.quote_cart() TO authenticated;
+
+-- place_order now prices through price_quote_line and refuses to charge
+-- anything other than the total the customer confirmed.
+DROP FUNCTION IF EXISTS public.place_order(JSONB, payment_method, TEXT);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _shipping_address JSONB,
+  _payment_method payment_method,
+  _customer_notes TEXT DEFAULT NULL,
+  _expected_total DECIMAL DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order_id UUID;
+  _subtotal DECIMAL(10,2) := 0;
+  _shipping_cost DECIMAL(10,2);
+  _item RECORD;
+  _quote JSONB;
+  _line_count INTEGER := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _shipping_address IS NULL
+     OR coalesce(_shipping_address->>'full_name', '') = ''
+     OR coalesce(_shipping_address->>'phone', '') = ''
+     OR coalesce(_shipping_address->>'address_line1', '') = ''
+     OR coalesce(_shipping_address->>'city', '') = '' THEN
+    RAISE EXCEPTION 'Shipping address is incomplete';
+  END IF;
+
+  -- Lock the cart so a concurrent checkout from another tab cannot reuse it
+  PERFORM 1 FROM cart_items WHERE user_id = _user_id FOR UPDATE;
+
+  INSERT INTO orders (user_id, order_number, subtotal, shipping_cost, total, payment_method, shipping_address, customer_notes, status)
+  VALUES (_user_id, generate_order_number(), 0, 0, 0, _payment_method, _shipping_address, _customer_notes, 'pending')
+  RETURNING id INTO _order_id;
+
+  FOR _item IN
+    SELECT c.*, p.title
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = _user_id
+    ORDER BY c.created_at
+  LOOP
+    _quote := price_quote_line(_item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity);
+
+    -- Reserve stock; the conditional update fails instead of going negative
+    IF _item.variant_id IS NOT NULL THEN
+      UPDATE product_variants
+      SET stock = stock - _item.quantity
+      WHERE id = _item.variant_id
+        AND coalesce(stock, 0) >= _item.quantity;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not enough stock for %', _item.title;
+      END IF;
+    END IF;
+
+    INSERT INTO order_items (
+      order_id, product_id, variant_id, lens_type_id, quantity,
+      unit_price, total_price, has_eyesight, prescription_data, prescription_image_url
+    )
+    VALUES (
+      _order_id, _item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity,
+      (_quote->>'unit_price')::DECIMAL, (_quote->>'total')::DECIMAL,
+      _item.has_eyesight, _item.prescription_data, _item.prescription_image_url
+    );
+
+    _subtotal := _subtotal + (_quote->>'total')::DECIMAL;
+    _line_count := _line_count + 1;
+  END LOOP;
+
+  IF _line_count = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  _shipping_cost := shipping_for_subtotal(_subtotal);
+
+  IF _expected_total IS NOT NULL AND _expected_total <> _subtotal + _shipping_cost THEN
+    RAISE EXCEPTION 'Prices in your cart have changed. Please review your order and try again.';
+  END IF;
+
+  UPDATE orders
+  SET subtotal = _subtotal,
+      shipping_cost = _shipping_cost,
+      total = _subtotal + _shipping_cost
+  WHERE id = _order_id;
+
+  DELETE FROM cart_items WHERE user_id = _user_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_order(JSONB, payment_method, TEXT, DECIMAL) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(JSONB, payment_method, TEXT, DECIMAL) TO authenticated;
@@ -0,0 +1,100 @@
+-- Private prescription storage
+-- Prescription documents used to be uploaded to the public product-images
+-- bucket. They now go to the private prescriptions bucket under per-user
+-- folders: "<user id>/..." for customers and "guest/<cart session id>/..."
+-- for guests until they sign in and claim them.
+
+UPDATE storage.buckets
+SET public = false,
+    file_size_limit = 5242880,
+    allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf']
+WHERE id = 'prescriptions';
+
+-- Replace the earlier prescription policies with one consistent set
+DROP POLICY IF EXISTS "Users can view their own prescriptions" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload their own prescriptions" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can view all prescriptions" ON storage.objects;
+DROP POLICY IF EXISTS "Limit prescription file size" ON storage.objects;
+DROP POLICY IF EXISTS "Block anonymous upload to prescriptions" ON storage.objects;
+
+CREATE POLICY "Customers can upload own prescriptions"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'prescriptions'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- Guests can only write into a guest session folder; they can never read back
+CREATE POLICY "Guests can upload prescriptions to their session folder"
+ON storage.objects FOR INSERT
+TO anon
+WITH CHECK (
+  bucket_id = 'prescriptions'
+  AND (storage.foldername(name))[1] = 'guest'
+  AND coalesce((storage.foldername(name))[2], '') <> ''
+);
+
+CREATE POLICY "Owners and admins can view prescriptions"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'prescriptions'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::text
+    OR owner = auth.uid()
+    OR has_role(auth.uid(), 'admin'::app_role)
+  )
+);
+
+CREATE POLICY "Owners can delete own prescriptions"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'prescriptions'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::text
+    OR owner = auth.uid()
+  )
+);
+
+-- Move a guest cart (and the prescription files uploaded with it) into the
+-- signed-in customer's account. The cart session id is a random secret held
+-- only in the guest's browser, so presenting it proves ownership.
+CREATE OR REPLACE FUNCTION public.claim_guest_cart(_session_id TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _claimed INTEGER;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to claim a cart';
+  END IF;
+
+  IF coalesce(_session_id, '') = '' THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE storage.objects
+  SET owner = _user_id,
+      owner_id = _user_id::text
+  WHERE bucket_id = 'prescriptions'
+    AND name LIKE 'guest/' || _session_id || '/%';
+
+  UPDATE cart_items
+  SET user_id = _user_id,
+      session_id = NULL
+  WHERE session_id = _session_id
+    AND user_id IS NULL;
+
+  GET DIAGNOSTICS _claimed = ROW_COUNT;
+  RETURN _claimed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_guest_cart(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_guest_cart(TEXT) TO authenticated;
@@ -0,0 +1,142 @@
+-- Saved prescriptions
+-- Customers keep their prescriptions on their account and reuse them in the
+-- lens selector instead of re-entering every value for each frame. Cart and
+-- order lines record which saved prescription they were filled from.
+
+CREATE TABLE prescriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  exam_date DATE,
+  expiry_date DATE,
+  prescription_data JSONB NOT NULL,
+  document_path TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT prescriptions_dates_check CHECK (expiry_date IS NULL OR exam_date IS NULL OR expiry_date >= exam_date)
+);
+
+CREATE INDEX idx_prescriptions_user_id ON prescriptions(user_id);
+
+ALTER TABLE prescriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own prescriptions"
+  ON prescriptions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own prescriptions"
+  ON prescriptions FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all prescriptions"
+  ON prescriptions FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_prescriptions_updated_at BEFORE UPDATE ON prescriptions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE cart_items
+  ADD COLUMN prescription_id UUID REFERENCES prescriptions(id) ON DELETE SET NULL;
+
+ALTER TABLE order_items
+  ADD COLUMN prescription_id UUID REFERENCES prescriptions(id) ON DELETE SET NULL;
+
+-- place_order copies the saved prescription reference onto the order line,
+-- dropping it if the prescription does not belong to the customer.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _shipping_address JSONB,
+  _payment_method payment_method,
+  _customer_notes TEXT DEFAULT NULL,
+  _expected_total DECIMAL DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order_id UUID;
+  _subtotal DECIMAL(10,2) := 0;
+  _shipping_cost DECIMAL(10,2);
+  _item RECORD;
+  _quote JSONB;
+  _line_count INTEGER := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _shipping_address IS NULL
+     OR coalesce(_shipping_address->>'full_name', '') = ''
+     OR coalesce(_shipping_address->>'phone', '') = ''
+     OR coalesce(_shipping_address->>'address_line1', '') = ''
+     OR coalesce(_shipping_address->>'city', '') = '' THEN
+    RAISE EXCEPTION 'Shipping address is incomplete';
+  END IF;
+
+  -- Lock the cart so a concurrent checkout from another tab cannot reuse it
+  PERFORM 1 FROM cart_items WHERE user_id = _user_id FOR UPDATE;
+
+  INSERT INTO orders (user_id, order_number, subtotal, shipping_cost, total, payment_method, shipping_address, customer_notes, status)
+  VALUES (_user_id, generate_order_number(), 0, 0, 0, _payment_method, _shipping_address, _customer_notes, 'pending')
+  RETURNING id INTO _order_id;
+
+  FOR _item IN
+    SELECT c.*, p.title, rx.id AS owned_prescription_id
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    LEFT JOIN prescriptions rx ON rx.id = c.prescription_id AND rx.user_id = _user_id
+    WHERE c.user_id = _user_id
+    ORDER BY c.created_at
+  LOOP
+    _quote := price_quote_line(_item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity);
+
+    -- Reserve stock; the conditional update fails instead of going negative
+    IF _item.variant_id IS NOT NULL THEN
+      UPDATE product_variants
+      SET stock = stock - _item.quantity
+      WHERE id = _item.variant_id
+        AND coalesce(stock, 0) >= _item.quantity;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not enough stock for %', _item.title;
+      END IF;
+    END IF;
+
+    INSERT INTO order_items (
+      order_id, product_id, variant_id, lens_type_id, quantity,
+      unit_price, total_price, has_eyesight, prescription_data, prescription_image_url, prescription_id
+    )
+    VALUES (
+      _order_id, _item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity,
+      (_quote->>'unit_price')::DECIMAL, (_quote->>'total')::DECIMAL,
+      _item.has_eyesight, _item.prescription_data, _item.prescription_image_url, _item.owned_prescription_id
+    );
+
+    _subtotal := _subtotal + (_quote->>'total')::DECIMAL;
+    _line_count := _line_count + 1;
+  END LOOP;
+
+  IF _line_count = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  _shipping_cost := shipping_for_subtotal(_subtotal);
+
+  IF _expected_total IS NOT NULL AND _expected_total <> _subtotal + _shipping_cost THEN
+    RAISE EXCEPTION 'Prices in your cart have changed. Please review your order and try again.';
+  END IF;
+
+  UPDATE orders
+  SET subtotal = _subtotal,
+      shipping_cost = _shipping_cost,
+      total = _subtotal + _shipping_cost
+  WHERE id = _order_id;
+
+  DELETE FROM cart_items WHERE user_id = _user_id;
+
+  RETURN _order_id;
+END;
+$$;
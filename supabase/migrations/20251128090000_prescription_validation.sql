@@ -0,0 +1,202 @@
+-- Clinical prescription validation
+-- Database twin of src/lib/prescription-validation.ts. Lens types now say
+-- whether they are single vision, bifocal or progressive so ADD can be
+-- checked, and place_order refuses manual prescriptions that fail the same
+-- error rules the lens selector shows inline.
+
+CREATE TYPE lens_vision_type AS ENUM ('single_vision', 'bifocal', 'progressive');
+
+ALTER TABLE lens_types
+  ADD COLUMN vision_type lens_vision_type NOT NULL DEFAULT 'single_vision';
+
+UPDATE lens_types SET vision_type = 'progressive'
+WHERE name ILIKE '%progressive%' OR name ILIKE '%varifocal%' OR name ILIKE '%multifocal%';
+
+UPDATE lens_types SET vision_type = 'bifocal'
+WHERE name ILIKE '%bifocal%';
+
+-- Numeric value of a prescription field; blanks and unparseable text count as 0
+CREATE OR REPLACE FUNCTION public.prescription_value(_data JSONB, _path TEXT[])
+RETURNS NUMERIC
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _data #>> _path ~ '^\s*[+-]?[0-9]+(\.[0-9]+)?\s*$' THEN (_data #>> _path)::NUMERIC
+    ELSE 0
+  END
+$$;
+
+-- Every blocking problem with a manually entered prescription, in display order
+CREATE OR REPLACE FUNCTION public.prescription_errors(_data JSONB, _vision_type lens_vision_type)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _errors TEXT[] := ARRAY[]::TEXT[];
+  _eye TEXT;
+  _prism TEXT;
+  _label TEXT;
+  _axis NUMERIC;
+  _pd NUMERIC;
+BEGIN
+  FOREACH _eye IN ARRAY ARRAY['rightEye', 'leftEye'] LOOP
+    _label := CASE WHEN _eye = 'rightEye' THEN 'right eye' ELSE 'left eye' END;
+    _prism := CASE WHEN _eye = 'rightEye' THEN 'rightPrism' ELSE 'leftPrism' END;
+    _axis := prescription_value(_data, ARRAY[_eye, 'axis']);
+
+    IF prescription_value(_data, ARRAY[_eye, 'cyl']) <> 0 AND (_axis < 1 OR _axis > 180) THEN
+      _errors := _errors || format('Axis for the %s must be between 1 and 180 when CYL is set', _label);
+    END IF;
+
+    IF prescription_value(_data, ARRAY[_eye, 'add']) <> 0 AND _vision_type = 'single_vision' THEN
+      _errors := _errors || format('ADD for the %s is only used with bifocal or progressive lenses', _label);
+    END IF;
+
+    IF coalesce((_data->>'addPrism')::BOOLEAN, false) THEN
+      IF prescription_value(_data, ARRAY[_prism, 'verticalPrism']) > 0
+         AND coalesce(_data #>> ARRAY[_prism, 'verticalBase'], 'n/a') IN ('', 'n/a') THEN
+        _errors := _errors || format('Vertical prism for the %s needs a base direction', _label);
+      END IF;
+
+      IF prescription_value(_data, ARRAY[_prism, 'horizontalPrism']) > 0
+         AND coalesce(_data #>> ARRAY[_prism, 'horizontalBase'], 'n/a') IN ('', 'n/a') THEN
+        _errors := _errors || format('Horizontal prism for the %s needs a base direction', _label);
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF abs(prescription_value(_data, ARRAY['rightEye', 'sph']) - prescription_value(_data, ARRAY['leftEye', 'sph'])) > 4 THEN
+    _errors := _errors || 'SPH differs between the eyes by more than 4.00'::TEXT;
+  END IF;
+
+  IF coalesce((_data->>'twoPDNumbers')::BOOLEAN, false) THEN
+    FOREACH _eye IN ARRAY ARRAY['rightEye', 'leftEye'] LOOP
+      _pd := prescription_value(_data, ARRAY[_eye, 'pd']);
+      IF _pd < 25 OR _pd > 40 THEN
+        _errors := _errors || format('PD for the %s must be between 25 and 40',
+          CASE WHEN _eye = 'rightEye' THEN 'right eye' ELSE 'left eye' END);
+      END IF;
+    END LOOP;
+  ELSE
+    _pd := prescription_value(_data, ARRAY['rightEye', 'pd']);
+    IF _pd < 54 OR _pd > 74 THEN
+      _errors := _errors || 'PD must be between 54 and 74'::TEXT;
+    END IF;
+  END IF;
+
+  RETURN _errors;
+END;
+$$;
+
+-- place_order validates every manually entered prescription before charging
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _shipping_address JSONB,
+  _payment_method payment_method,
+  _customer_notes TEXT DEFAULT NULL,
+  _expected_total DECIMAL DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order_id UUID;
+  _subtotal DECIMAL(10,2) := 0;
+  _shipping_cost DECIMAL(10,2);
+  _item RECORD;
+  _quote JSONB;
+  _line_count INTEGER := 0;
+  _prescription_errors TEXT[];
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _shipping_address IS NULL
+     OR coalesce(_shipping_address->>'full_name', '') = ''
+     OR coalesce(_shipping_address->>'phone', '') = ''
+     OR coalesce(_shipping_address->>'address_line1', '') = ''
+     OR coalesce(_shipping_address->>'city', '') = '' THEN
+    RAISE EXCEPTION 'Shipping address is incomplete';
+  END IF;
+
+  -- Lock the cart so a concurrent checkout from another tab cannot reuse it
+  PERFORM 1 FROM cart_items WHERE user_id = _user_id FOR UPDATE;
+
+  INSERT INTO orders (user_id, order_number, subtotal, shipping_cost, total, payment_method, shipping_address, customer_notes, status)
+  VALUES (_user_id, generate_order_number(), 0, 0, 0, _payment_method, _shipping_address, _customer_notes, 'pending')
+  RETURNING id INTO _order_id;
+
+  FOR _item IN
+    SELECT c.*, p.title, rx.id AS owned_prescription_id, lt.vision_type
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    LEFT JOIN prescriptions rx ON rx.id = c.prescription_id AND rx.user_id = _user_id
+    LEFT JOIN lens_types lt ON lt.id = c.lens_type_id
+    WHERE c.user_id = _user_id
+    ORDER BY c.created_at
+  LOOP
+    _quote := price_quote_line(_item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity);
+
+    -- Uploaded prescriptions are checked by staff; manual entries must pass the clinical rules
+    IF coalesce(_item.has_eyesight, false) AND _item.prescription_data ? 'rightEye' THEN
+      _prescription_errors := prescription_errors(_item.prescription_data, _item.vision_type);
+      IF cardinality(_prescription_errors) > 0 THEN
+        RAISE EXCEPTION 'Prescription for % is invalid: %', _item.title, _prescription_errors[1];
+      END IF;
+    END IF;
+
+    -- Reserve stock; the conditional update fails instead of going negative
+    IF _item.variant_id IS NOT NULL THEN
+      UPDATE product_variants
+      SET stock = stock - _item.quantity
+      WHERE id = _item.variant_id
+        AND coalesce(stock, 0) >= _item.quantity;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not enough stock for %', _item.title;
+      END IF;
+    END IF;
+
+    INSERT INTO order_items (
+      order_id, product_id, variant_id, lens_type_id, quantity,
+      unit_price, total_price, has_eyesight, prescription_data, prescription_image_url, prescription_id
+    )
+    VALUES (
+      _order_id, _item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity,
+      (_quote->>'unit_price')::DECIMAL, (_quote->>'total')::DECIMAL,
+      _item.has_eyesight, _item.prescription_data, _item.prescription_image_url, _item.owned_prescription_id
+    );
+
+    _subtotal := _subtotal + (_quote->>'total')::DECIMAL;
+    _line_count := _line_count + 1;
+  END LOOP;
+
+  IF _line_count = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  _shipping_cost := shipping_for_subtotal(_subtotal);
+
+  IF _expected_total IS NOT NULL AND _expected_total <> _subtotal + _shipping_cost THEN
+    RAISE EXCEPTION 'Prices in your cart have changed. Please review your order and try again.';
+  END IF;
+
+  UPDATE orders
+  SET subtotal = _subtotal,
+      shipping_cost = _shipping_cost,
+      total = _subtotal + _shipping_cost
+  WHERE id = _order_id;
+
+  DELETE FROM cart_items WHERE user_id = _user_id;
+
+  RETURN _order_id;
+END;
+$$;
@@ -0,0 +1,375 @@
+-- Global lens catalogue
+-- Lens types used to belong to a single product, so every option had to be
+-- copied onto every frame. They are now defined once, with the lens index,
+-- coatings and prescription range they support, and lens_compatibility says
+-- which products or categories can take them (optionally at a different
+-- price). product_lens_options resolves those rules per product.
+
+ALTER TABLE lens_types
+  ADD COLUMN lens_index DECIMAL(3,2),
+  ADD COLUMN coatings TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN min_sph DECIMAL(5,2),
+  ADD COLUMN max_sph DECIMAL(5,2),
+  ADD COLUMN max_cyl DECIMAL(5,2),
+  ADD COLUMN updated_at TIMESTAMPTZ DEFAULT NOW(),
+  ADD CONSTRAINT lens_types_sph_range_check CHECK (min_sph IS NULL OR max_sph IS NULL OR min_sph <= max_sph),
+  ADD CONSTRAINT lens_types_max_cyl_check CHECK (max_cyl IS NULL OR max_cyl >= 0);
+
+CREATE TRIGGER update_lens_types_updated_at BEFORE UPDATE ON lens_types
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE lens_compatibility (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lens_type_id UUID REFERENCES lens_types(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+  price_override DECIMAL(10,2),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT lens_compatibility_target_check CHECK ((product_id IS NULL) <> (category_id IS NULL))
+);
+
+CREATE UNIQUE INDEX idx_lens_compatibility_product ON lens_compatibility(lens_type_id, product_id) WHERE product_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_lens_compatibility_category ON lens_compatibility(lens_type_id, category_id) WHERE category_id IS NOT NULL;
+CREATE INDEX idx_lens_compatibility_product_id ON lens_compatibility(product_id);
+CREATE INDEX idx_lens_compatibility_category_id ON lens_compatibility(category_id);
+
+ALTER TABLE lens_compatibility ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Lens compatibility is viewable by everyone"
+  ON lens_compatibility FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage lens compatibility"
+  ON lens_compatibility FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Collapse the per-product copies into one catalogue entry per lens
+-- (same name and vision type). Each product keeps its lens through a
+-- compatibility rule; a price that differs from the catalogue entry
+-- becomes a price override.
+CREATE TEMP TABLE lens_type_merge AS
+SELECT
+  id,
+  product_id,
+  price_adjustment,
+  is_enabled,
+  first_value(id) OVER w AS catalogue_id,
+  first_value(price_adjustment) OVER w AS catalogue_price
+FROM lens_types
+WINDOW w AS (
+  PARTITION BY lower(trim(name)), vision_type
+  ORDER BY coalesce(is_enabled, false) DESC, display_order NULLS LAST, created_at, id
+);
+
+INSERT INTO lens_compatibility (lens_type_id, product_id, price_override)
+SELECT DISTINCT ON (catalogue_id, product_id)
+  catalogue_id,
+  product_id,
+  CASE WHEN price_adjustment IS DISTINCT FROM catalogue_price THEN price_adjustment END
+FROM lens_type_merge
+WHERE coalesce(is_enabled, false) OR id = catalogue_id
+ORDER BY catalogue_id, product_id, (id = catalogue_id) DESC;
+
+UPDATE cart_items c
+SET lens_type_id = m.catalogue_id
+FROM lens_type_merge m
+WHERE c.lens_type_id = m.id AND m.id <> m.catalogue_id;
+
+UPDATE order_items o
+SET lens_type_id = m.catalogue_id
+FROM lens_type_merge m
+WHERE o.lens_type_id = m.id AND m.id <> m.catalogue_id;
+
+DELETE FROM lens_types lt
+USING lens_type_merge m
+WHERE lt.id = m.id AND m.id <> m.catalogue_id;
+
+DROP TABLE lens_type_merge;
+
+ALTER TABLE lens_types DROP COLUMN product_id;
+
+-- Lens options available on each product. A product rule wins over a
+-- category rule for the same lens.
+CREATE VIEW product_lens_options
+WITH (security_invoker = true) AS
+SELECT DISTINCT ON (p.id, lt.id)
+  p.id AS product_id,
+  lt.id AS lens_type_id,
+  lt.name,
+  lt.description,
+  lt.image_url,
+  lt.vision_type,
+  lt.lens_index,
+  lt.coatings,
+  lt.min_sph,
+  lt.max_sph,
+  lt.max_cyl,
+  lt.display_order,
+  lt.is_enabled,
+  coalesce(lc.price_override, lt.price_adjustment, 0)::DECIMAL(10,2) AS price_adjustment
+FROM lens_compatibility lc
+JOIN lens_types lt ON lt.id = lc.lens_type_id
+JOIN products p ON p.id = lc.product_id
+  OR (lc.product_id IS NULL AND p.category_id = lc.category_id)
+ORDER BY p.id, lt.id, (lc.product_id IS NULL);
+
+GRANT SELECT ON product_lens_options TO anon, authenticated;
+
+-- Lens prices now come from the product's compatible lens options
+CREATE OR REPLACE FUNCTION public.price_quote_line(
+  _product_id UUID,
+  _variant_id UUID,
+  _lens_type_id UUID,
+  _quantity INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product RECORD;
+  _variant_adjustment DECIMAL(10,2) := 0;
+  _lens_adjustment DECIMAL(10,2) := 0;
+  _discount DECIMAL(10,2) := 0;
+  _unit_price DECIMAL(10,2);
+BEGIN
+  SELECT title, base_price, is_active INTO _product FROM products WHERE id = _product_id;
+
+  IF NOT FOUND OR NOT coalesce(_product.is_active, false) THEN
+    RAISE EXCEPTION '% is no longer available', coalesce(_product.title, 'A product in your cart');
+  END IF;
+
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RAISE EXCEPTION 'Invalid quantity for %', _product.title;
+  END IF;
+
+  IF _variant_id IS NOT NULL THEN
+    SELECT coalesce(price_adjustment, 0) INTO _variant_adjustment
+    FROM product_variants
+    WHERE id = _variant_id AND product_id = _product_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Selected option for % is no longer available', _product.title;
+    END IF;
+  END IF;
+
+  IF _lens_type_id IS NOT NULL THEN
+    SELECT price_adjustment INTO _lens_adjustment
+    FROM product_lens_options
+    WHERE product_id = _product_id AND lens_type_id = _lens_type_id AND is_enabled = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Selected lens for % is no longer available', _product.title;
+    END IF;
+  END IF;
+
+  _unit_price := _product.base_price + _variant_adjustment + _lens_adjustment - _discount;
+
+  RETURN jsonb_build_object(
+    'base', _product.base_price,
+    'variant', _variant_adjustment,
+    'lens', _lens_adjustment,
+    'discount', _discount,
+    'unit_price', _unit_price,
+    'quantity', _quantity,
+    'total', _unit_price * _quantity
+  );
+END;
+$$;
+
+
+-- Lenses also limit the prescriptions they can be made in. Stored
+-- prescriptions are in minus-cyl form, so SPH is compared as stored.
+DROP FUNCTION IF EXISTS public.prescription_errors(JSONB, lens_vision_type);
+
+CREATE OR REPLACE FUNCTION public.prescription_errors(
+  _data JSONB,
+  _vision_type lens_vision_type,
+  _min_sph NUMERIC DEFAULT NULL,
+  _max_sph NUMERIC DEFAULT NULL,
+  _max_cyl NUMERIC DEFAULT NULL
+)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _errors TEXT[] := ARRAY[]::TEXT[];
+  _eye TEXT;
+  _prism TEXT;
+  _label TEXT;
+  _axis NUMERIC;
+  _sph NUMERIC;
+  _pd NUMERIC;
+BEGIN
+  FOREACH _eye IN ARRAY ARRAY['rightEye', 'leftEye'] LOOP
+    _label := CASE WHEN _eye = 'rightEye' THEN 'right eye' ELSE 'left eye' END;
+    _prism := CASE WHEN _eye = 'rightEye' THEN 'rightPrism' ELSE 'leftPrism' END;
+    _axis := prescription_value(_data, ARRAY[_eye, 'axis']);
+    _sph := prescription_value(_data, ARRAY[_eye, 'sph']);
+
+    IF _sph < coalesce(_min_sph, _sph) OR _sph > coalesce(_max_sph, _sph) THEN
+      _errors := _errors || format('SPH for the %s is outside the range of this lens', _label);
+    END IF;
+
+    IF abs(prescription_value(_data, ARRAY[_eye, 'cyl'])) > coalesce(_max_cyl, 'Infinity'::NUMERIC) THEN
+      _errors := _errors || format('CYL for the %s is outside the range of this lens', _label);
+    END IF;
+
+    IF prescription_value(_data, ARRAY[_eye, 'cyl']) <> 0 AND (_axis < 1 OR _axis > 180) THEN
+      _errors := _errors || format('Axis for the %s must be between 1 and 180 when CYL is set', _label);
+    END IF;
+
+    IF prescription_value(_data, ARRAY[_eye, 'add']) <> 0 AND _vision_type = 'single_vision' THEN
+      _errors := _errors || format('ADD for the %s is only used with bifocal or progressive lenses', _label);
+    END IF;
+
+    IF coalesce((_data->>'addPrism')::BOOLEAN, false) THEN
+      IF prescription_value(_data, ARRAY[_prism, 'verticalPrism']) > 0
+         AND coalesce(_data #>> ARRAY[_prism, 'verticalBase'], 'n/a') IN ('', 'n/a') THEN
+        _errors := _errors || format('Vertical prism for the %s needs a base direction', _label);
+      END IF;
+
+      IF prescription_value(_data, ARRAY[_prism, 'horizontalPrism']) > 0
+         AND coalesce(_data #>> ARRAY[_prism, 'horizontalBase'], 'n/a') IN ('', 'n/a') THEN
+        _errors := _errors || format('Horizontal prism for the %s needs a base direction', _label);
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF abs(prescription_value(_data, ARRAY['rightEye', 'sph']) - prescription_value(_data, ARRAY['leftEye', 'sph'])) > 4 THEN
+    _errors := _errors || 'SPH differs between the eyes by more than 4.00'::TEXT;
+  END IF;
+
+  IF coalesce((_data->>'twoPDNumbers')::BOOLEAN, false) THEN
+    FOREACH _eye IN ARRAY ARRAY['rightEye', 'leftEye'] LOOP
+      _pd := prescription_value(_data, ARRAY[_eye, 'pd']);
+      IF _pd < 25 OR _pd > 40 THEN
+        _errors := _errors || format('PD for the %s must be between 25 and 40',
+          CASE WHEN _eye = 'rightEye' THEN 'right eye' ELSE 'left eye' END);
+      END IF;
+    END LOOP;
+  ELSE
+    _pd := prescription_value(_data, ARRAY['rightEye', 'pd']);
+    IF _pd < 54 OR _pd > 74 THEN
+      _errors := _errors || 'PD must be between 54 and 74'::TEXT;
+    END IF;
+  END IF;
+
+  RETURN _errors;
+END;
+$$;
+
+
+-- place_order passes the lens range to prescription_errors
+CREATE OR REPLACE FUNCTION public.place_order(
+  _shipping_address JSONB,
+  _payment_method payment_method,
+  _customer_notes TEXT DEFAULT NULL,
+  _expected_total DECIMAL DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order_id UUID;
+  _subtotal DECIMAL(10,2) := 0;
+  _shipping_cost DECIMAL(10,2);
+  _item RECORD;
+  _quote JSONB;
+  _line_count INTEGER := 0;
+  _prescription_errors TEXT[];
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _shipping_address IS NULL
+     OR coalesce(_shipping_address->>'full_name', '') = ''
+     OR coalesce(_shipping_address->>'phone', '') = ''
+     OR coalesce(_shipping_address->>'address_line1', '') = ''
+     OR coalesce(_shipping_address->>'city', '') = '' THEN
+    RAISE EXCEPTION 'Shipping address is incomplete';
+  END IF;
+
+  -- Lock the cart so a concurrent checkout from another tab cannot reuse it
+  PERFORM 1 FROM cart_items WHERE user_id = _user_id FOR UPDATE;
+
+  INSERT INTO orders (user_id, order_number, subtotal, shipping_cost, total, payment_method, shipping_address, customer_notes, status)
+  VALUES (_user_id, generate_order_number(), 0, 0, 0, _payment_method, _shipping_address, _customer_notes, 'pending')
+  RETURNING id INTO _order_id;
+
+  FOR _item IN
+    SELECT c.*, p.title, rx.id AS owned_prescription_id, lt.vision_type, lt.min_sph, lt.max_sph, lt.max_cyl
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    LEFT JOIN prescriptions rx ON rx.id = c.prescription_id AND rx.user_id = _user_id
+    LEFT JOIN lens_types lt ON lt.id = c.lens_type_id
+    WHERE c.user_id = _user_id
+    ORDER BY c.created_at
+  LOOP
+    _quote := price_quote_line(_item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity);
+
+    -- Uploaded prescriptions are checked by staff; manual entries must pass the clinical rules
+    IF coalesce(_item.has_eyesight, false) AND _item.prescription_data ? 'rightEye' THEN
+      _prescription_errors := prescription_errors(
+        _item.prescription_data, _item.vision_type, _item.min_sph, _item.max_sph, _item.max_cyl
+      );
+      IF cardinality(_prescription_errors) > 0 THEN
+        RAISE EXCEPTION 'Prescription for % is invalid: %', _item.title, _prescription_errors[1];
+      END IF;
+    END IF;
+
+    -- Reserve stock; the conditional update fails instead of going negative
+    IF _item.variant_id IS NOT NULL THEN
+      UPDATE product_variants
+      SET stock = stock - _item.quantity
+      WHERE id = _item.variant_id
+        AND coalesce(stock, 0) >= _item.quantity;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not enough stock for %', _item.title;
+      END IF;
+    END IF;
+
+    INSERT INTO order_items (
+      order_id, product_id, variant_id, lens_type_id, quantity,
+      unit_price, total_price, has_eyesight, prescription_data, prescription_image_url, prescription_id
+    )
+    VALUES (
+      _order_id, _item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity,
+      (_quote->>'unit_price')::DECIMAL, (_quote->>'total')::DECIMAL,
+      _item.has_eyesight, _item.prescription_data, _item.prescription_image_url, _item.owned_prescription_id
+    );
+
+    _subtotal := _subtotal + (_quote->>'total')::DECIMAL;
+    _line_count := _line_count + 1;
+  END LOOP;
+
+  IF _line_count = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  _shipping_cost := shipping_for_subtotal(_subtotal);
+
+  IF _expected_total IS NOT NULL AND _expected_total <> _subtotal + _shipping_cost THEN
+    RAISE EXCEPTION 'Prices in your cart have changed. Please review your order and try again.';
+  END IF;
+
+  UPDATE orders
+  SET subtotal = _subtotal,
+      shipping_cost = _shipping_cost,
+      total = _subtotal + _shipping_cost
+  WHERE id = _order_id;
+
+  DELETE FROM cart_items WHERE user_id = _user_id;
+
+  RETURN _order_id;
+END;
+$$;
@@ -0,0 +1,379 @@
+-- Lens add-ons
+-- Besides the lens type, an order now records what the lens is for (usage),
+-- its thickness (material index), coatings and, for sunglasses, a tint.
+-- Each add-on is an admin-managed row in lens_options with its own price and
+-- constraints; price_quote_line prices every chosen option as its own line
+-- and place_order snapshots them onto the order item for the invoice.
+
+CREATE TYPE lens_usage AS ENUM ('everyday', 'computer', 'sunglasses');
+CREATE TYPE lens_option_kind AS ENUM ('thickness', 'coating', 'tint');
+
+CREATE TABLE lens_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind lens_option_kind NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  price_adjustment DECIMAL(10,2) NOT NULL DEFAULT 0,
+  -- Thickness only: the material index and the strongest power it can be made in
+  lens_index DECIMAL(3,2),
+  max_power DECIMAL(5,2),
+  -- Empty means the option is offered for every usage / vision type
+  usages lens_usage[] NOT NULL DEFAULT '{}',
+  vision_types lens_vision_type[] NOT NULL DEFAULT '{}',
+  is_enabled BOOLEAN DEFAULT true,
+  display_order INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT lens_options_thickness_index_check CHECK (kind <> 'thickness' OR lens_index IS NOT NULL),
+  CONSTRAINT lens_options_max_power_check CHECK (max_power IS NULL OR max_power > 0),
+  CONSTRAINT lens_options_price_check CHECK (price_adjustment >= 0)
+);
+
+CREATE INDEX idx_lens_options_kind ON lens_options(kind, display_order);
+
+CREATE TRIGGER update_lens_options_updated_at BEFORE UPDATE ON lens_options
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE lens_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Lens options are viewable by everyone"
+  ON lens_options FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage lens options"
+  ON lens_options FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+INSERT INTO lens_options (kind, name, description, price_adjustment, lens_index, max_power, usages, display_order) VALUES
+  ('thickness', 'Standard 1.50', 'Everyday lens for low prescriptions', 0, 1.50, 4.00, '{}', 1),
+  ('thickness', 'Thin 1.61', 'Up to 25% thinner than standard', 1500, 1.61, 6.00, '{}', 2),
+  ('thickness', 'Super thin 1.67', 'Up to 35% thinner than standard', 3000, 1.67, 8.00, '{}', 3),
+  ('thickness', 'Ultra thin 1.74', 'Thinnest lens for strong prescriptions', 5000, 1.74, NULL, '{}', 4),
+  ('coating', 'Anti-reflective', 'Reduces glare and reflections', 800, NULL, NULL, '{}', 1),
+  ('coating', 'Scratch-resistant', 'Hard coat for everyday wear', 500, NULL, NULL, '{}', 2),
+  ('coating', 'UV protection', 'Blocks UVA and UVB', 400, NULL, NULL, '{}', 3),
+  ('coating', 'Blue light filter', 'Filters blue light from screens', 1200, NULL, NULL, '{everyday,computer}', 4),
+  ('tint', 'Grey tint', NULL, 1000, NULL, NULL, '{sunglasses}', 1),
+  ('tint', 'Brown tint', NULL, 1000, NULL, NULL, '{sunglasses}', 2),
+  ('tint', 'Green tint', NULL, 1000, NULL, NULL, '{sunglasses}', 3),
+  ('tint', 'Polarised grey', 'Cuts glare from water and roads', 2500, NULL, NULL, '{sunglasses}', 4);
+
+ALTER TABLE cart_items
+  ADD COLUMN lens_usage lens_usage,
+  ADD COLUMN lens_option_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- Snapshot of the priced options ({id, kind, name, price}) at the time of the order
+ALTER TABLE order_items
+  ADD COLUMN lens_usage lens_usage,
+  ADD COLUMN lens_options JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+
+-- Strongest meridian of either eye, used to check thickness options.
+-- Stored prescriptions are minus-cyl, so SPH + CYL is the second meridian.
+CREATE OR REPLACE FUNCTION public.prescription_max_power(_data JSONB)
+RETURNS NUMERIC
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT greatest(
+    abs(prescription_value(_data, ARRAY['rightEye', 'sph'])),
+    abs(prescription_value(_data, ARRAY['rightEye', 'sph']) + prescription_value(_data, ARRAY['rightEye', 'cyl'])),
+    abs(prescription_value(_data, ARRAY['leftEye', 'sph'])),
+    abs(prescription_value(_data, ARRAY['leftEye', 'sph']) + prescription_value(_data, ARRAY['leftEye', 'cyl']))
+  )
+$$;
+
+
+-- Lens options are priced as separate lines and included in unit_price
+DROP FUNCTION IF EXISTS public.price_quote_line(UUID, UUID, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.price_quote_line(
+  _product_id UUID,
+  _variant_id UUID,
+  _lens_type_id UUID,
+  _quantity INTEGER,
+  _lens_option_ids UUID[] DEFAULT '{}',
+  _lens_usage lens_usage DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product RECORD;
+  _option RECORD;
+  _vision_type lens_vision_type;
+  _variant_adjustment DECIMAL(10,2) := 0;
+  _lens_adjustment DECIMAL(10,2) := 0;
+  _options JSONB := '[]'::JSONB;
+  _options_total DECIMAL(10,2) := 0;
+  _discount DECIMAL(10,2) := 0;
+  _unit_price DECIMAL(10,2);
+BEGIN
+  SELECT title, base_price, is_active INTO _product FROM products WHERE id = _product_id;
+
+  IF NOT FOUND OR NOT coalesce(_product.is_active, false) THEN
+    RAISE EXCEPTION '% is no longer available', coalesce(_product.title, 'A product in your cart');
+  END IF;
+
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RAISE EXCEPTION 'Invalid quantity for %', _product.title;
+  END IF;
+
+  IF _variant_id IS NOT NULL THEN
+    SELECT coalesce(price_adjustment, 0) INTO _variant_adjustment
+    FROM product_variants
+    WHERE id = _variant_id AND product_id = _product_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Selected option for % is no longer available', _product.title;
+    END IF;
+  END IF;
+
+  IF _lens_type_id IS NOT NULL THEN
+    SELECT price_adjustment, vision_type INTO _lens_adjustment, _vision_type
+    FROM product_lens_options
+    WHERE product_id = _product_id AND lens_type_id = _lens_type_id AND is_enabled = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Selected lens for % is no longer available', _product.title;
+    END IF;
+  END IF;
+
+  IF cardinality(coalesce(_lens_option_ids, '{}')) > 0 THEN
+    IF _lens_type_id IS NULL THEN
+      RAISE EXCEPTION 'Choose a lens for % before adding lens options', _product.title;
+    END IF;
+
+    FOR _option IN
+      SELECT * FROM lens_options
+      WHERE id = ANY(_lens_option_ids)
+      ORDER BY kind, display_order, name
+    LOOP
+      IF NOT coalesce(_option.is_enabled, false) THEN
+        RAISE EXCEPTION '% is no longer available for %', _option.name, _product.title;
+      END IF;
+
+      IF cardinality(_option.usages) > 0 AND NOT (coalesce(_lens_usage::TEXT, '') = ANY(_option.usages::TEXT[])) THEN
+        RAISE EXCEPTION '% is not available for this lens usage', _option.name;
+      END IF;
+
+      IF cardinality(_option.vision_types) > 0 AND NOT (coalesce(_vision_type::TEXT, '') = ANY(_option.vision_types::TEXT[])) THEN
+        RAISE EXCEPTION '% is not available with the selected lens', _option.name;
+      END IF;
+
+      _options := _options || jsonb_build_array(jsonb_build_object(
+        'id', _option.id,
+        'kind', _option.kind,
+        'name', _option.name,
+        'price', _option.price_adjustment
+      ));
+      _options_total := _options_total + _option.price_adjustment;
+    END LOOP;
+
+    IF jsonb_array_length(_options) <> (SELECT count(DISTINCT id) FROM unnest(_lens_option_ids) AS id) THEN
+      RAISE EXCEPTION 'A lens option for % is no longer available', _product.title;
+    END IF;
+
+    IF (SELECT count(*) FROM jsonb_array_elements(_options) o WHERE o->>'kind' = 'thickness') > 1 THEN
+      RAISE EXCEPTION 'Choose one lens thickness for %', _product.title;
+    END IF;
+
+    IF (SELECT count(*) FROM jsonb_array_elements(_options) o WHERE o->>'kind' = 'tint') > 1 THEN
+      RAISE EXCEPTION 'Choose one tint for %', _product.title;
+    END IF;
+  END IF;
+
+  _unit_price := _product.base_price + _variant_adjustment + _lens_adjustment + _options_total - _discount;
+
+  RETURN jsonb_build_object(
+    'base', _product.base_price,
+    'variant', _variant_adjustment,
+    'lens', _lens_adjustment,
+    'options', _options,
+    'discount', _discount,
+    'unit_price', _unit_price,
+    'quantity', _quantity,
+    'total', _unit_price * _quantity
+  );
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION public.quote_cart()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _lines JSONB := '[]'::JSONB;
+  _line JSONB;
+  _item RECORD;
+  _subtotal DECIMAL(10,2) := 0;
+  _discount DECIMAL(10,2) := 0;
+  _shipping DECIMAL(10,2);
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to view your cart total';
+  END IF;
+
+  FOR _item IN
+    SELECT id, product_id, variant_id, lens_type_id, quantity, lens_option_ids, lens_usage
+    FROM cart_items
+    WHERE user_id = _user_id
+    ORDER BY created_at
+  LOOP
+    _line := price_quote_line(
+      _item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity,
+      _item.lens_option_ids, _item.lens_usage
+    ) || jsonb_build_object('cart_item_id', _item.id);
+    _lines := _lines || jsonb_build_array(_line);
+    _subtotal := _subtotal + (_line->>'total')::DECIMAL;
+    _discount := _discount + (_line->>'discount')::DECIMAL * _item.quantity;
+  END LOOP;
+
+  _shipping := shipping_for_subtotal(_subtotal);
+
+  RETURN jsonb_build_object(
+    'lines', _lines,
+    'subtotal', _subtotal,
+    'discount', _discount,
+    'shipping', _shipping,
+    'total', _subtotal + _shipping
+  );
+END;
+$$;
+
+
+-- place_order prices the lens options, checks the thickness against the
+-- prescription and stores the priced options on the order item
+CREATE OR REPLACE FUNCTION public.place_order(
+  _shipping_address JSONB,
+  _payment_method payment_method,
+  _customer_notes TEXT DEFAULT NULL,
+  _expected_total DECIMAL DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order_id UUID;
+  _subtotal DECIMAL(10,2) := 0;
+  _shipping_cost DECIMAL(10,2);
+  _item RECORD;
+  _quote JSONB;
+  _line_count INTEGER := 0;
+  _prescription_errors TEXT[];
+  _thickness TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _shipping_address IS NULL
+     OR coalesce(_shipping_address->>'full_name', '') = ''
+     OR coalesce(_shipping_address->>'phone', '') = ''
+     OR coalesce(_shipping_address->>'address_line1', '') = ''
+     OR coalesce(_shipping_address->>'city', '') = '' THEN
+    RAISE EXCEPTION 'Shipping address is incomplete';
+  END IF;
+
+  -- Lock the cart so a concurrent checkout from another tab cannot reuse it
+  PERFORM 1 FROM cart_items WHERE user_id = _user_id FOR UPDATE;
+
+  INSERT INTO orders (user_id, order_number, subtotal, shipping_cost, total, payment_method, shipping_address, customer_notes, status)
+  VALUES (_user_id, generate_order_number(), 0, 0, 0, _payment_method, _shipping_address, _customer_notes, 'pending')
+  RETURNING id INTO _order_id;
+
+  FOR _item IN
+    SELECT c.*, p.title, rx.id AS owned_prescription_id, lt.vision_type, lt.min_sph, lt.max_sph, lt.max_cyl
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    LEFT JOIN prescriptions rx ON rx.id = c.prescription_id AND rx.user_id = _user_id
+    LEFT JOIN lens_types lt ON lt.id = c.lens_type_id
+    WHERE c.user_id = _user_id
+    ORDER BY c.created_at
+  LOOP
+    _quote := price_quote_line(
+      _item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity,
+      _item.lens_option_ids, _item.lens_usage
+    );
+
+    -- Uploaded prescriptions are checked by staff; manual entries must pass the clinical rules
+    IF coalesce(_item.has_eyesight, false) AND _item.prescription_data ? 'rightEye' THEN
+      _prescription_errors := prescription_errors(
+        _item.prescription_data, _item.vision_type, _item.min_sph, _item.max_sph, _item.max_cyl
+      );
+      IF cardinality(_prescription_errors) > 0 THEN
+        RAISE EXCEPTION 'Prescription for % is invalid: %', _item.title, _prescription_errors[1];
+      END IF;
+
+      SELECT name INTO _thickness
+      FROM lens_options
+      WHERE id = ANY(_item.lens_option_ids)
+        AND kind = 'thickness'
+        AND max_power < prescription_max_power(_item.prescription_data);
+
+      IF FOUND THEN
+        RAISE EXCEPTION '% lenses cannot be made for the prescription on %', _thickness, _item.title;
+      END IF;
+    END IF;
+
+    -- Reserve stock; the conditional update fails instead of going negative
+    IF _item.variant_id IS NOT NULL THEN
+      UPDATE product_variants
+      SET stock = stock - _item.quantity
+      WHERE id = _item.variant_id
+        AND coalesce(stock, 0) >= _item.quantity;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not enough stock for %', _item.title;
+      END IF;
+    END IF;
+
+    INSERT INTO order_items (
+      order_id, product_id, variant_id, lens_type_id, quantity,
+      unit_price, total_price, has_eyesight, prescription_data, prescription_image_url, prescription_id,
+      lens_usage, lens_options
+    )
+    VALUES (
+      _order_id, _item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity,
+      (_quote->>'unit_price')::DECIMAL, (_quote->>'total')::DECIMAL,
+      _item.has_eyesight, _item.prescription_data, _item.prescription_image_url, _item.owned_prescription_id,
+      _item.lens_usage, _quote->'options'
+    );
+
+    _subtotal := _subtotal + (_quote->>'total')::DECIMAL;
+    _line_count := _line_count + 1;
+  END LOOP;
+
+  IF _line_count = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  _shipping_cost := shipping_for_subtotal(_subtotal);
+
+  IF _expected_total IS NOT NULL AND _expected_total <> _subtotal + _shipping_cost THEN
+    RAISE EXCEPTION 'Prices in your cart have changed. Please review your order and try again.';
+  END IF;
+
+  UPDATE orders
+  SET subtotal = _subtotal,
+      shipping_cost = _shipping_cost,
+      total = _subtotal + _shipping_cost
+  WHERE id = _order_id;
+
+  DELETE FROM cart_items WHERE user_id = _user_id;
+
+  RETURN _order_id;
+END;
+$$;
@@ -0,0 +1,267 @@
+-- Stock reservations
+-- Entering checkout holds the variant quantities in the customer's cart for
+-- a short time, so two customers cannot both pay for the last unit. Holds
+-- expire on their own: every availability check ignores expired rows, and
+-- reserve_cart_stock clears them out. place_order only sells stock that is
+-- not held by someone else, and decrements it under a row lock.
+
+CREATE TABLE stock_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cart_item_id UUID REFERENCES cart_items(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_stock_reservations_variant ON stock_reservations(variant_id, expires_at);
+CREATE INDEX idx_stock_reservations_user ON stock_reservations(user_id);
+
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Holds are written only by the functions below
+CREATE POLICY "Users can view their own stock reservations"
+  ON stock_reservations FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all stock reservations"
+  ON stock_reservations FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+
+-- Units of a variant held by active reservations, optionally ignoring one customer's own holds
+CREATE OR REPLACE FUNCTION public.reserved_stock(_variant_id UUID, _excluding_user UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(sum(quantity), 0)::INTEGER
+  FROM stock_reservations
+  WHERE variant_id = _variant_id
+    AND expires_at > now()
+    AND user_id IS DISTINCT FROM _excluding_user
+$$;
+
+REVOKE ALL ON FUNCTION public.reserved_stock(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+
+-- Stock the caller can still buy: on-hand stock minus everyone else's holds
+CREATE OR REPLACE FUNCTION public.variant_availability(_variant_ids UUID[])
+RETURNS TABLE (variant_id UUID, available INTEGER)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT v.id, greatest(coalesce(v.stock, 0) - reserved_stock(v.id, auth.uid()), 0)
+  FROM product_variants v
+  WHERE v.id = ANY(_variant_ids)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.variant_availability(UUID[]) TO anon, authenticated;
+
+
+-- Hold the caller's cart for 15 minutes. Lines that cannot be held are
+-- returned as {cart_item_id, title, requested, available} so checkout can
+-- tell the customer what to change.
+CREATE OR REPLACE FUNCTION public.reserve_cart_stock()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _expires_at TIMESTAMPTZ := now() + interval '15 minutes';
+  _item RECORD;
+  _available INTEGER;
+  _unavailable JSONB := '[]'::JSONB;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to check out';
+  END IF;
+
+  DELETE FROM stock_reservations
+  WHERE expires_at <= now() OR user_id = _user_id;
+
+  -- Lock variants in a fixed order so concurrent checkouts cannot deadlock
+  FOR _item IN
+    SELECT c.id, c.variant_id, c.quantity, p.title
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = _user_id AND c.variant_id IS NOT NULL
+    ORDER BY c.variant_id, c.created_at
+  LOOP
+    SELECT coalesce(stock, 0) - reserved_stock(id) INTO _available
+    FROM product_variants
+    WHERE id = _item.variant_id
+    FOR UPDATE;
+
+    IF coalesce(_available, 0) >= _item.quantity THEN
+      INSERT INTO stock_reservations (cart_item_id, variant_id, user_id, quantity, expires_at)
+      VALUES (_item.id, _item.variant_id, _user_id, _item.quantity, _expires_at);
+    ELSE
+      _unavailable := _unavailable || jsonb_build_array(jsonb_build_object(
+        'cart_item_id', _item.id,
+        'title', _item.title,
+        'requested', _item.quantity,
+        'available', greatest(coalesce(_available, 0), 0)
+      ));
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('expires_at', _expires_at, 'unavailable', _unavailable);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reserve_cart_stock() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reserve_cart_stock() TO authenticated;
+
+-- Give the stock back when the customer leaves checkout without ordering
+CREATE OR REPLACE FUNCTION public.release_cart_stock()
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM stock_reservations WHERE user_id = auth.uid()
+$$;
+
+REVOKE ALL ON FUNCTION public.release_cart_stock() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.release_cart_stock() TO authenticated;
+
+
+-- place_order sells only stock that is not held by other customers. The
+-- caller's own holds are released with the cart rows (ON DELETE CASCADE).
+CREATE OR REPLACE FUNCTION public.place_order(
+  _shipping_address JSONB,
+  _payment_method payment_method,
+  _customer_notes TEXT DEFAULT NULL,
+  _expected_total DECIMAL DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order_id UUID;
+  _subtotal DECIMAL(10,2) := 0;
+  _shipping_cost DECIMAL(10,2);
+  _item RECORD;
+  _quote JSONB;
+  _line_count INTEGER := 0;
+  _prescription_errors TEXT[];
+  _thickness TEXT;
+  _available INTEGER;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _shipping_address IS NULL
+     OR coalesce(_shipping_address->>'full_name', '') = ''
+     OR coalesce(_shipping_address->>'phone', '') = ''
+     OR coalesce(_shipping_address->>'address_line1', '') = ''
+     OR coalesce(_shipping_address->>'city', '') = '' THEN
+    RAISE EXCEPTION 'Shipping address is incomplete';
+  END IF;
+
+  -- Lock the cart so a concurrent checkout from another tab cannot reuse it
+  PERFORM 1 FROM cart_items WHERE user_id = _user_id FOR UPDATE;
+
+  INSERT INTO orders (user_id, order_number, subtotal, shipping_cost, total, payment_method, shipping_address, customer_notes, status)
+  VALUES (_user_id, generate_order_number(), 0, 0, 0, _payment_method, _shipping_address, _customer_notes, 'pending')
+  RETURNING id INTO _order_id;
+
+  FOR _item IN
+    SELECT c.*, p.title, rx.id AS owned_prescription_id, lt.vision_type, lt.min_sph, lt.max_sph, lt.max_cyl
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    LEFT JOIN prescriptions rx ON rx.id = c.prescription_id AND rx.user_id = _user_id
+    LEFT JOIN lens_types lt ON lt.id = c.lens_type_id
+    WHERE c.user_id = _user_id
+    ORDER BY c.created_at
+  LOOP
+    _quote := price_quote_line(
+      _item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity,
+      _item.lens_option_ids, _item.lens_usage
+    );
+
+    -- Uploaded prescriptions are checked by staff; manual entries must pass the clinical rules
+    IF coalesce(_item.has_eyesight, false) AND _item.prescription_data ? 'rightEye' THEN
+      _prescription_errors := prescription_errors(
+        _item.prescription_data, _item.vision_type, _item.min_sph, _item.max_sph, _item.max_cyl
+      );
+      IF cardinality(_prescription_errors) > 0 THEN
+        RAISE EXCEPTION 'Prescription for % is invalid: %', _item.title, _prescription_errors[1];
+      END IF;
+
+      SELECT name INTO _thickness
+      FROM lens_options
+      WHERE id = ANY(_item.lens_option_ids)
+        AND kind = 'thickness'
+        AND max_power < prescription_max_power(_item.prescription_data);
+
+      IF FOUND THEN
+        RAISE EXCEPTION '% lenses cannot be made for the prescription on %', _thickness, _item.title;
+      END IF;
+    END IF;
+
+    -- Lock the variant, then sell only what other customers are not holding
+    IF _item.variant_id IS NOT NULL THEN
+      SELECT coalesce(stock, 0) - reserved_stock(id, _user_id) INTO _available
+      FROM product_variants
+      WHERE id = _item.variant_id
+      FOR UPDATE;
+
+      IF coalesce(_available, 0) < _item.quantity THEN
+        RAISE EXCEPTION 'Not enough stock for %', _item.title;
+      END IF;
+
+      UPDATE product_variants
+      SET stock = stock - _item.quantity
+      WHERE id = _item.variant_id;
+    END IF;
+
+    INSERT INTO order_items (
+      order_id, product_id, variant_id, lens_type_id, quantity,
+      unit_price, total_price, has_eyesight, prescription_data, prescription_image_url, prescription_id,
+      lens_usage, lens_options
+    )
+    VALUES (
+      _order_id, _item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity,
+      (_quote->>'unit_price')::DECIMAL, (_quote->>'total')::DECIMAL,
+      _item.has_eyesight, _item.prescription_data, _item.prescription_image_url, _item.owned_prescription_id,
+      _item.lens_usage, _quote->'options'
+    );
+
+    _subtotal := _subtotal + (_quote->>'total')::DECIMAL;
+    _line_count := _line_count + 1;
+  END LOOP;
+
+  IF _line_count = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  _shipping_cost := shipping_for_subtotal(_subtotal);
+
+  IF _expected_total IS NOT NULL AND _expected_total <> _subtotal + _shipping_cost THEN
+    RAISE EXCEPTION 'Prices in your cart have changed. Please review your order and try again.';
+  END IF;
+
+  UPDATE orders
+  SET subtotal = _subtotal,
+      shipping_cost = _shipping_cost,
+      total = _subtotal + _shipping_cost
+  WHERE id = _order_id;
+
+  DELETE FROM cart_items WHERE user_id = _user_id;
+
+  RETURN _order_id;
+END;
+$$;
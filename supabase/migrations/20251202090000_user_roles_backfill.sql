@@ -0,0 +1,10 @@
+-- Roles come from user_roles
+-- The storefront and admin screens now resolve roles with has_role, the
+-- same check RLS uses. Carry over admins that were only flagged through the
+-- legacy profiles.role column so they keep access.
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, 'admin'::app_role
+FROM public.profiles
+WHERE role = 'admin'
+ON CONFLICT (user_id, role) DO NOTHING;
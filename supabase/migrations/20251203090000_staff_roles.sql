@@ -0,0 +1,7 @@
+-- Staff roles
+-- Adds the fulfilment and content editor roles alongside admin and moderator.
+-- New enum values cannot be used in the transaction that adds them, so the
+-- permission model that refers to them lives in the next migration.
+
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'fulfilment';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'content_editor';
@@ -0,0 +1,272 @@
+-- Staff permissions
+-- Staff roles map to capabilities in role_permissions, and RLS checks the
+-- capability instead of the admin role. Admins hold every permission and are
+-- the only ones who can assign roles. The customer-facing profiles.role
+-- column is no longer consulted anywhere.
+
+CREATE TYPE app_permission AS ENUM (
+  'manage_products',
+  'manage_orders',
+  'view_customers',
+  'edit_pages',
+  'change_settings'
+);
+
+CREATE TABLE role_permissions (
+  role app_role NOT NULL,
+  permission app_permission NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Role permissions are viewable by signed-in users"
+  ON role_permissions FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('admin', 'manage_products'),
+  ('admin', 'manage_orders'),
+  ('admin', 'view_customers'),
+  ('admin', 'edit_pages'),
+  ('admin', 'change_settings'),
+  ('moderator', 'manage_products'),
+  ('moderator', 'manage_orders'),
+  ('moderator', 'view_customers'),
+  ('moderator', 'edit_pages'),
+  ('fulfilment', 'manage_orders'),
+  ('fulfilment', 'view_customers'),
+  ('content_editor', 'edit_pages');
+
+
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission app_permission)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_roles ur
+    JOIN role_permissions rp ON rp.role = ur.role
+    WHERE ur.user_id = _user_id
+      AND rp.permission = _permission
+  )
+$$;
+
+-- Everything the caller may do, for hiding screens and actions in the UI
+CREATE OR REPLACE FUNCTION public.current_user_permissions()
+RETURNS app_permission[]
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(array_agg(DISTINCT rp.permission), '{}')
+  FROM user_roles ur
+  JOIN role_permissions rp ON rp.role = ur.role
+  WHERE ur.user_id = auth.uid()
+$$;
+
+GRANT EXECUTE ON FUNCTION public.current_user_permissions() TO authenticated;
+
+
+-- The store must always keep at least one admin
+CREATE OR REPLACE FUNCTION public.keep_last_admin()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'admin'
+     AND (TG_OP = 'DELETE' OR NEW.role <> 'admin')
+     AND NOT EXISTS (SELECT 1 FROM user_roles WHERE role = 'admin' AND id <> OLD.id) THEN
+    RAISE EXCEPTION 'The store needs at least one admin';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER keep_last_admin
+  BEFORE UPDATE OR DELETE ON user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_last_admin();
+
+
+-- Catalogue
+DROP POLICY IF EXISTS "Products are viewable by everyone" ON products;
+CREATE POLICY "Products are viewable by everyone"
+  ON products FOR SELECT
+  USING (is_active = true OR has_permission(auth.uid(), 'manage_products'));
+
+DROP POLICY IF EXISTS "Admins can manage products" ON products;
+CREATE POLICY "Staff can manage products"
+  ON products FOR ALL
+  USING (has_permission(auth.uid(), 'manage_products'));
+
+DROP POLICY IF EXISTS "Admins can manage variants" ON product_variants;
+CREATE POLICY "Staff can manage variants"
+  ON product_variants FOR ALL
+  USING (has_permission(auth.uid(), 'manage_products'));
+
+DROP POLICY IF EXISTS "Admins can manage categories" ON categories;
+CREATE POLICY "Staff can manage categories"
+  ON categories FOR ALL
+  USING (has_permission(auth.uid(), 'manage_products'));
+
+DROP POLICY IF EXISTS "Admins can manage lens types" ON lens_types;
+CREATE POLICY "Staff can manage lens types"
+  ON lens_types FOR ALL
+  USING (has_permission(auth.uid(), 'manage_products'));
+
+DROP POLICY IF EXISTS "Admins can manage lens compatibility" ON lens_compatibility;
+CREATE POLICY "Staff can manage lens compatibility"
+  ON lens_compatibility FOR ALL
+  USING (has_permission(auth.uid(), 'manage_products'));
+
+DROP POLICY IF EXISTS "Admins can manage lens options" ON lens_options;
+CREATE POLICY "Staff can manage lens options"
+  ON lens_options FOR ALL
+  USING (has_permission(auth.uid(), 'manage_products'));
+
+DROP POLICY IF EXISTS "Admins can manage reviews" ON reviews;
+CREATE POLICY "Staff can manage reviews"
+  ON reviews FOR ALL
+  USING (has_permission(auth.uid(), 'manage_products'));
+
+DROP POLICY IF EXISTS "Admins can upload product images" ON storage.objects;
+CREATE POLICY "Staff can upload product images"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'product-images' AND
+  has_permission(auth.uid(), 'manage_products')
+);
+
+DROP POLICY IF EXISTS "Admins can update product images" ON storage.objects;
+CREATE POLICY "Staff can update product images"
+ON storage.objects FOR UPDATE
+USING (
+  bucket_id = 'product-images' AND
+  has_permission(auth.uid(), 'manage_products')
+);
+
+DROP POLICY IF EXISTS "Admins can delete product images" ON storage.objects;
+CREATE POLICY "Staff can delete product images"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'product-images' AND
+  has_permission(auth.uid(), 'manage_products')
+);
+
+
+-- Orders. Customer screens show order counts, so view_customers can read orders too.
+DROP POLICY IF EXISTS "Admins can view all orders" ON orders;
+CREATE POLICY "Staff can view all orders"
+  ON orders FOR SELECT
+  USING (has_permission(auth.uid(), 'manage_orders') OR has_permission(auth.uid(), 'view_customers'));
+
+DROP POLICY IF EXISTS "Admins can update orders" ON orders;
+CREATE POLICY "Staff can update orders"
+  ON orders FOR UPDATE
+  USING (has_permission(auth.uid(), 'manage_orders'));
+
+DROP POLICY IF EXISTS "Admins can view all order items" ON order_items;
+CREATE POLICY "Staff can view all order items"
+  ON order_items FOR SELECT
+  USING (has_permission(auth.uid(), 'manage_orders'));
+
+DROP POLICY IF EXISTS "Admins can view all stock reservations" ON stock_reservations;
+CREATE POLICY "Staff can view all stock reservations"
+  ON stock_reservations FOR SELECT
+  USING (has_permission(auth.uid(), 'manage_orders'));
+
+DROP POLICY IF EXISTS "Admins can view all prescriptions" ON prescriptions;
+CREATE POLICY "Staff can view all prescriptions"
+  ON prescriptions FOR SELECT
+  USING (has_permission(auth.uid(), 'manage_orders'));
+
+DROP POLICY IF EXISTS "Owners and admins can view prescriptions" ON storage.objects;
+CREATE POLICY "Owners and staff can view prescriptions"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'prescriptions'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::text
+    OR owner = auth.uid()
+    OR has_permission(auth.uid(), 'manage_orders')
+  )
+);
+
+
+-- Customers
+DROP POLICY IF EXISTS "Admins can view all profiles" ON profiles;
+CREATE POLICY "Staff can view all profiles"
+  ON profiles FOR SELECT
+  USING (has_permission(auth.uid(), 'view_customers'));
+
+DROP POLICY IF EXISTS "Admins can view contact submissions" ON contact_submissions;
+CREATE POLICY "Staff can view contact submissions"
+  ON contact_submissions FOR SELECT
+  USING (has_permission(auth.uid(), 'view_customers'));
+
+
+-- Content and settings
+DROP POLICY IF EXISTS "Admins can update pages" ON pages;
+CREATE POLICY "Staff can update pages"
+  ON pages FOR UPDATE
+  USING (has_permission(auth.uid(), 'edit_pages'));
+
+DROP POLICY IF EXISTS "Allow admin to update site_settings" ON site_settings;
+CREATE POLICY "Staff can update site_settings"
+  ON site_settings FOR ALL
+  TO authenticated
+  USING (has_permission(auth.uid(), 'change_settings'));
+
+DROP POLICY IF EXISTS "Authenticated users can upload logos" ON storage.objects;
+CREATE POLICY "Staff can upload logos"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'logos' AND has_permission(auth.uid(), 'change_settings'));
+
+DROP POLICY IF EXISTS "Authenticated users can update logos" ON storage.objects;
+CREATE POLICY "Staff can update logos"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (bucket_id = 'logos' AND has_permission(auth.uid(), 'change_settings'));
+
+DROP POLICY IF EXISTS "Authenticated users can delete logos" ON storage.objects;
+CREATE POLICY "Staff can delete logos"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'logos' AND has_permission(auth.uid(), 'change_settings'));
+
+
+-- Staff assignment: admins need to find accounts by email before granting a role
+CREATE OR REPLACE FUNCTION public.list_staff()
+RETURNS TABLE (user_id UUID, email TEXT, full_name TEXT, roles app_role[])
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage staff';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.email, p.full_name, array_agg(ur.role ORDER BY ur.role)
+  FROM user_roles ur
+  JOIN profiles p ON p.id = ur.user_id
+  WHERE ur.role <> 'user'
+  GROUP BY p.id, p.email, p.full_name
+  ORDER BY p.email;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.list_staff() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_staff() TO authenticated;
@@ -0,0 +1,139 @@
+-- Audit log
+-- Triggers on catalogue, order, content and settings tables record who
+-- changed which row, with the row before and after the change. The log is
+-- append-only: nobody can edit or delete entries, and only admins can read
+-- them. Updates that only touch updated_at / updated_by are not recorded.
+-- The actor's email is copied onto each entry so the log still reads
+-- correctly after an account is deleted.
+
+CREATE TYPE audit_action AS ENUM ('insert', 'update', 'delete');
+
+CREATE TABLE audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID,
+  actor_email TEXT,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  action audit_action NOT NULL,
+  old_data JSONB,
+  new_data JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_audit_log_record ON audit_log(table_name, record_id, created_at DESC);
+CREATE INDEX idx_audit_log_actor ON audit_log(actor_id, created_at DESC);
+CREATE INDEX idx_audit_log_created_at ON audit_log(created_at DESC);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries are written only by record_audit below
+CREATE POLICY "Admins can view the audit log"
+  ON audit_log FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_log FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log cannot be changed';
+END;
+$$;
+
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+
+CREATE OR REPLACE FUNCTION public.record_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END;
+  _new JSONB := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND _old - 'updated_at' - 'updated_by' = _new - 'updated_at' - 'updated_by' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (actor_id, actor_email, table_name, record_id, action, old_data, new_data)
+  VALUES (
+    auth.uid(),
+    (SELECT email FROM profiles WHERE id = auth.uid()),
+    TG_TABLE_NAME,
+    coalesce(_new->>'id', _old->>'id'),
+    lower(TG_OP)::audit_action,
+    _old,
+    _new
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_products
+  AFTER INSERT OR UPDATE OR DELETE ON products
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+CREATE TRIGGER audit_product_variants
+  AFTER INSERT OR UPDATE OR DELETE ON product_variants
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+CREATE TRIGGER audit_categories
+  AFTER INSERT OR UPDATE OR DELETE ON categories
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+CREATE TRIGGER audit_lens_types
+  AFTER INSERT OR UPDATE OR DELETE ON lens_types
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+CREATE TRIGGER audit_lens_options
+  AFTER INSERT OR UPDATE OR DELETE ON lens_options
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+CREATE TRIGGER audit_lens_compatibility
+  AFTER INSERT OR UPDATE OR DELETE ON lens_compatibility
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+CREATE TRIGGER audit_orders
+  AFTER INSERT OR UPDATE OR DELETE ON orders
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+CREATE TRIGGER audit_pages
+  AFTER INSERT OR UPDATE OR DELETE ON pages
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+CREATE TRIGGER audit_site_settings
+  AFTER INSERT OR UPDATE OR DELETE ON site_settings
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+CREATE TRIGGER audit_user_roles
+  AFTER INSERT OR UPDATE OR DELETE ON user_roles
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+
+-- site_settings.updated_by was never filled in; stamp it with the editor
+CREATE OR REPLACE FUNCTION public.stamp_site_settings_editor()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_by := auth.uid();
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_site_settings_editor
+  BEFORE INSERT OR UPDATE ON site_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_site_settings_editor();
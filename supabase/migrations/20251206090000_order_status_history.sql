@@ -0,0 +1,143 @@
+-- Order status workflow
+-- Orders move forward through pending -> processing -> shipped -> delivered,
+-- and can only be cancelled before they ship. Shipping needs a tracking
+-- number. Every status change is written to order_status_history with who
+-- made it and an optional note, which customers see as a timeline.
+
+CREATE TABLE order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  from_status order_status,
+  to_status order_status NOT NULL,
+  note TEXT,
+  changed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_order_status_history_order ON order_status_history(order_id, created_at);
+
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only by the triggers below
+CREATE POLICY "Users can view their own order history"
+  ON order_status_history FOR SELECT
+  USING (EXISTS (SELECT 1 FROM orders WHERE orders.id = order_id AND orders.user_id = auth.uid()));
+
+CREATE POLICY "Staff can view all order history"
+  ON order_status_history FOR SELECT
+  USING (has_permission(auth.uid(), 'manage_orders'));
+
+
+-- Keep in step with ORDER_STATUS_TRANSITIONS in src/lib/order-status.ts
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(_from order_status, _to order_status)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _from
+    WHEN 'pending' THEN _to IN ('processing', 'cancelled')
+    WHEN 'processing' THEN _to IN ('shipped', 'cancelled')
+    WHEN 'shipped' THEN _to IN ('delivered')
+    ELSE false
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT order_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Order % cannot move from % to %', OLD.order_number, OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'shipped'
+     AND (NEW.status IS DISTINCT FROM OLD.status OR NEW.tracking_number IS DISTINCT FROM OLD.tracking_number)
+     AND coalesce(trim(NEW.tracking_number), '') = '' THEN
+    RAISE EXCEPTION 'A tracking number is required to mark an order as shipped';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_order_status
+  BEFORE UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_status();
+
+
+-- The note comes from update_order_status through a transaction-local setting
+CREATE OR REPLACE FUNCTION public.record_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NULL OR (TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, note, changed_by)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    nullif(trim(current_setting('app.order_status_note', true)), ''),
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_order_status
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION record_order_status();
+
+
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  _order_id UUID,
+  _status order_status,
+  _tracking_number TEXT DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission(auth.uid(), 'manage_orders') THEN
+    RAISE EXCEPTION 'You are not allowed to update orders';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', coalesce(_note, ''), true);
+
+  UPDATE orders
+  SET status = _status,
+      tracking_number = nullif(trim(_tracking_number), '')
+  WHERE id = _order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.update_order_status(UUID, order_status, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_order_status(UUID, order_status, TEXT, TEXT) TO authenticated;
+
+
+-- Orders placed before history was kept start with their current status
+INSERT INTO order_status_history (order_id, from_status, to_status, created_at)
+SELECT id, NULL, status, created_at
+FROM orders
+WHERE status IS NOT NULL;
@@ -0,0 +1,167 @@
+-- Order cancellation
+-- Customers can cancel their own orders while they are pending or
+-- processing; staff with manage_orders can cancel any order at those
+-- stages. Whole orders or some units of individual lines can be cancelled.
+-- Cancelled units go back into variant stock and the order totals are
+-- recomputed. Cancelling an order by any route, including a plain status
+-- update, restores the stock of every line still open.
+
+ALTER TABLE order_items
+  ADD COLUMN cancelled_quantity INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN cancellation_reason TEXT,
+  ADD CONSTRAINT order_items_cancelled_quantity_check
+    CHECK (cancelled_quantity >= 0 AND cancelled_quantity <= quantity);
+
+ALTER TABLE orders
+  ADD COLUMN cancellation_reason TEXT,
+  ADD COLUMN cancelled_at TIMESTAMPTZ,
+  ADD COLUMN cancelled_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+
+-- Runs after enforce_order_status (triggers fire in name order)
+CREATE OR REPLACE FUNCTION public.restore_stock_on_cancel()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item RECORD;
+BEGIN
+  IF NEW.status <> 'cancelled' OR OLD.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR _item IN
+    SELECT id, variant_id, quantity - cancelled_quantity AS open_quantity
+    FROM order_items
+    WHERE order_id = NEW.id AND cancelled_quantity < quantity
+    ORDER BY variant_id
+  LOOP
+    IF _item.variant_id IS NOT NULL THEN
+      UPDATE product_variants
+      SET stock = coalesce(stock, 0) + _item.open_quantity
+      WHERE id = _item.variant_id;
+    END IF;
+
+    UPDATE order_items
+    SET cancelled_quantity = quantity,
+        total_price = 0,
+        cancellation_reason = coalesce(cancellation_reason, NEW.cancellation_reason)
+    WHERE id = _item.id;
+  END LOOP;
+
+  NEW.subtotal := 0;
+  NEW.shipping_cost := 0;
+  NEW.total := 0;
+  NEW.cancelled_at := NOW();
+  NEW.cancelled_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restore_stock_on_cancel
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION restore_stock_on_cancel();
+
+
+-- Cancel a whole order (_items NULL) or some units of its lines
+-- (_items = [{"order_item_id": ..., "quantity": n}, ...]).
+CREATE OR REPLACE FUNCTION public.cancel_order(
+  _order_id UUID,
+  _reason TEXT,
+  _items JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order orders%ROWTYPE;
+  _line RECORD;
+  _item order_items%ROWTYPE;
+  _subtotal DECIMAL(10,2);
+BEGIN
+  SELECT * INTO _order FROM orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND
+     OR (_order.user_id IS DISTINCT FROM _user_id AND NOT has_permission(_user_id, 'manage_orders')) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status NOT IN ('pending', 'processing') THEN
+    RAISE EXCEPTION 'Order % has already %, so it can no longer be cancelled', _order.order_number, _order.status;
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please give a reason for the cancellation';
+  END IF;
+
+  IF _items IS NOT NULL THEN
+    IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+      RAISE EXCEPTION 'Choose at least one item to cancel';
+    END IF;
+
+    FOR _line IN
+      SELECT (value->>'order_item_id')::UUID AS order_item_id, (value->>'quantity')::INTEGER AS quantity
+      FROM jsonb_array_elements(_items)
+    LOOP
+      SELECT * INTO _item
+      FROM order_items
+      WHERE id = _line.order_item_id AND order_id = _order_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Item is not part of order %', _order.order_number;
+      END IF;
+
+      IF coalesce(_line.quantity, 0) < 1 OR _line.quantity > _item.quantity - _item.cancelled_quantity THEN
+        RAISE EXCEPTION 'Only % unit(s) of that item can still be cancelled', _item.quantity - _item.cancelled_quantity;
+      END IF;
+
+      UPDATE order_items
+      SET cancelled_quantity = cancelled_quantity + _line.quantity,
+          total_price = unit_price * (quantity - cancelled_quantity - _line.quantity),
+          cancellation_reason = trim(_reason)
+      WHERE id = _item.id;
+
+      IF _item.variant_id IS NOT NULL THEN
+        UPDATE product_variants
+        SET stock = coalesce(stock, 0) + _line.quantity
+        WHERE id = _item.variant_id;
+      END IF;
+    END LOOP;
+
+    -- Lines are left open: recompute the totals and stop there. Shipping is
+    -- not re-quoted, so a smaller order never costs more to ship.
+    IF EXISTS (SELECT 1 FROM order_items WHERE order_id = _order_id AND cancelled_quantity < quantity) THEN
+      SELECT coalesce(sum(total_price), 0) INTO _subtotal
+      FROM order_items
+      WHERE order_id = _order_id;
+
+      UPDATE orders
+      SET subtotal = _subtotal,
+          total = _subtotal + coalesce(shipping_cost, 0)
+      WHERE id = _order_id;
+
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Nothing left to ship: cancel the order; restore_stock_on_cancel handles the rest
+  PERFORM set_config('app.order_status_note', trim(_reason), true);
+
+  UPDATE orders
+  SET status = 'cancelled',
+      cancellation_reason = trim(_reason)
+  WHERE id = _order_id;
+
+  PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cancel_order(UUID, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID, TEXT, JSONB) TO authenticated;
@@ -0,0 +1,349 @@
+-- Returns and exchanges (RMA)
+-- Customers can ask to return or exchange units of a delivered order line
+-- within 30 days of delivery, with a reason and photos. Staff with
+-- manage_orders move each request through
+--   requested -> approved -> received -> refunded / exchanged
+-- or reject it. Received units go back into variant stock; an exchange
+-- creates a free replacement order for the chosen variant.
+
+CREATE TYPE return_type AS ENUM ('refund', 'exchange');
+CREATE TYPE return_status AS ENUM ('requested', 'approved', 'rejected', 'received', 'refunded', 'exchanged');
+
+
+-- The return window runs from delivery, so record when that happened
+ALTER TABLE orders ADD COLUMN delivered_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION public.stamp_order_delivered()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'delivered' AND OLD.status IS DISTINCT FROM 'delivered' THEN
+    NEW.delivered_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_order_delivered
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_order_delivered();
+
+-- Orders delivered before this migration take the time from their history
+UPDATE orders
+SET delivered_at = coalesce(
+  (SELECT max(created_at) FROM order_status_history h WHERE h.order_id = orders.id AND h.to_status = 'delivered'),
+  updated_at
+)
+WHERE status = 'delivered';
+
+
+CREATE TABLE return_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_number TEXT UNIQUE NOT NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  order_item_id UUID REFERENCES order_items(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  type return_type NOT NULL,
+  status return_status NOT NULL DEFAULT 'requested',
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  reason TEXT NOT NULL,
+  details TEXT,
+  photo_paths TEXT[] NOT NULL DEFAULT '{}',
+  -- Variant the customer wants instead; NULL means the same one again
+  exchange_variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL,
+  staff_note TEXT,
+  refund_amount DECIMAL(10,2),
+  refund_reference TEXT,
+  replacement_order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  approved_at TIMESTAMPTZ,
+  received_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  handled_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_return_requests_order_item ON return_requests(order_item_id);
+CREATE INDEX idx_return_requests_user ON return_requests(user_id, created_at);
+CREATE INDEX idx_return_requests_status ON return_requests(status, created_at);
+
+CREATE TRIGGER update_return_requests_updated_at
+  BEFORE UPDATE ON return_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_return_requests
+  AFTER INSERT OR UPDATE OR DELETE ON return_requests
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+ALTER TABLE return_requests ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only through request_return and update_return_status
+CREATE POLICY "Users can view their own returns"
+  ON return_requests FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view all returns"
+  ON return_requests FOR SELECT
+  USING (has_permission(auth.uid(), 'manage_orders'));
+
+
+-- Return photos: private bucket, "<user id>/..." folders
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('return-photos', 'return-photos', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Customers can upload own return photos"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'return-photos'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Owners and staff can view return photos"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'return-photos'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::text
+    OR has_permission(auth.uid(), 'manage_orders')
+  )
+);
+
+
+CREATE OR REPLACE FUNCTION public.generate_return_number()
+RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN 'RMA' || TO_CHAR(NOW(), 'YYYYMMDD') || '-' || LPAD(FLOOR(RANDOM() * 10000)::TEXT, 4, '0');
+END;
+$$;
+
+-- Units of a line that can still be returned: delivered units not already
+-- covered by a request that is open or completed
+CREATE OR REPLACE FUNCTION public.returnable_quantity(_order_item_id UUID)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT greatest(
+    i.quantity - i.cancelled_quantity - coalesce((
+      SELECT sum(r.quantity)
+      FROM return_requests r
+      WHERE r.order_item_id = i.id AND r.status <> 'rejected'
+    ), 0),
+    0
+  )::INTEGER
+  FROM order_items i
+  WHERE i.id = _order_item_id
+$$;
+
+REVOKE ALL ON FUNCTION public.returnable_quantity(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.returnable_quantity(UUID) TO authenticated;
+
+
+-- Keep RETURN_WINDOW_DAYS in src/lib/returns.ts in step
+CREATE OR REPLACE FUNCTION public.request_return(
+  _order_item_id UUID,
+  _type return_type,
+  _quantity INTEGER,
+  _reason TEXT,
+  _details TEXT DEFAULT NULL,
+  _photo_paths TEXT[] DEFAULT '{}',
+  _exchange_variant_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _item order_items%ROWTYPE;
+  _order orders%ROWTYPE;
+  _available INTEGER;
+  _return_id UUID;
+BEGIN
+  SELECT * INTO _item FROM order_items WHERE id = _order_item_id FOR UPDATE;
+  SELECT * INTO _order FROM orders WHERE id = _item.order_id;
+
+  IF _item.id IS NULL OR _order.user_id IS DISTINCT FROM _user_id THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  IF _order.status IS DISTINCT FROM 'delivered' OR _order.delivered_at IS NULL THEN
+    RAISE EXCEPTION 'Only delivered orders can be returned';
+  END IF;
+
+  IF NOW() > _order.delivered_at + INTERVAL '30 days' THEN
+    RAISE EXCEPTION 'The 30-day return window for order % has closed', _order.order_number;
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please choose a reason for the return';
+  END IF;
+
+  _available := returnable_quantity(_order_item_id);
+  IF coalesce(_quantity, 0) < 1 OR _quantity > _available THEN
+    RAISE EXCEPTION 'Only % unit(s) of that item can be returned', _available;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(coalesce(_photo_paths, '{}')) AS path
+    WHERE split_part(path, '/', 1) <> _user_id::text
+  ) THEN
+    RAISE EXCEPTION 'Invalid photo';
+  END IF;
+
+  IF _type = 'exchange' AND _exchange_variant_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM product_variants
+    WHERE id = _exchange_variant_id AND product_id = _item.product_id
+  ) THEN
+    RAISE EXCEPTION 'Exchanges must be for another option of the same frame';
+  END IF;
+
+  INSERT INTO return_requests (
+    return_number, order_id, order_item_id, user_id, type, quantity,
+    reason, details, photo_paths, exchange_variant_id
+  )
+  VALUES (
+    generate_return_number(), _order.id, _item.id, _user_id, _type, _quantity,
+    trim(_reason), nullif(trim(_details), ''), coalesce(_photo_paths, '{}'),
+    CASE WHEN _type = 'exchange' THEN _exchange_variant_id END
+  )
+  RETURNING id INTO _return_id;
+
+  RETURN _return_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.request_return(UUID, return_type, INTEGER, TEXT, TEXT, TEXT[], UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_return(UUID, return_type, INTEGER, TEXT, TEXT, TEXT[], UUID) TO authenticated;
+
+
+-- Keep in step with RETURN_STATUS_TRANSITIONS in src/lib/returns.ts
+CREATE OR REPLACE FUNCTION public.return_status_transition_allowed(_type return_type, _from return_status, _to return_status)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _from
+    WHEN 'requested' THEN _to IN ('approved', 'rejected')
+    WHEN 'approved' THEN _to IN ('received', 'rejected')
+    WHEN 'received' THEN _to = CASE _type WHEN 'refund' THEN 'refunded'::return_status ELSE 'exchanged'::return_status END
+    ELSE false
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_return_status(
+  _return_id UUID,
+  _status return_status,
+  _note TEXT DEFAULT NULL,
+  _refund_amount DECIMAL DEFAULT NULL,
+  _refund_reference TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _return return_requests%ROWTYPE;
+  _item order_items%ROWTYPE;
+  _order orders%ROWTYPE;
+  _variant_id UUID;
+  _available INTEGER;
+  _replacement_id UUID;
+BEGIN
+  IF NOT has_permission(_user_id, 'manage_orders') THEN
+    RAISE EXCEPTION 'You are not allowed to manage returns';
+  END IF;
+
+  SELECT * INTO _return FROM return_requests WHERE id = _return_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+
+  IF NOT return_status_transition_allowed(_return.type, _return.status, _status) THEN
+    RAISE EXCEPTION 'Return % cannot move from % to %', _return.return_number, _return.status, _status;
+  END IF;
+
+  SELECT * INTO _item FROM order_items WHERE id = _return.order_item_id;
+  SELECT * INTO _order FROM orders WHERE id = _return.order_id;
+
+  IF _status = 'received' AND _item.variant_id IS NOT NULL THEN
+    UPDATE product_variants
+    SET stock = coalesce(stock, 0) + _return.quantity
+    WHERE id = _item.variant_id;
+  END IF;
+
+  IF _status = 'refunded' THEN
+    IF _refund_amount IS NULL OR _refund_amount < 0
+       OR _refund_amount > _item.unit_price * _return.quantity THEN
+      RAISE EXCEPTION 'Refund must be between 0 and Rs. %', _item.unit_price * _return.quantity;
+    END IF;
+  END IF;
+
+  IF _status = 'exchanged' THEN
+    _variant_id := coalesce(_return.exchange_variant_id, _item.variant_id);
+
+    IF _variant_id IS NOT NULL THEN
+      SELECT coalesce(stock, 0) - reserved_stock(id) INTO _available
+      FROM product_variants
+      WHERE id = _variant_id
+      FOR UPDATE;
+
+      IF coalesce(_available, 0) < _return.quantity THEN
+        RAISE EXCEPTION 'Not enough stock to send the replacement';
+      END IF;
+
+      UPDATE product_variants SET stock = stock - _return.quantity WHERE id = _variant_id;
+    END IF;
+
+    -- The replacement ships free to the original address with the same lenses
+    INSERT INTO orders (user_id, order_number, subtotal, shipping_cost, total, payment_method, shipping_address, customer_notes, status)
+    VALUES (
+      _order.user_id, generate_order_number(), 0, 0, 0, _order.payment_method, _order.shipping_address,
+      'Replacement for return ' || _return.return_number, 'pending'
+    )
+    RETURNING id INTO _replacement_id;
+
+    INSERT INTO order_items (
+      order_id, product_id, variant_id, lens_type_id, quantity,
+      unit_price, total_price, has_eyesight, prescription_data, prescription_image_url, prescription_id,
+      lens_usage, lens_options
+    )
+    VALUES (
+      _replacement_id, _item.product_id, _variant_id, _item.lens_type_id, _return.quantity,
+      0, 0, _item.has_eyesight, _item.prescription_data, _item.prescription_image_url, _item.prescription_id,
+      _item.lens_usage, _item.lens_options
+    );
+  END IF;
+
+  UPDATE return_requests
+  SET status = _status,
+      staff_note = coalesce(nullif(trim(_note), ''), staff_note),
+      handled_by = _user_id,
+      approved_at = CASE WHEN _status = 'approved' THEN NOW() ELSE approved_at END,
+      received_at = CASE WHEN _status = 'received' THEN NOW() ELSE received_at END,
+      resolved_at = CASE WHEN _status IN ('rejected', 'refunded', 'exchanged') THEN NOW() ELSE resolved_at END,
+      refund_amount = CASE WHEN _status = 'refunded' THEN _refund_amount ELSE refund_amount END,
+      refund_reference = CASE WHEN _status = 'refunded' THEN nullif(trim(_refund_reference), '') ELSE refund_reference END,
+      replacement_order_id = coalesce(_replacement_id, replacement_order_id)
+  WHERE id = _return_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.update_return_status(UUID, return_status, TEXT, DECIMAL, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_return_status(UUID, return_status, TEXT, DECIMAL, TEXT) TO authenticated;
@@ -0,0 +1,196 @@
+-- Online payments
+-- Orders now carry a payment status alongside their fulfilment status.
+-- Every attempt to pay an order online is a row in payments, created by
+-- start_payment when the customer is sent to the provider and settled by
+-- record_payment_result when the provider calls back. Both are driven by
+-- the payment-start and payment-callback edge functions, which hold the
+-- provider credentials and verify callback signatures.
+
+CREATE TYPE payment_status AS ENUM ('unpaid', 'pending', 'paid', 'failed', 'refunded');
+CREATE TYPE payment_attempt_status AS ENUM ('pending', 'succeeded', 'failed', 'cancelled');
+
+ALTER TABLE orders ADD COLUMN payment_status payment_status NOT NULL DEFAULT 'unpaid';
+
+CREATE TABLE payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  -- Provider that handled the attempt; "mock" is the sandbox provider
+  provider TEXT NOT NULL CHECK (provider IN ('mock', 'jazzcash', 'easypaisa', 'card')),
+  method payment_method NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'PKR',
+  status payment_attempt_status NOT NULL DEFAULT 'pending',
+  provider_reference TEXT,
+  callback_payload JSONB,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_payments_order ON payments(order_id, created_at);
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_payments
+  AFTER INSERT OR UPDATE OR DELETE ON payments
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only by the functions below
+CREATE POLICY "Users can view payments for their own orders"
+  ON payments FOR SELECT
+  USING (EXISTS (SELECT 1 FROM orders WHERE orders.id = order_id AND orders.user_id = auth.uid()));
+
+CREATE POLICY "Staff can view all payments"
+  ON payments FOR SELECT
+  USING (has_permission(auth.uid(), 'manage_orders'));
+
+
+-- Keep ONLINE_PAYMENT_METHODS in src/lib/payments.ts in step
+CREATE OR REPLACE FUNCTION public.is_online_payment_method(_method payment_method)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT _method IN ('jazzcash', 'easypaisa', 'card')
+$$;
+
+
+-- Open a payment attempt for the caller's order. Any earlier attempt that
+-- never came back is abandoned first.
+CREATE OR REPLACE FUNCTION public.start_payment(_order_id UUID, _provider TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order orders%ROWTYPE;
+  _payment_id UUID;
+BEGIN
+  SELECT * INTO _order FROM orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR _order.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT is_online_payment_method(_order.payment_method) THEN
+    RAISE EXCEPTION 'Order % is not paid online', _order.order_number;
+  END IF;
+
+  IF _order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Order % has been cancelled', _order.order_number;
+  END IF;
+
+  IF _order.payment_status IN ('paid', 'refunded') THEN
+    RAISE EXCEPTION 'Order % has already been paid', _order.order_number;
+  END IF;
+
+  UPDATE payments
+  SET status = 'cancelled',
+      completed_at = NOW()
+  WHERE order_id = _order_id AND status = 'pending';
+
+  INSERT INTO payments (order_id, provider, method, amount)
+  VALUES (_order_id, _provider, _order.payment_method, _order.total)
+  RETURNING id INTO _payment_id;
+
+  UPDATE orders SET payment_status = 'pending' WHERE id = _order_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', _payment_id,
+    'order_number', _order.order_number,
+    'amount', _order.total,
+    'currency', 'PKR',
+    'phone', _order.shipping_address->>'phone',
+    'email', (SELECT email FROM profiles WHERE id = _order.user_id)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.start_payment(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.start_payment(UUID, TEXT) TO authenticated;
+
+
+-- Settle an attempt from a verified provider callback. Only the
+-- payment-callback edge function (service role) may call this. Repeated
+-- callbacks for a settled attempt are ignored.
+CREATE OR REPLACE FUNCTION public.record_payment_result(
+  _payment_id UUID,
+  _status payment_attempt_status,
+  _amount DECIMAL,
+  _provider_reference TEXT,
+  _payload JSONB
+)
+RETURNS payment_attempt_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment payments%ROWTYPE;
+BEGIN
+  SELECT * INTO _payment FROM payments WHERE id = _payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF _payment.status <> 'pending' THEN
+    RETURN _payment.status;
+  END IF;
+
+  IF _status = 'succeeded' AND _amount IS DISTINCT FROM _payment.amount THEN
+    RAISE EXCEPTION 'Paid amount % does not match %', _amount, _payment.amount;
+  END IF;
+
+  UPDATE payments
+  SET status = _status,
+      provider_reference = nullif(trim(_provider_reference), ''),
+      callback_payload = _payload,
+      completed_at = CASE WHEN _status <> 'pending' THEN NOW() END
+  WHERE id = _payment_id;
+
+  IF _status = 'succeeded' THEN
+    UPDATE orders SET payment_status = 'paid' WHERE id = _payment.order_id;
+  ELSIF _status IN ('failed', 'cancelled') THEN
+    UPDATE orders SET payment_status = 'failed'
+    WHERE id = _payment.order_id AND payment_status = 'pending';
+  END IF;
+
+  RETURN _status;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_payment_result(UUID, payment_attempt_status, DECIMAL, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_result(UUID, payment_attempt_status, DECIMAL, TEXT, JSONB) TO service_role;
+
+
+-- Staff record payments taken outside the gateways (cash on delivery, bank
+-- transfers) and refunds
+CREATE OR REPLACE FUNCTION public.set_order_payment_status(_order_id UUID, _status payment_status)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission(auth.uid(), 'manage_orders') THEN
+    RAISE EXCEPTION 'You are not allowed to update orders';
+  END IF;
+
+  UPDATE orders SET payment_status = _status WHERE id = _order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_order_payment_status(UUID, payment_status) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_order_payment_status(UUID, payment_status) TO authenticated;
@@ -0,0 +1,227 @@
+-- Bank transfer receipts
+-- Customers paying by bank transfer upload their receipt and transaction
+-- ID against the order. Staff with manage_orders verify or reject each
+-- receipt, which moves the order's payment status and leaves the customer a
+-- notification. The store's bank details live in site_settings under
+-- "bank_details".
+
+-- Filled in from Settings > Bank Details
+INSERT INTO site_settings (setting_key, setting_value) VALUES
+  ('bank_details', '{"bank_name": "", "account_title": "", "account_number": "", "iban": "", "instructions": ""}')
+ON CONFLICT (setting_key) DO NOTHING;
+
+CREATE TYPE payment_proof_status AS ENUM ('submitted', 'verified', 'rejected');
+
+CREATE TABLE payment_proofs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  receipt_path TEXT NOT NULL,
+  transaction_id TEXT NOT NULL,
+  amount DECIMAL(10,2),
+  status payment_proof_status NOT NULL DEFAULT 'submitted',
+  review_note TEXT,
+  reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_payment_proofs_order ON payment_proofs(order_id, created_at);
+CREATE INDEX idx_payment_proofs_status ON payment_proofs(status, created_at);
+
+CREATE TRIGGER audit_payment_proofs
+  AFTER INSERT OR UPDATE OR DELETE ON payment_proofs
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+ALTER TABLE payment_proofs ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only through submit_payment_proof and review_payment_proof
+CREATE POLICY "Users can view their own payment proofs"
+  ON payment_proofs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view all payment proofs"
+  ON payment_proofs FOR SELECT
+  USING (has_permission(auth.uid(), 'manage_orders'));
+
+
+-- Receipts: private bucket, "<user id>/..." folders
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('payment-receipts', 'payment-receipts', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Customers can upload own payment receipts"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'payment-receipts'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Owners and staff can view payment receipts"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'payment-receipts'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::text
+    OR has_permission(auth.uid(), 'manage_orders')
+  )
+);
+
+
+-- In-app messages to customers about their orders
+CREATE TABLE notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_notifications_user ON notifications(user_id, created_at);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications read"
+  ON notifications FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.notify_user(_user_id UUID, _title TEXT, _body TEXT, _link TEXT)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO notifications (user_id, title, body, link)
+  SELECT _user_id, _title, _body, _link
+  WHERE _user_id IS NOT NULL
+$$;
+
+REVOKE ALL ON FUNCTION public.notify_user(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+
+CREATE OR REPLACE FUNCTION public.submit_payment_proof(
+  _order_id UUID,
+  _receipt_path TEXT,
+  _transaction_id TEXT,
+  _amount DECIMAL DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order orders%ROWTYPE;
+  _proof_id UUID;
+BEGIN
+  SELECT * INTO _order FROM orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR _order.user_id IS DISTINCT FROM _user_id THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.payment_method <> 'bank_transfer' THEN
+    RAISE EXCEPTION 'Order % is not paid by bank transfer', _order.order_number;
+  END IF;
+
+  IF _order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Order % has been cancelled', _order.order_number;
+  END IF;
+
+  IF _order.payment_status IN ('paid', 'refunded') THEN
+    RAISE EXCEPTION 'Order % has already been paid', _order.order_number;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM payment_proofs WHERE order_id = _order_id AND status = 'submitted') THEN
+    RAISE EXCEPTION 'We are still checking the receipt you sent for order %', _order.order_number;
+  END IF;
+
+  IF coalesce(trim(_transaction_id), '') = '' THEN
+    RAISE EXCEPTION 'Please enter the transaction ID from your receipt';
+  END IF;
+
+  IF split_part(coalesce(_receipt_path, ''), '/', 1) <> _user_id::text THEN
+    RAISE EXCEPTION 'Please attach your receipt';
+  END IF;
+
+  INSERT INTO payment_proofs (order_id, user_id, receipt_path, transaction_id, amount)
+  VALUES (_order_id, _user_id, _receipt_path, trim(_transaction_id), _amount)
+  RETURNING id INTO _proof_id;
+
+  UPDATE orders SET payment_status = 'pending' WHERE id = _order_id;
+
+  RETURN _proof_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.submit_payment_proof(UUID, TEXT, TEXT, DECIMAL) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_payment_proof(UUID, TEXT, TEXT, DECIMAL) TO authenticated;
+
+
+CREATE OR REPLACE FUNCTION public.review_payment_proof(_proof_id UUID, _verified BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _proof payment_proofs%ROWTYPE;
+  _order orders%ROWTYPE;
+BEGIN
+  IF NOT has_permission(auth.uid(), 'manage_orders') THEN
+    RAISE EXCEPTION 'You are not allowed to review payments';
+  END IF;
+
+  SELECT * INTO _proof FROM payment_proofs WHERE id = _proof_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF _proof.status <> 'submitted' THEN
+    RAISE EXCEPTION 'This receipt has already been %', _proof.status;
+  END IF;
+
+  IF NOT _verified AND coalesce(trim(_note), '') = '' THEN
+    RAISE EXCEPTION 'Tell the customer why the receipt was rejected';
+  END IF;
+
+  SELECT * INTO _order FROM orders WHERE id = _proof.order_id;
+
+  UPDATE payment_proofs
+  SET status = CASE WHEN _verified THEN 'verified'::payment_proof_status ELSE 'rejected'::payment_proof_status END,
+      review_note = nullif(trim(_note), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW()
+  WHERE id = _proof_id;
+
+  UPDATE orders
+  SET payment_status = CASE WHEN _verified THEN 'paid'::payment_status ELSE 'failed'::payment_status END
+  WHERE id = _proof.order_id;
+
+  PERFORM notify_user(
+    _order.user_id,
+    CASE WHEN _verified
+      THEN 'Payment received for order ' || _order.order_number
+      ELSE 'We couldn''t verify your payment for order ' || _order.order_number
+    END,
+    CASE WHEN _verified
+      THEN coalesce(nullif(trim(_note), ''), 'Thanks! Your bank transfer has been confirmed.')
+      ELSE trim(_note) || ' Please upload your receipt again.'
+    END,
+    '/order-confirmation/' || _order.id
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.review_payment_proof(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_payment_proof(UUID, BOOLEAN, TEXT) TO authenticated;
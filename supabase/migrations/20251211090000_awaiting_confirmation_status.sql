@@ -0,0 +1,5 @@
+-- Cash on delivery orders wait for a phone confirmation before they are
+-- prepared. The new status is added on its own because an enum value cannot
+-- be used in the transaction that creates it.
+
+ALTER TYPE order_status ADD VALUE IF NOT EXISTS 'awaiting_confirmation' BEFORE 'processing';
@@ -0,0 +1,439 @@
+-- Cash on delivery risk controls
+-- COD orders are checked against the rules in site_settings ("cod_rules"):
+-- a maximum order value, cities we don't deliver COD to, a limit on
+-- refused deliveries per customer (matched by account or phone number) and
+-- an optional verified phone number. Accepted COD orders start as
+-- awaiting_confirmation until staff confirm them by phone. Staff record a
+-- refused delivery on a shipped order, which cancels it and restocks it.
+
+INSERT INTO site_settings (setting_key, setting_value) VALUES
+  ('cod_rules', '{"max_order_value": null, "excluded_cities": [], "max_refused_deliveries": 2, "require_otp": false}')
+ON CONFLICT (setting_key) DO NOTHING;
+
+ALTER TABLE orders
+  ADD COLUMN delivery_refused_at TIMESTAMPTZ;
+
+CREATE INDEX idx_orders_delivery_refused ON orders(user_id) WHERE delivery_refused_at IS NOT NULL;
+
+
+-- Pakistani numbers in international form without the plus: 03001234567,
+-- +92 300 1234567 and 0092-300-1234567 all become 923001234567.
+-- Keep in step with normalizePhone in src/lib/cod.ts
+CREATE OR REPLACE FUNCTION public.normalize_phone(_phone TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN digits LIKE '0092%' THEN substr(digits, 3)
+    WHEN digits LIKE '0%' THEN '92' || substr(digits, 2)
+    WHEN digits LIKE '3%' AND length(digits) = 10 THEN '92' || digits
+    ELSE digits
+  END
+  FROM (SELECT regexp_replace(coalesce(_phone, ''), '[^0-9]', '', 'g') AS digits) p
+$$;
+
+CREATE OR REPLACE FUNCTION public.cod_rules()
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (SELECT setting_value FROM site_settings WHERE setting_key = 'cod_rules'),
+    '{}'::JSONB
+  )
+$$;
+
+-- Why cash on delivery can't be offered for this delivery, or NULL when it can
+CREATE OR REPLACE FUNCTION public.cod_unavailable_reason(_city TEXT, _phone TEXT, _total DECIMAL)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rules JSONB := cod_rules();
+  _max_value DECIMAL := (_rules->>'max_order_value')::DECIMAL;
+  _max_refused INTEGER := (_rules->>'max_refused_deliveries')::INTEGER;
+  _refused INTEGER;
+BEGIN
+  IF _max_value IS NOT NULL AND _total > _max_value THEN
+    RETURN format('Cash on delivery is available for orders up to Rs. %s', _max_value);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements_text(coalesce(_rules->'excluded_cities', '[]'::JSONB)) AS city
+    WHERE lower(trim(city)) = lower(trim(_city))
+  ) THEN
+    RETURN format('Cash on delivery is not available in %s', trim(_city));
+  END IF;
+
+  IF _max_refused IS NOT NULL THEN
+    SELECT count(*) INTO _refused
+    FROM orders
+    WHERE delivery_refused_at IS NOT NULL
+      AND (user_id = auth.uid() OR normalize_phone(shipping_address->>'phone') = normalize_phone(_phone));
+
+    IF _refused >= _max_refused THEN
+      RETURN 'Cash on delivery is not available because of earlier refused deliveries. Please pay online or by bank transfer.';
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cod_unavailable_reason(TEXT, TEXT, DECIMAL) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cod_unavailable_reason(TEXT, TEXT, DECIMAL) TO authenticated;
+
+-- The caller has confirmed this number with a one-time code (Supabase Auth phone change)
+CREATE OR REPLACE FUNCTION public.cod_phone_verified(_phone TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM auth.users
+    WHERE id = auth.uid()
+      AND phone_confirmed_at IS NOT NULL
+      AND normalize_phone(phone) = normalize_phone(_phone)
+  )
+$$;
+
+REVOKE ALL ON FUNCTION public.cod_phone_verified(TEXT) FROM PUBLIC, anon, authenticated;
+
+
+-- Keep in step with ORDER_STATUS_TRANSITIONS in src/lib/order-status.ts
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(_from order_status, _to order_status)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _from
+    WHEN 'pending' THEN _to IN ('processing', 'cancelled')
+    WHEN 'awaiting_confirmation' THEN _to IN ('processing', 'cancelled')
+    WHEN 'processing' THEN _to IN ('shipped', 'cancelled')
+    WHEN 'shipped' THEN _to IN ('delivered', 'cancelled')
+    ELSE false
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT order_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Order % cannot move from % to %', OLD.order_number, OLD.status, NEW.status;
+  END IF;
+
+  -- A shipped order only comes back when the customer refuses it
+  IF OLD.status = 'shipped' AND NEW.status = 'cancelled' AND NEW.delivery_refused_at IS NULL THEN
+    RAISE EXCEPTION 'Order % has already shipped, so it can no longer be cancelled', OLD.order_number;
+  END IF;
+
+  IF NEW.status = 'shipped'
+     AND (NEW.status IS DISTINCT FROM OLD.status OR NEW.tracking_number IS DISTINCT FROM OLD.tracking_number)
+     AND coalesce(trim(NEW.tracking_number), '') = '' THEN
+    RAISE EXCEPTION 'A tracking number is required to mark an order as shipped';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+
+-- The parcel came back: cancel the order (restore_stock_on_cancel restocks it)
+-- and count the refusal against the customer
+CREATE OR REPLACE FUNCTION public.mark_delivery_refused(_order_id UUID, _note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order orders%ROWTYPE;
+  _reason TEXT := coalesce(nullif(trim(_note), ''), 'Refused on delivery');
+BEGIN
+  IF NOT has_permission(auth.uid(), 'manage_orders') THEN
+    RAISE EXCEPTION 'You are not allowed to update orders';
+  END IF;
+
+  SELECT * INTO _order FROM orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'shipped' THEN
+    RAISE EXCEPTION 'Only shipped orders can be marked as refused';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', _reason, true);
+
+  UPDATE orders
+  SET status = 'cancelled',
+      delivery_refused_at = NOW(),
+      cancellation_reason = _reason
+  WHERE id = _order_id;
+
+  PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.mark_delivery_refused(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_delivery_refused(UUID, TEXT) TO authenticated;
+
+
+-- Customers can also cancel while we are still trying to confirm
+CREATE OR REPLACE FUNCTION public.cancel_order(
+  _order_id UUID,
+  _reason TEXT,
+  _items JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order orders%ROWTYPE;
+  _line RECORD;
+  _item order_items%ROWTYPE;
+  _subtotal DECIMAL(10,2);
+BEGIN
+  SELECT * INTO _order FROM orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND
+     OR (_order.user_id IS DISTINCT FROM _user_id AND NOT has_permission(_user_id, 'manage_orders')) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status NOT IN ('pending', 'awaiting_confirmation', 'processing') THEN
+    RAISE EXCEPTION 'Order % has already %, so it can no longer be cancelled', _order.order_number, _order.status;
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please give a reason for the cancellation';
+  END IF;
+
+  IF _items IS NOT NULL THEN
+    IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+      RAISE EXCEPTION 'Choose at least one item to cancel';
+    END IF;
+
+    FOR _line IN
+      SELECT (value->>'order_item_id')::UUID AS order_item_id, (value->>'quantity')::INTEGER AS quantity
+      FROM jsonb_array_elements(_items)
+    LOOP
+      SELECT * INTO _item
+      FROM order_items
+      WHERE id = _line.order_item_id AND order_id = _order_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Item is not part of order %', _order.order_number;
+      END IF;
+
+      IF coalesce(_line.quantity, 0) < 1 OR _line.quantity > _item.quantity - _item.cancelled_quantity THEN
+        RAISE EXCEPTION 'Only % unit(s) of that item can still be cancelled', _item.quantity - _item.cancelled_quantity;
+      END IF;
+
+      UPDATE order_items
+      SET cancelled_quantity = cancelled_quantity + _line.quantity,
+          total_price = unit_price * (quantity - cancelled_quantity - _line.quantity),
+          cancellation_reason = trim(_reason)
+      WHERE id = _item.id;
+
+      IF _item.variant_id IS NOT NULL THEN
+        UPDATE product_variants
+        SET stock = coalesce(stock, 0) + _line.quantity
+        WHERE id = _item.variant_id;
+      END IF;
+    END LOOP;
+
+    -- Lines are left open: recompute the totals and stop there. Shipping is
+    -- not re-quoted, so a smaller order never costs more to ship.
+    IF EXISTS (SELECT 1 FROM order_items WHERE order_id = _order_id AND cancelled_quantity < quantity) THEN
+      SELECT coalesce(sum(total_price), 0) INTO _subtotal
+      FROM order_items
+      WHERE order_id = _order_id;
+
+      UPDATE orders
+      SET subtotal = _subtotal,
+          total = _subtotal + coalesce(shipping_cost, 0)
+      WHERE id = _order_id;
+
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Nothing left to ship: cancel the order; restore_stock_on_cancel handles the rest
+  PERFORM set_config('app.order_status_note', trim(_reason), true);
+
+  UPDATE orders
+  SET status = 'cancelled',
+      cancellation_reason = trim(_reason)
+  WHERE id = _order_id;
+
+  PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+
+-- place_order enforces the COD rules and holds COD orders for confirmation
+CREATE OR REPLACE FUNCTION public.place_order(
+  _shipping_address JSONB,
+  _payment_method payment_method,
+  _customer_notes TEXT DEFAULT NULL,
+  _expected_total DECIMAL DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order_id UUID;
+  _subtotal DECIMAL(10,2) := 0;
+  _shipping_cost DECIMAL(10,2);
+  _item RECORD;
+  _quote JSONB;
+  _line_count INTEGER := 0;
+  _prescription_errors TEXT[];
+  _thickness TEXT;
+  _available INTEGER;
+  _cod_reason TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _shipping_address IS NULL
+     OR coalesce(_shipping_address->>'full_name', '') = ''
+     OR coalesce(_shipping_address->>'phone', '') = ''
+     OR coalesce(_shipping_address->>'address_line1', '') = ''
+     OR coalesce(_shipping_address->>'city', '') = '' THEN
+    RAISE EXCEPTION 'Shipping address is incomplete';
+  END IF;
+
+  -- Lock the cart so a concurrent checkout from another tab cannot reuse it
+  PERFORM 1 FROM cart_items WHERE user_id = _user_id FOR UPDATE;
+
+  INSERT INTO orders (user_id, order_number, subtotal, shipping_cost, total, payment_method, shipping_address, customer_notes, status)
+  VALUES (_user_id, generate_order_number(), 0, 0, 0, _payment_method, _shipping_address, _customer_notes,
+          CASE WHEN _payment_method = 'cod' THEN 'awaiting_confirmation'::order_status ELSE 'pending'::order_status END)
+  RETURNING id INTO _order_id;
+
+  FOR _item IN
+    SELECT c.*, p.title, rx.id AS owned_prescription_id, lt.vision_type, lt.min_sph, lt.max_sph, lt.max_cyl
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    LEFT JOIN prescriptions rx ON rx.id = c.prescription_id AND rx.user_id = _user_id
+    LEFT JOIN lens_types lt ON lt.id = c.lens_type_id
+    WHERE c.user_id = _user_id
+    ORDER BY c.created_at
+  LOOP
+    _quote := price_quote_line(
+      _item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity,
+      _item.lens_option_ids, _item.lens_usage
+    );
+
+    -- Uploaded prescriptions are checked by staff; manual entries must pass the clinical rules
+    IF coalesce(_item.has_eyesight, false) AND _item.prescription_data ? 'rightEye' THEN
+      _prescription_errors := prescription_errors(
+        _item.prescription_data, _item.vision_type, _item.min_sph, _item.max_sph, _item.max_cyl
+      );
+      IF cardinality(_prescription_errors) > 0 THEN
+        RAISE EXCEPTION 'Prescription for % is invalid: %', _item.title, _prescription_errors[1];
+      END IF;
+
+      SELECT name INTO _thickness
+      FROM lens_options
+      WHERE id = ANY(_item.lens_option_ids)
+        AND kind = 'thickness'
+        AND max_power < prescription_max_power(_item.prescription_data);
+
+      IF FOUND THEN
+        RAISE EXCEPTION '% lenses cannot be made for the prescription on %', _thickness, _item.title;
+      END IF;
+    END IF;
+
+    -- Lock the variant, then sell only what other customers are not holding
+    IF _item.variant_id IS NOT NULL THEN
+      SELECT coalesce(stock, 0) - reserved_stock(id, _user_id) INTO _available
+      FROM product_variants
+      WHERE id = _item.variant_id
+      FOR UPDATE;
+
+      IF coalesce(_available, 0) < _item.quantity THEN
+        RAISE EXCEPTION 'Not enough stock for %', _item.title;
+      END IF;
+
+      UPDATE product_variants
+      SET stock = stock - _item.quantity
+      WHERE id = _item.variant_id;
+    END IF;
+
+    INSERT INTO order_items (
+      order_id, product_id, variant_id, lens_type_id, quantity,
+      unit_price, total_price, has_eyesight, prescription_data, prescription_image_url, prescription_id,
+      lens_usage, lens_options
+    )
+    VALUES (
+      _order_id, _item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity,
+      (_quote->>'unit_price')::DECIMAL, (_quote->>'total')::DECIMAL,
+      _item.has_eyesight, _item.prescription_data, _item.prescription_image_url, _item.owned_prescription_id,
+      _item.lens_usage, _quote->'options'
+    );
+
+    _subtotal := _subtotal + (_quote->>'total')::DECIMAL;
+    _line_count := _line_count + 1;
+  END LOOP;
+
+  IF _line_count = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  _shipping_cost := shipping_for_subtotal(_subtotal);
+
+  IF _expected_total IS NOT NULL AND _expected_total <> _subtotal + _shipping_cost THEN
+    RAISE EXCEPTION 'Prices in your cart have changed. Please review your order and try again.';
+  END IF;
+
+  IF _payment_method = 'cod' THEN
+    _cod_reason := cod_unavailable_reason(
+      _shipping_address->>'city', _shipping_address->>'phone', _subtotal + _shipping_cost
+    );
+    IF _cod_reason IS NOT NULL THEN
+      RAISE EXCEPTION '%', _cod_reason;
+    END IF;
+
+    IF coalesce((cod_rules()->>'require_otp')::BOOLEAN, false)
+       AND NOT cod_phone_verified(_shipping_address->>'phone') THEN
+      RAISE EXCEPTION 'Please verify your phone number to pay cash on delivery';
+    END IF;
+  END IF;
+
+  UPDATE orders
+  SET subtotal = _subtotal,
+      shipping_cost = _shipping_cost,
+      total = _subtotal + _shipping_cost
+  WHERE id = _order_id;
+
+  DELETE FROM cart_items WHERE user_id = _user_id;
+
+  RETURN _order_id;
+END;
+$$;
@@ -0,0 +1,736 @@
+-- Guest checkout
+-- Visitors can check out without an account. Their cart is already keyed by
+-- the browser's cart session id, so the checkout functions take that id when
+-- nobody is signed in. A guest order keeps the email it was placed with and
+-- a random lookup token: the order page link carries the token, and a guest
+-- who lost the link can find it again with the order number and delivery
+-- phone. Signing up later with the same (confirmed) email lets the customer
+-- claim those orders into their account.
+
+ALTER TABLE orders
+  ADD COLUMN guest_email TEXT,
+  ADD COLUMN guest_token UUID UNIQUE;
+
+CREATE INDEX idx_orders_guest_email ON orders(lower(guest_email)) WHERE user_id IS NULL;
+
+
+-- Guests hold stock under their cart session instead of an account
+ALTER TABLE stock_reservations
+  ALTER COLUMN user_id DROP NOT NULL,
+  ADD COLUMN session_id TEXT,
+  ADD CONSTRAINT stock_reservations_owner_check CHECK (user_id IS NOT NULL OR session_id IS NOT NULL);
+
+CREATE INDEX idx_stock_reservations_session ON stock_reservations(session_id);
+
+-- Units of a variant held by active reservations, optionally ignoring one customer's (or guest's) own holds
+DROP FUNCTION public.reserved_stock(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.reserved_stock(
+  _variant_id UUID,
+  _excluding_user UUID DEFAULT NULL,
+  _excluding_session TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(sum(quantity), 0)::INTEGER
+  FROM stock_reservations
+  WHERE variant_id = _variant_id
+    AND expires_at > now()
+    AND NOT coalesce(user_id = _excluding_user OR session_id = _excluding_session, false)
+$$;
+
+REVOKE ALL ON FUNCTION public.reserved_stock(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+
+-- Hold the caller's cart (or the guest cart for _session_id) for 15 minutes
+DROP FUNCTION public.reserve_cart_stock();
+
+CREATE OR REPLACE FUNCTION public.reserve_cart_stock(_session_id TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _guest_session TEXT := CASE WHEN auth.uid() IS NULL THEN nullif(_session_id, '') END;
+  _expires_at TIMESTAMPTZ := now() + interval '15 minutes';
+  _item RECORD;
+  _available INTEGER;
+  _unavailable JSONB := '[]'::JSONB;
+BEGIN
+  IF _user_id IS NULL AND _guest_session IS NULL THEN
+    RAISE EXCEPTION 'Your cart could not be found';
+  END IF;
+
+  -- Also drops holds a guest cart left on lines that have since moved to this account
+  DELETE FROM stock_reservations
+  WHERE expires_at <= now()
+     OR user_id = _user_id
+     OR session_id = _guest_session
+     OR cart_item_id IN (SELECT id FROM cart_items WHERE user_id = _user_id);
+
+  -- Lock variants in a fixed order so concurrent checkouts cannot deadlock
+  FOR _item IN
+    SELECT c.id, c.variant_id, c.quantity, p.title
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    WHERE (c.user_id = _user_id OR (c.user_id IS NULL AND c.session_id = _guest_session))
+      AND c.variant_id IS NOT NULL
+    ORDER BY c.variant_id, c.created_at
+  LOOP
+    SELECT coalesce(stock, 0) - reserved_stock(id) INTO _available
+    FROM product_variants
+    WHERE id = _item.variant_id
+    FOR UPDATE;
+
+    IF coalesce(_available, 0) >= _item.quantity THEN
+      INSERT INTO stock_reservations (cart_item_id, variant_id, user_id, session_id, quantity, expires_at)
+      VALUES (_item.id, _item.variant_id, _user_id, _guest_session, _item.quantity, _expires_at);
+    ELSE
+      _unavailable := _unavailable || jsonb_build_array(jsonb_build_object(
+        'cart_item_id', _item.id,
+        'title', _item.title,
+        'requested', _item.quantity,
+        'available', greatest(coalesce(_available, 0), 0)
+      ));
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('expires_at', _expires_at, 'unavailable', _unavailable);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reserve_cart_stock(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reserve_cart_stock(TEXT) TO anon, authenticated;
+
+-- Give the stock back when the customer leaves checkout without ordering
+DROP FUNCTION public.release_cart_stock();
+
+CREATE OR REPLACE FUNCTION public.release_cart_stock(_session_id TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM stock_reservations
+  WHERE user_id = auth.uid()
+     OR (auth.uid() IS NULL AND session_id = nullif(_session_id, ''))
+$$;
+
+REVOKE ALL ON FUNCTION public.release_cart_stock(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.release_cart_stock(TEXT) TO anon, authenticated;
+
+
+-- The caller's cart (or the guest cart for _session_id) priced line by line
+DROP FUNCTION public.quote_cart();
+
+CREATE OR REPLACE FUNCTION public.quote_cart(_session_id TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _guest_session TEXT := CASE WHEN auth.uid() IS NULL THEN nullif(_session_id, '') END;
+  _lines JSONB := '[]'::JSONB;
+  _line JSONB;
+  _item RECORD;
+  _subtotal DECIMAL(10,2) := 0;
+  _discount DECIMAL(10,2) := 0;
+  _shipping DECIMAL(10,2);
+BEGIN
+  IF _user_id IS NULL AND _guest_session IS NULL THEN
+    RAISE EXCEPTION 'Your cart could not be found';
+  END IF;
+
+  FOR _item IN
+    SELECT id, product_id, variant_id, lens_type_id, quantity, lens_option_ids, lens_usage
+    FROM cart_items
+    WHERE user_id = _user_id OR (user_id IS NULL AND session_id = _guest_session)
+    ORDER BY created_at
+  LOOP
+    _line := price_quote_line(
+      _item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity,
+      _item.lens_option_ids, _item.lens_usage
+    ) || jsonb_build_object('cart_item_id', _item.id);
+    _lines := _lines || jsonb_build_array(_line);
+    _subtotal := _subtotal + (_line->>'total')::DECIMAL;
+    _discount := _discount + (_line->>'discount')::DECIMAL * _item.quantity;
+  END LOOP;
+
+  _shipping := shipping_for_subtotal(_subtotal);
+
+  RETURN jsonb_build_object(
+    'lines', _lines,
+    'subtotal', _subtotal,
+    'discount', _discount,
+    'shipping', _shipping,
+    'total', _subtotal + _shipping
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.quote_cart(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.quote_cart(TEXT) TO anon, authenticated;
+
+
+-- Guests can't verify a phone number, so they can't use COD while OTP is required
+CREATE OR REPLACE FUNCTION public.cod_unavailable_reason(_city TEXT, _phone TEXT, _total DECIMAL)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rules JSONB := cod_rules();
+  _max_value DECIMAL := (_rules->>'max_order_value')::DECIMAL;
+  _max_refused INTEGER := (_rules->>'max_refused_deliveries')::INTEGER;
+  _refused INTEGER;
+BEGIN
+  IF _max_value IS NOT NULL AND _total > _max_value THEN
+    RETURN format('Cash on delivery is available for orders up to Rs. %s', _max_value);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements_text(coalesce(_rules->'excluded_cities', '[]'::JSONB)) AS city
+    WHERE lower(trim(city)) = lower(trim(_city))
+  ) THEN
+    RETURN format('Cash on delivery is not available in %s', trim(_city));
+  END IF;
+
+  IF _max_refused IS NOT NULL THEN
+    SELECT count(*) INTO _refused
+    FROM orders
+    WHERE delivery_refused_at IS NOT NULL
+      AND (user_id = auth.uid() OR normalize_phone(shipping_address->>'phone') = normalize_phone(_phone));
+
+    IF _refused >= _max_refused THEN
+      RETURN 'Cash on delivery is not available because of earlier refused deliveries. Please pay online or by bank transfer.';
+    END IF;
+  END IF;
+
+  IF auth.uid() IS NULL AND coalesce((_rules->>'require_otp')::BOOLEAN, false) THEN
+    RETURN 'Sign in and verify your phone number to pay cash on delivery';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cod_unavailable_reason(TEXT, TEXT, DECIMAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.cod_unavailable_reason(TEXT, TEXT, DECIMAL) TO anon, authenticated;
+
+
+-- The body of place_order, shared with place_guest_order. Exactly one of
+-- _user_id and _session_id identifies the cart; guest orders also need an email.
+CREATE OR REPLACE FUNCTION public.place_cart_order(
+  _user_id UUID,
+  _session_id TEXT,
+  _guest_email TEXT,
+  _shipping_address JSONB,
+  _payment_method payment_method,
+  _customer_notes TEXT,
+  _expected_total DECIMAL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _guest_session TEXT := CASE WHEN _user_id IS NULL THEN nullif(_session_id, '') END;
+  _order_id UUID;
+  _subtotal DECIMAL(10,2) := 0;
+  _shipping_cost DECIMAL(10,2);
+  _item RECORD;
+  _quote JSONB;
+  _line_count INTEGER := 0;
+  _prescription_errors TEXT[];
+  _thickness TEXT;
+  _available INTEGER;
+  _cod_reason TEXT;
+BEGIN
+  IF _user_id IS NULL AND _guest_session IS NULL THEN
+    RAISE EXCEPTION 'Your cart could not be found';
+  END IF;
+
+  IF _user_id IS NULL AND coalesce(trim(_guest_email), '') !~* '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Please enter a valid email address';
+  END IF;
+
+  IF _shipping_address IS NULL
+     OR coalesce(_shipping_address->>'full_name', '') = ''
+     OR coalesce(_shipping_address->>'phone', '') = ''
+     OR coalesce(_shipping_address->>'address_line1', '') = ''
+     OR coalesce(_shipping_address->>'city', '') = '' THEN
+    RAISE EXCEPTION 'Shipping address is incomplete';
+  END IF;
+
+  -- Lock the cart so a concurrent checkout from another tab cannot reuse it
+  PERFORM 1 FROM cart_items
+  WHERE user_id = _user_id OR (user_id IS NULL AND session_id = _guest_session)
+  FOR UPDATE;
+
+  INSERT INTO orders (
+    user_id, guest_email, guest_token, order_number, subtotal, shipping_cost, total,
+    payment_method, shipping_address, customer_notes, status
+  )
+  VALUES (
+    _user_id,
+    CASE WHEN _user_id IS NULL THEN lower(trim(_guest_email)) END,
+    CASE WHEN _user_id IS NULL THEN gen_random_uuid() END,
+    generate_order_number(), 0, 0, 0, _payment_method, _shipping_address, _customer_notes,
+    CASE WHEN _payment_method = 'cod' THEN 'awaiting_confirmation'::order_status ELSE 'pending'::order_status END
+  )
+  RETURNING id INTO _order_id;
+
+  FOR _item IN
+    SELECT c.*, p.title, rx.id AS owned_prescription_id, lt.vision_type, lt.min_sph, lt.max_sph, lt.max_cyl
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    LEFT JOIN prescriptions rx ON rx.id = c.prescription_id AND rx.user_id = _user_id
+    LEFT JOIN lens_types lt ON lt.id = c.lens_type_id
+    WHERE c.user_id = _user_id OR (c.user_id IS NULL AND c.session_id = _guest_session)
+    ORDER BY c.created_at
+  LOOP
+    _quote := price_quote_line(
+      _item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity,
+      _item.lens_option_ids, _item.lens_usage
+    );
+
+    -- Uploaded prescriptions are checked by staff; manual entries must pass the clinical rules
+    IF coalesce(_item.has_eyesight, false) AND _item.prescription_data ? 'rightEye' THEN
+      _prescription_errors := prescription_errors(
+        _item.prescription_data, _item.vision_type, _item.min_sph, _item.max_sph, _item.max_cyl
+      );
+      IF cardinality(_prescription_errors) > 0 THEN
+        RAISE EXCEPTION 'Prescription for % is invalid: %', _item.title, _prescription_errors[1];
+      END IF;
+
+      SELECT name INTO _thickness
+      FROM lens_options
+      WHERE id = ANY(_item.lens_option_ids)
+        AND kind = 'thickness'
+        AND max_power < prescription_max_power(_item.prescription_data);
+
+      IF FOUND THEN
+        RAISE EXCEPTION '% lenses cannot be made for the prescription on %', _thickness, _item.title;
+      END IF;
+    END IF;
+
+    -- Lock the variant, then sell only what other customers are not holding
+    IF _item.variant_id IS NOT NULL THEN
+      SELECT coalesce(stock, 0) - reserved_stock(id, _user_id, _guest_session) INTO _available
+      FROM product_variants
+      WHERE id = _item.variant_id
+      FOR UPDATE;
+
+      IF coalesce(_available, 0) < _item.quantity THEN
+        RAISE EXCEPTION 'Not enough stock for %', _item.title;
+      END IF;
+
+      UPDATE product_variants
+      SET stock = stock - _item.quantity
+      WHERE id = _item.variant_id;
+    END IF;
+
+    INSERT INTO order_items (
+      order_id, product_id, variant_id, lens_type_id, quantity,
+      unit_price, total_price, has_eyesight, prescription_data, prescription_image_url, prescription_id,
+      lens_usage, lens_options
+    )
+    VALUES (
+      _order_id, _item.product_id, _item.variant_id, _item.lens_type_id, _item.quantity,
+      (_quote->>'unit_price')::DECIMAL, (_quote->>'total')::DECIMAL,
+      _item.has_eyesight, _item.prescription_data, _item.prescription_image_url, _item.owned_prescription_id,
+      _item.lens_usage, _quote->'options'
+    );
+
+    _subtotal := _subtotal + (_quote->>'total')::DECIMAL;
+    _line_count := _line_count + 1;
+  END LOOP;
+
+  IF _line_count = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  _shipping_cost := shipping_for_subtotal(_subtotal);
+
+  IF _expected_total IS NOT NULL AND _expected_total <> _subtotal + _shipping_cost THEN
+    RAISE EXCEPTION 'Prices in your cart have changed. Please review your order and try again.';
+  END IF;
+
+  IF _payment_method = 'cod' THEN
+    _cod_reason := cod_unavailable_reason(
+      _shipping_address->>'city', _shipping_address->>'phone', _subtotal + _shipping_cost
+    );
+    IF _cod_reason IS NOT NULL THEN
+      RAISE EXCEPTION '%', _cod_reason;
+    END IF;
+
+    IF coalesce((cod_rules()->>'require_otp')::BOOLEAN, false)
+       AND NOT cod_phone_verified(_shipping_address->>'phone') THEN
+      RAISE EXCEPTION 'Please verify your phone number to pay cash on delivery';
+    END IF;
+  END IF;
+
+  UPDATE orders
+  SET subtotal = _subtotal,
+      shipping_cost = _shipping_cost,
+      total = _subtotal + _shipping_cost
+  WHERE id = _order_id;
+
+  DELETE FROM cart_items
+  WHERE user_id = _user_id OR (user_id IS NULL AND session_id = _guest_session);
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_cart_order(UUID, TEXT, TEXT, JSONB, payment_method, TEXT, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _shipping_address JSONB,
+  _payment_method payment_method,
+  _customer_notes TEXT DEFAULT NULL,
+  _expected_total DECIMAL DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  RETURN place_cart_order(
+    auth.uid(), NULL, NULL, _shipping_address, _payment_method, _customer_notes, _expected_total
+  );
+END;
+$$;
+
+-- Returns {order_id, token}; the token is the guest's only way back to the order
+CREATE OR REPLACE FUNCTION public.place_guest_order(
+  _session_id TEXT,
+  _email TEXT,
+  _shipping_address JSONB,
+  _payment_method payment_method,
+  _customer_notes TEXT DEFAULT NULL,
+  _expected_total DECIMAL DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'You are signed in; please place the order from your account';
+  END IF;
+
+  _order_id := place_cart_order(
+    NULL, _session_id, _email, _shipping_address, _payment_method, _customer_notes, _expected_total
+  );
+
+  RETURN jsonb_build_object(
+    'order_id', _order_id,
+    'token', (SELECT guest_token FROM orders WHERE id = _order_id)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_guest_order(TEXT, TEXT, JSONB, payment_method, TEXT, DECIMAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.place_guest_order(TEXT, TEXT, JSONB, payment_method, TEXT, DECIMAL) TO anon, authenticated;
+
+
+-- A guest order with its items and receipts, in the shape the order page reads
+CREATE OR REPLACE FUNCTION public.guest_order(_token UUID)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT to_jsonb(o) || jsonb_build_object(
+    'items', coalesce((
+      SELECT jsonb_agg(
+        to_jsonb(oi) || jsonb_build_object(
+          'products', jsonb_build_object('title', p.title, 'images', p.images),
+          'product_variants', CASE WHEN v.id IS NOT NULL THEN jsonb_build_object('color', v.color, 'size', v.size) END,
+          'lens_types', CASE WHEN lt.id IS NOT NULL THEN jsonb_build_object('name', lt.name) END
+        )
+        ORDER BY oi.created_at
+      )
+      FROM order_items oi
+      JOIN products p ON p.id = oi.product_id
+      LEFT JOIN product_variants v ON v.id = oi.variant_id
+      LEFT JOIN lens_types lt ON lt.id = oi.lens_type_id
+      WHERE oi.order_id = o.id
+    ), '[]'::JSONB),
+    'payment_proofs', coalesce((
+      SELECT jsonb_agg(to_jsonb(pp) ORDER BY pp.created_at DESC)
+      FROM payment_proofs pp
+      WHERE pp.order_id = o.id
+    ), '[]'::JSONB)
+  )
+  FROM orders o
+  WHERE o.guest_token = _token AND o.user_id IS NULL
+$$;
+
+REVOKE ALL ON FUNCTION public.guest_order(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.guest_order(UUID) TO anon, authenticated;
+
+-- The lookup token for a guest order, given its number and the delivery phone
+CREATE OR REPLACE FUNCTION public.find_guest_order(_order_number TEXT, _phone TEXT)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT guest_token
+  FROM orders
+  WHERE upper(order_number) = upper(trim(_order_number))
+    AND user_id IS NULL
+    AND normalize_phone(shipping_address->>'phone') = normalize_phone(_phone)
+$$;
+
+REVOKE ALL ON FUNCTION public.find_guest_order(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.find_guest_order(TEXT, TEXT) TO anon, authenticated;
+
+
+-- Guests pay online and send bank receipts with the order's lookup token
+-- The caller's own order, or a guest order whose lookup token they hold
+CREATE OR REPLACE FUNCTION public.owns_order(_order orders, _guest_token UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    _order.user_id = auth.uid() OR (_order.user_id IS NULL AND _order.guest_token = _guest_token),
+    false
+  )
+$$;
+
+REVOKE ALL ON FUNCTION public.owns_order(orders, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE POLICY "Guests can upload payment receipts"
+ON storage.objects FOR INSERT
+TO anon
+WITH CHECK (
+  bucket_id = 'payment-receipts'
+  AND (storage.foldername(name))[1] = 'guest'
+);
+
+DROP FUNCTION public.start_payment(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.start_payment(_order_id UUID, _provider TEXT, _guest_token UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order orders%ROWTYPE;
+  _payment_id UUID;
+BEGIN
+  SELECT * INTO _order FROM orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT owns_order(_order, _guest_token) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT is_online_payment_method(_order.payment_method) THEN
+    RAISE EXCEPTION 'Order % is not paid online', _order.order_number;
+  END IF;
+
+  IF _order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Order % has been cancelled', _order.order_number;
+  END IF;
+
+  IF _order.payment_status IN ('paid', 'refunded') THEN
+    RAISE EXCEPTION 'Order % has already been paid', _order.order_number;
+  END IF;
+
+  UPDATE payments
+  SET status = 'cancelled',
+      completed_at = NOW()
+  WHERE order_id = _order_id AND status = 'pending';
+
+  INSERT INTO payments (order_id, provider, method, amount)
+  VALUES (_order_id, _provider, _order.payment_method, _order.total)
+  RETURNING id INTO _payment_id;
+
+  UPDATE orders SET payment_status = 'pending' WHERE id = _order_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', _payment_id,
+    'order_number', _order.order_number,
+    'amount', _order.total,
+    'currency', 'PKR',
+    'phone', _order.shipping_address->>'phone',
+    'email', coalesce((SELECT email FROM profiles WHERE id = _order.user_id), _order.guest_email)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.start_payment(UUID, TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.start_payment(UUID, TEXT, UUID) TO anon, authenticated;
+
+-- What the payment result page shows a guest coming back from the provider
+CREATE OR REPLACE FUNCTION public.guest_payment(_payment_id UUID)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT to_jsonb(p) || jsonb_build_object(
+    'order', jsonb_build_object('id', o.id, 'order_number', o.order_number, 'guest_token', o.guest_token)
+  )
+  FROM payments p
+  JOIN orders o ON o.id = p.order_id
+  WHERE p.id = _payment_id AND o.user_id IS NULL
+$$;
+
+REVOKE ALL ON FUNCTION public.guest_payment(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.guest_payment(UUID) TO anon, authenticated;
+
+DROP FUNCTION public.submit_payment_proof(UUID, TEXT, TEXT, DECIMAL);
+
+CREATE OR REPLACE FUNCTION public.submit_payment_proof(
+  _order_id UUID,
+  _receipt_path TEXT,
+  _transaction_id TEXT,
+  _amount DECIMAL DEFAULT NULL,
+  _guest_token UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order orders%ROWTYPE;
+  _proof_id UUID;
+BEGIN
+  SELECT * INTO _order FROM orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT owns_order(_order, _guest_token) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.payment_method <> 'bank_transfer' THEN
+    RAISE EXCEPTION 'Order % is not paid by bank transfer', _order.order_number;
+  END IF;
+
+  IF _order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Order % has been cancelled', _order.order_number;
+  END IF;
+
+  IF _order.payment_status IN ('paid', 'refunded') THEN
+    RAISE EXCEPTION 'Order % has already been paid', _order.order_number;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM payment_proofs WHERE order_id = _order_id AND status = 'submitted') THEN
+    RAISE EXCEPTION 'We are still checking the receipt you sent for order %', _order.order_number;
+  END IF;
+
+  IF coalesce(trim(_transaction_id), '') = '' THEN
+    RAISE EXCEPTION 'Please enter the transaction ID from your receipt';
+  END IF;
+
+  -- Account receipts live under "<user id>/", guest receipts under "guest/<token>/"
+  IF coalesce(_receipt_path, '') NOT LIKE
+     CASE WHEN _order.user_id IS NULL THEN 'guest/' || _order.guest_token::text ELSE _order.user_id::text END || '/%' THEN
+    RAISE EXCEPTION 'Please attach your receipt';
+  END IF;
+
+  INSERT INTO payment_proofs (order_id, user_id, receipt_path, transaction_id, amount)
+  VALUES (_order_id, _order.user_id, _receipt_path, trim(_transaction_id), _amount)
+  RETURNING id INTO _proof_id;
+
+  UPDATE orders SET payment_status = 'pending' WHERE id = _order_id;
+
+  RETURN _proof_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.submit_payment_proof(UUID, TEXT, TEXT, DECIMAL, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.submit_payment_proof(UUID, TEXT, TEXT, DECIMAL, UUID) TO anon, authenticated;
+
+
+-- Guest orders placed with the caller's email, once they have confirmed it
+CREATE OR REPLACE FUNCTION public.claimable_guest_orders()
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER
+  FROM orders o
+  JOIN auth.users u ON u.id = auth.uid()
+  WHERE o.user_id IS NULL
+    AND u.email_confirmed_at IS NOT NULL
+    AND o.guest_email = lower(u.email)
+$$;
+
+REVOKE ALL ON FUNCTION public.claimable_guest_orders() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claimable_guest_orders() TO authenticated;
+
+-- Move those orders into the caller's account. The lookup links stop working.
+CREATE OR REPLACE FUNCTION public.claim_guest_orders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _email TEXT;
+  _claimed UUID[];
+BEGIN
+  SELECT lower(email) INTO _email
+  FROM auth.users
+  WHERE id = _user_id AND email_confirmed_at IS NOT NULL;
+
+  IF _email IS NULL THEN
+    RAISE EXCEPTION 'Please confirm your email address first';
+  END IF;
+
+  WITH claimed AS (
+    UPDATE orders
+    SET user_id = _user_id,
+        guest_token = NULL
+    WHERE user_id IS NULL AND guest_email = _email
+    RETURNING id
+  )
+  SELECT coalesce(array_agg(id), '{}') INTO _claimed FROM claimed;
+
+  UPDATE payment_proofs
+  SET user_id = _user_id
+  WHERE order_id = ANY(_claimed) AND user_id IS NULL;
+
+  RETURN cardinality(_claimed);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_guest_orders() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_guest_orders() TO authenticated;
@@ -0,0 +1,166 @@
+-- Shop filters and facets
+-- The shop listing is one query: shop_products applies the search, category,
+-- price and variant filters and returns SETOF products, so the client can
+-- still embed, sort, paginate and count exactly. shop_facets returns the
+-- color, size, material, price and category values present in the catalog
+-- with the number of products each would show. A facet's count ignores that
+-- facet's own selection, so ticking a second color widens the listing.
+-- Array filters take NULL (not an empty array) for "no filter".
+
+-- Keep in step with PRICE_BUCKETS in src/lib/shop-filters.ts
+CREATE OR REPLACE FUNCTION public.price_bucket(_price DECIMAL)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _price < 2000 THEN '0-2000'
+    WHEN _price < 5000 THEN '2000-5000'
+    WHEN _price < 10000 THEN '5000-10000'
+    WHEN _price < 20000 THEN '10000-20000'
+    ELSE '20000+'
+  END
+$$;
+
+-- A product with no variant filters matches; otherwise one variant must match all of them
+CREATE OR REPLACE FUNCTION public.product_has_variant(
+  _product_id UUID,
+  _colors TEXT[],
+  _sizes TEXT[],
+  _materials TEXT[]
+)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT (_colors IS NULL AND _sizes IS NULL AND _materials IS NULL) OR EXISTS (
+    SELECT 1
+    FROM product_variants v
+    WHERE v.product_id = _product_id
+      AND (_colors IS NULL OR trim(v.color) = ANY(_colors))
+      AND (_sizes IS NULL OR trim(v.size) = ANY(_sizes))
+      AND (_materials IS NULL OR trim(v.material) = ANY(_materials))
+  )
+$$;
+
+-- Active products matching every filter. Search results come best match
+-- first, everything else newest first. _search NULL means no search; an
+-- empty search matches nothing, like search_products.
+CREATE OR REPLACE FUNCTION public.shop_products(
+  _search TEXT DEFAULT NULL,
+  _category_ids UUID[] DEFAULT NULL,
+  _price_buckets TEXT[] DEFAULT NULL,
+  _colors TEXT[] DEFAULT NULL,
+  _sizes TEXT[] DEFAULT NULL,
+  _materials TEXT[] DEFAULT NULL
+)
+RETURNS SETOF public.products
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.*
+  FROM products p, build_search_tsquery(_search) AS q
+  WHERE p.is_active = true
+    AND (_search IS NULL OR p.search_vector @@ q)
+    AND (_category_ids IS NULL OR p.category_id = ANY(_category_ids))
+    AND (_price_buckets IS NULL OR price_bucket(p.base_price) = ANY(_price_buckets))
+    AND product_has_variant(p.id, _colors, _sizes, _materials)
+  ORDER BY CASE WHEN _search IS NOT NULL THEN ts_rank_cd(p.search_vector, q) END DESC NULLS LAST, p.created_at DESC
+$$;
+
+GRANT EXECUTE ON FUNCTION public.shop_products(TEXT, UUID[], TEXT[], TEXT[], TEXT[], TEXT[]) TO anon, authenticated;
+
+-- {colors, sizes, materials, price_buckets, categories}: arrays of {value, count}
+CREATE OR REPLACE FUNCTION public.shop_facets(
+  _search TEXT DEFAULT NULL,
+  _category_ids UUID[] DEFAULT NULL,
+  _price_buckets TEXT[] DEFAULT NULL,
+  _colors TEXT[] DEFAULT NULL,
+  _sizes TEXT[] DEFAULT NULL,
+  _materials TEXT[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH searched AS (
+    SELECT p.id, p.category_id, p.base_price
+    FROM products p, build_search_tsquery(_search) AS q
+    WHERE p.is_active = true
+      AND (_search IS NULL OR p.search_vector @@ q)
+  ),
+  base AS (
+    SELECT * FROM searched
+    WHERE (_category_ids IS NULL OR category_id = ANY(_category_ids))
+  ),
+  variants AS (
+    SELECT b.id AS product_id, b.base_price, trim(v.color) AS color, trim(v.size) AS size, trim(v.material) AS material
+    FROM base b
+    JOIN product_variants v ON v.product_id = b.id
+  ),
+  facet_values AS (
+    SELECT 'colors' AS facet, color AS value, count(DISTINCT product_id) AS products
+    FROM variants
+    WHERE coalesce(color, '') <> ''
+      AND (_price_buckets IS NULL OR price_bucket(base_price) = ANY(_price_buckets))
+      AND (_sizes IS NULL OR size = ANY(_sizes))
+      AND (_materials IS NULL OR material = ANY(_materials))
+    GROUP BY color
+
+    UNION ALL
+
+    SELECT 'sizes', size, count(DISTINCT product_id)
+    FROM variants
+    WHERE coalesce(size, '') <> ''
+      AND (_price_buckets IS NULL OR price_bucket(base_price) = ANY(_price_buckets))
+      AND (_colors IS NULL OR color = ANY(_colors))
+      AND (_materials IS NULL OR material = ANY(_materials))
+    GROUP BY size
+
+    UNION ALL
+
+    SELECT 'materials', material, count(DISTINCT product_id)
+    FROM variants
+    WHERE coalesce(material, '') <> ''
+      AND (_price_buckets IS NULL OR price_bucket(base_price) = ANY(_price_buckets))
+      AND (_colors IS NULL OR color = ANY(_colors))
+      AND (_sizes IS NULL OR size = ANY(_sizes))
+    GROUP BY material
+
+    UNION ALL
+
+    SELECT 'price_buckets', price_bucket(base_price), count(*)
+    FROM base
+    WHERE product_has_variant(id, _colors, _sizes, _materials)
+    GROUP BY price_bucket(base_price)
+
+    UNION ALL
+
+    SELECT 'categories', category_id::text, count(*)
+    FROM searched
+    WHERE category_id IS NOT NULL
+      AND (_price_buckets IS NULL OR price_bucket(base_price) = ANY(_price_buckets))
+      AND product_has_variant(id, _colors, _sizes, _materials)
+    GROUP BY category_id
+  )
+  SELECT jsonb_build_object(
+    'colors', '[]'::JSONB,
+    'sizes', '[]'::JSONB,
+    'materials', '[]'::JSONB,
+    'price_buckets', '[]'::JSONB,
+    'categories', '[]'::JSONB
+  ) || coalesce((
+    SELECT jsonb_object_agg(facet, items)
+    FROM (
+      SELECT facet, jsonb_agg(jsonb_build_object('value', value, 'count', products) ORDER BY value) AS items
+      FROM facet_values
+      GROUP BY facet
+    ) grouped
+  ), '{}'::JSONB)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.shop_facets(TEXT, UUID[], TEXT[], TEXT[], TEXT[], TEXT[]) TO anon, authenticated;
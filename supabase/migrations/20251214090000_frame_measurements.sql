@@ -0,0 +1,257 @@
+-- Frame measurements and fit
+-- Products record the frame's shape, rim type and the face size it suits;
+-- variants record the three numbers printed inside the temple arm (lens
+-- width, bridge width and temple length, in millimetres), since sizes of one
+-- frame differ in exactly those. The shop filters on all of them, and
+-- "fits like my pair" matches a customer's current frame within a tolerance.
+-- shop_products / shop_facets / product_has_variant gain the new filters, so
+-- they are dropped and recreated.
+
+CREATE TYPE frame_shape AS ENUM ('round', 'oval', 'rectangle', 'square', 'cat_eye', 'aviator', 'browline', 'geometric');
+CREATE TYPE rim_type AS ENUM ('full_rim', 'half_rim', 'rimless');
+CREATE TYPE face_fit AS ENUM ('narrow', 'medium', 'wide');
+
+ALTER TABLE products
+  ADD COLUMN frame_shape frame_shape,
+  ADD COLUMN rim_type rim_type,
+  ADD COLUMN face_fit face_fit;
+
+ALTER TABLE product_variants
+  ADD COLUMN lens_width SMALLINT,
+  ADD COLUMN bridge_width SMALLINT,
+  ADD COLUMN temple_length SMALLINT,
+  ADD CONSTRAINT product_variants_lens_width_check CHECK (lens_width IS NULL OR lens_width BETWEEN 30 AND 80),
+  ADD CONSTRAINT product_variants_bridge_width_check CHECK (bridge_width IS NULL OR bridge_width BETWEEN 10 AND 30),
+  ADD CONSTRAINT product_variants_temple_length_check CHECK (temple_length IS NULL OR temple_length BETWEEN 100 AND 170);
+
+-- Whether a frame's measurements are close to the ones asked for. A NULL
+-- target is not checked; a frame missing a measurement that is asked for
+-- doesn't fit. Keep the tolerances in step with FIT_TOLERANCES in
+-- src/lib/frame-specs.ts.
+CREATE OR REPLACE FUNCTION public.frame_fits(
+  _lens_width INTEGER,
+  _bridge_width INTEGER,
+  _temple_length INTEGER,
+  _target_lens_width INTEGER,
+  _target_bridge_width INTEGER,
+  _target_temple_length INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (_target_lens_width IS NULL OR abs(_lens_width - _target_lens_width) <= 2)
+    AND (_target_bridge_width IS NULL OR abs(_bridge_width - _target_bridge_width) <= 2)
+    AND (_target_temple_length IS NULL OR abs(_temple_length - _target_temple_length) <= 5),
+    false
+  )
+$$;
+
+DROP FUNCTION public.shop_facets(TEXT, UUID[], TEXT[], TEXT[], TEXT[], TEXT[]);
+DROP FUNCTION public.shop_products(TEXT, UUID[], TEXT[], TEXT[], TEXT[], TEXT[]);
+DROP FUNCTION public.product_has_variant(UUID, TEXT[], TEXT[], TEXT[]);
+
+-- A product with no variant filters matches; otherwise one variant must match all of them
+CREATE FUNCTION public.product_has_variant(
+  _product_id UUID,
+  _colors TEXT[],
+  _sizes TEXT[],
+  _materials TEXT[],
+  _lens_width INTEGER,
+  _bridge_width INTEGER,
+  _temple_length INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT (
+    _colors IS NULL AND _sizes IS NULL AND _materials IS NULL
+    AND _lens_width IS NULL AND _bridge_width IS NULL AND _temple_length IS NULL
+  ) OR EXISTS (
+    SELECT 1
+    FROM product_variants v
+    WHERE v.product_id = _product_id
+      AND (_colors IS NULL OR trim(v.color) = ANY(_colors))
+      AND (_sizes IS NULL OR trim(v.size) = ANY(_sizes))
+      AND (_materials IS NULL OR trim(v.material) = ANY(_materials))
+      AND frame_fits(v.lens_width, v.bridge_width, v.temple_length, _lens_width, _bridge_width, _temple_length)
+  )
+$$;
+
+-- Active products matching every filter. Search results come best match
+-- first, everything else newest first. _search NULL means no search; an
+-- empty search matches nothing, like search_products.
+CREATE FUNCTION public.shop_products(
+  _search TEXT DEFAULT NULL,
+  _category_ids UUID[] DEFAULT NULL,
+  _price_buckets TEXT[] DEFAULT NULL,
+  _colors TEXT[] DEFAULT NULL,
+  _sizes TEXT[] DEFAULT NULL,
+  _materials TEXT[] DEFAULT NULL,
+  _frame_shapes frame_shape[] DEFAULT NULL,
+  _rim_types rim_type[] DEFAULT NULL,
+  _face_fits face_fit[] DEFAULT NULL,
+  _lens_width INTEGER DEFAULT NULL,
+  _bridge_width INTEGER DEFAULT NULL,
+  _temple_length INTEGER DEFAULT NULL
+)
+RETURNS SETOF public.products
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.*
+  FROM products p, build_search_tsquery(_search) AS q
+  WHERE p.is_active = true
+    AND (_search IS NULL OR p.search_vector @@ q)
+    AND (_category_ids IS NULL OR p.category_id = ANY(_category_ids))
+    AND (_price_buckets IS NULL OR price_bucket(p.base_price) = ANY(_price_buckets))
+    AND (_frame_shapes IS NULL OR p.frame_shape = ANY(_frame_shapes))
+    AND (_rim_types IS NULL OR p.rim_type = ANY(_rim_types))
+    AND (_face_fits IS NULL OR p.face_fit = ANY(_face_fits))
+    AND product_has_variant(p.id, _colors, _sizes, _materials, _lens_width, _bridge_width, _temple_length)
+  ORDER BY CASE WHEN _search IS NOT NULL THEN ts_rank_cd(p.search_vector, q) END DESC NULLS LAST, p.created_at DESC
+$$;
+
+GRANT EXECUTE ON FUNCTION public.shop_products(
+  TEXT, UUID[], TEXT[], TEXT[], TEXT[], TEXT[], frame_shape[], rim_type[], face_fit[], INTEGER, INTEGER, INTEGER
+) TO anon, authenticated;
+
+-- {colors, sizes, materials, price_buckets, categories, frame_shapes,
+-- rim_types, face_fits}: arrays of {value, count}. Each product carries a
+-- flag per product-level filter so a facet can leave out its own.
+CREATE FUNCTION public.shop_facets(
+  _search TEXT DEFAULT NULL,
+  _category_ids UUID[] DEFAULT NULL,
+  _price_buckets TEXT[] DEFAULT NULL,
+  _colors TEXT[] DEFAULT NULL,
+  _sizes TEXT[] DEFAULT NULL,
+  _materials TEXT[] DEFAULT NULL,
+  _frame_shapes frame_shape[] DEFAULT NULL,
+  _rim_types rim_type[] DEFAULT NULL,
+  _face_fits face_fit[] DEFAULT NULL,
+  _lens_width INTEGER DEFAULT NULL,
+  _bridge_width INTEGER DEFAULT NULL,
+  _temple_length INTEGER DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH searched AS (
+    SELECT
+      p.id,
+      p.category_id,
+      p.base_price,
+      p.frame_shape,
+      p.rim_type,
+      p.face_fit,
+      (_category_ids IS NULL OR p.category_id = ANY(_category_ids)) AS in_category,
+      (_price_buckets IS NULL OR price_bucket(p.base_price) = ANY(_price_buckets)) AS in_price,
+      (_frame_shapes IS NULL OR p.frame_shape = ANY(_frame_shapes)) AS in_shape,
+      (_rim_types IS NULL OR p.rim_type = ANY(_rim_types)) AS in_rim,
+      (_face_fits IS NULL OR p.face_fit = ANY(_face_fits)) AS in_fit,
+      product_has_variant(p.id, _colors, _sizes, _materials, _lens_width, _bridge_width, _temple_length) AS in_variants
+    FROM products p, build_search_tsquery(_search) AS q
+    WHERE p.is_active = true
+      AND (_search IS NULL OR p.search_vector @@ q)
+  ),
+  variants AS (
+    SELECT s.id AS product_id, trim(v.color) AS color, trim(v.size) AS size, trim(v.material) AS material
+    FROM searched s
+    JOIN product_variants v ON v.product_id = s.id
+    WHERE s.in_category AND s.in_price AND s.in_shape AND s.in_rim AND s.in_fit
+      AND frame_fits(v.lens_width, v.bridge_width, v.temple_length, _lens_width, _bridge_width, _temple_length)
+  ),
+  facet_values AS (
+    SELECT 'colors' AS facet, color AS value, count(DISTINCT product_id) AS products
+    FROM variants
+    WHERE coalesce(color, '') <> ''
+      AND (_sizes IS NULL OR size = ANY(_sizes))
+      AND (_materials IS NULL OR material = ANY(_materials))
+    GROUP BY color
+
+    UNION ALL
+
+    SELECT 'sizes', size, count(DISTINCT product_id)
+    FROM variants
+    WHERE coalesce(size, '') <> ''
+      AND (_colors IS NULL OR color = ANY(_colors))
+      AND (_materials IS NULL OR material = ANY(_materials))
+    GROUP BY size
+
+    UNION ALL
+
+    SELECT 'materials', material, count(DISTINCT product_id)
+    FROM variants
+    WHERE coalesce(material, '') <> ''
+      AND (_colors IS NULL OR color = ANY(_colors))
+      AND (_sizes IS NULL OR size = ANY(_sizes))
+    GROUP BY material
+
+    UNION ALL
+
+    SELECT 'price_buckets', price_bucket(base_price), count(*)
+    FROM searched
+    WHERE in_category AND in_shape AND in_rim AND in_fit AND in_variants
+    GROUP BY price_bucket(base_price)
+
+    UNION ALL
+
+    SELECT 'categories', category_id::text, count(*)
+    FROM searched
+    WHERE category_id IS NOT NULL
+      AND in_price AND in_shape AND in_rim AND in_fit AND in_variants
+    GROUP BY category_id
+
+    UNION ALL
+
+    SELECT 'frame_shapes', frame_shape::text, count(*)
+    FROM searched
+    WHERE frame_shape IS NOT NULL
+      AND in_category AND in_price AND in_rim AND in_fit AND in_variants
+    GROUP BY frame_shape
+
+    UNION ALL
+
+    SELECT 'rim_types', rim_type::text, count(*)
+    FROM searched
+    WHERE rim_type IS NOT NULL
+      AND in_category AND in_price AND in_shape AND in_fit AND in_variants
+    GROUP BY rim_type
+
+    UNION ALL
+
+    SELECT 'face_fits', face_fit::text, count(*)
+    FROM searched
+    WHERE face_fit IS NOT NULL
+      AND in_category AND in_price AND in_shape AND in_rim AND in_variants
+    GROUP BY face_fit
+  )
+  SELECT jsonb_build_object(
+    'colors', '[]'::JSONB,
+    'sizes', '[]'::JSONB,
+    'materials', '[]'::JSONB,
+    'price_buckets', '[]'::JSONB,
+    'categories', '[]'::JSONB,
+    'frame_shapes', '[]'::JSONB,
+    'rim_types', '[]'::JSONB,
+    'face_fits', '[]'::JSONB
+  ) || coalesce((
+    SELECT jsonb_object_agg(facet, items)
+    FROM (
+      SELECT facet, jsonb_agg(jsonb_build_object('value', value, 'count', products) ORDER BY value) AS items
+      FROM facet_values
+      GROUP BY facet
+    ) grouped
+  ), '{}'::JSONB)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.shop_facets(
+  TEXT, UUID[], TEXT[], TEXT[], TEXT[], TEXT[], frame_shape[], rim_type[], face_fit[], INTEGER, INTEGER, INTEGER
+) TO anon, authenticated;
@@ -0,0 +1,9 @@
+-- Virtual try-on assets
+-- Each variant can carry a front-facing, transparent PNG of the frame for
+-- the try-on view on the product page. The image is cropped to the frame's
+-- outer edges; the browser scales it from the variant's lens and bridge
+-- widths and places it on the customer's eyes. Files go in the existing
+-- product-images bucket.
+
+ALTER TABLE product_variants
+  ADD COLUMN try_on_image TEXT;
@@ -0,0 +1,48 @@
+-- Tighten claim_guest_cart
+-- The guest's prescription files were matched with LIKE on the session id, so
+-- a session id of '%' matched every guest folder and handed all of those
+-- files to the caller. Cart session ids are always crypto.randomUUID() values:
+-- anything else is rejected, and the folder is compared exactly.
+
+CREATE OR REPLACE FUNCTION public.claim_guest_cart(_session_id TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _claimed INTEGER;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to claim a cart';
+  END IF;
+
+  IF coalesce(_session_id, '') = '' THEN
+    RETURN 0;
+  END IF;
+
+  IF _session_id !~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RAISE EXCEPTION 'Invalid cart session';
+  END IF;
+
+  UPDATE storage.objects
+  SET owner = _user_id,
+      owner_id = _user_id::text
+  WHERE bucket_id = 'prescriptions'
+    AND (storage.foldername(name))[1] = 'guest'
+    AND (storage.foldername(name))[2] = _session_id;
+
+  UPDATE cart_items
+  SET user_id = _user_id,
+      session_id = NULL
+  WHERE session_id = _session_id
+    AND user_id IS NULL;
+
+  GET DIAGNOSTICS _claimed = ROW_COUNT;
+  RETURN _claimed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_guest_cart(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_guest_cart(TEXT) TO authenticated;
@@ -0,0 +1,50 @@
+-- Guest receipt uploads
+-- Guests could upload any number of files anywhere under guest/ in the
+-- payment-receipts bucket, including another order's folder. A guest upload
+-- now has to go into guest/<lookup token>/ of a guest order that is waiting
+-- for a bank transfer receipt, matching what submit_payment_proof accepts,
+-- and each guest order takes at most 10 files.
+
+-- Whether a guest order with this lookup token can take another receipt file
+CREATE OR REPLACE FUNCTION public.guest_order_accepts_receipt(_guest_token TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM orders o
+    WHERE o.guest_token::text = _guest_token
+      AND o.user_id IS NULL
+      AND o.payment_method = 'bank_transfer'
+      AND o.status <> 'cancelled'
+      AND o.payment_status IN ('unpaid', 'failed')
+      AND NOT EXISTS (
+        SELECT 1 FROM payment_proofs pp WHERE pp.order_id = o.id AND pp.status = 'submitted'
+      )
+  )
+  AND (
+    SELECT count(*)
+    FROM storage.objects so
+    WHERE so.bucket_id = 'payment-receipts'
+      AND (storage.foldername(so.name))[1] = 'guest'
+      AND (storage.foldername(so.name))[2] = _guest_token
+  ) < 10
+$$;
+
+REVOKE ALL ON FUNCTION public.guest_order_accepts_receipt(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.guest_order_accepts_receipt(TEXT) TO anon;
+
+DROP POLICY IF EXISTS "Guests can upload payment receipts" ON storage.objects;
+
+CREATE POLICY "Guests can upload payment receipts"
+ON storage.objects FOR INSERT
+TO anon
+WITH CHECK (
+  bucket_id = 'payment-receipts'
+  AND (storage.foldername(name))[1] = 'guest'
+  AND array_length(storage.foldername(name), 1) = 2
+  AND guest_order_accepts_receipt((storage.foldername(name))[2])
+);
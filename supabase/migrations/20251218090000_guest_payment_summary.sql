@@ -0,0 +1,28 @@
+-- Guest payment summary
+-- guest_payment returned the order's lookup token to anyone holding a payment
+-- id, and payment ids travel through the providers' callback and return URLs.
+-- It now returns only what the payment result page shows; the guest's browser
+-- keeps the token it paid with for the order link and retries.
+
+CREATE OR REPLACE FUNCTION public.guest_payment(_payment_id UUID)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', p.id,
+    'order_id', p.order_id,
+    'status', p.status,
+    'method', p.method,
+    'amount', p.amount,
+    'order', jsonb_build_object('id', o.id, 'order_number', o.order_number)
+  )
+  FROM payments p
+  JOIN orders o ON o.id = p.order_id
+  WHERE p.id = _payment_id AND o.user_id IS NULL
+$$;
+
+REVOKE ALL ON FUNCTION public.guest_payment(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.guest_payment(UUID) TO anon, authenticated;
@@ -0,0 +1,124 @@
+-- Payment provider checks
+-- start_payment stored whichever provider the caller named, and
+-- record_payment_result never compared a callback's provider with the one the
+-- attempt was opened with. An attempt may now only be opened with the
+-- provider for the order's payment method, or the sandbox provider ("mock",
+-- whose callbacks payment-callback refuses unless PAYMENT_SANDBOX is set),
+-- and only that provider can settle it.
+
+CREATE OR REPLACE FUNCTION public.start_payment(_order_id UUID, _provider TEXT, _guest_token UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order orders%ROWTYPE;
+  _payment_id UUID;
+BEGIN
+  SELECT * INTO _order FROM orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT owns_order(_order, _guest_token) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT is_online_payment_method(_order.payment_method) THEN
+    RAISE EXCEPTION 'Order % is not paid online', _order.order_number;
+  END IF;
+
+  -- Each online method has a provider of the same name
+  IF _provider IS DISTINCT FROM _order.payment_method::text AND _provider IS DISTINCT FROM 'mock' THEN
+    RAISE EXCEPTION 'Order % can''t be paid through %', _order.order_number, _provider;
+  END IF;
+
+  IF _order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Order % has been cancelled', _order.order_number;
+  END IF;
+
+  IF _order.payment_status IN ('paid', 'refunded') THEN
+    RAISE EXCEPTION 'Order % has already been paid', _order.order_number;
+  END IF;
+
+  UPDATE payments
+  SET status = 'cancelled',
+      completed_at = NOW()
+  WHERE order_id = _order_id AND status = 'pending';
+
+  INSERT INTO payments (order_id, provider, method, amount)
+  VALUES (_order_id, _provider, _order.payment_method, _order.total)
+  RETURNING id INTO _payment_id;
+
+  UPDATE orders SET payment_status = 'pending' WHERE id = _order_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', _payment_id,
+    'order_number', _order.order_number,
+    'amount', _order.total,
+    'currency', 'PKR',
+    'phone', _order.shipping_address->>'phone',
+    'email', coalesce((SELECT email FROM profiles WHERE id = _order.user_id), _order.guest_email)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.start_payment(UUID, TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.start_payment(UUID, TEXT, UUID) TO anon, authenticated;
+
+
+-- The callback's provider must be the one the attempt was opened with
+DROP FUNCTION public.record_payment_result(UUID, payment_attempt_status, DECIMAL, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION public.record_payment_result(
+  _payment_id UUID,
+  _provider TEXT,
+  _status payment_attempt_status,
+  _amount DECIMAL,
+  _provider_reference TEXT,
+  _payload JSONB
+)
+RETURNS payment_attempt_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment payments%ROWTYPE;
+BEGIN
+  SELECT * INTO _payment FROM payments WHERE id = _payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF _provider IS DISTINCT FROM _payment.provider THEN
+    RAISE EXCEPTION 'Payment % was not made through %', _payment_id, _provider;
+  END IF;
+
+  IF _payment.status <> 'pending' THEN
+    RETURN _payment.status;
+  END IF;
+
+  IF _status = 'succeeded' AND _amount IS DISTINCT FROM _payment.amount THEN
+    RAISE EXCEPTION 'Paid amount % does not match %', _amount, _payment.amount;
+  END IF;
+
+  UPDATE payments
+  SET status = _status,
+      provider_reference = nullif(trim(_provider_reference), ''),
+      callback_payload = _payload,
+      completed_at = CASE WHEN _status <> 'pending' THEN NOW() END
+  WHERE id = _payment_id;
+
+  IF _status = 'succeeded' THEN
+    UPDATE orders SET payment_status = 'paid' WHERE id = _payment.order_id;
+  ELSIF _status IN ('failed', 'cancelled') THEN
+    UPDATE orders SET payment_status = 'failed'
+    WHERE id = _payment.order_id AND payment_status = 'pending';
+  END IF;
+
+  RETURN _status;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_payment_result(UUID, TEXT, payment_attempt_status, DECIMAL, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_result(UUID, TEXT, payment_attempt_status, DECIMAL, TEXT, JSONB) TO service_role;
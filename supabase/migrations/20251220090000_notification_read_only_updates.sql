@@ -0,0 +1,11 @@
+-- Notification updates
+-- The "Users can mark their own notifications read" policy picks the rows a
+-- customer may update but not the columns, so they could rewrite the title,
+-- body and link of their own notifications. Customers may now only set
+-- read_at; everything else is written by notify_user.
+--
+-- notify_user still skips guest orders, which have no account to notify;
+-- guests see their receipt's review on the guest order page instead.
+
+REVOKE UPDATE ON notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
@@ -0,0 +1,45 @@
+-- Keep tracking numbers across status changes
+-- update_order_status overwrote tracking_number with whatever it was given,
+-- so a status change without one (phone confirmation of a COD order, for
+-- example) wiped the stored number. A blank tracking number now leaves it as
+-- it is; staff clear it explicitly with _clear_tracking.
+
+DROP FUNCTION public.update_order_status(UUID, order_status, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  _order_id UUID,
+  _status order_status,
+  _tracking_number TEXT DEFAULT NULL,
+  _note TEXT DEFAULT NULL,
+  _clear_tracking BOOLEAN DEFAULT false
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission(auth.uid(), 'manage_orders') THEN
+    RAISE EXCEPTION 'You are not allowed to update orders';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', coalesce(_note, ''), true);
+
+  UPDATE orders
+  SET status = _status,
+      tracking_number = CASE
+        WHEN _clear_tracking THEN NULL
+        ELSE coalesce(nullif(trim(_tracking_number), ''), tracking_number)
+      END
+  WHERE id = _order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.update_order_status(UUID, order_status, TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_order_status(UUID, order_status, TEXT, TEXT, BOOLEAN) TO authenticated;
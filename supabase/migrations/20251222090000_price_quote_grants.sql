@@ -0,0 +1,6 @@
+-- Lock down price_quote_line
+-- price_quote_line is SECURITY DEFINER but was still executable by PUBLIC.
+-- Only the checkout functions (quote_cart and the order-placing functions)
+-- call it, and they run as its owner, so nobody else needs EXECUTE.
+
+REVOKE ALL ON FUNCTION public.price_quote_line(UUID, UUID, UUID, INTEGER, UUID[], lens_usage) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,29 @@
+-- Guest stock availability
+-- variant_availability only left out the signed-in caller's own holds, so a
+-- guest's checkout hold counted against them and the cart and product pages
+-- showed those units as gone. It now takes the guest cart session, like
+-- reserve_cart_stock and place_cart_order.
+
+DROP FUNCTION public.variant_availability(UUID[]);
+
+-- Stock the caller (or the guest cart for _session_id) can still buy: on-hand stock minus everyone else's holds
+CREATE OR REPLACE FUNCTION public.variant_availability(_variant_ids UUID[], _session_id TEXT DEFAULT NULL)
+RETURNS TABLE (variant_id UUID, available INTEGER)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    v.id,
+    greatest(
+      coalesce(v.stock, 0)
+        - reserved_stock(v.id, auth.uid(), CASE WHEN auth.uid() IS NULL THEN nullif(_session_id, '') END),
+      0
+    )
+  FROM product_variants v
+  WHERE v.id = ANY(_variant_ids)
+$$;
+
+REVOKE ALL ON FUNCTION public.variant_availability(UUID[], TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.variant_availability(UUID[], TEXT) TO anon, authenticated;
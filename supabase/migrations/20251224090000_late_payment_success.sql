@@ -0,0 +1,70 @@
+-- Late payment successes
+-- Retrying a payment cancels the pending attempt, and record_payment_result
+-- ignored callbacks for attempts that were no longer pending. When the first
+-- provider confirmed a payment after the customer had retried, the customer
+-- was charged but the order stayed unpaid. A verified success now settles a
+-- cancelled attempt too and marks the order paid; if the customer also paid
+-- the newer attempt, both show as succeeded for staff to refund one.
+
+CREATE OR REPLACE FUNCTION public.record_payment_result(
+  _payment_id UUID,
+  _provider TEXT,
+  _status payment_attempt_status,
+  _amount DECIMAL,
+  _provider_reference TEXT,
+  _payload JSONB
+)
+RETURNS payment_attempt_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment payments%ROWTYPE;
+BEGIN
+  SELECT * INTO _payment FROM payments WHERE id = _payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF _provider IS DISTINCT FROM _payment.provider THEN
+    RAISE EXCEPTION 'Payment % was not made through %', _payment_id, _provider;
+  END IF;
+
+  -- A retry cancels the attempt it replaces, but the customer may still have
+  -- finished paying it; a verified success is recorded all the same
+  IF _payment.status <> 'pending' AND NOT (_payment.status = 'cancelled' AND _status = 'succeeded') THEN
+    RETURN _payment.status;
+  END IF;
+
+  IF _status = 'succeeded' AND _amount IS DISTINCT FROM _payment.amount THEN
+    RAISE EXCEPTION 'Paid amount % does not match %', _amount, _payment.amount;
+  END IF;
+
+  UPDATE payments
+  SET status = _status,
+      provider_reference = nullif(trim(_provider_reference), ''),
+      callback_payload = _payload,
+      completed_at = CASE WHEN _status <> 'pending' THEN NOW() END
+  WHERE id = _payment_id;
+
+  IF _status = 'succeeded' THEN
+    UPDATE orders SET payment_status = 'paid' WHERE id = _payment.order_id;
+
+    -- Any newer attempt is no longer needed
+    UPDATE payments
+    SET status = 'cancelled',
+        completed_at = NOW()
+    WHERE order_id = _payment.order_id AND id <> _payment_id AND status = 'pending';
+  ELSIF _status IN ('failed', 'cancelled') THEN
+    UPDATE orders SET payment_status = 'failed'
+    WHERE id = _payment.order_id AND payment_status = 'pending';
+  END IF;
+
+  RETURN _status;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_payment_result(UUID, TEXT, payment_attempt_status, DECIMAL, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_result(UUID, TEXT, payment_attempt_status, DECIMAL, TEXT, JSONB) TO service_role;
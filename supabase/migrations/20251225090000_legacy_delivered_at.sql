@@ -0,0 +1,19 @@
+-- Delivery dates for orders delivered before history was kept
+-- The returns migration took delivered_at from order_status_history, but an
+-- order delivered before history was kept only has the row the history
+-- migration backfilled, stamped with the order's creation time. Those orders
+-- got their order date as the delivery date, closing the 30-day return window
+-- early. Backfilled rows (from_status IS NULL) don't say when the order was
+-- delivered, so such orders fall back to when the order was last updated.
+
+UPDATE orders o
+SET delivered_at = o.updated_at
+WHERE o.status = 'delivered'
+  AND o.updated_at IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1
+    FROM order_status_history h
+    WHERE h.order_id = o.id
+      AND h.to_status = 'delivered'
+      AND h.from_status IS NOT NULL
+  );
@@ -0,0 +1,119 @@
+-- Exchange replacements need no payment
+-- Replacement orders from exchanges are free but were created unpaid, so on
+-- an online payment method the customer was offered a payment that
+-- start_payment can never open (payments must be for more than 0). They are
+-- now created paid, which keeps them out of the online payment and bank
+-- transfer flows, and existing replacements are marked paid.
+
+CREATE OR REPLACE FUNCTION public.update_return_status(
+  _return_id UUID,
+  _status return_status,
+  _note TEXT DEFAULT NULL,
+  _refund_amount DECIMAL DEFAULT NULL,
+  _refund_reference TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _return return_requests%ROWTYPE;
+  _item order_items%ROWTYPE;
+  _order orders%ROWTYPE;
+  _variant_id UUID;
+  _available INTEGER;
+  _replacement_id UUID;
+BEGIN
+  IF NOT has_permission(_user_id, 'manage_orders') THEN
+    RAISE EXCEPTION 'You are not allowed to manage returns';
+  END IF;
+
+  SELECT * INTO _return FROM return_requests WHERE id = _return_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+
+  IF NOT return_status_transition_allowed(_return.type, _return.status, _status) THEN
+    RAISE EXCEPTION 'Return % cannot move from % to %', _return.return_number, _return.status, _status;
+  END IF;
+
+  SELECT * INTO _item FROM order_items WHERE id = _return.order_item_id;
+  SELECT * INTO _order FROM orders WHERE id = _return.order_id;
+
+  IF _status = 'received' AND _item.variant_id IS NOT NULL THEN
+    UPDATE product_variants
+    SET stock = coalesce(stock, 0) + _return.quantity
+    WHERE id = _item.variant_id;
+  END IF;
+
+  IF _status = 'refunded' THEN
+    IF _refund_amount IS NULL OR _refund_amount < 0
+       OR _refund_amount > _item.unit_price * _return.quantity THEN
+      RAISE EXCEPTION 'Refund must be between 0 and Rs. %', _item.unit_price * _return.quantity;
+    END IF;
+  END IF;
+
+  IF _status = 'exchanged' THEN
+    _variant_id := coalesce(_return.exchange_variant_id, _item.variant_id);
+
+    IF _variant_id IS NOT NULL THEN
+      SELECT coalesce(stock, 0) - reserved_stock(id) INTO _available
+      FROM product_variants
+      WHERE id = _variant_id
+      FOR UPDATE;
+
+      IF coalesce(_available, 0) < _return.quantity THEN
+        RAISE EXCEPTION 'Not enough stock to send the replacement';
+      END IF;
+
+      UPDATE product_variants SET stock = stock - _return.quantity WHERE id = _variant_id;
+    END IF;
+
+    -- The replacement ships free to the original address with the same lenses.
+    -- There is nothing to pay, so it starts out paid.
+    INSERT INTO orders (
+      user_id, order_number, subtotal, shipping_cost, total, payment_method, payment_status,
+      shipping_address, customer_notes, status
+    )
+    VALUES (
+      _order.user_id, generate_order_number(), 0, 0, 0, _order.payment_method, 'paid',
+      _order.shipping_address, 'Replacement for return ' || _return.return_number, 'pending'
+    )
+    RETURNING id INTO _replacement_id;
+
+    INSERT INTO order_items (
+      order_id, product_id, variant_id, lens_type_id, quantity,
+      unit_price, total_price, has_eyesight, prescription_data, prescription_image_url, prescription_id,
+      lens_usage, lens_options
+    )
+    VALUES (
+      _replacement_id, _item.product_id, _variant_id, _item.lens_type_id, _return.quantity,
+      0, 0, _item.has_eyesight, _item.prescription_data, _item.prescription_image_url, _item.prescription_id,
+      _item.lens_usage, _item.lens_options
+    );
+  END IF;
+
+  UPDATE return_requests
+  SET status = _status,
+      staff_note = coalesce(nullif(trim(_note), ''), staff_note),
+      handled_by = _user_id,
+      approved_at = CASE WHEN _status = 'approved' THEN NOW() ELSE approved_at END,
+      received_at = CASE WHEN _status = 'received' THEN NOW() ELSE received_at END,
+      resolved_at = CASE WHEN _status IN ('rejected', 'refunded', 'exchanged') THEN NOW() ELSE resolved_at END,
+      refund_amount = CASE WHEN _status = 'refunded' THEN _refund_amount ELSE refund_amount END,
+      refund_reference = CASE WHEN _status = 'refunded' THEN nullif(trim(_refund_reference), '') ELSE refund_reference END,
+      replacement_order_id = coalesce(_replacement_id, replacement_order_id)
+  WHERE id = _return_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.update_return_status(UUID, return_status, TEXT, DECIMAL, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_return_status(UUID, return_status, TEXT, DECIMAL, TEXT) TO authenticated;
+
+UPDATE orders
+SET payment_status = 'paid'
+WHERE id IN (SELECT replacement_order_id FROM return_requests WHERE replacement_order_id IS NOT NULL)
+  AND total = 0
+  AND payment_status <> 'paid';
@@ -0,0 +1,53 @@
+-- Keep the totals of cancelled orders
+-- restore_stock_on_cancel zeroed subtotal, shipping_cost and total when an
+-- order was cancelled, erasing what a paid order had been charged. The totals
+-- are now kept as they were and the amount the order no longer owes (its
+-- whole total, to be refunded if it was paid) goes into cancelled_amount.
+-- Units cancelled from an order that stays open still come off its totals in
+-- cancel_order, so net order value is always total - cancelled_amount.
+--
+-- Orders cancelled before this migration already lost their totals and are
+-- left as they are.
+
+ALTER TABLE orders
+  ADD COLUMN cancelled_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+
+CREATE OR REPLACE FUNCTION public.restore_stock_on_cancel()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item RECORD;
+BEGIN
+  IF NEW.status <> 'cancelled' OR OLD.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR _item IN
+    SELECT id, variant_id, quantity - cancelled_quantity AS open_quantity
+    FROM order_items
+    WHERE order_id = NEW.id AND cancelled_quantity < quantity
+    ORDER BY variant_id
+  LOOP
+    IF _item.variant_id IS NOT NULL THEN
+      UPDATE product_variants
+      SET stock = coalesce(stock, 0) + _item.open_quantity
+      WHERE id = _item.variant_id;
+    END IF;
+
+    UPDATE order_items
+    SET cancelled_quantity = quantity,
+        total_price = 0,
+        cancellation_reason = coalesce(cancellation_reason, NEW.cancellation_reason)
+    WHERE id = _item.id;
+  END LOOP;
+
+  NEW.cancelled_amount := coalesce(NEW.total, 0);
+  NEW.cancelled_at := NOW();
+  NEW.cancelled_by := auth.uid();
+  RETURN NEW;
+END;
+$$;